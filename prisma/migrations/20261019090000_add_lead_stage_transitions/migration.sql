@@ -0,0 +1,27 @@
+-- CreateTable LeadStageTransition: records every lead pipeline status change
+CREATE TABLE `lead_stage_transitions` (
+    `id` VARCHAR(191) NOT NULL,
+    `fromStatus` ENUM('NEW', 'CONTACTED', 'ENGAGED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CLOSED_WON', 'CLOSED_LOST', 'FOLLOW_UP') NULL,
+    `toStatus` ENUM('NEW', 'CONTACTED', 'ENGAGED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CLOSED_WON', 'CLOSED_LOST', 'FOLLOW_UP') NOT NULL,
+    `source` VARCHAR(191) NOT NULL DEFAULT 'MANUAL',
+    `note` TEXT NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `changedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `lead_stage_transitions_tenantId_idx`(`tenantId`),
+    INDEX `lead_stage_transitions_leadId_createdAt_idx`(`leadId`, `createdAt`),
+    INDEX `lead_stage_transitions_tenantId_createdAt_idx`(`tenantId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_stage_transitions` ADD CONSTRAINT `lead_stage_transitions_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_stage_transitions` ADD CONSTRAINT `lead_stage_transitions_changedById_fkey`
+    FOREIGN KEY (`changedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_stage_transitions` ADD CONSTRAINT `lead_stage_transitions_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateTable Pipeline: tenant-defined sales pipelines, optionally per insurance type
+CREATE TABLE `pipelines` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `insuranceType` ENUM('LIFE', 'HEALTH', 'AUTO', 'HOME', 'BUSINESS', 'TRAVEL', 'OTHER') NULL,
+    `isDefault` BOOLEAN NOT NULL DEFAULT false,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `pipelines_tenantId_idx`(`tenantId`),
+    INDEX `pipelines_tenantId_insuranceType_idx`(`tenantId`, `insuranceType`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable PipelineStage: named, ordered, colour-coded stages of a pipeline
+CREATE TABLE `pipeline_stages` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `color` VARCHAR(191) NOT NULL DEFAULT '#3B82F6',
+    `position` INTEGER NOT NULL,
+    `outcome` VARCHAR(191) NOT NULL DEFAULT 'OPEN',
+    `status` ENUM('NEW', 'CONTACTED', 'ENGAGED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CLOSED_WON', 'CLOSED_LOST', 'FOLLOW_UP') NOT NULL,
+    `pipelineId` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `pipeline_stages_tenantId_idx`(`tenantId`),
+    INDEX `pipeline_stages_pipelineId_position_idx`(`pipelineId`, `position`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable: lead position within a custom pipeline
+ALTER TABLE `leads` ADD COLUMN `pipelineId` VARCHAR(191) NULL,
+    ADD COLUMN `pipelineStageId` VARCHAR(191) NULL;
+
+CREATE INDEX `leads_pipelineId_idx` ON `leads`(`pipelineId`);
+CREATE INDEX `leads_pipelineStageId_idx` ON `leads`(`pipelineStageId`);
+
+-- AlterTable: stage references on transition history
+ALTER TABLE `lead_stage_transitions` ADD COLUMN `fromStageId` VARCHAR(191) NULL,
+    ADD COLUMN `toStageId` VARCHAR(191) NULL;
+
+-- AddForeignKey
+ALTER TABLE `pipelines` ADD CONSTRAINT `pipelines_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `pipeline_stages` ADD CONSTRAINT `pipeline_stages_pipelineId_fkey`
+    FOREIGN KEY (`pipelineId`) REFERENCES `pipelines`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `leads` ADD CONSTRAINT `leads_pipelineId_fkey`
+    FOREIGN KEY (`pipelineId`) REFERENCES `pipelines`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `leads` ADD CONSTRAINT `leads_pipelineStageId_fkey`
+    FOREIGN KEY (`pipelineStageId`) REFERENCES `pipeline_stages`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_stage_transitions` ADD CONSTRAINT `lead_stage_transitions_fromStageId_fkey`
+    FOREIGN KEY (`fromStageId`) REFERENCES `pipeline_stages`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_stage_transitions` ADD CONSTRAINT `lead_stage_transitions_toStageId_fkey`
+    FOREIGN KEY (`toStageId`) REFERENCES `pipeline_stages`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
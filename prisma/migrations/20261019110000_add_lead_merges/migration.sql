@@ -0,0 +1,26 @@
+-- CreateTable LeadMerge: audit record of duplicate leads merged into a survivor
+CREATE TABLE `lead_merges` (
+    `id` VARCHAR(191) NOT NULL,
+    `mergedLeadId` VARCHAR(191) NOT NULL,
+    `mergedLeadData` JSON NOT NULL,
+    `movedRecords` JSON NOT NULL,
+    `matchReasons` JSON NULL,
+    `survivorLeadId` VARCHAR(191) NOT NULL,
+    `mergedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `lead_merges_tenantId_idx`(`tenantId`),
+    INDEX `lead_merges_survivorLeadId_idx`(`survivorLeadId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_survivorLeadId_fkey`
+    FOREIGN KEY (`survivorLeadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_mergedById_fkey`
+    FOREIGN KEY (`mergedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_merges` ADD CONSTRAINT `lead_merges_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateTable LeadImport: progress and results of bulk lead imports
+CREATE TABLE `lead_imports` (
+    `id` VARCHAR(191) NOT NULL,
+    `fileName` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `columnMapping` JSON NOT NULL,
+    `duplicateStrategy` VARCHAR(191) NOT NULL DEFAULT 'SKIP',
+    `totalRows` INTEGER NOT NULL DEFAULT 0,
+    `processedRows` INTEGER NOT NULL DEFAULT 0,
+    `createdCount` INTEGER NOT NULL DEFAULT 0,
+    `duplicateCount` INTEGER NOT NULL DEFAULT 0,
+    `failedCount` INTEGER NOT NULL DEFAULT 0,
+    `errors` JSON NULL,
+    `jobId` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_imports_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_imports` ADD CONSTRAINT `lead_imports_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_imports` ADD CONSTRAINT `lead_imports_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
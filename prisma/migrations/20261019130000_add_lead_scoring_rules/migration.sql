@@ -0,0 +1,34 @@
+-- CreateTable LeadScoringRule: tenant-defined lead scoring rules
+CREATE TABLE `lead_scoring_rules` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `ruleType` VARCHAR(191) NOT NULL,
+    `field` VARCHAR(191) NULL,
+    `operator` VARCHAR(191) NULL,
+    `values` JSON NULL,
+    `minValue` DOUBLE NULL,
+    `maxValue` DOUBLE NULL,
+    `eventType` VARCHAR(191) NULL,
+    `points` DOUBLE NOT NULL,
+    `maxPoints` DOUBLE NULL,
+    `decayHalfLifeDays` DOUBLE NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_scoring_rules_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_scoring_rules` ADD CONSTRAINT `lead_scoring_rules_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable: per-lead score breakdown
+ALTER TABLE `leads` ADD COLUMN `scoreBreakdown` JSON NULL,
+    ADD COLUMN `scoreUpdatedAt` DATETIME(3) NULL;
+
+-- AlterTable: email open tracking
+ALTER TABLE `email_messages` ADD COLUMN `openedAt` DATETIME(3) NULL;
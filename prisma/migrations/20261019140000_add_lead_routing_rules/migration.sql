@@ -0,0 +1,50 @@
+-- CreateTable LeadRoutingRule: tenant-defined lead routing rules
+CREATE TABLE `lead_routing_rules` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `priority` INTEGER NOT NULL DEFAULT 0,
+    `strategy` VARCHAR(191) NOT NULL DEFAULT 'ROUND_ROBIN',
+    `insuranceTypes` JSON NULL,
+    `sources` JSON NULL,
+    `states` JSON NULL,
+    `cities` JSON NULL,
+    `maxOpenLeads` INTEGER NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_routing_rules_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable LeadRoutingRuleMember: agent pool of a routing rule
+CREATE TABLE `lead_routing_rule_members` (
+    `id` VARCHAR(191) NOT NULL,
+    `weight` INTEGER NOT NULL DEFAULT 1,
+    `assignedCount` INTEGER NOT NULL DEFAULT 0,
+    `lastAssignedAt` DATETIME(3) NULL,
+    `ruleId` VARCHAR(191) NOT NULL,
+    `userId` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `lead_routing_rule_members_ruleId_userId_key`(`ruleId`, `userId`),
+    INDEX `lead_routing_rule_members_tenantId_idx`(`tenantId`),
+    INDEX `lead_routing_rule_members_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_routing_rules` ADD CONSTRAINT `lead_routing_rules_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_routing_rule_members` ADD CONSTRAINT `lead_routing_rule_members_ruleId_fkey`
+    FOREIGN KEY (`ruleId`) REFERENCES `lead_routing_rules`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_routing_rule_members` ADD CONSTRAINT `lead_routing_rule_members_userId_fkey`
+    FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_routing_rule_members` ADD CONSTRAINT `lead_routing_rule_members_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable CustomFieldDefinition: tenant-defined custom fields on leads and clients
+CREATE TABLE `custom_field_definitions` (
+    `id` VARCHAR(191) NOT NULL,
+    `entityType` VARCHAR(191) NOT NULL,
+    `key` VARCHAR(191) NOT NULL,
+    `label` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `fieldType` VARCHAR(191) NOT NULL,
+    `options` JSON NULL,
+    `isRequired` BOOLEAN NOT NULL DEFAULT false,
+    `minValue` DOUBLE NULL,
+    `maxValue` DOUBLE NULL,
+    `maxLength` INTEGER NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `custom_field_definitions_tenantId_entityType_key_key`(`tenantId`, `entityType`, `key`),
+    INDEX `custom_field_definitions_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable: custom field values
+ALTER TABLE `leads` ADD COLUMN `customFields` JSON NULL;
+
+ALTER TABLE `clients` ADD COLUMN `customFields` JSON NULL;
+
+-- AddForeignKey
+ALTER TABLE `custom_field_definitions` ADD CONSTRAINT `custom_field_definitions_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
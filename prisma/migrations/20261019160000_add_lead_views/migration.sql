@@ -0,0 +1,31 @@
+-- CreateTable LeadView: saved lead list filters
+CREATE TABLE `lead_views` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `visibility` VARCHAR(191) NOT NULL DEFAULT 'PRIVATE',
+    `filter` JSON NOT NULL,
+    `isPinned` BOOLEAN NOT NULL DEFAULT false,
+    `createdById` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_views_tenantId_idx`(`tenantId`),
+    INDEX `lead_views_createdById_idx`(`createdById`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable: contact groups backed by a saved view
+ALTER TABLE `contact_groups` ADD COLUMN `leadViewId` VARCHAR(191) NULL,
+    ADD COLUMN `lastSyncedAt` DATETIME(3) NULL;
+
+-- AddForeignKey
+ALTER TABLE `lead_views` ADD CONSTRAINT `lead_views_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_views` ADD CONSTRAINT `lead_views_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `contact_groups` ADD CONSTRAINT `contact_groups_leadViewId_fkey`
+    FOREIGN KEY (`leadViewId`) REFERENCES `lead_views`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- AlterTable: first real outbound contact
+ALTER TABLE `leads` ADD COLUMN `firstContactedAt` DATETIME(3) NULL;
+
+-- CreateTable LeadSlaPolicy: tenant response-time and stage-age SLAs
+CREATE TABLE `lead_sla_policies` (
+    `id` VARCHAR(191) NOT NULL,
+    `urgentMinUrgency` INTEGER NOT NULL DEFAULT 4,
+    `urgentFirstContactMinutes` INTEGER NOT NULL DEFAULT 30,
+    `firstContactHours` INTEGER NOT NULL DEFAULT 24,
+    `maxStageAgeDays` INTEGER NULL DEFAULT 7,
+    `stageAgeLimits` JSON NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `lead_sla_policies_tenantId_key`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable LeadSlaBreach: leads missing an SLA
+CREATE TABLE `lead_sla_breaches` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `status` ENUM('NEW', 'CONTACTED', 'ENGAGED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CLOSED_WON', 'CLOSED_LOST', 'FOLLOW_UP') NOT NULL,
+    `dueAt` DATETIME(3) NOT NULL,
+    `breachCount` INTEGER NOT NULL DEFAULT 1,
+    `lastNotifiedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `escalatedAt` DATETIME(3) NULL,
+    `resolvedAt` DATETIME(3) NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `assignedUserId` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_sla_breaches_tenantId_idx`(`tenantId`),
+    INDEX `lead_sla_breaches_tenantId_resolvedAt_idx`(`tenantId`, `resolvedAt`),
+    INDEX `lead_sla_breaches_leadId_idx`(`leadId`),
+    INDEX `lead_sla_breaches_assignedUserId_idx`(`assignedUserId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_sla_policies` ADD CONSTRAINT `lead_sla_policies_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_sla_breaches` ADD CONSTRAINT `lead_sla_breaches_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_sla_breaches` ADD CONSTRAINT `lead_sla_breaches_assignedUserId_fkey`
+    FOREIGN KEY (`assignedUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_sla_breaches` ADD CONSTRAINT `lead_sla_breaches_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,69 @@
+-- CreateTable Tag: tenant-defined lead and client tags
+CREATE TABLE `tags` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `color` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `tags_tenantId_name_key`(`tenantId`, `name`),
+    INDEX `tags_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable LeadTag
+CREATE TABLE `lead_tags` (
+    `id` VARCHAR(191) NOT NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `tagId` VARCHAR(191) NOT NULL,
+    `assignedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `lead_tags_leadId_tagId_key`(`leadId`, `tagId`),
+    INDEX `lead_tags_tenantId_idx`(`tenantId`),
+    INDEX `lead_tags_tagId_idx`(`tagId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable ClientTag
+CREATE TABLE `client_tags` (
+    `id` VARCHAR(191) NOT NULL,
+    `clientId` VARCHAR(191) NOT NULL,
+    `tagId` VARCHAR(191) NOT NULL,
+    `assignedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `client_tags_clientId_tagId_key`(`clientId`, `tagId`),
+    INDEX `client_tags_tenantId_idx`(`tenantId`),
+    INDEX `client_tags_tagId_idx`(`tagId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable: tag filter on campaign audiences
+ALTER TABLE `campaigns` ADD COLUMN `audienceTags` JSON NULL;
+
+-- AddForeignKey
+ALTER TABLE `tags` ADD CONSTRAINT `tags_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_tags` ADD CONSTRAINT `lead_tags_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_tags` ADD CONSTRAINT `lead_tags_tagId_fkey`
+    FOREIGN KEY (`tagId`) REFERENCES `tags`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_tags` ADD CONSTRAINT `lead_tags_assignedById_fkey`
+    FOREIGN KEY (`assignedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `client_tags` ADD CONSTRAINT `client_tags_clientId_fkey`
+    FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `client_tags` ADD CONSTRAINT `client_tags_tagId_fkey`
+    FOREIGN KEY (`tagId`) REFERENCES `tags`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `client_tags` ADD CONSTRAINT `client_tags_assignedById_fkey`
+    FOREIGN KEY (`assignedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
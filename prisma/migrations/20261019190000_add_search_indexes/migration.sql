@@ -0,0 +1,14 @@
+-- CreateIndex: full-text indexes behind global search
+CREATE FULLTEXT INDEX `leads_search_idx` ON `leads`(`firstName`, `lastName`, `email`, `phone`, `inquiryDetails`);
+
+CREATE FULLTEXT INDEX `clients_search_idx` ON `clients`(`firstName`, `lastName`, `email`, `phone`, `policyNumber`);
+
+CREATE FULLTEXT INDEX `chat_messages_search_idx` ON `chat_messages`(`content`);
+
+CREATE FULLTEXT INDEX `email_messages_search_idx` ON `email_messages`(`subject`, `content`);
+
+CREATE FULLTEXT INDEX `communications_search_idx` ON `communications`(`subject`, `content`);
+
+CREATE FULLTEXT INDEX `tasks_search_idx` ON `tasks`(`title`, `description`);
+
+CREATE FULLTEXT INDEX `tickets_search_idx` ON `tickets`(`title`, `description`);
@@ -0,0 +1,35 @@
+-- CreateTable LeadActivity: reassignments and score changes for the lead timeline
+CREATE TABLE `lead_activities` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `source` VARCHAR(191) NOT NULL DEFAULT 'MANUAL',
+    `note` TEXT NULL,
+    `fromUserId` VARCHAR(191) NULL,
+    `toUserId` VARCHAR(191) NULL,
+    `fromScore` DOUBLE NULL,
+    `toScore` DOUBLE NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `changedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `lead_activities_tenantId_idx`(`tenantId`),
+    INDEX `lead_activities_leadId_createdAt_idx`(`leadId`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_fromUserId_fkey`
+    FOREIGN KEY (`fromUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_toUserId_fkey`
+    FOREIGN KEY (`toUserId`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_changedById_fkey`
+    FOREIGN KEY (`changedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_activities` ADD CONSTRAINT `lead_activities_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- AlterTable: attribution of web form leads
+ALTER TABLE `leads` ADD COLUMN `attribution` JSON NULL;
+
+-- CreateTable LeadForm: embeddable web-to-lead forms
+CREATE TABLE `lead_forms` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `fields` JSON NOT NULL,
+    `insuranceType` ENUM('LIFE', 'HEALTH', 'AUTO', 'HOME', 'BUSINESS', 'TRAVEL', 'OTHER') NOT NULL,
+    `urgency` INTEGER NOT NULL DEFAULT 1,
+    `thankYouMessage` TEXT NULL,
+    `redirectUrl` TEXT NULL,
+    `allowedDomains` JSON NULL,
+    `minSubmitSeconds` INTEGER NOT NULL DEFAULT 3,
+    `tokenVersion` INTEGER NOT NULL DEFAULT 1,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `submissionCount` INTEGER NOT NULL DEFAULT 0,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `lead_forms_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable LeadFormSubmission: accepted and spam submissions
+CREATE TABLE `lead_form_submissions` (
+    `id` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL,
+    `spamReason` VARCHAR(191) NULL,
+    `data` JSON NOT NULL,
+    `attribution` JSON NULL,
+    `ipAddress` VARCHAR(191) NULL,
+    `userAgent` TEXT NULL,
+    `formId` VARCHAR(191) NOT NULL,
+    `leadId` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `lead_form_submissions_tenantId_idx`(`tenantId`),
+    INDEX `lead_form_submissions_formId_createdAt_idx`(`formId`, `createdAt`),
+    INDEX `lead_form_submissions_ipAddress_createdAt_idx`(`ipAddress`, `createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `lead_forms` ADD CONSTRAINT `lead_forms_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_forms` ADD CONSTRAINT `lead_forms_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_form_submissions` ADD CONSTRAINT `lead_form_submissions_formId_fkey`
+    FOREIGN KEY (`formId`) REFERENCES `lead_forms`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `lead_form_submissions` ADD CONSTRAINT `lead_form_submissions_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lead_form_submissions` ADD CONSTRAINT `lead_form_submissions_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,58 @@
+-- CreateTable ApiKey: partner keys for the public lead API
+CREATE TABLE `api_keys` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `partnerName` VARCHAR(191) NOT NULL,
+    `keyPrefix` VARCHAR(191) NOT NULL,
+    `keyHash` VARCHAR(191) NOT NULL,
+    `scopes` JSON NOT NULL,
+    `rateLimitPerMinute` INTEGER NOT NULL DEFAULT 60,
+    `lastUsedAt` DATETIME(3) NULL,
+    `lastUsedIp` VARCHAR(191) NULL,
+    `expiresAt` DATETIME(3) NULL,
+    `revokedAt` DATETIME(3) NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `api_keys_keyHash_key`(`keyHash`),
+    INDEX `api_keys_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable ApiLeadSubmission: leads pushed by partners, with idempotency keys
+CREATE TABLE `api_lead_submissions` (
+    `id` VARCHAR(191) NOT NULL,
+    `idempotencyKey` VARCHAR(255) NULL,
+    `requestHash` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL,
+    `externalId` VARCHAR(191) NULL,
+    `response` JSON NULL,
+    `apiKeyId` VARCHAR(191) NOT NULL,
+    `leadId` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `api_lead_submissions_apiKeyId_idempotencyKey_key`(`apiKeyId`, `idempotencyKey`),
+    INDEX `api_lead_submissions_apiKeyId_createdAt_idx`(`apiKeyId`, `createdAt`),
+    INDEX `api_lead_submissions_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `api_keys` ADD CONSTRAINT `api_keys_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `api_lead_submissions` ADD CONSTRAINT `api_lead_submissions_apiKeyId_fkey`
+    FOREIGN KEY (`apiKeyId`) REFERENCES `api_keys`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `api_lead_submissions` ADD CONSTRAINT `api_lead_submissions_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `api_lead_submissions` ADD CONSTRAINT `api_lead_submissions_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
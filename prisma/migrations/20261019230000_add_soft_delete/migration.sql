@@ -0,0 +1,21 @@
+-- AlterTable: recycle bin retention per tenant
+ALTER TABLE `tenants` ADD COLUMN `recycleBinRetentionDays` INTEGER NOT NULL DEFAULT 30;
+
+-- AlterTable: soft delete for leads and clients
+ALTER TABLE `leads` ADD COLUMN `deletedAt` DATETIME(3) NULL,
+    ADD COLUMN `deletedById` VARCHAR(191) NULL;
+
+ALTER TABLE `clients` ADD COLUMN `deletedAt` DATETIME(3) NULL,
+    ADD COLUMN `deletedById` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `leads_tenantId_deletedAt_idx` ON `leads`(`tenantId`, `deletedAt`);
+
+CREATE INDEX `clients_tenantId_deletedAt_idx` ON `clients`(`tenantId`, `deletedAt`);
+
+-- AddForeignKey
+ALTER TABLE `leads` ADD CONSTRAINT `leads_deletedById_fkey`
+    FOREIGN KEY (`deletedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `clients` ADD CONSTRAINT `clients_deletedById_fkey`
+    FOREIGN KEY (`deletedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
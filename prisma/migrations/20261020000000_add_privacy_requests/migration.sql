@@ -0,0 +1,31 @@
+-- AlterTable: mark leads and clients anonymized on request
+ALTER TABLE `leads` ADD COLUMN `erasedAt` DATETIME(3) NULL;
+
+ALTER TABLE `clients` ADD COLUMN `erasedAt` DATETIME(3) NULL;
+
+-- CreateTable PrivacyRequest: log of data subject exports and erasures
+CREATE TABLE `privacy_requests` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `subjectType` VARCHAR(191) NOT NULL,
+    `subjectId` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL,
+    `reason` TEXT NULL,
+    `summary` JSON NULL,
+    `error` TEXT NULL,
+    `requestedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `completedAt` DATETIME(3) NULL,
+
+    INDEX `privacy_requests_tenantId_createdAt_idx`(`tenantId`, `createdAt`),
+    INDEX `privacy_requests_subjectType_subjectId_idx`(`subjectType`, `subjectId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `privacy_requests` ADD CONSTRAINT `privacy_requests_requestedById_fkey`
+    FOREIGN KEY (`requestedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `privacy_requests` ADD CONSTRAINT `privacy_requests_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
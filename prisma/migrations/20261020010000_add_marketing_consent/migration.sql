@@ -0,0 +1,80 @@
+-- AlterTable: opt-in requirement and skip counters
+ALTER TABLE `tenants` ADD COLUMN `marketingRequiresOptIn` BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE `campaigns` ADD COLUMN `skippedCount` INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE `whatsapp_campaigns` ADD COLUMN `skippedCount` INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable MarketingConsent: per-lead, per-channel marketing consent
+CREATE TABLE `marketing_consents` (
+    `id` VARCHAR(191) NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL,
+    `source` VARCHAR(191) NOT NULL,
+    `note` TEXT NULL,
+    `recordedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `leadId` VARCHAR(191) NOT NULL,
+    `recordedById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `marketing_consents_leadId_channel_key`(`leadId`, `channel`),
+    INDEX `marketing_consents_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable MarketingSuppression: tenant-wide do-not-contact list
+CREATE TABLE `marketing_suppressions` (
+    `id` VARCHAR(191) NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `value` VARCHAR(191) NOT NULL,
+    `reason` VARCHAR(191) NOT NULL,
+    `note` TEXT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `marketing_suppressions_tenantId_channel_value_key`(`tenantId`, `channel`, `value`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable CampaignRecipientSkip: campaign recipients left out by consent checks
+CREATE TABLE `campaign_recipient_skips` (
+    `id` VARCHAR(191) NOT NULL,
+    `channel` VARCHAR(191) NOT NULL,
+    `reason` VARCHAR(191) NOT NULL,
+    `campaignId` VARCHAR(191) NOT NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `campaign_recipient_skips_tenantId_idx`(`tenantId`),
+    INDEX `campaign_recipient_skips_campaignId_idx`(`campaignId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `marketing_consents` ADD CONSTRAINT `marketing_consents_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `marketing_consents` ADD CONSTRAINT `marketing_consents_recordedById_fkey`
+    FOREIGN KEY (`recordedById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `marketing_consents` ADD CONSTRAINT `marketing_consents_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `marketing_suppressions` ADD CONSTRAINT `marketing_suppressions_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `marketing_suppressions` ADD CONSTRAINT `marketing_suppressions_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `campaign_recipient_skips` ADD CONSTRAINT `campaign_recipient_skips_campaignId_fkey`
+    FOREIGN KEY (`campaignId`) REFERENCES `campaigns`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `campaign_recipient_skips` ADD CONSTRAINT `campaign_recipient_skips_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `campaign_recipient_skips` ADD CONSTRAINT `campaign_recipient_skips_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
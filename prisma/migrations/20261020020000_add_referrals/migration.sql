@@ -0,0 +1,89 @@
+-- AlterTable: referral settings and referrers of leads and clients
+ALTER TABLE `tenants` ADD COLUMN `referralLandingUrl` VARCHAR(191) NULL,
+    ADD COLUMN `referralRewardAmount` DECIMAL(10, 2) NULL;
+
+ALTER TABLE `leads` ADD COLUMN `referrerId` VARCHAR(191) NULL;
+
+ALTER TABLE `clients` ADD COLUMN `referrerId` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `leads_referrerId_idx` ON `leads`(`referrerId`);
+
+CREATE INDEX `clients_referrerId_idx` ON `clients`(`referrerId`);
+
+-- CreateTable Referrer: leads, clients and external partners who refer leads
+CREATE TABLE `referrers` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `code` VARCHAR(191) NOT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `rewardAmount` DECIMAL(10, 2) NULL,
+    `notes` TEXT NULL,
+    `name` VARCHAR(191) NULL,
+    `email` VARCHAR(191) NULL,
+    `phone` VARCHAR(191) NULL,
+    `company` VARCHAR(191) NULL,
+    `leadId` VARCHAR(191) NULL,
+    `clientId` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `referrers_leadId_key`(`leadId`),
+    UNIQUE INDEX `referrers_clientId_key`(`clientId`),
+    UNIQUE INDEX `referrers_tenantId_code_key`(`tenantId`, `code`),
+    INDEX `referrers_tenantId_idx`(`tenantId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable ReferralReward: rewards owed for referred leads that became clients
+CREATE TABLE `referral_rewards` (
+    `id` VARCHAR(191) NOT NULL,
+    `amount` DECIMAL(10, 2) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'PENDING',
+    `note` TEXT NULL,
+    `paidAt` DATETIME(3) NULL,
+    `referrerId` VARCHAR(191) NOT NULL,
+    `leadId` VARCHAR(191) NULL,
+    `clientId` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `referral_rewards_leadId_key`(`leadId`),
+    INDEX `referral_rewards_tenantId_status_idx`(`tenantId`, `status`),
+    INDEX `referral_rewards_referrerId_idx`(`referrerId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `leads` ADD CONSTRAINT `leads_referrerId_fkey`
+    FOREIGN KEY (`referrerId`) REFERENCES `referrers`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `clients` ADD CONSTRAINT `clients_referrerId_fkey`
+    FOREIGN KEY (`referrerId`) REFERENCES `referrers`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `referrers` ADD CONSTRAINT `referrers_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `referrers` ADD CONSTRAINT `referrers_clientId_fkey`
+    FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `referrers` ADD CONSTRAINT `referrers_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `referrers` ADD CONSTRAINT `referrers_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `referral_rewards` ADD CONSTRAINT `referral_rewards_referrerId_fkey`
+    FOREIGN KEY (`referrerId`) REFERENCES `referrers`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `referral_rewards` ADD CONSTRAINT `referral_rewards_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `referral_rewards` ADD CONSTRAINT `referral_rewards_clientId_fkey`
+    FOREIGN KEY (`clientId`) REFERENCES `clients`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `referral_rewards` ADD CONSTRAINT `referral_rewards_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
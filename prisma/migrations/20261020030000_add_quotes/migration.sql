@@ -0,0 +1,93 @@
+-- AlterTable: quote expiry and proposal branding
+ALTER TABLE `tenants` ADD COLUMN `quoteValidityDays` INTEGER NOT NULL DEFAULT 30,
+    ADD COLUMN `proposalBranding` JSON NULL;
+
+-- CreateTable Quote: quotes for leads, with their customer-facing status
+CREATE TABLE `quotes` (
+    `id` VARCHAR(191) NOT NULL,
+    `number` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `status` VARCHAR(191) NOT NULL DEFAULT 'DRAFT',
+    `currency` VARCHAR(191) NOT NULL DEFAULT 'NGN',
+    `currentRevision` INTEGER NOT NULL DEFAULT 1,
+    `total` DECIMAL(12, 2) NOT NULL DEFAULT 0,
+    `validUntil` DATETIME(3) NULL,
+    `publicToken` VARCHAR(191) NOT NULL,
+    `sentAt` DATETIME(3) NULL,
+    `sentVia` VARCHAR(191) NULL,
+    `viewedAt` DATETIME(3) NULL,
+    `respondedAt` DATETIME(3) NULL,
+    `declineReason` TEXT NULL,
+    `leadId` VARCHAR(191) NOT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `quotes_publicToken_key`(`publicToken`),
+    UNIQUE INDEX `quotes_tenantId_number_key`(`tenantId`, `number`),
+    INDEX `quotes_tenantId_status_idx`(`tenantId`, `status`),
+    INDEX `quotes_leadId_idx`(`leadId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable QuoteRevision: line items and terms of a quote as of one edit
+CREATE TABLE `quote_revisions` (
+    `id` VARCHAR(191) NOT NULL,
+    `revision` INTEGER NOT NULL,
+    `premiumFrequency` VARCHAR(191) NOT NULL DEFAULT 'MONTHLY',
+    `notes` TEXT NULL,
+    `terms` TEXT NULL,
+    `subtotal` DECIMAL(12, 2) NOT NULL,
+    `discountTotal` DECIMAL(12, 2) NOT NULL,
+    `total` DECIMAL(12, 2) NOT NULL,
+    `quoteId` VARCHAR(191) NOT NULL,
+    `createdById` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `quote_revisions_quoteId_revision_key`(`quoteId`, `revision`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable QuoteLineItem: products quoted in a revision
+CREATE TABLE `quote_line_items` (
+    `id` VARCHAR(191) NOT NULL,
+    `position` INTEGER NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` TEXT NULL,
+    `premium` DECIMAL(10, 2) NOT NULL,
+    `coverAmount` DECIMAL(14, 2) NULL,
+    `deductible` DECIMAL(12, 2) NULL,
+    `termMonths` INTEGER NULL,
+    `discountPercent` DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    `discountAmount` DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    `total` DECIMAL(10, 2) NOT NULL,
+    `revisionId` VARCHAR(191) NOT NULL,
+    `productId` VARCHAR(191) NULL,
+
+    INDEX `quote_line_items_revisionId_idx`(`revisionId`),
+    INDEX `quote_line_items_productId_idx`(`productId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `quotes` ADD CONSTRAINT `quotes_leadId_fkey`
+    FOREIGN KEY (`leadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `quotes` ADD CONSTRAINT `quotes_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `quotes` ADD CONSTRAINT `quotes_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `quote_revisions` ADD CONSTRAINT `quote_revisions_quoteId_fkey`
+    FOREIGN KEY (`quoteId`) REFERENCES `quotes`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `quote_revisions` ADD CONSTRAINT `quote_revisions_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `quote_line_items` ADD CONSTRAINT `quote_line_items_revisionId_fkey`
+    FOREIGN KEY (`revisionId`) REFERENCES `quote_revisions`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `quote_line_items` ADD CONSTRAINT `quote_line_items_productId_fkey`
+    FOREIGN KEY (`productId`) REFERENCES `products`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
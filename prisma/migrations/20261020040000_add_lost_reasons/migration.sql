@@ -0,0 +1,32 @@
+-- AlterTable: why a lead was lost
+ALTER TABLE `leads` ADD COLUMN `lostReasonId` VARCHAR(191) NULL,
+    ADD COLUMN `lostCompetitor` VARCHAR(191) NULL,
+    ADD COLUMN `lostAt` DATETIME(3) NULL;
+
+-- CreateIndex
+CREATE INDEX `leads_tenantId_lostAt_idx` ON `leads`(`tenantId`, `lostAt`);
+
+CREATE INDEX `leads_lostReasonId_idx` ON `leads`(`lostReasonId`);
+
+-- CreateTable LostReason: tenant-defined reasons for losing a lead
+CREATE TABLE `lost_reasons` (
+    `id` VARCHAR(191) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `description` VARCHAR(191) NULL,
+    `requiresCompetitor` BOOLEAN NOT NULL DEFAULT false,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `lost_reasons_tenantId_name_key`(`tenantId`, `name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `leads` ADD CONSTRAINT `leads_lostReasonId_fkey`
+    FOREIGN KEY (`lostReasonId`) REFERENCES `lost_reasons`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `lost_reasons` ADD CONSTRAINT `lost_reasons_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- AlterTable: forecast settings
+ALTER TABLE `tenants` ADD COLUMN `forecastCommissionRate` DECIMAL(5, 2) NULL,
+    ADD COLUMN `forecastLearnedProbabilities` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `forecastCommitThreshold` INTEGER NOT NULL DEFAULT 70,
+    ADD COLUMN `forecastBestCaseThreshold` INTEGER NOT NULL DEFAULT 40;
+
+-- AlterTable: per-stage win probability
+ALTER TABLE `pipeline_stages` ADD COLUMN `winProbability` INTEGER NULL;
+
+-- CreateTable ForecastSnapshot: monthly forecast kept for forecast vs actual
+CREATE TABLE `forecast_snapshots` (
+    `id` VARCHAR(191) NOT NULL,
+    `periodStart` DATETIME(3) NOT NULL,
+    `openLeads` INTEGER NOT NULL,
+    `pipeline` DECIMAL(14, 2) NOT NULL,
+    `bestCase` DECIMAL(14, 2) NOT NULL,
+    `commit` DECIMAL(14, 2) NOT NULL,
+    `expectedPremium` DECIMAL(14, 2) NOT NULL,
+    `expectedCommission` DECIMAL(14, 2) NOT NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `forecast_snapshots_tenantId_periodStart_key`(`tenantId`, `periodStart`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `forecast_snapshots` ADD CONSTRAINT `forecast_snapshots_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
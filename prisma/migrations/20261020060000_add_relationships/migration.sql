@@ -0,0 +1,39 @@
+-- CreateTable Relationship: typed links between leads and clients
+CREATE TABLE `relationships` (
+    `id` VARCHAR(191) NOT NULL,
+    `type` VARCHAR(191) NOT NULL,
+    `notes` VARCHAR(191) NULL,
+    `fromLeadId` VARCHAR(191) NULL,
+    `fromClientId` VARCHAR(191) NULL,
+    `toLeadId` VARCHAR(191) NULL,
+    `toClientId` VARCHAR(191) NULL,
+    `createdById` VARCHAR(191) NULL,
+    `tenantId` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `relationships_tenantId_idx`(`tenantId`),
+    INDEX `relationships_fromLeadId_idx`(`fromLeadId`),
+    INDEX `relationships_fromClientId_idx`(`fromClientId`),
+    INDEX `relationships_toLeadId_idx`(`toLeadId`),
+    INDEX `relationships_toClientId_idx`(`toClientId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_fromLeadId_fkey`
+    FOREIGN KEY (`fromLeadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_fromClientId_fkey`
+    FOREIGN KEY (`fromClientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_toLeadId_fkey`
+    FOREIGN KEY (`toLeadId`) REFERENCES `leads`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_toClientId_fkey`
+    FOREIGN KEY (`toClientId`) REFERENCES `clients`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_createdById_fkey`
+    FOREIGN KEY (`createdById`) REFERENCES `users`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE `relationships` ADD CONSTRAINT `relationships_tenantId_fkey`
+    FOREIGN KEY (`tenantId`) REFERENCES `tenants`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
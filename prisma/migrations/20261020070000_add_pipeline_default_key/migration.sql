@@ -0,0 +1,18 @@
+-- AlterTable: one default pipeline per tenant, enforced by a unique key
+ALTER TABLE `pipelines` ADD COLUMN `defaultForTenantId` VARCHAR(191) NULL;
+
+-- Tenants that ended up with several defaults keep one of them
+UPDATE `pipelines` p
+    JOIN (
+        SELECT MIN(`id`) AS `keptId`
+        FROM `pipelines`
+        WHERE `isDefault` = true
+        GROUP BY `tenantId`
+    ) d ON d.`keptId` = p.`id`
+SET p.`defaultForTenantId` = p.`tenantId`;
+
+UPDATE `pipelines` SET `isDefault` = false
+WHERE `isDefault` = true AND `defaultForTenantId` IS NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `pipelines_defaultForTenantId_key` ON `pipelines`(`defaultForTenantId`);
@@ -6,12 +6,17 @@ import { AIController } from './ai.controller';
 import { OpenAIService } from './openai.service';
 import { WidgetAuthService } from './widget-auth.service';
 import { PrismaService } from '../common/services/prisma.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
 import { SettingsModule } from '../settings/settings.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
   imports: [
     ConfigModule,
     SettingsModule,
+    LeadScoringModule,
+    LeadsModule,
     MulterModule.register({
       limits: {
         fileSize: 10 * 1024 * 1024, // 10MB limit
@@ -19,7 +24,7 @@ import { SettingsModule } from '../settings/settings.module';
     }),
   ],
   controllers: [AIController],
-  providers: [AIService, OpenAIService, WidgetAuthService, PrismaService],
+  providers: [AIService, OpenAIService, WidgetAuthService, LeadStageHistoryService, PrismaService],
   exports: [AIService, OpenAIService, WidgetAuthService],
 })
 export class AIModule {}
\ No newline at end of file
@@ -3,6 +3,9 @@ import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '../common/services/prisma.service';
 import { OpenAIService } from './openai.service';
 import { WidgetAuthService } from './widget-auth.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadsService } from '../leads/leads.service';
 import { LeadSource, LeadStatus, InsuranceType } from '@prisma/client';
 import { getTenantContext, tenantContext } from '../common/context/tenant-context';
 import * as fs from 'fs';
@@ -21,6 +24,9 @@ export class AIService {
     private configService: ConfigService,
     private openaiService: OpenAIService,
     private widgetAuthService: WidgetAuthService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadScoringService: LeadScoringService,
+    private leadsService: LeadsService,
   ) {}
 
   async generateAutoResponse(leadId: string, input: string) {
@@ -892,6 +898,7 @@ export class AIService {
               metadata: { url, domain },
             },
           });
+          await this.leadScoringService.rescoreLead(leadId, 'widget chat message');
 
           return {
             response: "Thank you for your message. One of our specialists will respond to you shortly.",
@@ -925,6 +932,7 @@ export class AIService {
             metadata: { url, domain, kycExtracted: kycInfo.hasPersonalInfo },
           },
         });
+        await this.leadScoringService.rescoreLead(leadId, 'widget chat message');
 
         // Get training data for context - TENANT FILTERED
         let trainingWhere: any = { status: 'processed' };
@@ -1640,7 +1648,7 @@ Return JSON format:
           throw new Error('Tenant context required to create lead from widget chat');
         }
 
-        return await this.prisma.lead.create({
+        const lead = await this.prisma.lead.create({
           data: {
             firstName: kycInfo.firstName || 'Website',
             lastName: kycInfo.lastName || 'Visitor',
@@ -1659,6 +1667,18 @@ Return JSON format:
             tenant: { connect: { id: tenantId } },
           }
         });
+
+        await this.stageHistoryService.recordTransition({
+          leadId: lead.id,
+          tenantId,
+          toStatus: lead.status,
+          note: `Auto-created from AI widget chat (conversation ${conversationId})`,
+          source: 'WIDGET',
+        });
+
+        await this.leadsService.routeInboundLead(lead.id);
+
+        return lead;
       }
     } catch (error) {
       console.error('Error creating/updating lead from KYC:', error);
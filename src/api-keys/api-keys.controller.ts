@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ApiKeysService } from './api-keys.service';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('API Keys')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('api-keys')
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get partner API keys' })
+  @ApiResponse({ status: 200, description: 'API keys retrieved' })
+  findAll() {
+    return this.apiKeysService.findAll();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a partner API key; the key is only returned once',
+  })
+  @ApiResponse({ status: 201, description: 'API key created' })
+  create(@Body() createKeyDto: CreateApiKeyDto, @CurrentUser() user: any) {
+    return this.apiKeysService.create(createKeyDto, user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a partner API key' })
+  @ApiResponse({ status: 200, description: 'API key retrieved' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  findOne(@Param('id') id: string) {
+    return this.apiKeysService.findOne(id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update scopes, limits or expiry of an API key' })
+  @ApiResponse({ status: 200, description: 'API key updated' })
+  @ApiResponse({ status: 400, description: 'API key is revoked' })
+  update(@Param('id') id: string, @Body() updateKeyDto: UpdateApiKeyDto) {
+    return this.apiKeysService.update(id, updateKeyDto);
+  }
+
+  @Post(':id/revoke')
+  @ApiOperation({ summary: 'Revoke an API key' })
+  @ApiResponse({ status: 201, description: 'API key revoked' })
+  revoke(@Param('id') id: string) {
+    return this.apiKeysService.revoke(id);
+  }
+}
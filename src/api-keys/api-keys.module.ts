@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { ApiKeysService } from './api-keys.service';
+import { PartnerLeadsService } from './partner-leads.service';
+import { ApiKeysController } from './api-keys.controller';
+import { PartnerLeadsController } from './partner-leads.controller';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsModule } from '../leads/leads.module';
+
+@Module({
+  imports: [LeadsModule],
+  controllers: [ApiKeysController, PartnerLeadsController],
+  providers: [ApiKeysService, PartnerLeadsService, ApiKeyGuard, PrismaService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
@@ -0,0 +1,218 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import { UpdateApiKeyDto } from './dto/update-api-key.dto';
+import { ApiKeyScope } from './enums/api-key.enums';
+
+const KEY_PREFIX = 'ilm_';
+const KEY_PREFIX_LENGTH = 12;
+// lastUsedAt is refreshed at most this often to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const API_KEY_SELECT = {
+  id: true,
+  name: true,
+  partnerName: true,
+  keyPrefix: true,
+  scopes: true,
+  rateLimitPerMinute: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} as const;
+
+/**
+ * ApiKeysService - Tenant-issued keys for partner lead ingestion
+ *
+ * Key Features:
+ * - Keys are shown once on creation and stored only as SHA-256 hashes
+ * - Scopes, per-key rate limits, expiry and revocation
+ * - Last-used time and IP for spotting stale or leaked keys
+ */
+@Injectable()
+export class ApiKeysService {
+  private readonly logger = new Logger(ApiKeysService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findAll() {
+    return this.prisma.apiKey.findMany({
+      where: this.prisma.addTenantFilter({}),
+      select: API_KEY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      select: API_KEY_SELECT,
+    });
+
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * Create a key. The plain key is only part of this response.
+   */
+  async create(createKeyDto: CreateApiKeyDto, userId: string) {
+    const tenantId = this.requireTenantId();
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        name: createKeyDto.name,
+        partnerName: createKeyDto.partnerName,
+        scopes: [...new Set(createKeyDto.scopes)],
+        rateLimitPerMinute: createKeyDto.rateLimitPerMinute,
+        expiresAt: this.parseExpiry(createKeyDto.expiresAt),
+        keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+        keyHash: this.hashKey(key),
+        createdById: userId,
+        tenantId,
+      },
+      select: API_KEY_SELECT,
+    });
+
+    this.logger.log(
+      `API key ${apiKey.id} created for partner ${apiKey.partnerName}`,
+    );
+    return { ...apiKey, key };
+  }
+
+  async update(id: string, updateKeyDto: UpdateApiKeyDto) {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      throw new BadRequestException('Revoked API keys cannot be changed');
+    }
+
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: {
+        name: updateKeyDto.name,
+        partnerName: updateKeyDto.partnerName,
+        scopes: updateKeyDto.scopes && [...new Set(updateKeyDto.scopes)],
+        rateLimitPerMinute: updateKeyDto.rateLimitPerMinute,
+        expiresAt: this.parseExpiry(updateKeyDto.expiresAt),
+      },
+      select: API_KEY_SELECT,
+    });
+  }
+
+  /**
+   * Revoke a key for good. Its submissions are kept for attribution.
+   */
+  async revoke(id: string) {
+    const apiKey = await this.findOne(id);
+    if (apiKey.revokedAt) {
+      return apiKey;
+    }
+
+    this.logger.log(`API key ${id} revoked`);
+    return this.prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: API_KEY_SELECT,
+    });
+  }
+
+  /**
+   * Resolve a presented key to an active key record. Used outside any
+   * tenant context, so the lookup is by hash only.
+   */
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKey> {
+    if (!key?.startsWith(KEY_PREFIX)) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hashKey(key) },
+    });
+
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+    if (apiKey.revokedAt) {
+      throw new UnauthorizedException('API key has been revoked');
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      throw new UnauthorizedException('API key has expired');
+    }
+
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: apiKey.tenantId },
+      select: { status: true },
+    });
+    if (tenant?.status !== 'active' && tenant?.status !== 'trial') {
+      throw new UnauthorizedException('Tenant account is not active');
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS ||
+      apiKey.lastUsedIp !== (ipAddress ?? null)
+    ) {
+      this.prisma.apiKey
+        .update({
+          where: { id: apiKey.id },
+          data: { lastUsedAt: now, lastUsedIp: ipAddress },
+        })
+        .catch((error) =>
+          this.logger.warn(
+            `Could not record use of API key ${apiKey.id}: ${error.message}`,
+          ),
+        );
+    }
+
+    return apiKey;
+  }
+
+  hasScopes(apiKey: ApiKey, scopes: ApiKeyScope[]): boolean {
+    const granted = Array.isArray(apiKey.scopes)
+      ? (apiKey.scopes as string[])
+      : [];
+    return scopes.every((scope) => granted.includes(scope));
+  }
+
+  private hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+
+  private parseExpiry(expiresAt?: string): Date | undefined {
+    if (!expiresAt) return undefined;
+
+    const date = new Date(expiresAt);
+    if (date <= new Date()) {
+      throw new BadRequestException('expiresAt must be in the future');
+    }
+    return date;
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
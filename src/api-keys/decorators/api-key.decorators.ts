@@ -0,0 +1,17 @@
+import {
+  createParamDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { ApiKeyScope } from '../enums/api-key.enums';
+
+export const API_KEY_SCOPES_KEY = 'apiKeyScopes';
+export const ApiKeyScopes = (...scopes: ApiKeyScope[]) =>
+  SetMetadata(API_KEY_SCOPES_KEY, scopes);
+
+export const CurrentApiKey = createParamDecorator(
+  (data: unknown, ctx: ExecutionContext) => {
+    const request = ctx.switchToHttp().getRequest();
+    return request.apiKey;
+  },
+);
@@ -0,0 +1,61 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsArray,
+  IsInt,
+  IsDateString,
+  Min,
+  Max,
+  ArrayMinSize,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiKeyScope } from '../enums/api-key.enums';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'QuoteCompare production' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'QuoteCompare',
+    description: 'Partner the key belongs to, recorded on every lead it sends',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  partnerName: string;
+
+  @ApiProperty({
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.LEADS_WRITE],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    example: 60,
+    default: 60,
+    description: 'Leads the key may send per minute',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  rateLimitPerMinute?: number;
+
+  @ApiPropertyOptional({
+    example: '2027-12-31T23:59:59.000Z',
+    description: 'The key stops working after this time',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
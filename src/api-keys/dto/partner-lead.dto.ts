@@ -0,0 +1,27 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateLeadDto } from '../../leads/dto/create-lead.dto';
+
+// Partner leads always have source API and are routed by the tenant's rules
+export class PartnerLeadDto extends OmitType(CreateLeadDto, [
+  'source',
+  'assignedUserId',
+] as const) {
+  @ApiPropertyOptional({
+    example: 'QC-88231',
+    description: "Partner's own reference for the lead, echoed in responses",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  externalId?: string;
+
+  @ApiPropertyOptional({
+    example: 'spring-life-2026',
+    description: 'Partner campaign the lead came from',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  campaign?: string;
+}
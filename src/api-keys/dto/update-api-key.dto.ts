@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateApiKeyDto } from './create-api-key.dto';
+
+export class UpdateApiKeyDto extends PartialType(CreateApiKeyDto) {}
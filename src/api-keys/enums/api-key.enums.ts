@@ -0,0 +1,14 @@
+/**
+ * API Key Enums - Partner API key scopes and lead submission outcomes
+ */
+
+export enum ApiKeyScope {
+  LEADS_WRITE = 'leads:write', // Push new leads
+  LEADS_READ = 'leads:read', // Check the status of leads the partner sent
+}
+
+export enum ApiLeadSubmissionStatus {
+  PENDING = 'PENDING', // Being processed; retries with the same key get 409
+  CREATED = 'CREATED',
+  DUPLICATE = 'DUPLICATE', // Matched an existing lead; no lead was created
+}
@@ -0,0 +1,55 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeysService } from '../api-keys.service';
+import { API_KEY_SCOPES_KEY } from '../decorators/api-key.decorators';
+import { ApiKeyScope } from '../enums/api-key.enums';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * ApiKeyGuard - Authenticates partner requests by the X-API-Key header
+ *
+ * Routes using it are @Public() so the JWT guards step aside. The guard
+ * sets request.tenantId like the webhook middleware, so
+ * TenantContextInterceptor runs the handler in the key's tenant.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeysService: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    const key = request.headers[API_KEY_HEADER];
+    if (typeof key !== 'string' || !key) {
+      throw new UnauthorizedException('Missing X-API-Key header');
+    }
+
+    const apiKey = await this.apiKeysService.authenticate(key, request.ip);
+
+    const requiredScopes =
+      this.reflector.getAllAndOverride<ApiKeyScope[]>(API_KEY_SCOPES_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? [];
+    if (!this.apiKeysService.hasScopes(apiKey, requiredScopes)) {
+      throw new ForbiddenException(
+        `API key lacks the required scope: ${requiredScopes.join(', ')}`,
+      );
+    }
+
+    request.apiKey = apiKey;
+    request.tenantId = apiKey.tenantId;
+    request.isSuperAdmin = false;
+    request.userId = `api-key:${apiKey.id}`;
+    return true;
+  }
+}
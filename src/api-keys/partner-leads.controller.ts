@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Headers,
+  Res,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiHeader,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import type { ApiKey } from '@prisma/client';
+import { PartnerLeadsService } from './partner-leads.service';
+import { PartnerLeadDto } from './dto/partner-lead.dto';
+import { ApiKeyGuard } from './guards/api-key.guard';
+import { ApiKeyScopes, CurrentApiKey } from './decorators/api-key.decorators';
+import { ApiKeyScope } from './enums/api-key.enums';
+import { Public } from '../common/decorators/public.decorator';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+@ApiTags('Partner API')
+@ApiSecurity('api-key')
+@ApiHeader({ name: 'X-API-Key', required: true })
+@Public()
+@UseGuards(ApiKeyGuard)
+@Controller('public/v1/leads')
+export class PartnerLeadsController {
+  constructor(private readonly partnerLeadsService: PartnerLeadsService) {}
+
+  @Post()
+  @ApiKeyScopes(ApiKeyScope.LEADS_WRITE)
+  @ApiOperation({ summary: 'Send a lead' })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    required: false,
+    description: 'Retries with the same key return the original response',
+  })
+  @ApiResponse({ status: 201, description: 'Lead created' })
+  @ApiResponse({
+    status: 200,
+    description: 'Lead matches an existing lead; nothing was created',
+  })
+  @ApiResponse({ status: 409, description: 'Same key still in progress' })
+  @ApiResponse({ status: 422, description: 'Key reused with another body' })
+  @ApiResponse({ status: 429, description: 'Rate limit exceeded' })
+  async create(
+    @Body() partnerLeadDto: PartnerLeadDto,
+    @CurrentApiKey() apiKey: ApiKey,
+    @Headers('idempotency-key') idempotencyKey: string | undefined,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    if (idempotencyKey?.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      );
+    }
+
+    const result = await this.partnerLeadsService.ingest(
+      partnerLeadDto,
+      apiKey,
+      idempotencyKey || undefined,
+    );
+
+    res.status(result.httpStatus);
+    if (result.replayed) {
+      res.setHeader('Idempotent-Replayed', 'true');
+    }
+    return result.body;
+  }
+
+  @Get(':id')
+  @ApiKeyScopes(ApiKeyScope.LEADS_READ)
+  @ApiOperation({ summary: 'Get the status of a lead sent by this partner' })
+  @ApiResponse({ status: 200, description: 'Lead status retrieved' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  findOne(@Param('id') id: string, @CurrentApiKey() apiKey: ApiKey) {
+    return this.partnerLeadsService.getLead(id, apiKey);
+  }
+}
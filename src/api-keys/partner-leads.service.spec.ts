@@ -0,0 +1,224 @@
+import {
+  ConflictException,
+  HttpStatus,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiKey, InsuranceType, Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PartnerLeadsService } from './partner-leads.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsService } from '../leads/leads.service';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { PartnerLeadDto } from './dto/partner-lead.dto';
+import { ApiLeadSubmissionStatus } from './enums/api-key.enums';
+
+const API_KEY = {
+  id: 'key-1',
+  tenantId: 'tenant-1',
+  partnerName: 'QuoteCompare',
+  rateLimitPerMinute: 10,
+} as ApiKey;
+
+const LEAD = {
+  firstName: 'Jane',
+  lastName: 'Smith',
+  email: 'jane@example.com',
+  insuranceType: InsuranceType.LIFE,
+  externalId: 'QC-1',
+} as PartnerLeadDto;
+
+const RECEIVED_AT = new Date('2026-10-20T12:00:00Z');
+
+const hashOf = (dto: PartnerLeadDto) =>
+  createHash('sha256').update(JSON.stringify(dto)).digest('hex');
+
+// A submission stored by an earlier request with the same idempotency key
+const stored = (
+  dto: PartnerLeadDto,
+  status: ApiLeadSubmissionStatus,
+  duplicate = false,
+) => ({
+  id: 'submission-0',
+  requestHash: hashOf(dto),
+  status,
+  response:
+    status === ApiLeadSubmissionStatus.PENDING
+      ? null
+      : { submissionId: 'submission-0', leadId: 'lead-0', duplicate },
+});
+
+describe('PartnerLeadsService', () => {
+  let service: PartnerLeadsService;
+  let prisma: any;
+  let leadsService: { create: jest.Mock };
+  let duplicatesService: { findMatchesForContact: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = {
+      apiLeadSubmission: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        count: jest.fn().mockResolvedValue(0),
+        create: jest
+          .fn()
+          .mockResolvedValue({ id: 'submission-1', createdAt: RECEIVED_AT }),
+        update: jest.fn(),
+        delete: jest.fn().mockResolvedValue({}),
+      },
+    };
+    leadsService = { create: jest.fn().mockResolvedValue({ id: 'lead-1' }) };
+    duplicatesService = {
+      findMatchesForContact: jest.fn().mockResolvedValue([]),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PartnerLeadsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LeadsService, useValue: leadsService },
+        { provide: LeadDuplicatesService, useValue: duplicatesService },
+      ],
+    }).compile();
+
+    service = module.get(PartnerLeadsService);
+  });
+
+  describe('idempotency keys', () => {
+    it('replays the stored response for a retry', async () => {
+      prisma.apiLeadSubmission.findUnique.mockResolvedValue(
+        stored(LEAD, ApiLeadSubmissionStatus.CREATED),
+      );
+
+      const result = await service.ingest(LEAD, API_KEY, 'retry-1');
+
+      expect(result).toEqual({
+        httpStatus: HttpStatus.CREATED,
+        replayed: true,
+        body: expect.objectContaining({ leadId: 'lead-0' }),
+      });
+      expect(prisma.apiLeadSubmission.findUnique).toHaveBeenCalledWith({
+        where: {
+          apiKeyId_idempotencyKey: {
+            apiKeyId: 'key-1',
+            idempotencyKey: 'retry-1',
+          },
+        },
+      });
+      expect(prisma.apiLeadSubmission.create).not.toHaveBeenCalled();
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a reused key with a different body with 422', async () => {
+      prisma.apiLeadSubmission.findUnique.mockResolvedValue(
+        stored(
+          { ...LEAD, email: 'other@example.com' },
+          ApiLeadSubmissionStatus.CREATED,
+        ),
+      );
+
+      await expect(service.ingest(LEAD, API_KEY, 'retry-1')).rejects.toThrow(
+        UnprocessableEntityException,
+      );
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('answers 409 while the first request is still being processed', async () => {
+      prisma.apiLeadSubmission.findUnique.mockResolvedValue(
+        stored(LEAD, ApiLeadSubmissionStatus.PENDING),
+      );
+
+      await expect(service.ingest(LEAD, API_KEY, 'retry-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('answers a request that lost the race with the winning one', async () => {
+      prisma.apiLeadSubmission.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(stored(LEAD, ApiLeadSubmissionStatus.PENDING));
+      prisma.apiLeadSubmission.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        }),
+      );
+
+      await expect(service.ingest(LEAD, API_KEY, 'retry-1')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('frees the key when the lead cannot be created', async () => {
+      leadsService.create.mockRejectedValue(new Error('Invalid custom field'));
+
+      await expect(service.ingest(LEAD, API_KEY, 'retry-1')).rejects.toThrow(
+        'Invalid custom field',
+      );
+      expect(prisma.apiLeadSubmission.delete).toHaveBeenCalledWith({
+        where: { id: 'submission-1' },
+      });
+    });
+  });
+
+  it('stores the outcome with the request hash', async () => {
+    const result = await service.ingest(LEAD, API_KEY, 'new-1');
+
+    expect(result).toMatchObject({
+      httpStatus: HttpStatus.CREATED,
+      replayed: false,
+      body: {
+        submissionId: 'submission-1',
+        leadId: 'lead-1',
+        externalId: 'QC-1',
+        receivedAt: RECEIVED_AT.toISOString(),
+      },
+    });
+    expect(prisma.apiLeadSubmission.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          idempotencyKey: 'new-1',
+          requestHash: hashOf(LEAD),
+          status: ApiLeadSubmissionStatus.PENDING,
+        }),
+      }),
+    );
+    expect(prisma.apiLeadSubmission.update).toHaveBeenCalledWith({
+      where: { id: 'submission-1' },
+      data: expect.objectContaining({
+        status: ApiLeadSubmissionStatus.CREATED,
+        leadId: 'lead-1',
+      }),
+    });
+  });
+
+  it('reports phone and email matches as duplicates with 200', async () => {
+    duplicatesService.findMatchesForContact.mockResolvedValue([
+      { lead: { id: 'lead-9' }, reasons: ['NAME'] },
+      { lead: { id: 'lead-7' }, reasons: ['EMAIL'] },
+    ]);
+
+    const result = await service.ingest(LEAD, API_KEY);
+
+    expect(result.httpStatus).toBe(HttpStatus.OK);
+    expect(result.body).toMatchObject({
+      leadId: 'lead-7',
+      status: ApiLeadSubmissionStatus.DUPLICATE,
+      duplicateReasons: ['EMAIL'],
+    });
+    expect(leadsService.create).not.toHaveBeenCalled();
+  });
+
+  it('enforces the per-key rate limit', async () => {
+    prisma.apiLeadSubmission.count.mockResolvedValue(10);
+
+    await expect(service.ingest(LEAD, API_KEY)).rejects.toMatchObject({
+      status: HttpStatus.TOO_MANY_REQUESTS,
+    });
+    expect(prisma.apiLeadSubmission.count).toHaveBeenCalledWith({
+      where: { apiKeyId: 'key-1', createdAt: { gte: expect.any(Date) } },
+    });
+    expect(prisma.apiLeadSubmission.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ApiKey, LeadSource, Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsService } from '../leads/leads.service';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { PartnerLeadDto } from './dto/partner-lead.dto';
+import { ApiLeadSubmissionStatus } from './enums/api-key.enums';
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+export interface PartnerLeadResponse {
+  submissionId: string;
+  leadId: string;
+  status: ApiLeadSubmissionStatus.CREATED | ApiLeadSubmissionStatus.DUPLICATE;
+  duplicate: boolean;
+  duplicateReasons: string[];
+  externalId: string | null;
+  receivedAt: string;
+}
+
+export interface PartnerLeadResult {
+  httpStatus: HttpStatus;
+  replayed: boolean;
+  body: PartnerLeadResponse;
+}
+
+/**
+ * PartnerLeadsService - Lead ingestion for partners holding an API key
+ *
+ * Key Features:
+ * - Leads with source API and the partner, campaign and external ID in
+ *   the lead's attribution, routed like any other new lead
+ * - Idempotency keys: a retry returns the original response, a reused key
+ *   with a different body is rejected
+ * - Leads matching an existing lead by phone or email are reported as
+ *   duplicates instead of being created
+ * - Per-key rate limits
+ */
+@Injectable()
+export class PartnerLeadsService {
+  private readonly logger = new Logger(PartnerLeadsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadsService: LeadsService,
+    private duplicatesService: LeadDuplicatesService,
+  ) {}
+
+  async ingest(
+    partnerLeadDto: PartnerLeadDto,
+    apiKey: ApiKey,
+    idempotencyKey?: string,
+  ): Promise<PartnerLeadResult> {
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(partnerLeadDto))
+      .digest('hex');
+
+    if (idempotencyKey) {
+      const previous = await this.findPreviousSubmission(
+        apiKey,
+        idempotencyKey,
+        requestHash,
+      );
+      if (previous) return previous;
+    }
+
+    await this.checkRateLimit(apiKey);
+
+    let submission: { id: string; createdAt: Date };
+    try {
+      submission = await this.prisma.apiLeadSubmission.create({
+        data: {
+          idempotencyKey,
+          requestHash,
+          status: ApiLeadSubmissionStatus.PENDING,
+          externalId: partnerLeadDto.externalId,
+          apiKeyId: apiKey.id,
+          tenantId: apiKey.tenantId,
+        },
+        select: { id: true, createdAt: true },
+      });
+    } catch (error) {
+      // A concurrent request with the same idempotency key got there first
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const previous = await this.findPreviousSubmission(
+          apiKey,
+          idempotencyKey,
+          requestHash,
+        );
+        if (previous) return previous;
+      }
+      throw error;
+    }
+
+    try {
+      const body = await this.createOrMatchLead(
+        partnerLeadDto,
+        apiKey,
+        submission,
+      );
+
+      await this.prisma.apiLeadSubmission.update({
+        where: { id: submission.id },
+        data: {
+          status: body.status,
+          leadId: body.leadId,
+          response: body as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return {
+        httpStatus: body.duplicate ? HttpStatus.OK : HttpStatus.CREATED,
+        replayed: false,
+        body,
+      };
+    } catch (error) {
+      // Free the idempotency key so the partner can retry
+      await this.prisma.apiLeadSubmission
+        .delete({ where: { id: submission.id } })
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Current status of a lead sent by the same partner, through any of its
+   * keys. Leads merged into another report the surviving lead.
+   */
+  async getLead(leadId: string, apiKey: ApiKey) {
+    // A duplicate merged away is reported as the lead it was merged into
+    const merge = await this.prisma.leadMerge.findFirst({
+      where: { mergedLeadId: leadId, tenantId: apiKey.tenantId },
+      select: { survivorLeadId: true },
+    });
+
+    const submission = await this.prisma.apiLeadSubmission.findFirst({
+      where: {
+        leadId: merge?.survivorLeadId ?? leadId,
+        tenantId: apiKey.tenantId,
+        apiKey: { partnerName: apiKey.partnerName },
+      },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        externalId: true,
+        lead: {
+          select: { id: true, status: true, createdAt: true, updatedAt: true },
+        },
+      },
+    });
+
+    if (!submission?.lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    return {
+      leadId: submission.lead.id,
+      externalId: submission.externalId,
+      status: submission.lead.status,
+      createdAt: submission.lead.createdAt,
+      updatedAt: submission.lead.updatedAt,
+    };
+  }
+
+  private async createOrMatchLead(
+    partnerLeadDto: PartnerLeadDto,
+    apiKey: ApiKey,
+    submission: { id: string; createdAt: Date },
+  ): Promise<PartnerLeadResponse> {
+    const { externalId, campaign, ...leadData } = partnerLeadDto;
+    const response = {
+      submissionId: submission.id,
+      externalId: externalId ?? null,
+      receivedAt: submission.createdAt.toISOString(),
+    };
+
+    const match = (
+      await this.duplicatesService.findMatchesForContact(leadData)
+    ).find((m) => m.reasons.includes('PHONE') || m.reasons.includes('EMAIL'));
+    if (match) {
+      this.logger.log(
+        `Partner ${apiKey.partnerName} sent a duplicate of lead ${match.lead.id}`,
+      );
+      return {
+        ...response,
+        leadId: match.lead.id,
+        status: ApiLeadSubmissionStatus.DUPLICATE,
+        duplicate: true,
+        duplicateReasons: match.reasons,
+      };
+    }
+
+    const lead = await this.leadsService.create(
+      { ...leadData, source: LeadSource.API },
+      undefined,
+      {
+        source: 'API',
+        note: `Partner API (${apiKey.partnerName})`,
+        attribution: {
+          partner: apiKey.partnerName,
+          apiKeyId: apiKey.id,
+          ...(externalId && { externalId }),
+          ...(campaign && { campaign }),
+        },
+      },
+    );
+
+    this.logger.log(
+      `Partner ${apiKey.partnerName} created lead ${lead.id} via API key ${apiKey.id}`,
+    );
+    return {
+      ...response,
+      leadId: lead.id,
+      status: ApiLeadSubmissionStatus.CREATED,
+      duplicate: false,
+      duplicateReasons: [],
+    };
+  }
+
+  /**
+   * Outcome of an earlier request with the same idempotency key, if any
+   */
+  private async findPreviousSubmission(
+    apiKey: ApiKey,
+    idempotencyKey: string,
+    requestHash: string,
+  ): Promise<PartnerLeadResult | null> {
+    const previous = await this.prisma.apiLeadSubmission.findUnique({
+      where: {
+        apiKeyId_idempotencyKey: { apiKeyId: apiKey.id, idempotencyKey },
+      },
+    });
+    if (!previous) return null;
+
+    if (previous.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key was already used with a different request body',
+      );
+    }
+    if (previous.status === ApiLeadSubmissionStatus.PENDING) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    const body = previous.response as unknown as PartnerLeadResponse;
+    return {
+      httpStatus: body.duplicate ? HttpStatus.OK : HttpStatus.CREATED,
+      replayed: true,
+      body,
+    };
+  }
+
+  private async checkRateLimit(apiKey: ApiKey) {
+    const recent = await this.prisma.apiLeadSubmission.count({
+      where: {
+        apiKeyId: apiKey.id,
+        createdAt: { gte: new Date(Date.now() - RATE_LIMIT_WINDOW_MS) },
+      },
+    });
+
+    if (recent >= apiKey.rateLimitPerMinute) {
+      this.logger.warn(`API key ${apiKey.id} hit its rate limit`);
+      throw new HttpException(
+        `Rate limit of ${apiKey.rateLimitPerMinute} leads per minute exceeded`,
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+}
@@ -25,6 +25,24 @@ import { NotificationsModule } from './notifications/notifications.module';
 import { TenantsModule } from './tenants/tenants.module';
 import { PaymentsModule } from './payments/payments.module';
 import { CredentialsModule } from './credentials/credentials.module';
+import { PipelinesModule } from './pipelines/pipelines.module';
+import { LeadScoringModule } from './lead-scoring/lead-scoring.module';
+import { LeadRoutingModule } from './lead-routing/lead-routing.module';
+import { CustomFieldsModule } from './custom-fields/custom-fields.module';
+import { LeadViewsModule } from './lead-views/lead-views.module';
+import { LeadSlaModule } from './lead-sla/lead-sla.module';
+import { TagsModule } from './tags/tags.module';
+import { SearchModule } from './search/search.module';
+import { LeadFormsModule } from './lead-forms/lead-forms.module';
+import { ApiKeysModule } from './api-keys/api-keys.module';
+import { RecycleBinModule } from './recycle-bin/recycle-bin.module';
+import { PrivacyModule } from './privacy/privacy.module';
+import { MarketingConsentModule } from './marketing-consent/marketing-consent.module';
+import { ReferralsModule } from './referrals/referrals.module';
+import { QuotesModule } from './quotes/quotes.module';
+import { LostReasonsModule } from './lost-reasons/lost-reasons.module';
+import { ForecastModule } from './forecast/forecast.module';
+import { RelationshipsModule } from './relationships/relationships.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { RolesGuard } from './auth/guards/roles.guard';
 import { TenantGuard } from './auth/guards/tenant.guard';
@@ -73,6 +91,24 @@ import { WebhookTenantMiddleware } from './common/middleware/webhook-tenant.midd
     TenantsModule,
     PaymentsModule,
     CredentialsModule,
+    PipelinesModule,
+    LeadScoringModule,
+    LeadRoutingModule,
+    CustomFieldsModule,
+    LeadViewsModule,
+    LeadSlaModule,
+    TagsModule,
+    SearchModule,
+    LeadFormsModule,
+    ApiKeysModule,
+    RecycleBinModule,
+    PrivacyModule,
+    MarketingConsentModule,
+    ReferralsModule,
+    QuotesModule,
+    LostReasonsModule,
+    ForecastModule,
+    RelationshipsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -32,6 +32,7 @@ export class CampaignsSchedulerService {
         contactGroup: {
           include: {
             leads: {
+              where: { lead: { deletedAt: null } },
               include: {
                 lead: true,
               },
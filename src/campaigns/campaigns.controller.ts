@@ -109,6 +109,11 @@ export class CampaignsController {
     return this.campaignsService.sendCampaign(id, req.user.id);
   }
 
+  @Get(':id/skipped')
+  getSkippedRecipients(@Param('id') id: string, @Request() req) {
+    return this.campaignsService.getSkippedRecipients(id, req.user.id);
+  }
+
   // Email Templates (Predefined)
   @Get('email/templates/predefined')
   getPredefinedEmailTemplates() {
@@ -7,9 +7,20 @@ import { TemplateUploadService } from './template-upload.service';
 import { PrismaService } from '../common/services/prisma.service';
 import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 import { EmailModule } from '../email/email.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { ContactGroupsModule } from '../contact-groups/contact-groups.module';
+import { TagsModule } from '../tags/tags.module';
+import { MarketingConsentModule } from '../marketing-consent/marketing-consent.module';
 
 @Module({
-  imports: [WhatsAppModule, EmailModule],
+  imports: [
+    WhatsAppModule,
+    EmailModule,
+    CustomFieldsModule,
+    ContactGroupsModule,
+    TagsModule,
+    MarketingConsentModule,
+  ],
   controllers: [CampaignsController],
   providers: [
     CampaignsService,
@@ -1,4 +1,5 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../common/services/prisma.service';
 import { getTenantContext } from '../common/context/tenant-context';
 import { SmtpEmailService } from '../email/smtp-email.service';
@@ -6,12 +7,28 @@ import { CreateCampaignTemplateDto } from './dto/create-campaign-template.dto';
 import { UpdateCampaignTemplateDto } from './dto/update-campaign-template.dto';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { UpdateCampaignDto } from './dto/update-campaign.dto';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { ContactGroupsService } from '../contact-groups/contact-groups.service';
+import { TagsService, TagFilter } from '../tags/tags.service';
+import { MarketingConsentService } from '../marketing-consent/marketing-consent.service';
+import { MarketingChannel } from '../marketing-consent/enums/marketing-consent.enums';
+
+/**
+ * Merge fields usable in campaign content as {field}, plus {custom.<key>}
+ * for lead custom fields
+ */
+const MERGE_FIELD_PATTERN =
+  /{(firstName|lastName|email|phone|custom\.[a-z][a-z0-9_]*)}/g;
 
 @Injectable()
 export class CampaignsService {
   constructor(
     private prisma: PrismaService,
     private smtpEmailService: SmtpEmailService,
+    private customFieldsService: CustomFieldsService,
+    private contactGroupsService: ContactGroupsService,
+    private tagsService: TagsService,
+    private marketingConsentService: MarketingConsentService,
   ) {}
 
   // Campaign Templates
@@ -102,6 +119,18 @@ export class CampaignsService {
       throw new Error('Cannot send Email campaign to WhatsApp-only group');
     }
 
+    // Tag-filtered audiences only count the matching group members
+    let totalRecipients = contactGroup._count.leads;
+    if (dto.audienceTags) {
+      await this.tagsService.validateFilter(dto.audienceTags, 'audienceTags');
+      totalRecipients = await this.prisma.leadContactGroup.count({
+        where: {
+          contactGroupId: dto.contactGroupId,
+          lead: { AND: this.tagsService.buildLeadFilter(dto.audienceTags) },
+        },
+      });
+    }
+
     // Convert scheduledAt to proper ISO-8601 format if provided
     const scheduledAt = dto.scheduledAt
       ? new Date(dto.scheduledAt).toISOString()
@@ -123,7 +152,8 @@ export class CampaignsService {
         content: dto.content,
         scheduledAt,
         status,
-        totalRecipients: contactGroup._count.leads,
+        totalRecipients,
+        audienceTags: dto.audienceTags as Prisma.InputJsonValue,
         contactGroup: { connect: { id: dto.contactGroupId } },
         createdBy: { connect: { id: userId } },
         tenant: { connect: { id: tenantId } },
@@ -176,6 +206,8 @@ export class CampaignsService {
         contactGroup: {
           include: {
             leads: {
+              // Leads in the recycle bin stay members but get no campaigns
+              where: { lead: { deletedAt: null } },
               include: {
                 lead: {
                   select: {
@@ -184,6 +216,8 @@ export class CampaignsService {
                     lastName: true,
                     email: true,
                     phone: true,
+                    country: true,
+                    customFields: true,
                   },
                 },
               },
@@ -203,6 +237,10 @@ export class CampaignsService {
   async update(id: string, dto: UpdateCampaignDto, userId: string) {
     await this.findOne(id, userId);
 
+    if (dto.audienceTags) {
+      await this.tagsService.validateFilter(dto.audienceTags, 'audienceTags');
+    }
+
     // Convert scheduledAt to ISO-8601 DateTime if provided
     const data: any = { ...dto };
     if (data.scheduledAt) {
@@ -240,12 +278,20 @@ export class CampaignsService {
   }
 
   async sendCampaign(id: string, userId: string) {
-    const campaign = await this.findOne(id, userId);
+    let campaign = await this.findOne(id, userId);
 
     if (campaign.status !== 'DRAFT' && campaign.status !== 'SCHEDULED') {
       throw new Error('Campaign can only be sent from DRAFT or SCHEDULED status');
     }
 
+    // View-backed audiences are refreshed so the campaign reaches today's matches
+    if (campaign.contactGroup.leadViewId) {
+      await this.contactGroupsService.syncGroupWithView(
+        campaign.contactGroupId,
+      );
+      campaign = await this.findOne(id, userId);
+    }
+
     // Update status to SENDING
     await this.prisma.campaign.update({
       where: { id },
@@ -255,11 +301,53 @@ export class CampaignsService {
       },
     });
 
-    const leads = campaign.contactGroup.leads.map(l => l.lead);
+    let leads = campaign.contactGroup.leads.map((l) => l.lead);
+
+    // Narrow the group to members matching the audience tags
+    if (campaign.audienceTags) {
+      const matching = await this.prisma.lead.findMany({
+        where: {
+          id: { in: leads.map((lead) => lead.id) },
+          AND: this.tagsService.buildLeadFilter(
+            campaign.audienceTags as TagFilter,
+          ),
+        },
+        select: { id: true },
+      });
+      const matchingIds = new Set(matching.map((lead) => lead.id));
+      leads = leads.filter((lead) => matchingIds.has(lead.id));
+    }
+
+    // Leave out leads without consent on the channel or on the suppression list
+    const channel =
+      campaign.type === 'EMAIL'
+        ? MarketingChannel.EMAIL
+        : MarketingChannel.WHATSAPP;
+    const skipReasons = await this.marketingConsentService.getSkipReasons(
+      campaign.tenantId,
+      channel,
+      leads.map((lead) => ({
+        leadId: lead.id,
+        address: channel === MarketingChannel.EMAIL ? lead.email : lead.phone,
+        country: lead.country,
+      })),
+    );
+    if (skipReasons.size > 0) {
+      await this.prisma.campaignRecipientSkip.createMany({
+        data: [...skipReasons].map(([leadId, reason]) => ({
+          campaignId: id,
+          leadId,
+          channel,
+          reason,
+          tenantId: campaign.tenantId,
+        })),
+      });
+    }
+
     let sentCount = 0;
     let failedCount = 0;
 
-    for (const lead of leads) {
+    for (const lead of leads.filter((lead) => !skipReasons.has(lead.id))) {
       try {
         if (campaign.type === 'EMAIL') {
           if (!lead.email) {
@@ -272,11 +360,9 @@ export class CampaignsService {
           let htmlContent = campaign.template?.htmlContent || campaign.content || '';
 
           // Replace merge fields in HTML content
-          htmlContent = htmlContent
-            .replace(/{firstName}/g, lead.firstName || '')
-            .replace(/{lastName}/g, lead.lastName || '')
-            .replace(/{email}/g, lead.email || '')
-            .replace(/{phone}/g, lead.phone || '');
+          htmlContent = htmlContent.replace(MERGE_FIELD_PATTERN, (_, field) =>
+            this.resolveMergeField(lead, field),
+          );
 
           // Send email using SMTP service
           const emailResult = await this.smtpEmailService.sendEmail({
@@ -314,14 +400,8 @@ export class CampaignsService {
             });
 
             for (const key of sortedKeys) {
-              const field = paramMapping[key];
-              let value = '';
-
               // Map lead fields to parameter values
-              if (field === 'firstName') value = lead.firstName || '';
-              else if (field === 'lastName') value = lead.lastName || '';
-              else if (field === 'email') value = lead.email || '';
-              else if (field === 'phone') value = lead.phone || '';
+              const value = this.resolveMergeField(lead, paramMapping[key]);
 
               parameters.push({ type: 'text', text: value });
             }
@@ -362,8 +442,10 @@ export class CampaignsService {
       data: {
         status: 'COMPLETED',
         completedAt: new Date(),
+        totalRecipients: leads.length,
         sentCount,
         failedCount,
+        skippedCount: skipReasons.size,
         deliveredCount: sentCount, // In production, track actual delivery
       },
       include: {
@@ -373,6 +455,29 @@ export class CampaignsService {
     });
   }
 
+  /**
+   * Recipients left out of a sent campaign and why
+   */
+  async getSkippedRecipients(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    return this.prisma.campaignRecipientSkip.findMany({
+      where: { campaignId: id },
+      include: {
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            email: true,
+            phone: true,
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
   async getStats(userId: string) {
     let baseWhere: any = { createdById: userId };
     baseWhere = this.prisma.addTenantFilter(baseWhere);
@@ -413,4 +518,22 @@ export class CampaignsService {
       totalFailed: totalFailed._sum.failedCount || 0,
     };
   }
+
+  /**
+   * Value of a merge field for a lead: one of the standard contact fields,
+   * or custom.<key> for a lead custom field
+   */
+  private resolveMergeField(lead: any, field: string): string {
+    if (field?.startsWith('custom.')) {
+      return this.customFieldsService.formatValue(
+        lead.customFields?.[field.slice('custom.'.length)],
+      );
+    }
+
+    if (['firstName', 'lastName', 'email', 'phone'].includes(field)) {
+      return lead[field] || '';
+    }
+
+    return '';
+  }
 }
@@ -1,4 +1,5 @@
-import { IsString, IsNotEmpty, IsEnum, IsOptional, IsUUID, IsDateString } from 'class-validator';
+import { IsString, IsNotEmpty, IsEnum, IsOptional, IsUUID, IsDateString, IsObject } from 'class-validator';
+import type { TagFilter } from '../../tags/tags.service';
 
 export class CreateCampaignDto {
   @IsString()
@@ -29,6 +30,10 @@ export class CreateCampaignDto {
   @IsNotEmpty()
   contactGroupId: string;
 
+  @IsObject()
+  @IsOptional()
+  audienceTags?: TagFilter; // Only group members matching these tags, e.g. { any: [...], none: [...] }
+
   @IsDateString()
   @IsOptional()
   scheduledAt?: string;
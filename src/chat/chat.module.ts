@@ -5,17 +5,21 @@ import { WhatsAppModule } from '../whatsapp/whatsapp.module';
 import { OpenAIService } from '../ai/openai.service';
 import { AIService } from '../ai/ai.service';
 import { WidgetAuthService } from '../ai/widget-auth.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
 import { PrismaService } from '../common/services/prisma.service';
 import { SettingsModule } from '../settings/settings.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { LeadsModule } from '../leads/leads.module';
 
 @Module({
-  imports: [SettingsModule, WhatsAppModule],
+  imports: [SettingsModule, WhatsAppModule, LeadScoringModule, LeadsModule],
   controllers: [ChatController],
   providers: [
     ChatService,
     OpenAIService,
     AIService,
     WidgetAuthService,
+    LeadStageHistoryService,
     PrismaService
   ],
   exports: [ChatService],
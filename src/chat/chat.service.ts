@@ -1,8 +1,14 @@
 import { Injectable } from '@nestjs/common';
-import { PrismaService } from '../common/services/prisma.service';
+import {
+  PrismaService,
+  LEAD_NOT_RECYCLED,
+} from '../common/services/prisma.service';
 import { LeadSource, LeadStatus, InsuranceType } from '@prisma/client';
 import { getTenantContext } from '../common/context/tenant-context';
 import { WhatsAppTenantService } from '../whatsapp/whatsapp-tenant.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadsService } from '../leads/leads.service';
 import OpenAI from 'openai';
 import { ConfigService } from '@nestjs/config';
 
@@ -14,6 +20,9 @@ export class ChatService {
     private prisma: PrismaService,
     private configService: ConfigService,
     private whatsappTenantService: WhatsAppTenantService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadScoringService: LeadScoringService,
+    private leadsService: LeadsService,
   ) {
     this.openai = new OpenAI({
       apiKey: this.configService.get<string>('OPENAI_API_KEY') || 'dummy-key',
@@ -54,6 +63,16 @@ export class ChatService {
           tenant: { connect: { id: tenantId } },
         },
       });
+
+      await this.stageHistoryService.recordTransition({
+        leadId: lead.id,
+        tenantId: lead.tenantId,
+        toStatus: lead.status,
+        note: 'Auto-created from WhatsApp contact',
+        source: 'WHATSAPP',
+      });
+
+      await this.leadsService.routeInboundLead(lead.id);
     }
 
     return lead;
@@ -94,7 +113,7 @@ export class ChatService {
     }
 
     return this.prisma.aIConversation.findFirst({
-      where: { leadId },
+      where: { leadId, ...LEAD_NOT_RECYCLED },
       include: {
         chatMessages: {
           where: { tenantId }, // SECURITY: Always filter messages by tenant
@@ -171,8 +190,17 @@ export class ChatService {
           });
         }
 
+        // A lead in the recycle bin stays linked so restoring it brings the
+        // conversation back; the contact must not get a second lead meanwhile
+        const recycled =
+          !lead && leadId
+            ? (await this.prisma.lead.count({
+                where: { id: leadId, deletedAt: { not: null } },
+              })) > 0
+            : false;
+
         // If no lead found but we have phone number, try to find/create one
-        if (!lead && phoneNumber) {
+        if (!lead && !recycled && phoneNumber) {
           lead = await this.createOrGetLead(phoneNumber, customerName);
           
           // Link this conversation to the found/created lead
@@ -439,6 +467,7 @@ Guidelines:
         metadata: { phoneNumber, senderName },
         leadId: lead.id,
       });
+      await this.leadScoringService.rescoreLead(lead.id, 'WhatsApp reply');
 
       // CRITICAL: Get tenant context to filter chat messages
       const context = getTenantContext();
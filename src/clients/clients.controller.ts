@@ -1,15 +1,26 @@
-import { Controller, Get, Post, Param, Query, Patch, Body, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Param, Query, Patch, Delete, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { ClientsService } from './clients.service';
 import { PaginationDto } from '../common/dto/pagination.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { TagsService } from '../tags/tags.service';
+import { AssignTagsDto } from '../tags/dto/assign-tags.dto';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+import { RelationshipsService } from '../relationships/relationships.service';
+import { CreateDependantDto } from '../relationships/dto/create-dependant.dto';
 
 @ApiTags('Clients')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
 @Controller('clients')
 export class ClientsController {
-  constructor(private readonly clientsService: ClientsService) {}
+  constructor(
+    private readonly clientsService: ClientsService,
+    private readonly tagsService: TagsService,
+    private readonly relationshipsService: RelationshipsService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all clients with pagination' })
@@ -41,15 +52,64 @@ export class ClientsController {
     return this.clientsService.findOne(id);
   }
 
+  @Get(':id/household')
+  @ApiOperation({
+    summary: 'Get the household of a client with policies and open opportunities',
+  })
+  @ApiResponse({ status: 200, description: 'Household retrieved' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  getHousehold(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.relationshipsService.getHousehold({ clientId: id }, user);
+  }
+
+  @Post(':id/dependants')
+  @ApiOperation({ summary: 'Create a linked lead for a dependant of the client' })
+  @ApiResponse({ status: 201, description: 'Lead created and linked' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  createDependant(
+    @Param('id') id: string,
+    @Body() dependantDto: CreateDependantDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.relationshipsService.createDependant(id, dependantDto, user);
+  }
+
   @Patch(':id')
   @ApiOperation({ summary: 'Update client' })
   update(@Param('id') id: string, @Body() updateClientDto: any) {
     return this.clientsService.update(id, updateClientDto);
   }
 
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete client (moves it to the recycle bin)' })
+  @ApiResponse({ status: 200, description: 'Client deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Client not found' })
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.clientsService.remove(id, user.id);
+  }
+
   @Patch(':id/policy')
   @ApiOperation({ summary: 'Update client policy information' })
   updatePolicy(@Param('id') id: string, @Body() updateData: any) {
     return this.clientsService.updatePolicy(id, updateData);
   }
+
+  @Post(':id/tags')
+  @ApiOperation({ summary: 'Add tags to a client' })
+  async addTags(
+    @Param('id') id: string,
+    @Body() assignTagsDto: AssignTagsDto,
+    @CurrentUser() user: any,
+  ) {
+    await this.clientsService.findOne(id);
+    return this.tagsService.tagClient(id, assignTagsDto.tagIds, user.id);
+  }
+
+  @Delete(':id/tags/:tagId')
+  @ApiOperation({ summary: 'Remove a tag from a client' })
+  async removeTag(@Param('id') id: string, @Param('tagId') tagId: string) {
+    await this.clientsService.findOne(id);
+    return this.tagsService.untagClient(id, tagId);
+  }
 }
\ No newline at end of file
@@ -2,8 +2,18 @@ import { Module } from '@nestjs/common';
 import { ClientsService } from './clients.service';
 import { ClientsController } from './clients.controller';
 import { PrismaService } from '../common/services/prisma.service';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { TagsModule } from '../tags/tags.module';
+import { ReferralsModule } from '../referrals/referrals.module';
+import { RelationshipsModule } from '../relationships/relationships.module';
 
 @Module({
+  imports: [
+    CustomFieldsModule,
+    TagsModule,
+    ReferralsModule,
+    RelationshipsModule,
+  ],
   controllers: [ClientsController],
   providers: [ClientsService, PrismaService],
   exports: [ClientsService],
@@ -1,10 +1,21 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../common/services/prisma.service';
 import { PaginationDto, PaginationResult } from '../common/dto/pagination.dto';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { CustomFieldEntity } from '../custom-fields/enums/custom-field.enums';
+import { TAG_SELECT } from '../tags/tags.service';
+import {
+  ReferralsService,
+  REFERRER_SUMMARY_SELECT,
+} from '../referrals/referrals.service';
 
 @Injectable()
 export class ClientsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private customFieldsService: CustomFieldsService,
+    private referralsService: ReferralsService,
+  ) {}
 
   async findAll(paginationDto: PaginationDto): Promise<PaginationResult<any>> {
     const { page, limit, search, sortBy, sortOrder } = paginationDto;
@@ -71,6 +82,11 @@ export class ClientsService {
 
   async create(createClientDto: any) {
     const { firstName, lastName, email, phone, policyNumber, premium, commission, startDate, renewalDate } = createClientDto;
+    const customFields = await this.customFieldsService.prepareForCreate(
+      CustomFieldEntity.CLIENT,
+      createClientDto.customFields,
+    );
+    const referrerId = await this.referralsService.resolveReferrerId(createClientDto);
 
     const client = await this.prisma.client.create({
       // @ts-ignore - tenantId added by Prisma middleware
@@ -85,6 +101,8 @@ export class ClientsService {
         startDate: startDate ? new Date(startDate) : null,
         renewalDate: renewalDate ? new Date(renewalDate) : null,
         isActive: true,
+        customFields,
+        referrerId,
       },
       include: {
         product: true,
@@ -125,6 +143,8 @@ export class ClientsService {
         },
         product: true,
         company: true,
+        tags: { select: { tag: TAG_SELECT } },
+        referrer: REFERRER_SUMMARY_SELECT,
       },
     });
 
@@ -140,9 +160,18 @@ export class ClientsService {
 
   async update(id: string, updateClientDto: any) {
     // Validate tenant access
-    await this.findOne(id);
+    const { data: existingClient } = await this.findOne(id);
 
     const { firstName, lastName, email, phone, policyNumber, premium, commission, startDate, renewalDate, isActive } = updateClientDto;
+    const customFields = await this.customFieldsService.prepareForUpdate(
+      CustomFieldEntity.CLIENT,
+      updateClientDto.customFields,
+      existingClient.customFields,
+    );
+    const referrerId = await this.referralsService.resolveReferrerId(
+      updateClientDto,
+      { clientId: id },
+    );
 
     const updatedClient = await this.prisma.client.update({
       where: { id },
@@ -157,6 +186,8 @@ export class ClientsService {
         ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
         ...(renewalDate !== undefined && { renewalDate: renewalDate ? new Date(renewalDate) : null }),
         ...(isActive !== undefined && { isActive }),
+        ...(customFields !== undefined && { customFields }),
+        ...(referrerId !== undefined && { referrerId }),
       },
       include: {
         product: true,
@@ -171,6 +202,24 @@ export class ClientsService {
     };
   }
 
+  /**
+   * Move a client to the recycle bin. It can be restored until the tenant's
+   * retention period runs out.
+   */
+  async remove(id: string, userId: string) {
+    await this.findOne(id);
+
+    await this.prisma.client.update({
+      where: { id },
+      data: { deletedAt: new Date(), deletedById: userId },
+    });
+
+    return {
+      success: true,
+      message: 'Client moved to the recycle bin',
+    };
+  }
+
   async getClientStats() {
     let baseWhere: any = {};
     baseWhere = this.prisma.addTenantFilter(baseWhere);
@@ -225,9 +274,13 @@ export class ClientsService {
     // Validate tenant access
     await this.findOne(id);
 
+    // Custom fields only change through update(), which validates them
+    const policyData = { ...updateData };
+    delete policyData.customFields;
+
     return this.prisma.client.update({
       where: { id },
-      data: updateData,
+      data: policyData,
     });
   }
 
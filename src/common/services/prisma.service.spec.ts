@@ -0,0 +1,111 @@
+import { PrismaService } from './prisma.service';
+
+type AllOperations = (params: {
+  model: string;
+  operation: string;
+  args: any;
+  query: (args: any) => any;
+}) => any;
+
+let allOperations: AllOperations;
+
+// A client that only records the soft delete extension
+jest.mock('@prisma/client', () => ({
+  ...jest.requireActual('@prisma/client'),
+  PrismaClient: class {
+    $extends(extension: any) {
+      allOperations = extension.query.$allModels.$allOperations;
+      return this;
+    }
+  },
+}));
+
+describe('PrismaService soft delete', () => {
+  beforeAll(() => {
+    new PrismaService();
+  });
+
+  // Arguments the query runs with
+  const run = (model: string, operation: string, args: any) =>
+    allOperations({ model, operation, args, query: (final) => final });
+
+  it('leaves soft-deleted leads out of top-level reads and updates', () => {
+    expect(run('Lead', 'findMany', { where: { status: 'NEW' } })).toEqual({
+      where: { status: 'NEW', deletedAt: null },
+    });
+    expect(run('Client', 'updateMany', { where: {}, data: {} })).toEqual({
+      where: { deletedAt: null },
+      data: {},
+    });
+  });
+
+  it('keeps recycle bin queries that filter on deletedAt', () => {
+    const args = { where: { deletedAt: { not: null } } };
+
+    expect(run('Lead', 'findMany', args)).toEqual(args);
+  });
+
+  it('filters relations to leads and clients at any depth', () => {
+    expect(
+      run('Task', 'findMany', {
+        where: {
+          lead: { assignedUserId: 'user-1' },
+          OR: [{ lead: { is: { email: 'a@b.c' } } }, { lead: null }],
+          assignedUser: { assignedLeads: { some: { status: 'NEW' } } },
+        },
+      }),
+    ).toEqual({
+      where: {
+        lead: { assignedUserId: 'user-1', deletedAt: null },
+        OR: [
+          { lead: { is: { email: 'a@b.c', deletedAt: null } } },
+          { lead: null },
+        ],
+        assignedUser: {
+          assignedLeads: { some: { status: 'NEW', deletedAt: null } },
+        },
+      },
+    });
+  });
+
+  it('does not require soft-deleted rows to match every', () => {
+    expect(
+      run('User', 'count', {
+        where: { assignedLeads: { every: { status: 'NEW' } } },
+      }),
+    ).toEqual({
+      where: {
+        assignedLeads: {
+          every: { OR: [{ status: 'NEW' }, { deletedAt: { not: null } }] },
+        },
+      },
+    });
+  });
+
+  it('leaves soft-deleted leads out of included lists and counts', () => {
+    expect(
+      run('User', 'findMany', {
+        include: {
+          assignedLeads: { where: { status: 'NEW' }, include: { tasks: true } },
+          tasks: true,
+          _count: { select: { assignedLeads: true } },
+        },
+      }),
+    ).toEqual({
+      include: {
+        assignedLeads: {
+          where: { status: 'NEW', deletedAt: null },
+          include: { tasks: true },
+        },
+        tasks: true,
+        _count: { select: { assignedLeads: { where: { deletedAt: null } } } },
+      },
+    });
+  });
+
+  it('does not rewrite relation filters of writes', () => {
+    const args = { where: { lead: { id: 'lead-1' } } };
+
+    expect(run('Task', 'deleteMany', args)).toEqual(args);
+  });
+});
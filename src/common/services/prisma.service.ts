@@ -17,15 +17,249 @@ const TENANT_MODELS = [
   'chatMessage',      // SECURITY FIX: Added for WhatsApp message isolation
   'emailMessage',     // SECURITY FIX: Added for email message isolation
   'aITrainingData',   // SECURITY FIX: Added for AI training data isolation
+  'leadStageTransition',
+  'pipeline',
+  'pipelineStage',
+  'leadMerge',
+  'leadImport',
+  'leadScoringRule',
+  'leadRoutingRule',
+  'leadRoutingRuleMember',
+  'customFieldDefinition',
+  'leadView',
+  'leadSlaPolicy',
+  'leadSlaBreach',
+  'tag',
+  'leadTag',
+  'clientTag',
+  'leadActivity',
+  'leadForm',
+  'leadFormSubmission',
+  'apiKey',
+  'apiLeadSubmission',
+  'privacyRequest',
+  'marketingConsent',
+  'marketingSuppression',
+  'campaignRecipientSkip',
+  'referrer',
+  'referralReward',
+  'quote',
+  'lostReason',
+  'forecastSnapshot',
+  'relationship',
 ];
 
 // Models with explicit user relationship (not tenant-scoped)
 const USER_MODEL = 'user';
 
+// Models with soft delete. Rows with deletedAt set are left out of these
+// operations unless the query filters on deletedAt itself (recycle bin);
+// `deletedAt: undefined` matches deleted and live rows alike. Hard deletes
+// are not affected.
+const SOFT_DELETE_MODELS = ['Lead', 'Client'];
+const SOFT_DELETE_FILTERED_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+];
+// Reads in which relation filters and lists of leads and clients reached
+// from any model leave out soft-deleted rows too. A single related lead or
+// client cannot be filtered out of an include; see LEAD_NOT_RECYCLED.
+const SOFT_DELETE_READ_OPERATIONS = SOFT_DELETE_FILTERED_OPERATIONS.filter(
+  (operation) => !operation.startsWith('update'),
+);
+
+// Relation fields of every model: related model and whether it is a list
+const RELATIONS = new Map(
+  Prisma.dmmf.datamodel.models.map((model) => [
+    model.name,
+    new Map(
+      model.fields
+        .filter((field) => field.kind === 'object')
+        .map((field) => [
+          field.name,
+          { model: field.type, isList: field.isList },
+        ]),
+    ),
+  ]),
+);
+
+/**
+ * Filter for records tied to a lead whose lead is not in the recycle bin.
+ * Records without a lead match.
+ */
+export const LEAD_NOT_RECYCLED = {
+  NOT: { lead: { deletedAt: { not: null } } },
+};
+
+const isSoftDeleted = (model: string) => SOFT_DELETE_MODELS.includes(model);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Filter on a related model, limited to live rows if it has soft delete
+function liveRelated(model: string, filter: unknown) {
+  if (!isObject(filter)) return filter;
+  const where = withLiveRelations(model, filter);
+  return isSoftDeleted(model) && !('deletedAt' in where)
+    ? { ...where, deletedAt: null }
+    : where;
+}
+
+/**
+ * Where clause with live-row conditions added to every relation filter on
+ * leads and clients, at any depth
+ */
+function withLiveRelations(model: string, where: Record<string, any>) {
+  const relations = RELATIONS.get(model);
+  const result: Record<string, any> = { ...where };
+
+  for (const [key, value] of Object.entries(where)) {
+    if (key === 'AND' || key === 'OR' || key === 'NOT') {
+      result[key] = Array.isArray(value)
+        ? value.map((item) =>
+            isObject(item) ? withLiveRelations(model, item) : item,
+          )
+        : isObject(value)
+          ? withLiveRelations(model, value)
+          : value;
+      continue;
+    }
+
+    const relation = relations?.get(key);
+    if (!relation || !isObject(value)) continue;
+
+    if (relation.isList) {
+      const filter = { ...value };
+      for (const quantifier of ['some', 'none'] as const) {
+        if (quantifier in filter) {
+          filter[quantifier] = liveRelated(relation.model, filter[quantifier]);
+        }
+      }
+      // Soft-deleted rows do not have to match
+      if (isObject(filter.every)) {
+        const every = withLiveRelations(relation.model, filter.every);
+        filter.every =
+          isSoftDeleted(relation.model) && !('deletedAt' in every)
+            ? { OR: [every, { deletedAt: { not: null } }] }
+            : every;
+      }
+      result[key] = filter;
+    } else if ('is' in value || 'isNot' in value) {
+      result[key] = {
+        ...value,
+        ...('is' in value && { is: liveRelated(relation.model, value.is) }),
+      };
+    } else {
+      result[key] = liveRelated(relation.model, value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Include or select with live-row conditions added to lists and counts of
+ * leads and clients, at any depth
+ */
+function withLiveLists(model: string, selection: Record<string, any>) {
+  const relations = RELATIONS.get(model);
+  const result: Record<string, any> = { ...selection };
+
+  for (const [key, value] of Object.entries(selection)) {
+    if (key === '_count' && isObject(value) && isObject(value.select)) {
+      result[key] = {
+        ...value,
+        select: Object.fromEntries(
+          Object.entries(value.select).map(([name, count]) => {
+            const relation = relations?.get(name);
+            const where = isObject(count) ? count.where : undefined;
+            if (!relation || !(where || isSoftDeleted(relation.model))) {
+              return [name, count];
+            }
+            return [
+              name,
+              {
+                ...(isObject(count) && count),
+                where: liveRelated(relation.model, where ?? {}),
+              },
+            ];
+          }),
+        ),
+      };
+      continue;
+    }
+
+    const relation = relations?.get(key);
+    if (!relation || (value !== true && !isObject(value))) continue;
+
+    const args: Record<string, any> = isObject(value) ? { ...value } : {};
+    if (relation.isList && (args.where || isSoftDeleted(relation.model))) {
+      args.where = liveRelated(relation.model, args.where ?? {});
+    }
+    for (const nested of ['include', 'select'] as const) {
+      if (isObject(args[nested])) {
+        args[nested] = withLiveLists(relation.model, args[nested]);
+      }
+    }
+    result[key] =
+      value === true && Object.keys(args).length === 0 ? true : args;
+  }
+
+  return result;
+}
+
 @Injectable()
 export class PrismaService extends PrismaClient implements OnModuleInit {
   private readonly logger = new Logger(PrismaService.name);
 
+  constructor() {
+    super();
+
+    // Every injected PrismaService is the extended client, so soft-deleted
+    // leads and clients stay hidden from all queries, including the ones
+    // built with addTenantFilter
+    return this.$extends({
+      query: {
+        $allModels: {
+          $allOperations({ model, operation, args, query }) {
+            if (SOFT_DELETE_READ_OPERATIONS.includes(operation)) {
+              const readArgs = args as any;
+              if (isObject(readArgs.where)) {
+                readArgs.where = withLiveRelations(model, readArgs.where);
+              }
+              for (const selection of ['include', 'select'] as const) {
+                if (isObject(readArgs[selection])) {
+                  readArgs[selection] = withLiveLists(
+                    model,
+                    readArgs[selection],
+                  );
+                }
+              }
+            }
+            if (
+              SOFT_DELETE_MODELS.includes(model) &&
+              SOFT_DELETE_FILTERED_OPERATIONS.includes(operation)
+            ) {
+              const where = (args as any).where ?? {};
+              if (!('deletedAt' in where)) {
+                (args as any).where = { ...where, deletedAt: null };
+              }
+            }
+            return query(args);
+          },
+        },
+      },
+    }) as unknown as PrismaService;
+  }
+
   async onModuleInit() {
     await this.$connect();
     this.logger.log('✅ Prisma connected - tenantId must be explicitly provided in all creates');
@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { CommunicationsService } from './communications.service';
 import { CommunicationsController } from './communications.controller';
 import { PrismaService } from '../common/services/prisma.service';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
 
 @Module({
+  imports: [LeadScoringModule],
   controllers: [CommunicationsController],
   providers: [CommunicationsService, PrismaService],
   exports: [CommunicationsService],
@@ -3,15 +3,22 @@ import {
   NotFoundException,
   ForbiddenException,
 } from '@nestjs/common';
-import { PrismaService } from '../common/services/prisma.service';
+import {
+  PrismaService,
+  LEAD_NOT_RECYCLED,
+} from '../common/services/prisma.service';
 import { CreateCommunicationDto } from './dto/create-communication.dto';
 import { CommunicationQueryDto } from './dto/communication-query.dto';
 import { PaginationResult } from '../common/dto/pagination.dto';
 import { UserRole } from '@prisma/client';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
 
 @Injectable()
 export class CommunicationsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private leadScoringService: LeadScoringService,
+  ) {}
 
   async create(createCommunicationDto: CreateCommunicationDto, userId: string) {
     const lead = await this.prisma.lead.findUnique({
@@ -52,6 +59,11 @@ export class CommunicationsService {
       data: { lastContactedAt: new Date() },
     });
 
+    await this.leadScoringService.rescoreLead(
+      createCommunicationDto.leadId,
+      'communication logged',
+    );
+
     return communication;
   }
 
@@ -62,7 +74,7 @@ export class CommunicationsService {
     const { page, limit, search, sortBy, sortOrder, ...filters } = queryDto;
     const skip = (page - 1) * limit;
 
-    let where: any = {};
+    let where: any = { ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter first
     where = this.prisma.addTenantFilter(where);
@@ -136,7 +148,7 @@ export class CommunicationsService {
   }
 
   async findOne(id: string, currentUser: any) {
-    let where: any = { id };
+    let where: any = { id, ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter first
     where = this.prisma.addTenantFilter(where);
@@ -228,7 +240,7 @@ export class CommunicationsService {
   }
 
   async getCommunicationStats(currentUser: any) {
-    let where: any = {};
+    let where: any = { ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter first
     where = this.prisma.addTenantFilter(where);
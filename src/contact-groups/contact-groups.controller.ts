@@ -79,6 +79,14 @@ export class ContactGroupsController {
     return this.contactGroupsService.addLeadsToGroup(id, dto, user.id);
   }
 
+  @Post(':id/sync')
+  @ApiOperation({ summary: 'Refresh group members from its saved lead view' })
+  @ApiResponse({ status: 200, description: 'Group members synced with the view' })
+  @ApiResponse({ status: 400, description: 'Group is not linked to a lead view' })
+  syncGroupWithView(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.contactGroupsService.syncGroupWithView(id, user.id);
+  }
+
   @Delete(':groupId/leads/:leadId')
   @ApiOperation({ summary: 'Remove lead from contact group' })
   @ApiResponse({ status: 200, description: 'Lead removed from group successfully' })
@@ -2,8 +2,10 @@ import { Module } from '@nestjs/common';
 import { ContactGroupsService } from './contact-groups.service';
 import { ContactGroupsController } from './contact-groups.controller';
 import { PrismaService } from '../common/services/prisma.service';
+import { LeadViewsModule } from '../lead-views/lead-views.module';
 
 @Module({
+  imports: [LeadViewsModule],
   controllers: [ContactGroupsController],
   providers: [ContactGroupsService, PrismaService],
   exports: [ContactGroupsService],
@@ -1,16 +1,24 @@
 import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { UserRole } from '@prisma/client';
 import { PrismaService } from '../common/services/prisma.service';
 import { getTenantContext } from '../common/context/tenant-context';
 import { CreateContactGroupDto } from './dto/create-contact-group.dto';
 import { UpdateContactGroupDto } from './dto/update-contact-group.dto';
 import { AddLeadsToGroupDto } from './dto/add-leads-to-group.dto';
+import { LeadViewsService } from '../lead-views/lead-views.service';
+
+// Members whose lead is not in the recycle bin
+const ACTIVE_MEMBER = { lead: { deletedAt: null } };
 
 @Injectable()
 export class ContactGroupsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private leadViewsService: LeadViewsService,
+  ) {}
 
   async create(createDto: CreateContactGroupDto, userId: string) {
-    const { leadIds, ...groupData } = createDto;
+    const { leadIds, leadViewId, ...groupData } = createDto;
 
     // Get tenant context
     const context = getTenantContext();
@@ -20,6 +28,10 @@ export class ContactGroupsService {
       throw new BadRequestException('Tenant context required');
     }
 
+    if (leadViewId) {
+      await this.leadViewsService.findOne(leadViewId, { id: userId });
+    }
+
     const group = await this.prisma.contactGroup.create({
       data: {
         ...groupData,
@@ -29,6 +41,7 @@ export class ContactGroupsService {
         tenant: {
           connect: { id: tenantId },
         },
+        ...(leadViewId && { leadView: { connect: { id: leadViewId } } }),
         ...(leadIds && leadIds.length > 0
           ? {
               leads: {
@@ -39,6 +52,7 @@ export class ContactGroupsService {
       },
       include: {
         leads: {
+          where: ACTIVE_MEMBER,
           include: {
             lead: {
               select: {
@@ -53,11 +67,16 @@ export class ContactGroupsService {
           },
         },
         _count: {
-          select: { leads: true },
+          select: { leads: { where: ACTIVE_MEMBER } },
         },
       },
     });
 
+    if (group.leadViewId) {
+      await this.syncGroupWithView(group.id);
+      return this.findOne(group.id, userId);
+    }
+
     return group;
   }
 
@@ -71,7 +90,7 @@ export class ContactGroupsService {
       where,
       include: {
         _count: {
-          select: { leads: true },
+          select: { leads: { where: ACTIVE_MEMBER } },
         },
       },
       orderBy: { createdAt: 'desc' },
@@ -88,6 +107,7 @@ export class ContactGroupsService {
       where,
       include: {
         leads: {
+          where: ACTIVE_MEMBER,
           include: {
             lead: {
               select: {
@@ -104,7 +124,7 @@ export class ContactGroupsService {
           },
         },
         _count: {
-          select: { leads: true },
+          select: { leads: { where: ACTIVE_MEMBER } },
         },
       },
     });
@@ -121,15 +141,25 @@ export class ContactGroupsService {
 
     const { leadIds, ...groupData } = updateDto;
 
-    return this.prisma.contactGroup.update({
+    if (groupData.leadViewId) {
+      await this.leadViewsService.findOne(groupData.leadViewId, { id: userId });
+    }
+
+    const group = await this.prisma.contactGroup.update({
       where: { id },
       data: groupData,
       include: {
         _count: {
-          select: { leads: true },
+          select: { leads: { where: ACTIVE_MEMBER } },
         },
       },
     });
+
+    if (groupData.leadViewId) {
+      await this.syncGroupWithView(id);
+    }
+
+    return group;
   }
 
   async remove(id: string, userId: string) {
@@ -182,6 +212,55 @@ export class ContactGroupsService {
     return { message: 'Lead removed from group successfully' };
   }
 
+  /**
+   * Replace the members of a view-backed group with the leads currently
+   * matching the view, as its creator would see them in the lead list.
+   * Given a userId, the group must belong to that user.
+   */
+  async syncGroupWithView(id: string, userId?: string) {
+    if (userId) {
+      await this.findOne(id, userId); // Check if exists
+    }
+
+    const group = await this.prisma.contactGroup.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: { createdBy: { select: { id: true, role: true } } },
+    });
+
+    if (!group) {
+      throw new NotFoundException('Contact group not found');
+    }
+    if (!group.leadViewId) {
+      throw new BadRequestException('Contact group is not linked to a lead view');
+    }
+
+    const viewWhere = await this.leadViewsService.getViewWhere(group.leadViewId, group.createdBy);
+    let where: any = { AND: [viewWhere] };
+    where = this.prisma.addTenantFilter(where);
+    if (group.createdBy.role === UserRole.AGENT) {
+      where.assignedUserId = group.createdBy.id;
+    }
+
+    const leads = await this.prisma.lead.findMany({ where, select: { id: true } });
+    const leadIds = leads.map((lead) => lead.id);
+
+    await this.prisma.$transaction([
+      this.prisma.leadContactGroup.deleteMany({
+        where: { contactGroupId: id, leadId: { notIn: leadIds } },
+      }),
+      this.prisma.leadContactGroup.createMany({
+        data: leadIds.map((leadId) => ({ leadId, contactGroupId: id })),
+        skipDuplicates: true,
+      }),
+      this.prisma.contactGroup.update({
+        where: { id },
+        data: { lastSyncedAt: new Date() },
+      }),
+    ]);
+
+    return { contactGroupId: id, leadViewId: group.leadViewId, memberCount: leadIds.length };
+  }
+
   async getGroupContacts(groupId: string, userId: string) {
     const group = await this.findOne(groupId, userId);
 
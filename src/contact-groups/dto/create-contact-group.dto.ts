@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsEnum, IsArray } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsArray, IsUUID } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { ContactGroupType } from '@prisma/client';
 
@@ -28,4 +28,12 @@ export class CreateContactGroupDto {
   @IsOptional()
   @IsArray()
   leadIds?: string[];
+
+  @ApiPropertyOptional({
+    example: 'view-uuid-here',
+    description: 'Saved lead view whose matching leads make up the group. Members are replaced on every sync and before a campaign sends'
+  })
+  @IsOptional()
+  @IsUUID()
+  leadViewId?: string;
 }
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CustomFieldsService } from './custom-fields.service';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import { CustomFieldEntity } from './enums/custom-field.enums';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Custom Fields')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('custom-fields')
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get custom field definitions in display order' })
+  @ApiQuery({ name: 'entityType', enum: CustomFieldEntity, required: false })
+  @ApiResponse({ status: 200, description: 'Custom fields retrieved' })
+  findAll(
+    @Query(
+      'entityType',
+      new ParseEnumPipe(CustomFieldEntity, { optional: true }),
+    )
+    entityType?: CustomFieldEntity,
+  ) {
+    return this.customFieldsService.findAll(entityType);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Create a custom field' })
+  @ApiResponse({ status: 201, description: 'Custom field created' })
+  @ApiResponse({ status: 400, description: 'Field configuration is invalid' })
+  @ApiResponse({ status: 409, description: 'Key already in use' })
+  create(@Body() createFieldDto: CreateCustomFieldDto) {
+    return this.customFieldsService.create(createFieldDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get custom field by ID' })
+  @ApiResponse({ status: 200, description: 'Custom field found' })
+  @ApiResponse({ status: 404, description: 'Custom field not found' })
+  findOne(@Param('id') id: string) {
+    return this.customFieldsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a custom field' })
+  @ApiResponse({ status: 200, description: 'Custom field updated' })
+  update(
+    @Param('id') id: string,
+    @Body() updateFieldDto: UpdateCustomFieldDto,
+  ) {
+    return this.customFieldsService.update(id, updateFieldDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete a custom field and the values stored for it',
+  })
+  @ApiResponse({ status: 200, description: 'Custom field deleted' })
+  remove(@Param('id') id: string) {
+    return this.customFieldsService.remove(id);
+  }
+}
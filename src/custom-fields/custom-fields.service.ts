@@ -0,0 +1,453 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { CustomFieldDefinition, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { CreateCustomFieldDto } from './dto/create-custom-field.dto';
+import { UpdateCustomFieldDto } from './dto/update-custom-field.dto';
+import { CustomFieldEntity, CustomFieldType } from './enums/custom-field.enums';
+
+export type CustomFieldValue = string | number | boolean | string[];
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+/**
+ * Operators accepted by custom field list filters, e.g.
+ * {"vehicle_year":{"gte":2015},"cover":{"in":["Comprehensive"]}}
+ */
+const FILTER_OPERATORS = [
+  'equals',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'in',
+  'has',
+] as const;
+type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * CustomFieldsService - Tenant-defined typed fields on leads and clients
+ *
+ * Key Features:
+ * - Text, number, date, select, multi-select and boolean fields
+ * - Values are validated and normalized against the definitions before
+ *   they are stored on the record's customFields JSON column
+ * - List filters translated to JSON path conditions
+ * - Display formatting shared by exports and campaign merge fields
+ */
+@Injectable()
+export class CustomFieldsService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(entityType?: CustomFieldEntity, activeOnly = false) {
+    return this.prisma.customFieldDefinition.findMany({
+      where: this.prisma.addTenantFilter({
+        ...(entityType && { entityType }),
+        ...(activeOnly && { isActive: true }),
+      }),
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const field = await this.prisma.customFieldDefinition.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!field) {
+      throw new NotFoundException('Custom field not found');
+    }
+
+    return field;
+  }
+
+  async create(createFieldDto: CreateCustomFieldDto) {
+    const tenantId = this.requireTenantId();
+    this.validateDefinition(createFieldDto);
+
+    const existing = await this.prisma.customFieldDefinition.findFirst({
+      where: {
+        tenantId,
+        entityType: createFieldDto.entityType,
+        key: createFieldDto.key,
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `A ${createFieldDto.entityType.toLowerCase()} custom field with key "${createFieldDto.key}" already exists`,
+      );
+    }
+
+    return this.prisma.customFieldDefinition.create({
+      data: {
+        ...createFieldDto,
+        options: this.hasOptions(createFieldDto.fieldType)
+          ? createFieldDto.options
+          : Prisma.DbNull,
+        tenantId,
+      },
+    });
+  }
+
+  async update(id: string, updateFieldDto: UpdateCustomFieldDto) {
+    const field = await this.findOne(id);
+    this.validateDefinition({
+      fieldType: field.fieldType as CustomFieldType,
+      options: updateFieldDto.options ?? (field.options as string[]),
+      minValue:
+        updateFieldDto.minValue !== undefined
+          ? updateFieldDto.minValue
+          : field.minValue,
+      maxValue:
+        updateFieldDto.maxValue !== undefined
+          ? updateFieldDto.maxValue
+          : field.maxValue,
+    });
+
+    const { options, ...fieldData } = updateFieldDto;
+
+    return this.prisma.customFieldDefinition.update({
+      where: { id },
+      data: {
+        ...fieldData,
+        ...(options && this.hasOptions(field.fieldType) && { options }),
+      },
+    });
+  }
+
+  /**
+   * Delete a field and strip its stored values, so the key can later be
+   * reused with another type
+   */
+  async remove(id: string) {
+    const field = await this.findOne(id);
+    const path = `$.${field.key}`;
+
+    await this.prisma.$transaction([
+      field.entityType === CustomFieldEntity.CLIENT
+        ? this.prisma.$executeRaw`
+            UPDATE clients SET customFields = JSON_REMOVE(customFields, ${path})
+            WHERE tenantId = ${field.tenantId}
+              AND JSON_CONTAINS_PATH(customFields, 'one', ${path})`
+        : this.prisma.$executeRaw`
+            UPDATE leads SET customFields = JSON_REMOVE(customFields, ${path})
+            WHERE tenantId = ${field.tenantId}
+              AND JSON_CONTAINS_PATH(customFields, 'one', ${path})`,
+      this.prisma.customFieldDefinition.delete({ where: { id } }),
+    ]);
+
+    return field;
+  }
+
+  /**
+   * Validate custom field values for a new record. Required fields must be
+   * present; returns undefined when the record has no custom values.
+   */
+  async prepareForCreate(
+    entityType: CustomFieldEntity,
+    input: Record<string, unknown> | undefined,
+  ): Promise<CustomFieldValues | undefined> {
+    const fields = await this.findAll(entityType, true);
+    const values = this.normalizeValues(fields, input ?? {}, {});
+
+    const missing = fields.filter(
+      (field) => field.isRequired && values[field.key] === undefined,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        missing.map((field) => `Custom field "${field.key}" is required`),
+      );
+    }
+
+    return Object.keys(values).length > 0 ? values : undefined;
+  }
+
+  /**
+   * Merge a partial update into a record's stored values. Null removes a
+   * value; keys left out keep their current value. Returns undefined when
+   * the update does not touch custom fields.
+   */
+  async prepareForUpdate(
+    entityType: CustomFieldEntity,
+    input: Record<string, unknown> | undefined,
+    current: Prisma.JsonValue,
+  ): Promise<CustomFieldValues | undefined> {
+    if (input === undefined) return undefined;
+
+    const fields = await this.findAll(entityType, true);
+    const stored =
+      current && typeof current === 'object' && !Array.isArray(current)
+        ? (current as CustomFieldValues)
+        : {};
+    const values = this.normalizeValues(fields, input, stored);
+
+    const cleared = fields.filter(
+      (field) =>
+        field.isRequired &&
+        field.key in input &&
+        values[field.key] === undefined,
+    );
+    if (cleared.length > 0) {
+      throw new BadRequestException(
+        cleared.map((field) => `Custom field "${field.key}" is required`),
+      );
+    }
+
+    return values;
+  }
+
+  /**
+   * Translate a custom field filter object into where conditions on the
+   * customFields column. A plain value matches exactly.
+   */
+  buildFilter(filters: Record<string, unknown>): Prisma.LeadWhereInput[] {
+    const conditions: Prisma.LeadWhereInput[] = [];
+
+    for (const [key, criteria] of Object.entries(filters)) {
+      if (!KEY_PATTERN.test(key)) {
+        throw new BadRequestException(`Invalid custom field key "${key}"`);
+      }
+      const path = `$.${key}`;
+      const operators =
+        criteria !== null &&
+        typeof criteria === 'object' &&
+        !Array.isArray(criteria)
+          ? (criteria as Partial<Record<FilterOperator, unknown>>)
+          : { equals: criteria };
+
+      for (const [operator, value] of Object.entries(operators)) {
+        switch (operator as FilterOperator) {
+          case 'equals':
+            conditions.push({
+              customFields: { path, equals: value as Prisma.InputJsonValue },
+            });
+            break;
+          case 'gt':
+          case 'gte':
+          case 'lt':
+          case 'lte':
+            conditions.push({
+              customFields: {
+                path,
+                [operator]: value as Prisma.InputJsonValue,
+              } as Prisma.JsonNullableFilter<'Lead'>,
+            });
+            break;
+          case 'contains':
+            if (typeof value !== 'string') {
+              throw new BadRequestException(
+                `Custom field filter "${key}.contains" must be text`,
+              );
+            }
+            conditions.push({
+              customFields: { path, string_contains: value },
+            });
+            break;
+          case 'in':
+            if (!Array.isArray(value)) {
+              throw new BadRequestException(
+                `Custom field filter "${key}.in" must be a list`,
+              );
+            }
+            conditions.push({
+              OR: value.map((item) => ({
+                customFields: { path, equals: item as Prisma.InputJsonValue },
+              })),
+            });
+            break;
+          case 'has':
+            conditions.push({
+              customFields: {
+                path,
+                array_contains: (Array.isArray(value)
+                  ? value
+                  : [value]) as Prisma.InputJsonValue,
+              },
+            });
+            break;
+          default:
+            throw new BadRequestException(
+              `Unknown custom field filter operator "${operator}". Allowed: ${FILTER_OPERATORS.join(', ')}`,
+            );
+        }
+      }
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Human-readable form of a stored value, for exports and merge fields
+   */
+  formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) return value.map(String).join(', ');
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number);
+  }
+
+  private normalizeValues(
+    fields: CustomFieldDefinition[],
+    input: Record<string, unknown>,
+    stored: CustomFieldValues,
+  ): CustomFieldValues {
+    const fieldsByKey = new Map(fields.map((field) => [field.key, field]));
+    const values: CustomFieldValues = { ...stored };
+    const errors: string[] = [];
+
+    for (const [key, raw] of Object.entries(input)) {
+      const field = fieldsByKey.get(key);
+      if (!field) {
+        errors.push(`Unknown custom field "${key}"`);
+        continue;
+      }
+
+      if (raw === null || raw === undefined || raw === '') {
+        delete values[key];
+        continue;
+      }
+
+      const result = this.normalizeValue(field, raw);
+      if (typeof result === 'object' && 'error' in result) {
+        errors.push(`Custom field "${key}" ${result.error}`);
+      } else {
+        values[key] = result;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return values;
+  }
+
+  private normalizeValue(
+    field: CustomFieldDefinition,
+    raw: unknown,
+  ): CustomFieldValue | { error: string } {
+    const options = Array.isArray(field.options)
+      ? (field.options as string[])
+      : [];
+
+    switch (field.fieldType as CustomFieldType) {
+      case CustomFieldType.TEXT: {
+        if (typeof raw !== 'string' && typeof raw !== 'number') {
+          return { error: 'must be text' };
+        }
+        const text = String(raw).trim();
+        if (field.maxLength && text.length > field.maxLength) {
+          return { error: `must be at most ${field.maxLength} characters` };
+        }
+        return text;
+      }
+
+      case CustomFieldType.NUMBER: {
+        const number = typeof raw === 'string' ? Number(raw.trim()) : raw;
+        if (typeof number !== 'number' || !Number.isFinite(number)) {
+          return { error: 'must be a number' };
+        }
+        if (field.minValue !== null && number < field.minValue) {
+          return { error: `must be at least ${field.minValue}` };
+        }
+        if (field.maxValue !== null && number > field.maxValue) {
+          return { error: `must be at most ${field.maxValue}` };
+        }
+        return number;
+      }
+
+      case CustomFieldType.DATE: {
+        const date =
+          typeof raw === 'string' && DATE_PATTERN.test(raw)
+            ? new Date(raw)
+            : null;
+        if (!date || isNaN(date.getTime())) {
+          return { error: 'must be a date (YYYY-MM-DD)' };
+        }
+        return date.toISOString().split('T')[0];
+      }
+
+      case CustomFieldType.SELECT: {
+        const choice = this.matchOption(options, raw);
+        return choice ?? { error: `must be one of: ${options.join(', ')}` };
+      }
+
+      case CustomFieldType.MULTI_SELECT: {
+        const items = Array.isArray(raw) ? raw : [raw];
+        const choices = items.map((item) => this.matchOption(options, item));
+        if (choices.some((choice) => choice === null)) {
+          return { error: `must only contain: ${options.join(', ')}` };
+        }
+        return [...new Set(choices)];
+      }
+
+      case CustomFieldType.BOOLEAN: {
+        if (typeof raw === 'boolean') return raw;
+        if (raw === 'true' || raw === 'false') return raw === 'true';
+        return { error: 'must be true or false' };
+      }
+
+      default:
+        return { error: `has unsupported type ${field.fieldType}` };
+    }
+  }
+
+  /**
+   * Options match case-insensitively and are stored with their defined
+   * spelling
+   */
+  private matchOption(options: string[], raw: unknown): string | null {
+    if (typeof raw !== 'string') return null;
+    const normalized = raw.trim().toLowerCase();
+    return (
+      options.find((option) => option.toLowerCase() === normalized) ?? null
+    );
+  }
+
+  private validateDefinition(definition: {
+    fieldType: CustomFieldType;
+    options?: string[] | null;
+    minValue?: number | null;
+    maxValue?: number | null;
+  }) {
+    if (this.hasOptions(definition.fieldType) && !definition.options?.length) {
+      throw new BadRequestException(
+        `${definition.fieldType} fields need at least one option`,
+      );
+    }
+
+    if (
+      definition.minValue !== null &&
+      definition.minValue !== undefined &&
+      definition.maxValue !== null &&
+      definition.maxValue !== undefined &&
+      definition.minValue > definition.maxValue
+    ) {
+      throw new BadRequestException('minValue cannot exceed maxValue');
+    }
+  }
+
+  private hasOptions(fieldType: string): boolean {
+    return (
+      fieldType === CustomFieldType.SELECT ||
+      fieldType === CustomFieldType.MULTI_SELECT
+    );
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
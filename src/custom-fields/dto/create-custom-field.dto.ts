@@ -0,0 +1,116 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  IsNumber,
+  Min,
+  Matches,
+  MinLength,
+  MaxLength,
+  ArrayUnique,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  CustomFieldEntity,
+  CustomFieldType,
+} from '../enums/custom-field.enums';
+
+export class CreateCustomFieldDto {
+  @ApiProperty({
+    enum: CustomFieldEntity,
+    example: CustomFieldEntity.LEAD,
+    description: 'Record type the field belongs to',
+  })
+  @IsEnum(CustomFieldEntity)
+  entityType: CustomFieldEntity;
+
+  @ApiProperty({
+    example: 'vehicle_registration',
+    description:
+      'Stable key used in API payloads, filters, exports and merge fields. Cannot be changed later',
+  })
+  @IsString()
+  @Matches(/^[a-z][a-z0-9_]*$/, {
+    message:
+      'key must start with a lowercase letter and contain only lowercase letters, digits and underscores',
+  })
+  @MaxLength(50)
+  key: string;
+
+  @ApiProperty({
+    example: 'Vehicle registration',
+    description: 'Label shown to users',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  label: string;
+
+  @ApiPropertyOptional({
+    example: 'Registration number of the insured vehicle',
+    description: 'Help text',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    enum: CustomFieldType,
+    example: CustomFieldType.TEXT,
+    description: 'Value type. Cannot be changed later',
+  })
+  @IsEnum(CustomFieldType)
+  fieldType: CustomFieldType;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['Comprehensive', 'Third party'],
+    description: 'Allowed choices, required for SELECT and MULTI_SELECT',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsString({ each: true })
+  options?: string[];
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Value must be given when the record is created',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isRequired?: boolean;
+
+  @ApiPropertyOptional({ example: 0, description: 'NUMBER lower bound' })
+  @IsOptional()
+  @IsNumber()
+  minValue?: number;
+
+  @ApiPropertyOptional({ example: 100, description: 'NUMBER upper bound' })
+  @IsOptional()
+  @IsNumber()
+  maxValue?: number;
+
+  @ApiPropertyOptional({ example: 20, description: 'TEXT length limit' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxLength?: number;
+
+  @ApiPropertyOptional({ example: 1, description: 'Display order' })
+  @IsOptional()
+  @IsInt()
+  position?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Inactive fields keep their stored values but accept no new ones',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
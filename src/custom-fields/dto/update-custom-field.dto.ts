@@ -0,0 +1,9 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateCustomFieldDto } from './create-custom-field.dto';
+
+/**
+ * Entity, key and type are fixed once values may have been stored
+ */
+export class UpdateCustomFieldDto extends PartialType(
+  OmitType(CreateCustomFieldDto, ['entityType', 'key', 'fieldType'] as const),
+) {}
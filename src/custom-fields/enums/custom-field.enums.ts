@@ -0,0 +1,17 @@
+/**
+ * Custom Field Enums - Entities carrying custom fields and the value types
+ */
+
+export enum CustomFieldEntity {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+}
+
+export enum CustomFieldType {
+  TEXT = 'TEXT',
+  NUMBER = 'NUMBER',
+  DATE = 'DATE', // Stored as YYYY-MM-DD
+  SELECT = 'SELECT', // One of the field's options
+  MULTI_SELECT = 'MULTI_SELECT', // Any of the field's options
+  BOOLEAN = 'BOOLEAN',
+}
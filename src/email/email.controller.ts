@@ -7,7 +7,9 @@ import {
   Query,
   UseGuards,
   Patch,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
@@ -22,6 +24,12 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { Public } from '../common/decorators/public.decorator';
 
+// 1x1 transparent GIF
+const TRACKING_PIXEL = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64',
+);
+
 @ApiTags('Email')
 @ApiBearerAuth()
 @UseGuards(JwtAuthGuard)
@@ -173,6 +181,17 @@ export class EmailController {
     };
   }
 
+  @Public()
+  @Get('track/:emailId/open')
+  @ApiOperation({ summary: 'Tracking pixel recording that an email was opened' })
+  async trackEmailOpen(@Param('emailId') emailId: string, @Res() res: Response) {
+    await this.emailService.recordEmailOpen(emailId);
+
+    res.setHeader('Content-Type', 'image/gif');
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(TRACKING_PIXEL);
+  }
+
   @Public()
   @Post('webhook/fetch')
   @ApiOperation({ summary: 'Webhook endpoint to queue email fetching' })
@@ -7,10 +7,14 @@ import { SmtpEmailService } from './smtp-email.service';
 import { PrismaService } from '../common/services/prisma.service';
 import { EncryptionService } from '../common/services/encryption.service';
 import { QueueService } from '../common/services/queue.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
 import { SettingsModule } from '../settings/settings.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { LeadsModule } from '../leads/leads.module';
+import { MarketingConsentModule } from '../marketing-consent/marketing-consent.module';
 
 @Module({
-  imports: [SettingsModule],
+  imports: [SettingsModule, LeadScoringModule, LeadsModule, MarketingConsentModule],
   controllers: [EmailController],
   providers: [
     EmailService,
@@ -19,7 +23,8 @@ import { SettingsModule } from '../settings/settings.module';
     SmtpEmailService,
     PrismaService,
     EncryptionService,
-    QueueService
+    QueueService,
+    LeadStageHistoryService
   ],
   exports: [EmailService, EmailFetcherService, EmailQueueService, SmtpEmailService],
 })
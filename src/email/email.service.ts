@@ -1,14 +1,22 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../common/services/prisma.service';
 import { SmtpEmailService } from './smtp-email.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadsService } from '../leads/leads.service';
 import { LeadSource, LeadStatus, InsuranceType } from '@prisma/client';
 import { getTenantContext } from '../common/context/tenant-context';
+import { MarketingConsentService } from '../marketing-consent/marketing-consent.service';
 
 @Injectable()
 export class EmailService {
   constructor(
     private prisma: PrismaService,
     private smtpEmailService: SmtpEmailService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadScoringService: LeadScoringService,
+    private leadsService: LeadsService,
+    private marketingConsentService: MarketingConsentService,
   ) {}
 
   async createOrGetLeadByEmail(email: string, name?: string) {
@@ -40,6 +48,16 @@ export class EmailService {
           tenant: { connect: { id: tenantId } },
         },
       });
+
+      await this.stageHistoryService.recordTransition({
+        leadId: lead.id,
+        tenantId,
+        toStatus: lead.status,
+        note: 'Auto-created from inbound email',
+        source: 'EMAIL',
+      });
+
+      await this.leadsService.routeInboundLead(lead.id);
     }
 
     return lead;
@@ -256,6 +274,27 @@ export class EmailService {
     });
   }
 
+  /**
+   * Record the first open of an outbound email, reported by its tracking pixel
+   */
+  async recordEmailOpen(emailId: string) {
+    const email = await this.prisma.emailMessage.findUnique({
+      where: { id: emailId },
+      select: { id: true, leadId: true, direction: true, openedAt: true },
+    });
+
+    if (!email || email.direction !== 'OUTBOUND' || email.openedAt) {
+      return;
+    }
+
+    await this.prisma.emailMessage.update({
+      where: { id: emailId },
+      data: { openedAt: new Date() },
+    });
+
+    await this.leadScoringService.rescoreLead(email.leadId, 'email opened');
+  }
+
   async sendEmailReply(data: {
     toEmail: string;
     subject: string;
@@ -329,7 +368,7 @@ export class EmailService {
       const sendResult = await this.smtpEmailService.sendEmail({
         to: data.toEmail,
         subject: subject,
-        html: data.content,
+        html: this.withOpenTracking(data.content, emailMessage.id),
         cc: data.ccEmails,
         bcc: data.bccEmails,
       });
@@ -433,6 +472,17 @@ export class EmailService {
       bccEmails: data.bcc,
     });
 
+    await this.leadScoringService.rescoreLead(lead.id, 'inbound email');
+
+    // "Unsubscribe" replies take the sender off email marketing
+    await this.marketingConsentService.captureEmailUnsubscribe(
+      lead.tenantId,
+      data.from,
+      data.subject,
+      data.content,
+      lead.id,
+    );
+
     return {
       emailMessage,
       lead,
@@ -442,6 +492,19 @@ export class EmailService {
     };
   }
 
+  /**
+   * Append a tracking pixel so opens count towards lead engagement. Needs
+   * APP_URL to point at this API.
+   */
+  private withOpenTracking(html: string, emailId: string): string {
+    const appUrl = process.env.APP_URL;
+    if (!appUrl) {
+      return html;
+    }
+
+    return `${html}<img src="${appUrl}/email/track/${emailId}/open" width="1" height="1" alt="" style="display:none" />`;
+  }
+
   private extractNameFromEmail(email: string): string {
     // Extract name from "Name <email@domain.com>" format
     const match = email.match(/^(.+?)\s*<.+>$/);
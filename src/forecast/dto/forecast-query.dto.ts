@@ -0,0 +1,46 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { InsuranceType } from '@prisma/client';
+
+export class ForecastQueryDto {
+  @ApiPropertyOptional({
+    example: 6,
+    description: 'Months to project, starting with the current one (1-24)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  months: number = 6;
+
+  @ApiPropertyOptional({
+    example: 'user-uuid-here',
+    description: 'Only leads assigned to this agent',
+  })
+  @IsOptional()
+  @IsUUID()
+  assignedUserId?: string;
+
+  @ApiPropertyOptional({ enum: InsuranceType })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(InsuranceType)
+  insuranceType?: InsuranceType;
+}
+
+export class ForecastAccuracyQueryDto {
+  @ApiPropertyOptional({
+    example: 6,
+    description: 'Past months to compare, ending with last month (1-24)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  months: number = 6;
+}
@@ -0,0 +1,52 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateForecastSettingsDto {
+  @ApiPropertyOptional({
+    example: 12.5,
+    nullable: true,
+    description:
+      'Commission as a percent of premium. null uses the rate on existing clients',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  commissionRate?: number | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Use win rates learned from closed leads for stages with enough history',
+  })
+  @IsOptional()
+  @IsBoolean()
+  useLearnedProbabilities?: boolean;
+
+  @ApiPropertyOptional({
+    example: 70,
+    description: 'Win probability from which a lead counts as commit',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  commitThreshold?: number;
+
+  @ApiPropertyOptional({
+    example: 40,
+    description: 'Win probability from which a lead counts as best case',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  bestCaseThreshold?: number;
+}
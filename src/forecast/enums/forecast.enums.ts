@@ -0,0 +1,22 @@
+/**
+ * Forecast Enums - How sure a forecast lead is and where its win
+ * probability comes from
+ */
+
+export enum ForecastCategory {
+  COMMIT = 'COMMIT', // At or above the commit threshold
+  BEST_CASE = 'BEST_CASE', // At or above the best case threshold
+  PIPELINE = 'PIPELINE', // Every other open lead
+}
+
+export enum ProbabilitySource {
+  CONFIGURED = 'CONFIGURED', // Set on the pipeline stage
+  LEARNED = 'LEARNED', // Win rate of closed leads that passed the stage
+  DEFAULT = 'DEFAULT', // Standard value for the stage's status
+}
+
+export enum CommissionRateSource {
+  CONFIGURED = 'CONFIGURED', // Tenant forecast setting
+  HISTORICAL = 'HISTORICAL', // Commission over premium on existing clients
+  NONE = 'NONE', // Nothing to go on; commission is forecast as zero
+}
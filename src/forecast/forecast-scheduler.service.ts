@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../common/services/prisma.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { ForecastService } from './forecast.service';
+
+@Injectable()
+export class ForecastSchedulerService {
+  private readonly logger = new Logger(ForecastSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private forecastService: ForecastService,
+  ) {}
+
+  // Runs daily rather than on the 1st so a month missed while the server
+  // was down still gets a snapshot, taken as early as possible
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async recordSnapshots() {
+    const tenants = await this.prisma.tenant.findMany({
+      where: { status: { in: ['active', 'trial'] } },
+      select: { id: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        await runWithTenantContext(
+          { tenantId: tenant.id, isSuperAdmin: false },
+          () => this.forecastService.recordSnapshot(),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to record the forecast for tenant ${tenant.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { Controller, Get, Put, Body, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ForecastService } from './forecast.service';
+import {
+  ForecastAccuracyQueryDto,
+  ForecastQueryDto,
+} from './dto/forecast-query.dto';
+import { UpdateForecastSettingsDto } from './dto/update-forecast-settings.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Forecast')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MANAGER)
+@Controller('forecast')
+export class ForecastController {
+  constructor(private readonly forecastService: ForecastService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Weighted premium and commission forecast from open leads',
+    description:
+      'By month of expected close, agent, insurance type and source, with commit, best case and pipeline categories',
+  })
+  @ApiResponse({ status: 200, description: 'Forecast retrieved' })
+  getForecast(@Query() queryDto: ForecastQueryDto) {
+    return this.forecastService.getForecast(queryDto);
+  }
+
+  @Get('accuracy')
+  @ApiOperation({
+    summary: 'Forecast versus closed-won premium for past months',
+  })
+  @ApiResponse({ status: 200, description: 'Comparison retrieved' })
+  getAccuracy(@Query() queryDto: ForecastAccuracyQueryDto) {
+    return this.forecastService.getAccuracy(queryDto);
+  }
+
+  @Get('probabilities')
+  @ApiOperation({
+    summary: 'Win probability used for each pipeline stage',
+    description:
+      'Set win probabilities on the stages through the pipeline endpoints',
+  })
+  @ApiResponse({ status: 200, description: 'Stage probabilities retrieved' })
+  getStageProbabilities() {
+    return this.forecastService.getStageProbabilities();
+  }
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Get forecast settings' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved' })
+  getSettings() {
+    return this.forecastService.getSettings();
+  }
+
+  @Put('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update commission rate, learned probabilities and thresholds',
+  })
+  @ApiResponse({ status: 200, description: 'Settings updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Best case threshold above the commit threshold',
+  })
+  updateSettings(@Body() settingsDto: UpdateForecastSettingsDto) {
+    return this.forecastService.updateSettings(settingsDto);
+  }
+}
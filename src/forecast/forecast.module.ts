@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { ForecastService } from './forecast.service';
+import { ForecastController } from './forecast.controller';
+import { ForecastSchedulerService } from './forecast-scheduler.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { PipelinesModule } from '../pipelines/pipelines.module';
+
+@Module({
+  imports: [PipelinesModule],
+  controllers: [ForecastController],
+  providers: [ForecastService, ForecastSchedulerService, PrismaService],
+  exports: [ForecastService],
+})
+export class ForecastModule {}
@@ -0,0 +1,219 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForecastService } from './forecast.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { PipelinesService } from '../pipelines/pipelines.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { ForecastCategory } from './enums/forecast.enums';
+
+const STAGES = {
+  committed: {
+    id: 'committed',
+    status: 'NEGOTIATION',
+    outcome: 'OPEN',
+    winProbability: 70,
+  },
+  likely: {
+    id: 'likely',
+    status: 'PROPOSAL_SENT',
+    outcome: 'OPEN',
+    winProbability: 40,
+  },
+  early: {
+    id: 'early',
+    status: 'QUALIFIED',
+    outcome: 'OPEN',
+    winProbability: 39,
+  },
+  unset: {
+    id: 'unset',
+    status: 'NEGOTIATION',
+    outcome: 'OPEN',
+    winProbability: null,
+  },
+  won: { id: 'won', status: 'CLOSED_WON', outcome: 'WON', winProbability: 10 },
+};
+
+const lead = (
+  id: string,
+  stage: keyof typeof STAGES,
+  budget: number | null,
+  expectedCloseDate: string | null,
+) => ({
+  id,
+  tenantId: 'tenant-1',
+  status: STAGES[stage].status,
+  source: 'WEBSITE',
+  insuranceType: 'LIFE',
+  budget,
+  expectedCloseDate: expectedCloseDate && new Date(expectedCloseDate),
+  pipelineId: 'pipeline-1',
+  pipelineStageId: stage,
+  assignedUser: { id: 'agent-1', firstName: 'Ada', lastName: 'Lovelace' },
+});
+
+describe('ForecastService', () => {
+  let service: ForecastService;
+  const prisma = {
+    addTenantFilter: jest.fn(),
+    tenant: { findUnique: jest.fn(), update: jest.fn() },
+    lead: { findMany: jest.fn() },
+    leadStageTransition: { findMany: jest.fn() },
+    client: { aggregate: jest.fn() },
+  };
+  const pipelinesService = {
+    getPipelineForLead: jest.fn(),
+    resolveStage: jest.fn(),
+  };
+
+  const settings = (overrides: Record<string, unknown> = {}) =>
+    prisma.tenant.findUnique.mockResolvedValue({
+      forecastCommissionRate: 10,
+      forecastLearnedProbabilities: false,
+      forecastCommitThreshold: 70,
+      forecastBestCaseThreshold: 40,
+      ...overrides,
+    });
+
+  const forecast = () =>
+    runWithTenantContext({ tenantId: 'tenant-1' }, () =>
+      service.getForecast({ months: 6 }),
+    );
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-20T12:00:00Z'));
+
+    settings();
+    prisma.addTenantFilter.mockImplementation((where) => where);
+    prisma.leadStageTransition.findMany.mockResolvedValue([]);
+    pipelinesService.getPipelineForLead.mockResolvedValue({ id: 'pipeline-1' });
+    pipelinesService.resolveStage.mockImplementation(
+      (_pipeline, { pipelineStageId }) => STAGES[pipelineStageId],
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ForecastService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: PipelinesService, useValue: pipelinesService },
+      ],
+    }).compile();
+
+    service = module.get(ForecastService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('categorizes leads by the tenant thresholds', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      lead('commit', 'committed', 1000, '2026-10-25'),
+      lead('best-case', 'likely', 2000, '2026-11-10'),
+      lead('pipeline', 'early', 500, '2026-09-01'),
+      lead('default', 'unset', 100, '2026-12-05'),
+    ]);
+
+    const result = await forecast();
+
+    expect(result.byCategory).toEqual([
+      expect.objectContaining({
+        category: ForecastCategory.COMMIT,
+        leads: 2,
+        pipeline: 1100,
+      }),
+      expect.objectContaining({
+        category: ForecastCategory.BEST_CASE,
+        leads: 1,
+        pipeline: 2000,
+      }),
+      expect.objectContaining({
+        category: ForecastCategory.PIPELINE,
+        leads: 1,
+        pipeline: 500,
+      }),
+    ]);
+    expect(result.totals).toEqual({
+      leads: 4,
+      pipeline: 3600,
+      bestCase: 3100,
+      commit: 1100,
+      expectedPremium: 1770, // 700 + 800 + 195 + 75
+      expectedCommission: 177,
+    });
+  });
+
+  it('counts overdue leads in the current month and excludes the rest', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      lead('overdue', 'committed', 1000, '2026-08-15'),
+      lead('no-budget', 'committed', null, '2026-10-25'),
+      lead('no-date', 'committed', 1000, null),
+      lead('later', 'committed', 1000, '2027-04-01'),
+    ]);
+
+    const result = await forecast();
+
+    expect(result.byMonth.map(({ month }) => month)).toEqual([
+      '2026-10',
+      '2026-11',
+      '2026-12',
+      '2027-01',
+      '2027-02',
+      '2027-03',
+    ]);
+    expect(result.byMonth[0]).toMatchObject({ leads: 1, pipeline: 1000 });
+    expect(result.overdueLeads).toBe(1);
+    expect(result.excluded).toEqual({
+      noBudget: 1,
+      noCloseDate: 1,
+      afterWindow: 1,
+    });
+  });
+
+  it('uses learned win rates once enough leads have closed', async () => {
+    settings({ forecastLearnedProbabilities: true });
+    const closed = (count: number, stage: string, won: number) =>
+      Array.from({ length: count }, (_, index) => ({
+        leadId: `${stage}-${index}`,
+        toStageId: stage,
+        lead: { status: index < won ? 'CLOSED_WON' : 'CLOSED_LOST' },
+      }));
+    prisma.leadStageTransition.findMany.mockResolvedValue([
+      ...closed(20, 'early', 15),
+      ...closed(19, 'likely', 19),
+    ]);
+    prisma.lead.findMany.mockResolvedValue([
+      lead('learned', 'early', 1000, '2026-10-25'),
+      lead('configured', 'likely', 1000, '2026-10-25'),
+    ]);
+
+    const result = await forecast();
+
+    // 15 of 20 won is 75%; 19 closed leads are too few to learn from
+    expect(result.totals).toMatchObject({ commit: 1000, bestCase: 2000 });
+    expect(result.totals.expectedPremium).toBe(1150);
+  });
+
+  it('treats won stages as certain', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      lead('won', 'won', 1000, '2026-10-25'),
+    ]);
+
+    const result = await forecast();
+
+    expect(result.totals).toMatchObject({
+      commit: 1000,
+      expectedPremium: 1000,
+    });
+  });
+
+  it('rejects a best case threshold above the commit threshold', async () => {
+    await expect(
+      runWithTenantContext({ tenantId: 'tenant-1' }, () =>
+        service.updateSettings({ bestCaseThreshold: 80 }),
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.tenant.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,682 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  InsuranceType,
+  LeadSource,
+  LeadStatus,
+  PipelineStage,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import {
+  PipelinesService,
+  PipelineWithStages,
+} from '../pipelines/pipelines.service';
+import { PipelineStageOutcome } from '../pipelines/enums/pipeline.enums';
+import {
+  ForecastAccuracyQueryDto,
+  ForecastQueryDto,
+} from './dto/forecast-query.dto';
+import { UpdateForecastSettingsDto } from './dto/update-forecast-settings.dto';
+import {
+  CommissionRateSource,
+  ForecastCategory,
+  ProbabilitySource,
+} from './enums/forecast.enums';
+
+/**
+ * Win probability of a stage whose own is not set, by the stage's status
+ */
+const DEFAULT_WIN_PROBABILITY: Record<LeadStatus, number> = {
+  NEW: 5,
+  CONTACTED: 10,
+  ENGAGED: 20,
+  QUALIFIED: 35,
+  PROPOSAL_SENT: 55,
+  NEGOTIATION: 75,
+  FOLLOW_UP: 25,
+  CLOSED_WON: 100,
+  CLOSED_LOST: 0,
+};
+
+// Closed leads that must have passed a stage before its win rate is used
+const MIN_LEARNING_SAMPLE = 20;
+
+const CLOSED_STATUSES = [LeadStatus.CLOSED_WON, LeadStatus.CLOSED_LOST];
+
+export interface ForecastSettings {
+  commissionRate: number | null;
+  useLearnedProbabilities: boolean;
+  commitThreshold: number;
+  bestCaseThreshold: number;
+}
+
+interface WinRate {
+  won: number;
+  closed: number;
+}
+
+/**
+ * An open lead placed in the forecast
+ */
+interface ForecastLead {
+  month: string;
+  premium: number;
+  probability: number;
+  category: ForecastCategory;
+  agentId: string | null;
+  agentName: string;
+  insuranceType: InsuranceType;
+  source: LeadSource;
+}
+
+export interface ForecastFigures {
+  leads: number;
+  pipeline: number;
+  bestCase: number;
+  commit: number;
+  expectedPremium: number;
+  expectedCommission: number;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function startOfMonth(date: Date, offsetMonths = 0): Date {
+  return new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offsetMonths, 1),
+  );
+}
+
+function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * ForecastService - Weighted revenue forecast from the open pipeline
+ *
+ * Key Features:
+ * - Win probability per pipeline stage: set on the stage, learned from
+ *   closed leads when enabled and there is enough history, or a default
+ *   for the stage's status
+ * - Expected premium (lead budget x probability) and commission by the
+ *   month of the expected close date, agent, insurance type and source
+ * - Commit, best case and pipeline categories from tenant thresholds
+ * - Monthly snapshots compared with the premium actually closed
+ */
+@Injectable()
+export class ForecastService {
+  constructor(
+    private prisma: PrismaService,
+    private pipelinesService: PipelinesService,
+  ) {}
+
+  /**
+   * Forecast for the current month and the ones after it. Leads whose
+   * expected close date has passed count in the current month; leads
+   * without a budget or close date, or closing after the window, are only
+   * counted.
+   */
+  async getForecast(queryDto: ForecastQueryDto) {
+    const settings = await this.getSettings();
+    const windowStart = startOfMonth(new Date());
+    const windowEnd = startOfMonth(windowStart, queryDto.months);
+    const months = Array.from({ length: queryDto.months }, (_, index) =>
+      monthKey(startOfMonth(windowStart, index)),
+    );
+
+    const where: any = { status: { notIn: CLOSED_STATUSES } };
+    if (queryDto.assignedUserId) where.assignedUserId = queryDto.assignedUserId;
+    if (queryDto.insuranceType) where.insuranceType = queryDto.insuranceType;
+
+    const [leads, winRates, commissionRate] = await Promise.all([
+      this.prisma.lead.findMany({
+        where: this.prisma.addTenantFilter(where),
+        select: {
+          id: true,
+          tenantId: true,
+          status: true,
+          source: true,
+          insuranceType: true,
+          budget: true,
+          expectedCloseDate: true,
+          pipelineId: true,
+          pipelineStageId: true,
+          assignedUser: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+        },
+      }),
+      settings.useLearnedProbabilities
+        ? this.learnWinRates()
+        : new Map<string, WinRate>(),
+      this.resolveCommissionRate(settings.commissionRate),
+    ]);
+
+    const excluded = { noBudget: 0, noCloseDate: 0, afterWindow: 0 };
+    let overdue = 0;
+    const pipelines = new Map<string, PipelineWithStages>();
+    const forecastLeads: ForecastLead[] = [];
+
+    for (const lead of leads) {
+      if (lead.budget === null) {
+        excluded.noBudget++;
+        continue;
+      }
+      if (!lead.expectedCloseDate) {
+        excluded.noCloseDate++;
+        continue;
+      }
+      if (lead.expectedCloseDate >= windowEnd) {
+        excluded.afterWindow++;
+        continue;
+      }
+      if (lead.expectedCloseDate < windowStart) {
+        overdue++;
+      }
+
+      const cacheKey = `${lead.pipelineId ?? ''}|${lead.insuranceType}`;
+      let pipeline = pipelines.get(cacheKey);
+      if (!pipeline) {
+        pipeline = await this.pipelinesService.getPipelineForLead(lead);
+        pipelines.set(cacheKey, pipeline);
+      }
+      const stage = this.pipelinesService.resolveStage(pipeline, lead);
+      const { probability } = this.stageProbability(
+        stage,
+        winRates,
+        settings.useLearnedProbabilities,
+      );
+
+      forecastLeads.push({
+        month:
+          lead.expectedCloseDate < windowStart
+            ? months[0]
+            : monthKey(lead.expectedCloseDate),
+        premium: Number(lead.budget),
+        probability,
+        category: this.categorize(probability, settings),
+        agentId: lead.assignedUser?.id ?? null,
+        agentName: lead.assignedUser
+          ? `${lead.assignedUser.firstName} ${lead.assignedUser.lastName}`
+          : 'Unassigned',
+        insuranceType: lead.insuranceType,
+        source: lead.source,
+      });
+    }
+
+    const figures = (items: ForecastLead[]) =>
+      this.summarize(items, commissionRate.percent);
+
+    return {
+      periodStart: windowStart,
+      periodEnd: windowEnd,
+      commissionRate,
+      thresholds: {
+        commit: settings.commitThreshold,
+        bestCase: settings.bestCaseThreshold,
+      },
+      totals: figures(forecastLeads),
+      byCategory: Object.values(ForecastCategory).map((category) => ({
+        category,
+        ...figures(forecastLeads.filter((lead) => lead.category === category)),
+      })),
+      byMonth: months.map((month) => ({
+        month,
+        ...figures(forecastLeads.filter((lead) => lead.month === month)),
+      })),
+      byAgent: this.groupFigures(
+        forecastLeads,
+        (lead) => lead.agentId ?? 'unassigned',
+        (lead) => ({ agentId: lead.agentId, name: lead.agentName }),
+        commissionRate.percent,
+      ),
+      byInsuranceType: this.groupFigures(
+        forecastLeads,
+        (lead) => lead.insuranceType,
+        (lead) => ({ insuranceType: lead.insuranceType }),
+        commissionRate.percent,
+      ),
+      bySource: this.groupFigures(
+        forecastLeads,
+        (lead) => lead.source,
+        (lead) => ({ source: lead.source }),
+        commissionRate.percent,
+      ),
+      overdueLeads: overdue,
+      excluded,
+    };
+  }
+
+  /**
+   * Forecast recorded at the start of each past month against the premium
+   * of leads won in that month. Months before the first snapshot have no
+   * forecast to compare.
+   */
+  async getAccuracy(queryDto: ForecastAccuracyQueryDto) {
+    const settings = await this.getSettings();
+    const currentMonth = startOfMonth(new Date());
+    const firstMonth = startOfMonth(currentMonth, -queryDto.months);
+
+    const [snapshots, wins, commissionRate] = await Promise.all([
+      this.prisma.forecastSnapshot.findMany({
+        where: this.prisma.addTenantFilter({
+          periodStart: { gte: firstMonth, lt: currentMonth },
+        }),
+      }),
+      this.prisma.leadStageTransition.findMany({
+        where: this.prisma.addTenantFilter({
+          toStatus: LeadStatus.CLOSED_WON,
+          createdAt: { gte: firstMonth, lt: currentMonth },
+          // Leads reopened since they were won no longer count
+          lead: { status: LeadStatus.CLOSED_WON },
+        }),
+        orderBy: { createdAt: 'asc' },
+        select: {
+          leadId: true,
+          createdAt: true,
+          lead: {
+            select: {
+              budget: true,
+              client: { select: { premium: true, commission: true } },
+            },
+          },
+        },
+      }),
+      this.resolveCommissionRate(settings.commissionRate),
+    ]);
+
+    const actualByMonth = new Map<
+      string,
+      { leadIds: Set<string>; premium: number; commission: number }
+    >();
+    for (const win of wins) {
+      const month = monthKey(win.createdAt);
+      const actual = actualByMonth.get(month) ?? {
+        leadIds: new Set<string>(),
+        premium: 0,
+        commission: 0,
+      };
+      if (actual.leadIds.has(win.leadId)) continue;
+
+      const premium = Number(win.lead.client?.premium ?? win.lead.budget ?? 0);
+      const commission =
+        win.lead.client?.commission != null
+          ? Number(win.lead.client.commission)
+          : (premium * commissionRate.percent) / 100;
+
+      actual.leadIds.add(win.leadId);
+      actual.premium += premium;
+      actual.commission += commission;
+      actualByMonth.set(month, actual);
+    }
+
+    const snapshotByMonth = new Map(
+      snapshots.map((snapshot) => [monthKey(snapshot.periodStart), snapshot]),
+    );
+
+    return {
+      commissionRate,
+      months: Array.from({ length: queryDto.months }, (_, index) => {
+        const month = monthKey(startOfMonth(firstMonth, index));
+        const snapshot = snapshotByMonth.get(month);
+        const actual = actualByMonth.get(month);
+        const actualPremium = roundMoney(actual?.premium ?? 0);
+        const forecast = snapshot && {
+          recordedAt: snapshot.createdAt,
+          leads: snapshot.openLeads,
+          pipeline: Number(snapshot.pipeline),
+          bestCase: Number(snapshot.bestCase),
+          commit: Number(snapshot.commit),
+          expectedPremium: Number(snapshot.expectedPremium),
+          expectedCommission: Number(snapshot.expectedCommission),
+        };
+
+        return {
+          month,
+          forecast: forecast ?? null,
+          actual: {
+            leads: actual?.leadIds.size ?? 0,
+            premium: actualPremium,
+            commission: roundMoney(actual?.commission ?? 0),
+          },
+          variance: forecast
+            ? roundMoney(actualPremium - forecast.expectedPremium)
+            : null,
+          // Actual premium as a percent of the weighted forecast
+          accuracy:
+            forecast && forecast.expectedPremium > 0
+              ? parseFloat(
+                  ((actualPremium / forecast.expectedPremium) * 100).toFixed(2),
+                )
+              : null,
+          commitMet: forecast ? actualPremium >= forecast.commit : null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Win probability every stage of every pipeline gets in the forecast,
+   * with the win rate learned from closed leads next to it
+   */
+  async getStageProbabilities() {
+    const settings = await this.getSettings();
+    const [pipelines, winRates] = await Promise.all([
+      this.pipelinesService.findAll(),
+      this.learnWinRates(),
+    ]);
+
+    return {
+      useLearnedProbabilities: settings.useLearnedProbabilities,
+      minLearningSample: MIN_LEARNING_SAMPLE,
+      pipelines: pipelines.map((pipeline) => ({
+        id: pipeline.id,
+        name: pipeline.name,
+        insuranceType: pipeline.insuranceType,
+        isActive: pipeline.isActive,
+        stages: pipeline.stages.map((stage) => {
+          const winRate = winRates.get(stage.id);
+          return {
+            stageId: stage.id,
+            name: stage.name,
+            status: stage.status,
+            outcome: stage.outcome,
+            configured: stage.winProbability,
+            learned: winRate
+              ? {
+                  probability: Math.round((winRate.won / winRate.closed) * 100),
+                  closedLeads: winRate.closed,
+                }
+              : null,
+            ...this.stageProbability(
+              stage,
+              winRates,
+              settings.useLearnedProbabilities,
+            ),
+          };
+        }),
+      })),
+    };
+  }
+
+  /**
+   * Record this month's forecast unless it already has one
+   */
+  async recordSnapshot() {
+    const tenantId = this.requireTenantId();
+    const periodStart = startOfMonth(new Date());
+
+    const existing = await this.prisma.forecastSnapshot.findFirst({
+      where: { tenantId, periodStart },
+    });
+    if (existing) {
+      return null;
+    }
+
+    const forecast = await this.getForecast({ months: 1 });
+    const { totals } = forecast;
+
+    try {
+      return await this.prisma.forecastSnapshot.create({
+        data: {
+          periodStart,
+          openLeads: totals.leads,
+          pipeline: totals.pipeline,
+          bestCase: totals.bestCase,
+          commit: totals.commit,
+          expectedPremium: totals.expectedPremium,
+          expectedCommission: totals.expectedCommission,
+          tenantId,
+        },
+      });
+    } catch (error) {
+      // Recorded by a concurrent run
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async getSettings(): Promise<ForecastSettings> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: this.requireTenantId() },
+      select: {
+        forecastCommissionRate: true,
+        forecastLearnedProbabilities: true,
+        forecastCommitThreshold: true,
+        forecastBestCaseThreshold: true,
+      },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return {
+      commissionRate:
+        tenant.forecastCommissionRate !== null
+          ? Number(tenant.forecastCommissionRate)
+          : null,
+      useLearnedProbabilities: tenant.forecastLearnedProbabilities,
+      commitThreshold: tenant.forecastCommitThreshold,
+      bestCaseThreshold: tenant.forecastBestCaseThreshold,
+    };
+  }
+
+  async updateSettings(settingsDto: UpdateForecastSettingsDto) {
+    const current = await this.getSettings();
+    const commitThreshold =
+      settingsDto.commitThreshold ?? current.commitThreshold;
+    const bestCaseThreshold =
+      settingsDto.bestCaseThreshold ?? current.bestCaseThreshold;
+
+    if (bestCaseThreshold > commitThreshold) {
+      throw new BadRequestException(
+        'The best case threshold cannot be above the commit threshold',
+      );
+    }
+
+    await this.prisma.tenant.update({
+      where: { id: this.requireTenantId() },
+      data: {
+        forecastCommissionRate: settingsDto.commissionRate,
+        forecastLearnedProbabilities: settingsDto.useLearnedProbabilities,
+        forecastCommitThreshold: commitThreshold,
+        forecastBestCaseThreshold: bestCaseThreshold,
+      },
+    });
+
+    return this.getSettings();
+  }
+
+  /**
+   * Probability a lead in the stage is won. Won and lost stages are certain;
+   * open stages use the learned win rate when enabled and backed by enough
+   * closed leads, then the stage's own value, then the status default.
+   */
+  private stageProbability(
+    stage: Pick<PipelineStage, 'id' | 'status' | 'outcome' | 'winProbability'>,
+    winRates: Map<string, WinRate>,
+    useLearned: boolean,
+  ): { probability: number; source: ProbabilitySource } {
+    if (stage.outcome !== PipelineStageOutcome.OPEN) {
+      return {
+        probability: stage.outcome === PipelineStageOutcome.WON ? 100 : 0,
+        source: ProbabilitySource.DEFAULT,
+      };
+    }
+
+    const winRate = winRates.get(stage.id);
+    if (useLearned && winRate && winRate.closed >= MIN_LEARNING_SAMPLE) {
+      return {
+        probability: Math.round((winRate.won / winRate.closed) * 100),
+        source: ProbabilitySource.LEARNED,
+      };
+    }
+
+    if (stage.winProbability !== null) {
+      return {
+        probability: stage.winProbability,
+        source: ProbabilitySource.CONFIGURED,
+      };
+    }
+
+    return {
+      probability: DEFAULT_WIN_PROBABILITY[stage.status],
+      source: ProbabilitySource.DEFAULT,
+    };
+  }
+
+  /**
+   * Per stage, how many closed leads passed through it and how many of
+   * those were won
+   */
+  private async learnWinRates(): Promise<Map<string, WinRate>> {
+    const transitions = await this.prisma.leadStageTransition.findMany({
+      where: this.prisma.addTenantFilter({
+        toStageId: { not: null },
+        lead: { status: { in: CLOSED_STATUSES } },
+      }),
+      select: {
+        leadId: true,
+        toStageId: true,
+        lead: { select: { status: true } },
+      },
+    });
+
+    const leadsByStage = new Map<string, Map<string, LeadStatus>>();
+    for (const transition of transitions) {
+      const stageLeads =
+        leadsByStage.get(transition.toStageId) ?? new Map<string, LeadStatus>();
+      stageLeads.set(transition.leadId, transition.lead.status);
+      leadsByStage.set(transition.toStageId, stageLeads);
+    }
+
+    const winRates = new Map<string, WinRate>();
+    for (const [stageId, stageLeads] of leadsByStage) {
+      const statuses = [...stageLeads.values()];
+      winRates.set(stageId, {
+        won: statuses.filter((status) => status === LeadStatus.CLOSED_WON)
+          .length,
+        closed: statuses.length,
+      });
+    }
+
+    return winRates;
+  }
+
+  /**
+   * The configured commission rate, else what existing clients earn on
+   * their premium
+   */
+  private async resolveCommissionRate(configured: number | null) {
+    if (configured !== null) {
+      return { percent: configured, source: CommissionRateSource.CONFIGURED };
+    }
+
+    const totals = await this.prisma.client.aggregate({
+      where: this.prisma.addTenantFilter({
+        premium: { gt: 0 },
+        commission: { not: null },
+      }),
+      _sum: { premium: true, commission: true },
+    });
+    const premium = Number(totals._sum.premium ?? 0);
+
+    if (premium > 0) {
+      return {
+        percent: parseFloat(
+          ((Number(totals._sum.commission ?? 0) / premium) * 100).toFixed(2),
+        ),
+        source: CommissionRateSource.HISTORICAL,
+      };
+    }
+
+    return { percent: 0, source: CommissionRateSource.NONE };
+  }
+
+  private categorize(
+    probability: number,
+    settings: ForecastSettings,
+  ): ForecastCategory {
+    if (probability >= settings.commitThreshold) return ForecastCategory.COMMIT;
+    if (probability >= settings.bestCaseThreshold) {
+      return ForecastCategory.BEST_CASE;
+    }
+    return ForecastCategory.PIPELINE;
+  }
+
+  /**
+   * Pipeline, best case and commit are unweighted premium totals, each
+   * including the more certain categories; expected figures are weighted
+   */
+  private summarize(
+    leads: ForecastLead[],
+    commissionPercent: number,
+  ): ForecastFigures {
+    let pipeline = 0;
+    let bestCase = 0;
+    let commit = 0;
+    let expectedPremium = 0;
+
+    for (const lead of leads) {
+      pipeline += lead.premium;
+      if (lead.category !== ForecastCategory.PIPELINE) bestCase += lead.premium;
+      if (lead.category === ForecastCategory.COMMIT) commit += lead.premium;
+      expectedPremium += (lead.premium * lead.probability) / 100;
+    }
+
+    return {
+      leads: leads.length,
+      pipeline: roundMoney(pipeline),
+      bestCase: roundMoney(bestCase),
+      commit: roundMoney(commit),
+      expectedPremium: roundMoney(expectedPremium),
+      expectedCommission: roundMoney(
+        (expectedPremium * commissionPercent) / 100,
+      ),
+    };
+  }
+
+  private groupFigures<T extends object>(
+    leads: ForecastLead[],
+    keyOf: (lead: ForecastLead) => string,
+    labelOf: (lead: ForecastLead) => T,
+    commissionPercent: number,
+  ) {
+    const groups = new Map<string, ForecastLead[]>();
+    for (const lead of leads) {
+      const group = groups.get(keyOf(lead));
+      if (group) {
+        group.push(lead);
+      } else {
+        groups.set(keyOf(lead), [lead]);
+      }
+    }
+
+    return [...groups.values()]
+      .map((group) => ({
+        ...labelOf(group[0]),
+        ...this.summarize(group, commissionPercent),
+      }))
+      .sort((a, b) => b.expectedPremium - a.expectedPremium);
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
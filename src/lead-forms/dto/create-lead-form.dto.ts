@@ -0,0 +1,147 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  IsUrl,
+  Min,
+  Max,
+  ArrayMinSize,
+  ArrayMaxSize,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InsuranceType } from '@prisma/client';
+
+export class LeadFormFieldDto {
+  @ApiProperty({
+    example: 'email',
+    description:
+      'Lead field (e.g. firstName, email, phone, inquiryDetails) or custom.<key> for a lead custom field',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(60)
+  key: string;
+
+  @ApiProperty({
+    example: 'Email address',
+    description: 'Label shown on the form',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  label: string;
+
+  @ApiPropertyOptional({ example: true, default: false })
+  @IsOptional()
+  @IsBoolean()
+  required?: boolean;
+
+  @ApiPropertyOptional({ example: 'you@example.com' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  placeholder?: string;
+
+  @ApiPropertyOptional({ example: 'We only use this to send your quote' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  helpText?: string;
+}
+
+export class CreateLeadFormDto {
+  @ApiProperty({ example: 'Life insurance quote request' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Form on the life insurance landing page' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    type: [LeadFormFieldDto],
+    description:
+      'Ordered form fields. firstName and lastName are always collected and required, plus email or phone',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  @Type(() => LeadFormFieldDto)
+  fields: LeadFormFieldDto[];
+
+  @ApiProperty({
+    enum: InsuranceType,
+    example: InsuranceType.LIFE,
+    description: 'Insurance type preset on every lead from this form',
+  })
+  @IsEnum(InsuranceType)
+  insuranceType: InsuranceType;
+
+  @ApiPropertyOptional({
+    minimum: 1,
+    maximum: 5,
+    example: 3,
+    description: 'Urgency preset on every lead from this form',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  urgency?: number;
+
+  @ApiPropertyOptional({
+    example: 'Thanks! An advisor will call you within one business day.',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  thankYouMessage?: string;
+
+  @ApiPropertyOptional({
+    example: 'https://example.com/thank-you',
+    description: 'Page the visitor is sent to after submitting',
+  })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  redirectUrl?: string;
+
+  @ApiPropertyOptional({
+    example: ['example.com', 'quotes.example.com'],
+    description:
+      'Sites allowed to embed the form, checked against the Origin header. Any site when empty',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  allowedDomains?: string[];
+
+  @ApiPropertyOptional({
+    example: 3,
+    description:
+      'Submissions sent sooner than this many seconds after the form loaded are treated as spam',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  minSubmitSeconds?: number;
+
+  @ApiPropertyOptional({ example: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,62 @@
+import { IsString, IsObject, IsOptional, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class SubmitLeadFormDto {
+  @ApiProperty({
+    description: 'startToken returned when the form was loaded',
+  })
+  @IsString()
+  @MaxLength(500)
+  startToken: string;
+
+  @ApiProperty({
+    example: {
+      firstName: 'Jane',
+      lastName: 'Smith',
+      email: 'jane@example.com',
+      'custom.smoker': false,
+    },
+    description:
+      'Field values keyed by form field key, plus the (empty) honeypot field',
+  })
+  @IsObject()
+  values: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    example: 'https://example.com/life?utm_source=google&utm_campaign=spring',
+    description:
+      'Page the form was submitted from; UTM parameters are read from it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  pageUrl?: string;
+
+  @ApiPropertyOptional({
+    example: 'https://www.google.com/',
+    description: 'document.referrer of the page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  referrer?: string;
+
+  @ApiPropertyOptional({
+    example: { utm_source: 'google', utm_medium: 'cpc' },
+    description:
+      'UTM parameters captured on an earlier page; take precedence over those in pageUrl',
+  })
+  @IsOptional()
+  @IsObject()
+  utm?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    example: 'MARY-J',
+    description:
+      'Referral code captured on an earlier page; takes precedence over ?ref= in pageUrl',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  referralCode?: string;
+}
@@ -0,0 +1,13 @@
+/**
+ * Lead Form Enums - Types for hosted web-to-lead forms
+ */
+
+export enum LeadFormSubmissionStatus {
+  ACCEPTED = 'ACCEPTED', // Lead created
+  SPAM = 'SPAM', // Dropped by a spam check; the visitor still sees success
+}
+
+export enum LeadFormSpamReason {
+  HONEYPOT = 'HONEYPOT', // Hidden field was filled in
+  TOO_FAST = 'TOO_FAST', // Submitted quicker than minSubmitSeconds after load
+}
@@ -0,0 +1,123 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+
+const FALLBACK_SECRET = 'fallback-lead-form-secret-CHANGE-THIS';
+
+export interface LeadFormEmbedToken {
+  tenantId: string;
+  formId: string;
+  version: number;
+}
+
+interface LeadFormStartToken {
+  formId: string;
+  issuedAt: number;
+}
+
+/**
+ * LeadFormTokenService - Signed tokens for public lead capture forms
+ *
+ * Like widget tokens, embed tokens carry the tenant and form so no tenant ID
+ * appears in the embedding page. They do not expire; bumping the form's
+ * tokenVersion revokes them. Start tokens are issued when a form is loaded
+ * and prove how long the visitor took to submit it.
+ */
+@Injectable()
+export class LeadFormTokenService {
+  private readonly logger = new Logger(LeadFormTokenService.name);
+  private readonly secret: string;
+
+  constructor(private configService: ConfigService) {
+    this.secret =
+      this.configService.get<string>('LEAD_FORM_SECRET') ||
+      this.configService.get<string>('WIDGET_SECRET') ||
+      FALLBACK_SECRET;
+
+    if (this.secret === FALLBACK_SECRET) {
+      this.logger.warn(
+        'LEAD_FORM_SECRET not set! Using fallback secret. Set LEAD_FORM_SECRET in .env for production!',
+      );
+    }
+  }
+
+  generateEmbedToken(tenantId: string, formId: string, version: number) {
+    return this.encode({ kind: 'embed', tenantId, formId, version });
+  }
+
+  verifyEmbedToken(token: string): LeadFormEmbedToken {
+    const payload = this.decode(token, 'embed');
+    if (
+      typeof payload.tenantId !== 'string' ||
+      typeof payload.formId !== 'string' ||
+      typeof payload.version !== 'number'
+    ) {
+      throw new UnauthorizedException('Invalid form token');
+    }
+
+    return {
+      tenantId: payload.tenantId,
+      formId: payload.formId,
+      version: payload.version,
+    };
+  }
+
+  generateStartToken(formId: string) {
+    return this.encode({ kind: 'start', formId, issuedAt: Date.now() });
+  }
+
+  /**
+   * Verify a start token issued for this form and return when it was issued
+   */
+  verifyStartToken(token: string, formId: string): LeadFormStartToken {
+    const payload = this.decode(token, 'start');
+    if (payload.formId !== formId || typeof payload.issuedAt !== 'number') {
+      throw new UnauthorizedException('Invalid form session');
+    }
+
+    return { formId, issuedAt: payload.issuedAt };
+  }
+
+  private encode(payload: Record<string, unknown>): string {
+    const payloadBase64 = Buffer.from(JSON.stringify(payload)).toString(
+      'base64url',
+    );
+    return `${payloadBase64}.${this.sign(payloadBase64)}`;
+  }
+
+  private decode(token: string, kind: string): Record<string, unknown> {
+    const [payloadBase64, signature, ...rest] = (token || '').split('.');
+    if (!payloadBase64 || !signature || rest.length > 0) {
+      throw new UnauthorizedException('Invalid form token');
+    }
+
+    const expected = Buffer.from(this.sign(payloadBase64));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      this.logger.warn('Lead form token with invalid signature');
+      throw new UnauthorizedException('Invalid form token');
+    }
+
+    try {
+      const payload = JSON.parse(
+        Buffer.from(payloadBase64, 'base64url').toString('utf-8'),
+      );
+      if (payload?.kind !== kind) {
+        throw new Error(`Expected a ${kind} token`);
+      }
+      return payload;
+    } catch {
+      throw new UnauthorizedException('Invalid form token');
+    }
+  }
+
+  private sign(payload: string): string {
+    return crypto
+      .createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+}
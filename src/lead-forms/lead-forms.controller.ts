@@ -0,0 +1,144 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { LeadFormsService, LeadFormRequestMeta } from './lead-forms.service';
+import { CreateLeadFormDto } from './dto/create-lead-form.dto';
+import { UpdateLeadFormDto } from './dto/update-lead-form.dto';
+import { SubmitLeadFormDto } from './dto/submit-lead-form.dto';
+import { PaginationDto } from '../common/dto/pagination.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Lead Forms')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lead-forms')
+export class LeadFormsController {
+  constructor(private readonly leadFormsService: LeadFormsService) {}
+
+  @Public()
+  @Get('public/:token')
+  @ApiOperation({ summary: 'Load a form for rendering on a website' })
+  @ApiResponse({ status: 200, description: 'Form fields and start token' })
+  @ApiResponse({ status: 403, description: 'Site not allowed to embed form' })
+  @ApiResponse({ status: 404, description: 'Form not found or inactive' })
+  getPublicForm(@Param('token') token: string, @Req() req: Request) {
+    return this.leadFormsService.getPublicForm(token, this.getRequestMeta(req));
+  }
+
+  @Public()
+  @Post('public/:token/submit')
+  @ApiOperation({ summary: 'Submit a form and create a lead' })
+  @ApiResponse({ status: 201, description: 'Submission received' })
+  @ApiResponse({ status: 400, description: 'Invalid or expired submission' })
+  @ApiResponse({ status: 429, description: 'Too many submissions' })
+  submit(
+    @Param('token') token: string,
+    @Body() submitDto: SubmitLeadFormDto,
+    @Req() req: Request,
+  ) {
+    return this.leadFormsService.submit(
+      token,
+      submitDto,
+      this.getRequestMeta(req),
+    );
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get lead forms' })
+  @ApiResponse({ status: 200, description: 'Lead forms retrieved' })
+  findAll() {
+    return this.leadFormsService.findAll();
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Create a lead form' })
+  @ApiResponse({ status: 201, description: 'Lead form created' })
+  @ApiResponse({ status: 400, description: 'Form fields are invalid' })
+  create(@Body() createFormDto: CreateLeadFormDto, @CurrentUser() user: any) {
+    return this.leadFormsService.create(createFormDto, user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a lead form' })
+  @ApiResponse({ status: 200, description: 'Lead form retrieved' })
+  @ApiResponse({ status: 404, description: 'Lead form not found' })
+  findOne(@Param('id') id: string) {
+    return this.leadFormsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a lead form' })
+  @ApiResponse({ status: 200, description: 'Lead form updated' })
+  @ApiResponse({ status: 400, description: 'Form fields are invalid' })
+  update(@Param('id') id: string, @Body() updateFormDto: UpdateLeadFormDto) {
+    return this.leadFormsService.update(id, updateFormDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Delete a lead form and its submissions' })
+  @ApiResponse({ status: 200, description: 'Lead form deleted' })
+  remove(@Param('id') id: string) {
+    return this.leadFormsService.remove(id);
+  }
+
+  @Get(':id/embed')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get the embed token and public URLs of a form' })
+  @ApiResponse({ status: 200, description: 'Embed details retrieved' })
+  getEmbed(@Param('id') id: string) {
+    return this.leadFormsService.getEmbed(id);
+  }
+
+  @Post(':id/rotate-token')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Issue a new embed token, revoking the current one',
+  })
+  @ApiResponse({ status: 201, description: 'New embed details' })
+  rotateToken(@Param('id') id: string) {
+    return this.leadFormsService.rotateToken(id);
+  }
+
+  @Get(':id/submissions')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get submissions of a form, including spam' })
+  @ApiResponse({ status: 200, description: 'Submissions retrieved' })
+  getSubmissions(
+    @Param('id') id: string,
+    @Query() paginationDto: PaginationDto,
+  ) {
+    return this.leadFormsService.getSubmissions(id, paginationDto);
+  }
+
+  private getRequestMeta(req: Request): LeadFormRequestMeta {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent'],
+      origin: req.headers.origin || req.headers.referer,
+    };
+  }
+}
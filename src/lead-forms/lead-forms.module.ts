@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { LeadFormsService } from './lead-forms.service';
+import { LeadFormsController } from './lead-forms.controller';
+import { LeadFormTokenService } from './lead-form-token.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsModule } from '../leads/leads.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { ReferralsModule } from '../referrals/referrals.module';
+
+@Module({
+  imports: [ConfigModule, LeadsModule, CustomFieldsModule, ReferralsModule],
+  controllers: [LeadFormsController],
+  providers: [LeadFormsService, LeadFormTokenService, PrismaService],
+  exports: [LeadFormsService],
+})
+export class LeadFormsModule {}
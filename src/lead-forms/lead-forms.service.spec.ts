@@ -0,0 +1,231 @@
+import {
+  ForbiddenException,
+  HttpStatus,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadFormsService } from './lead-forms.service';
+import { LeadFormTokenService } from './lead-form-token.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsService } from '../leads/leads.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import {
+  LeadFormSpamReason,
+  LeadFormSubmissionStatus,
+} from './enums/lead-form.enums';
+
+const FORM = {
+  id: 'form-1',
+  name: 'Life quote',
+  isActive: true,
+  tokenVersion: 2,
+  allowedDomains: ['example.com'],
+  minSubmitSeconds: 3,
+  insuranceType: 'LIFE',
+  urgency: 3,
+  thankYouMessage: 'Thanks!',
+  redirectUrl: null,
+  fields: [
+    { key: 'firstName', label: 'First name', required: true },
+    { key: 'lastName', label: 'Last name', required: true },
+    { key: 'email', label: 'Email', required: true },
+  ],
+};
+
+const VALUES = {
+  firstName: 'Jane',
+  lastName: 'Smith',
+  email: 'jane@example.com',
+};
+
+const META = { ipAddress: '203.0.113.7', origin: 'https://www.example.com' };
+
+describe('LeadFormsService', () => {
+  let service: LeadFormsService;
+  let tokens: LeadFormTokenService;
+  let embedToken: string;
+  let prisma: any;
+  let leadsService: { create: jest.Mock };
+
+  // Start token issued when the visitor loaded the form, secondsAgo earlier
+  const startToken = (secondsAgo: number, formId = FORM.id) => {
+    jest.setSystemTime(Date.now() - secondsAgo * 1000);
+    const token = tokens.generateStartToken(formId);
+    jest.setSystemTime(Date.now() + secondsAgo * 1000);
+    return token;
+  };
+
+  const submit = (
+    values: Record<string, unknown> = VALUES,
+    start = startToken(60),
+    meta = META,
+  ) => service.submit(embedToken, { startToken: start, values }, meta);
+
+  beforeEach(async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-20T12:00:00Z'));
+
+    prisma = {
+      addTenantFilter: (where: object) => ({ ...where, tenantId: 'tenant-1' }),
+      leadForm: {
+        findFirst: jest.fn().mockResolvedValue(FORM),
+        update: jest.fn(),
+      },
+      leadFormSubmission: {
+        count: jest.fn().mockResolvedValue(0),
+        create: jest.fn(),
+      },
+      $transaction: jest.fn(),
+    };
+    leadsService = { create: jest.fn().mockResolvedValue({ id: 'lead-1' }) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadFormsService,
+        LeadFormTokenService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => `${key}-value` },
+        },
+        { provide: LeadsService, useValue: leadsService },
+        { provide: CustomFieldsService, useValue: {} },
+        {
+          provide: ReferralsService,
+          useValue: { findActiveByCode: jest.fn().mockResolvedValue(null) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LeadFormsService);
+    tokens = module.get(LeadFormTokenService);
+    embedToken = tokens.generateEmbedToken('tenant-1', FORM.id, 2);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('tokens', () => {
+    it('rejects tampered and foreign embed tokens', async () => {
+      const [payload, signature] = embedToken.split('.');
+      const forged = Buffer.from(
+        JSON.stringify({
+          kind: 'embed',
+          tenantId: 'tenant-2',
+          formId: FORM.id,
+          version: 2,
+        }),
+      ).toString('base64url');
+
+      for (const token of [
+        `${forged}.${signature}`,
+        `${payload}.${signature}x`,
+        startToken(60),
+        '',
+      ]) {
+        await expect(
+          service.submit(
+            token,
+            { startToken: startToken(60), values: VALUES },
+            META,
+          ),
+        ).rejects.toThrow(UnauthorizedException);
+      }
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects embed tokens of an older version after rotation', async () => {
+      embedToken = tokens.generateEmbedToken('tenant-1', FORM.id, 1);
+
+      await expect(submit()).rejects.toThrow(NotFoundException);
+    });
+
+    it('rejects start tokens of another form or older than a day', async () => {
+      await expect(submit(VALUES, startToken(60, 'form-2'))).rejects.toThrow(
+        UnauthorizedException,
+      );
+      await expect(submit(VALUES, startToken(25 * 60 * 60))).rejects.toThrow(
+        'This form has expired',
+      );
+    });
+
+    it('rejects pages outside the allowed domains', async () => {
+      await expect(
+        submit(VALUES, startToken(60), {
+          ...META,
+          origin: 'https://example.com.evil.test',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('spam checks', () => {
+    it('stores honeypot submissions as spam and answers as if accepted', async () => {
+      const response = await submit({ ...VALUES, website: 'http://spam' });
+
+      expect(response).toEqual({
+        success: true,
+        message: 'Thanks!',
+        redirectUrl: null,
+      });
+      expect(prisma.leadFormSubmission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          status: LeadFormSubmissionStatus.SPAM,
+          spamReason: LeadFormSpamReason.HONEYPOT,
+          ipAddress: META.ipAddress,
+        }),
+      });
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('treats submissions faster than the form minimum as spam', async () => {
+      await submit(VALUES, startToken(1));
+
+      expect(prisma.leadFormSubmission.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          spamReason: LeadFormSpamReason.TOO_FAST,
+        }),
+      });
+      expect(leadsService.create).not.toHaveBeenCalled();
+    });
+
+    it('limits submissions per IP address', async () => {
+      prisma.leadFormSubmission.count.mockResolvedValue(5);
+
+      await expect(submit()).rejects.toMatchObject({
+        status: HttpStatus.TOO_MANY_REQUESTS,
+      });
+      expect(prisma.leadFormSubmission.count).toHaveBeenCalledWith({
+        where: {
+          tenantId: 'tenant-1',
+          ipAddress: META.ipAddress,
+          createdAt: { gte: new Date('2026-10-20T11:50:00Z') },
+        },
+      });
+      expect(prisma.leadFormSubmission.create).not.toHaveBeenCalled();
+    });
+  });
+
+  it('creates the lead from a genuine submission', async () => {
+    await submit();
+
+    expect(leadsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        ...VALUES,
+        source: 'WEBSITE',
+        insuranceType: 'LIFE',
+      }),
+      undefined,
+      expect.objectContaining({ source: 'FORM' }),
+    );
+    expect(prisma.leadFormSubmission.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: LeadFormSubmissionStatus.ACCEPTED,
+        leadId: 'lead-1',
+      }),
+    });
+  });
+});
@@ -0,0 +1,759 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  CommunicationChannel,
+  LeadForm,
+  LeadSource,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import {
+  getTenantContext,
+  runWithTenantContext,
+} from '../common/context/tenant-context';
+import { PaginationDto } from '../common/dto/pagination.dto';
+import { LeadsService } from '../leads/leads.service';
+import { CreateLeadDto } from '../leads/dto/create-lead.dto';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { ReferralsService } from '../referrals/referrals.service';
+import {
+  CustomFieldEntity,
+  CustomFieldType,
+} from '../custom-fields/enums/custom-field.enums';
+import { LeadFormTokenService } from './lead-form-token.service';
+import {
+  CreateLeadFormDto,
+  LeadFormFieldDto,
+} from './dto/create-lead-form.dto';
+import { UpdateLeadFormDto } from './dto/update-lead-form.dto';
+import { SubmitLeadFormDto } from './dto/submit-lead-form.dto';
+import {
+  LeadFormSpamReason,
+  LeadFormSubmissionStatus,
+} from './enums/lead-form.enums';
+
+type FormInputType =
+  | 'text'
+  | 'textarea'
+  | 'email'
+  | 'tel'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'multiselect'
+  | 'checkbox';
+
+/**
+ * Lead columns a form can collect, with the input used to render them
+ */
+const LEAD_FIELDS: Record<
+  string,
+  { type: FormInputType; maxLength?: number; options?: string[] }
+> = {
+  firstName: { type: 'text', maxLength: 100 },
+  lastName: { type: 'text', maxLength: 100 },
+  email: { type: 'email', maxLength: 255 },
+  phone: { type: 'tel' },
+  alternatePhone: { type: 'tel' },
+  preferredContact: {
+    type: 'select',
+    options: Object.values(CommunicationChannel),
+  },
+  address: { type: 'text', maxLength: 255 },
+  city: { type: 'text', maxLength: 100 },
+  state: { type: 'text', maxLength: 100 },
+  zipCode: { type: 'text', maxLength: 20 },
+  country: { type: 'text', maxLength: 100 },
+  inquiryDetails: { type: 'textarea', maxLength: 5000 },
+  budget: { type: 'number' },
+  expectedCloseDate: { type: 'date' },
+};
+
+const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const CUSTOM_FIELD_INPUTS: Record<string, FormInputType> = {
+  [CustomFieldType.TEXT]: 'text',
+  [CustomFieldType.NUMBER]: 'number',
+  [CustomFieldType.DATE]: 'date',
+  [CustomFieldType.SELECT]: 'select',
+  [CustomFieldType.MULTI_SELECT]: 'multiselect',
+  [CustomFieldType.BOOLEAN]: 'checkbox',
+};
+
+// Hidden input real visitors never fill in
+const HONEYPOT_FIELD = 'website';
+// How long a loaded form stays submittable
+const START_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+// Per-IP limit across the tenant's forms
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+const RATE_LIMIT_MAX_SUBMISSIONS = 5;
+
+const UTM_KEYS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+} as const;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{6,30}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface LeadFormRequestMeta {
+  ipAddress?: string;
+  userAgent?: string;
+  // Origin (or Referer) header of the embedding page
+  origin?: string;
+}
+
+/**
+ * LeadFormsService - Hosted web-to-lead capture forms
+ *
+ * Key Features:
+ * - Tenant-defined forms over lead fields and lead custom fields, with an
+ *   insurance type preset, thank-you message and redirect URL
+ * - Public load/submit endpoints authenticated by signed embed tokens and
+ *   optionally restricted to the tenant's own sites
+ * - Honeypot and time-to-submit spam checks, per-IP rate limits
+ * - UTM parameters and referrer stored on the lead; new leads go through
+ *   the normal routing rules
+ */
+@Injectable()
+export class LeadFormsService {
+  private readonly logger = new Logger(LeadFormsService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private tokenService: LeadFormTokenService,
+    private leadsService: LeadsService,
+    private customFieldsService: CustomFieldsService,
+    private referralsService: ReferralsService,
+  ) {}
+
+  async findAll() {
+    return this.prisma.leadForm.findMany({
+      where: this.prisma.addTenantFilter({}),
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const form = await this.prisma.leadForm.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!form) {
+      throw new NotFoundException('Lead form not found');
+    }
+
+    return form;
+  }
+
+  async create(createFormDto: CreateLeadFormDto, userId: string) {
+    const tenantId = this.requireTenantId();
+    await this.validateFields(createFormDto.fields);
+
+    return this.prisma.leadForm.create({
+      data: {
+        ...createFormDto,
+        fields: this.toJson(createFormDto.fields),
+        allowedDomains: this.normalizeDomains(createFormDto.allowedDomains),
+        createdById: userId,
+        tenantId,
+      },
+    });
+  }
+
+  async update(id: string, updateFormDto: UpdateLeadFormDto) {
+    await this.findOne(id);
+    if (updateFormDto.fields) {
+      await this.validateFields(updateFormDto.fields);
+    }
+
+    return this.prisma.leadForm.update({
+      where: { id },
+      data: {
+        ...updateFormDto,
+        fields: updateFormDto.fields && this.toJson(updateFormDto.fields),
+        allowedDomains:
+          updateFormDto.allowedDomains &&
+          this.normalizeDomains(updateFormDto.allowedDomains),
+      },
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    // Submissions go with the form; leads it created are kept
+    return this.prisma.leadForm.delete({ where: { id } });
+  }
+
+  /**
+   * Token and endpoints for embedding the form on a website
+   */
+  async getEmbed(id: string) {
+    const form = await this.findOne(id);
+    const token = this.tokenService.generateEmbedToken(
+      form.tenantId,
+      form.id,
+      form.tokenVersion,
+    );
+    const apiUrl =
+      this.configService.get<string>('API_URL') || 'http://localhost:3000';
+
+    return {
+      formId: form.id,
+      token,
+      formUrl: `${apiUrl}/lead-forms/public/${token}`,
+      submitUrl: `${apiUrl}/lead-forms/public/${token}/submit`,
+      honeypotField: HONEYPOT_FIELD,
+    };
+  }
+
+  /**
+   * Invalidate every embed token issued for the form
+   */
+  async rotateToken(id: string) {
+    await this.findOne(id);
+    await this.prisma.leadForm.update({
+      where: { id },
+      data: { tokenVersion: { increment: 1 } },
+    });
+
+    return this.getEmbed(id);
+  }
+
+  async getSubmissions(id: string, paginationDto: PaginationDto) {
+    await this.findOne(id);
+    const page = paginationDto.page ?? 1;
+    const limit = paginationDto.limit ?? 10;
+    const where = this.prisma.addTenantFilter({ formId: id });
+
+    const [data, total] = await Promise.all([
+      this.prisma.leadFormSubmission.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          lead: {
+            select: { id: true, firstName: true, lastName: true, status: true },
+          },
+        },
+      }),
+      this.prisma.leadFormSubmission.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * Form definition for rendering on the embedding page. The start token
+   * must be sent back with the submission.
+   */
+  async getPublicForm(token: string, meta: LeadFormRequestMeta) {
+    const { tenantId, formId, version } =
+      this.tokenService.verifyEmbedToken(token);
+
+    return runWithTenantContext(
+      { tenantId, userId: 'lead-form', isSuperAdmin: false },
+      async () => {
+        const form = await this.loadPublicForm(formId, version, meta.origin);
+        const customFields = await this.getLeadCustomFields();
+
+        return {
+          name: form.name,
+          description: form.description,
+          fields: this.getFields(form).map((field) =>
+            this.describeField(field, customFields),
+          ),
+          honeypotField: HONEYPOT_FIELD,
+          startToken: this.tokenService.generateStartToken(form.id),
+        };
+      },
+    );
+  }
+
+  async submit(
+    token: string,
+    submitDto: SubmitLeadFormDto,
+    meta: LeadFormRequestMeta,
+  ) {
+    const { tenantId, formId, version } =
+      this.tokenService.verifyEmbedToken(token);
+
+    return runWithTenantContext(
+      { tenantId, userId: 'lead-form', isSuperAdmin: false },
+      async () => {
+        const form = await this.loadPublicForm(formId, version, meta.origin);
+        const { issuedAt } = this.tokenService.verifyStartToken(
+          submitDto.startToken,
+          form.id,
+        );
+        if (Date.now() - issuedAt > START_TOKEN_TTL_MS) {
+          throw new BadRequestException(
+            'This form has expired. Please reload the page and try again',
+          );
+        }
+
+        await this.checkRateLimit(tenantId, meta.ipAddress);
+
+        const values = submitDto.values ?? {};
+        const attribution = this.buildAttribution(form, submitDto);
+        const referrer = await this.referralsService.findActiveByCode(
+          tenantId,
+          submitDto.referralCode || attribution.referralCode,
+        );
+        // Unknown or inactive codes are dropped rather than rejected
+        if (referrer) {
+          attribution.referralCode = referrer.code;
+        } else {
+          delete attribution.referralCode;
+        }
+        const submission = {
+          data: this.toJson(this.pickFormValues(form, values)),
+          attribution: this.toJson(attribution),
+          ipAddress: meta.ipAddress,
+          userAgent: meta.userAgent,
+          formId: form.id,
+          tenantId,
+        };
+
+        // Spam is accepted silently so bots learn nothing from the response
+        const spamReason = this.detectSpam(form, values, issuedAt);
+        if (spamReason) {
+          this.logger.warn(
+            `Spam submission to form ${form.id} from ${meta.ipAddress}: ${spamReason}`,
+          );
+          await this.prisma.leadFormSubmission.create({
+            data: {
+              ...submission,
+              status: LeadFormSubmissionStatus.SPAM,
+              spamReason,
+            },
+          });
+          return this.toSubmitResponse(form);
+        }
+
+        const createLeadDto = this.buildLead(form, values);
+        if (referrer) {
+          createLeadDto.source = LeadSource.REFERRAL;
+          createLeadDto.referrerId = referrer.id;
+        }
+        const lead = await this.leadsService.create(createLeadDto, undefined, {
+          source: 'FORM',
+          note: `Web form "${form.name}"`,
+          attribution: this.toJson(attribution),
+        });
+
+        await this.prisma.$transaction([
+          this.prisma.leadFormSubmission.create({
+            data: {
+              ...submission,
+              status: LeadFormSubmissionStatus.ACCEPTED,
+              leadId: lead.id,
+            },
+          }),
+          this.prisma.leadForm.update({
+            where: { id: form.id },
+            data: { submissionCount: { increment: 1 } },
+          }),
+        ]);
+
+        this.logger.log(`Form ${form.id} created lead ${lead.id}`);
+        return this.toSubmitResponse(form);
+      },
+    );
+  }
+
+  /**
+   * An active form whose embed token is current and which may be embedded
+   * on the requesting site
+   */
+  private async loadPublicForm(
+    formId: string,
+    version: number,
+    origin?: string,
+  ): Promise<LeadForm> {
+    const form = await this.prisma.leadForm.findFirst({
+      where: this.prisma.addTenantFilter({ id: formId, isActive: true }),
+    });
+    if (!form || form.tokenVersion !== version) {
+      throw new NotFoundException('Form not found');
+    }
+
+    const allowedDomains = (form.allowedDomains as string[] | null) ?? [];
+    if (allowedDomains.length > 0) {
+      const host = this.extractHost(origin);
+      const allowed =
+        host &&
+        allowedDomains.some(
+          (domain) => host === domain || host.endsWith(`.${domain}`),
+        );
+      if (!allowed) {
+        this.logger.warn(
+          `Form ${form.id} requested from disallowed origin ${origin}`,
+        );
+        throw new ForbiddenException('This form cannot be used on this site');
+      }
+    }
+
+    return form;
+  }
+
+  private async checkRateLimit(tenantId: string, ipAddress?: string) {
+    if (!ipAddress) return;
+
+    const recent = await this.prisma.leadFormSubmission.count({
+      where: {
+        tenantId,
+        ipAddress,
+        createdAt: { gte: new Date(Date.now() - RATE_LIMIT_WINDOW_MS) },
+      },
+    });
+    if (recent >= RATE_LIMIT_MAX_SUBMISSIONS) {
+      throw new HttpException(
+        'Too many submissions. Please try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private detectSpam(
+    form: LeadForm,
+    values: Record<string, unknown>,
+    issuedAt: number,
+  ): LeadFormSpamReason | null {
+    const honeypot = values[HONEYPOT_FIELD];
+    if (honeypot !== undefined && honeypot !== null && honeypot !== '') {
+      return LeadFormSpamReason.HONEYPOT;
+    }
+    if (Date.now() - issuedAt < form.minSubmitSeconds * 1000) {
+      return LeadFormSpamReason.TOO_FAST;
+    }
+    return null;
+  }
+
+  /**
+   * Validate the submitted values against the form and turn them into a
+   * lead. Custom field values are checked by CustomFieldsService on create.
+   */
+  private buildLead(
+    form: LeadForm,
+    values: Record<string, unknown>,
+  ): CreateLeadDto {
+    const errors: string[] = [];
+    const lead: Record<string, unknown> = {};
+    const customFields: Record<string, unknown> = {};
+
+    for (const field of this.getFields(form)) {
+      const raw = values[field.key];
+      const value = typeof raw === 'string' ? raw.trim() : raw;
+      const isEmpty =
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        (Array.isArray(value) && value.length === 0);
+
+      if (isEmpty) {
+        if (field.required) errors.push(`${field.label} is required`);
+        continue;
+      }
+
+      if (field.key.startsWith(CUSTOM_FIELD_PREFIX)) {
+        customFields[field.key.slice(CUSTOM_FIELD_PREFIX.length)] = value;
+        continue;
+      }
+
+      const error = this.validateLeadValue(field, value);
+      if (error) {
+        errors.push(error);
+      } else {
+        lead[field.key] = field.key === 'budget' ? Number(value) : value;
+      }
+    }
+
+    if (!lead.email && !lead.phone && errors.length === 0) {
+      errors.push('Please provide an email address or phone number');
+    }
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    return {
+      ...(lead as Partial<CreateLeadDto>),
+      firstName: lead.firstName as string,
+      lastName: lead.lastName as string,
+      source: LeadSource.WEBSITE,
+      insuranceType: form.insuranceType,
+      urgency: form.urgency,
+      customFields:
+        Object.keys(customFields).length > 0 ? customFields : undefined,
+    };
+  }
+
+  private validateLeadValue(
+    field: LeadFormFieldDto,
+    value: unknown,
+  ): string | null {
+    const spec = LEAD_FIELDS[field.key];
+    const text = typeof value === 'string' ? value : null;
+
+    switch (spec.type) {
+      case 'number':
+        return Number.isFinite(Number(value)) && Number(value) >= 0
+          ? null
+          : `${field.label} must be a number`;
+      case 'email':
+        return text && EMAIL_PATTERN.test(text) && text.length <= 255
+          ? null
+          : `${field.label} must be a valid email address`;
+      case 'tel':
+        return text &&
+          PHONE_PATTERN.test(text) &&
+          text.replace(/\D/g, '').length >= 6
+          ? null
+          : `${field.label} must be a valid phone number`;
+      case 'date':
+        return text &&
+          DATE_PATTERN.test(text) &&
+          !isNaN(new Date(text).getTime())
+          ? null
+          : `${field.label} must be a date (YYYY-MM-DD)`;
+      case 'select':
+        return text && spec.options.includes(text)
+          ? null
+          : `${field.label} must be one of ${spec.options.join(', ')}`;
+      default:
+        if (text === null) return `${field.label} must be text`;
+        return text.length > (spec.maxLength ?? 255)
+          ? `${field.label} is too long`
+          : null;
+    }
+  }
+
+  /**
+   * Check form fields before they are stored. Every form collects the
+   * lead's name and a way to contact them.
+   */
+  private async validateFields(fields: LeadFormFieldDto[]) {
+    const errors: string[] = [];
+    const keys = fields.map((field) => field.key);
+    const customFields = await this.getLeadCustomFields();
+
+    keys
+      .filter((key, index) => keys.indexOf(key) !== index)
+      .forEach((key) => errors.push(`Field "${key}" appears more than once`));
+
+    for (const field of fields) {
+      if (field.key === HONEYPOT_FIELD) {
+        errors.push(`"${HONEYPOT_FIELD}" is reserved for spam protection`);
+      } else if (field.key.startsWith(CUSTOM_FIELD_PREFIX)) {
+        const key = field.key.slice(CUSTOM_FIELD_PREFIX.length);
+        if (!customFields.has(key)) {
+          errors.push(`Custom field "${key}" does not exist or is inactive`);
+        }
+      } else if (!LEAD_FIELDS[field.key]) {
+        errors.push(
+          `Field "${field.key}" is not supported; use a lead field or custom.<key>`,
+        );
+      }
+    }
+
+    for (const key of ['firstName', 'lastName']) {
+      if (!fields.some((field) => field.key === key && field.required)) {
+        errors.push(`The form must include ${key} as a required field`);
+      }
+    }
+    if (!keys.includes('email') && !keys.includes('phone')) {
+      errors.push('The form must include email or phone');
+    }
+
+    // Leads cannot be created without the tenant's required custom fields
+    for (const [key, definition] of customFields) {
+      const field = fields.find(
+        (f) => f.key === `${CUSTOM_FIELD_PREFIX}${key}`,
+      );
+      if (definition.isRequired && !field?.required) {
+        errors.push(
+          `Required custom field "${key}" must be a required form field`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  private describeField(
+    field: LeadFormFieldDto,
+    customFields: Map<string, { fieldType: string; options: Prisma.JsonValue }>,
+  ) {
+    const base = {
+      key: field.key,
+      label: field.label,
+      required: !!field.required,
+      placeholder: field.placeholder ?? null,
+      helpText: field.helpText ?? null,
+    };
+
+    if (field.key.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const definition = customFields.get(
+        field.key.slice(CUSTOM_FIELD_PREFIX.length),
+      );
+      return {
+        ...base,
+        type: CUSTOM_FIELD_INPUTS[definition?.fieldType] ?? 'text',
+        options: Array.isArray(definition?.options) ? definition.options : null,
+      };
+    }
+
+    const spec = LEAD_FIELDS[field.key];
+    return {
+      ...base,
+      type: spec?.type ?? 'text',
+      options: spec?.options ?? null,
+    };
+  }
+
+  private async getLeadCustomFields() {
+    const definitions = await this.customFieldsService.findAll(
+      CustomFieldEntity.LEAD,
+      true,
+    );
+    return new Map(
+      definitions.map((definition) => [definition.key, definition]),
+    );
+  }
+
+  private getFields(form: LeadForm): LeadFormFieldDto[] {
+    return Array.isArray(form.fields)
+      ? (form.fields as unknown as LeadFormFieldDto[])
+      : [];
+  }
+
+  /**
+   * Values of the form's own fields, for the submission record
+   */
+  private pickFormValues(form: LeadForm, values: Record<string, unknown>) {
+    const picked: Record<string, unknown> = {};
+    for (const field of this.getFields(form)) {
+      if (values[field.key] !== undefined) {
+        picked[field.key] = values[field.key];
+      }
+    }
+    return picked;
+  }
+
+  /**
+   * UTM parameters, referrer, landing page and referral code. Explicit UTM
+   * values win over those in the page URL.
+   */
+  private buildAttribution(form: LeadForm, submitDto: SubmitLeadFormDto) {
+    const attribution: Record<string, string> = {
+      formId: form.id,
+      formName: form.name,
+    };
+
+    let pageParams: URLSearchParams | null = null;
+    if (submitDto.pageUrl) {
+      try {
+        pageParams = new URL(submitDto.pageUrl).searchParams;
+        attribution.landingPage = submitDto.pageUrl;
+      } catch {
+        this.logger.debug(`Ignoring invalid pageUrl ${submitDto.pageUrl}`);
+      }
+    }
+
+    for (const [param, key] of Object.entries(UTM_KEYS)) {
+      const explicit = submitDto.utm?.[param];
+      const value =
+        typeof explicit === 'string' && explicit
+          ? explicit
+          : pageParams?.get(param);
+      if (value) {
+        attribution[key] = value.slice(0, 255);
+      }
+    }
+
+    if (submitDto.referrer) {
+      attribution.referrer = submitDto.referrer;
+    }
+
+    // Referral links carry the referrer's code as ?ref=
+    const referralCode = pageParams?.get('ref');
+    if (referralCode) {
+      attribution.referralCode = referralCode.slice(0, 32);
+    }
+
+    return attribution;
+  }
+
+  private toSubmitResponse(form: LeadForm) {
+    return {
+      success: true,
+      message:
+        form.thankYouMessage || 'Thank you! We will be in touch shortly.',
+      redirectUrl: form.redirectUrl,
+    };
+  }
+
+  private normalizeDomains(domains: string[] | undefined) {
+    if (!domains) return undefined;
+    return [
+      ...new Set(
+        domains
+          .map((domain) => this.extractHost(domain))
+          .filter((host): host is string => !!host),
+      ),
+    ];
+  }
+
+  /**
+   * Lowercase host without www, from a URL or a bare domain
+   */
+  private extractHost(value?: string): string | null {
+    if (!value) return null;
+    const withProtocol = /^https?:\/\//i.test(value)
+      ? value
+      : `https://${value}`;
+    try {
+      return new URL(withProtocol).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+
+  private toJson(value: unknown): Prisma.InputJsonValue {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,145 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  IsUUID,
+  Min,
+  Max,
+  ArrayMinSize,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InsuranceType, LeadSource } from '@prisma/client';
+import { RoutingStrategy } from '../enums/lead-routing.enums';
+
+export class RoutingRuleMemberDto {
+  @ApiProperty({
+    example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+    description: 'Agent receiving leads from this rule',
+  })
+  @IsUUID()
+  userId: string;
+
+  @ApiPropertyOptional({
+    example: 2,
+    description: 'Relative share of leads under the WEIGHTED strategy',
+    default: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  weight?: number;
+}
+
+export class CreateRoutingRuleDto {
+  @ApiProperty({
+    example: 'Texas life leads',
+    description: 'Rule name',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'Life insurance enquiries from our Texas territory',
+    description: 'Rule description',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description:
+      'Rules are tried in ascending priority; the first with an available agent wins',
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  priority?: number;
+
+  @ApiPropertyOptional({
+    enum: RoutingStrategy,
+    example: RoutingStrategy.ROUND_ROBIN,
+    default: RoutingStrategy.ROUND_ROBIN,
+  })
+  @IsOptional()
+  @IsEnum(RoutingStrategy)
+  strategy?: RoutingStrategy;
+
+  @ApiPropertyOptional({
+    enum: InsuranceType,
+    isArray: true,
+    example: [InsuranceType.LIFE],
+    description: 'Insurance types matched. Any when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(InsuranceType, { each: true })
+  insuranceTypes?: InsuranceType[];
+
+  @ApiPropertyOptional({
+    enum: LeadSource,
+    isArray: true,
+    example: [LeadSource.WEBSITE, LeadSource.WHATSAPP],
+    description: 'Lead sources matched. Any when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(LeadSource, { each: true })
+  sources?: LeadSource[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['TX'],
+    description:
+      'Territory states matched (case-insensitive). Any when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  states?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['Austin', 'Dallas'],
+    description:
+      'Territory cities matched (case-insensitive). Any when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  cities?: string[];
+
+  @ApiPropertyOptional({
+    example: 50,
+    description: 'Skip agents already holding this many open leads',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxOpenLeads?: number;
+
+  @ApiPropertyOptional({ example: true, description: 'Rule is applied' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({
+    type: [RoutingRuleMemberDto],
+    description: 'Agent pool',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RoutingRuleMemberDto)
+  members: RoutingRuleMemberDto[];
+}
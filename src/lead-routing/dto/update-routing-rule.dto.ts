@@ -0,0 +1,7 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRoutingRuleDto } from './create-routing-rule.dto';
+
+/**
+ * Members, when given, replace the rule's whole agent pool
+ */
+export class UpdateRoutingRuleDto extends PartialType(CreateRoutingRuleDto) {}
@@ -0,0 +1,8 @@
+/**
+ * Lead Routing Enums - How routing rules pick an agent from their pool
+ */
+
+export enum RoutingStrategy {
+  ROUND_ROBIN = 'ROUND_ROBIN', // Agent who was routed a lead longest ago
+  WEIGHTED = 'WEIGHTED', // Agents receive leads in proportion to their weight
+}
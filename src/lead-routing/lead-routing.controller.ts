@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LeadRoutingService } from './lead-routing.service';
+import { CreateRoutingRuleDto } from './dto/create-routing-rule.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Lead Routing')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.MANAGER)
+@Controller('lead-routing')
+export class LeadRoutingController {
+  constructor(private readonly leadRoutingService: LeadRoutingService) {}
+
+  @Get('rules')
+  @ApiOperation({ summary: 'Get lead routing rules in evaluation order' })
+  @ApiResponse({ status: 200, description: 'Routing rules retrieved' })
+  findAll() {
+    return this.leadRoutingService.findAll();
+  }
+
+  @Post('rules')
+  @ApiOperation({ summary: 'Create a lead routing rule' })
+  @ApiResponse({ status: 201, description: 'Routing rule created' })
+  @ApiResponse({ status: 400, description: 'Unknown or duplicate agent' })
+  create(@Body() createRuleDto: CreateRoutingRuleDto) {
+    return this.leadRoutingService.create(createRuleDto);
+  }
+
+  @Get('rules/:id')
+  @ApiOperation({ summary: 'Get lead routing rule by ID' })
+  @ApiResponse({ status: 200, description: 'Routing rule found' })
+  @ApiResponse({ status: 404, description: 'Routing rule not found' })
+  findOne(@Param('id') id: string) {
+    return this.leadRoutingService.findOne(id);
+  }
+
+  @Patch('rules/:id')
+  @ApiOperation({ summary: 'Update a lead routing rule' })
+  @ApiResponse({ status: 200, description: 'Routing rule updated' })
+  update(@Param('id') id: string, @Body() updateRuleDto: UpdateRoutingRuleDto) {
+    return this.leadRoutingService.update(id, updateRuleDto);
+  }
+
+  @Delete('rules/:id')
+  @ApiOperation({ summary: 'Delete a lead routing rule' })
+  @ApiResponse({ status: 200, description: 'Routing rule deleted' })
+  remove(@Param('id') id: string) {
+    return this.leadRoutingService.remove(id);
+  }
+}
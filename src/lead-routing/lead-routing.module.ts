@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LeadRoutingService } from './lead-routing.service';
+import { LeadRoutingController } from './lead-routing.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [LeadRoutingController],
+  providers: [LeadRoutingService, PrismaService],
+  exports: [LeadRoutingService],
+})
+export class LeadRoutingModule {}
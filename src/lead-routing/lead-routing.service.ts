@@ -0,0 +1,312 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Lead,
+  LeadRoutingRule,
+  LeadRoutingRuleMember,
+  LeadStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import {
+  CreateRoutingRuleDto,
+  RoutingRuleMemberDto,
+} from './dto/create-routing-rule.dto';
+import { UpdateRoutingRuleDto } from './dto/update-routing-rule.dto';
+import { RoutingStrategy } from './enums/lead-routing.enums';
+
+export interface RoutingDecision {
+  userId: string;
+  ruleId: string;
+  ruleName: string;
+}
+
+type RoutableLead = Pick<
+  Lead,
+  'tenantId' | 'insuranceType' | 'source' | 'state' | 'city'
+>;
+
+const MEMBER_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      role: true,
+      isActive: true,
+    },
+  },
+} satisfies Prisma.LeadRoutingRuleMemberInclude;
+
+/**
+ * LeadRoutingService - Tenant-defined rules for assigning new leads
+ *
+ * Key Features:
+ * - Rules match on insurance type, source and state/city territory
+ * - Round-robin or weighted distribution across each rule's agent pool
+ * - Inactive agents and agents at the rule's open-lead cap are skipped
+ * - Rules are tried in priority order, so a rule without an available
+ *   agent falls through to the next (a rule without conditions acts as
+ *   the catch-all fallback)
+ */
+@Injectable()
+export class LeadRoutingService {
+  private readonly logger = new Logger(LeadRoutingService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findAll() {
+    return this.prisma.leadRoutingRule.findMany({
+      where: this.prisma.addTenantFilter({}),
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: { members: { include: MEMBER_INCLUDE } },
+    });
+  }
+
+  async findOne(id: string) {
+    const rule = await this.prisma.leadRoutingRule.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: { members: { include: MEMBER_INCLUDE } },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Routing rule not found');
+    }
+
+    return rule;
+  }
+
+  async create(createRuleDto: CreateRoutingRuleDto) {
+    const tenantId = this.requireTenantId();
+    const { members, ...ruleData } = createRuleDto;
+    await this.validateMembers(members, tenantId);
+
+    return this.prisma.leadRoutingRule.create({
+      data: {
+        ...ruleData,
+        tenantId,
+        members: {
+          create: members.map((member) => ({
+            userId: member.userId,
+            weight: member.weight ?? 1,
+            tenantId,
+          })),
+        },
+      },
+      include: { members: { include: MEMBER_INCLUDE } },
+    });
+  }
+
+  async update(id: string, updateRuleDto: UpdateRoutingRuleDto) {
+    const rule = await this.findOne(id);
+    const { members, ...ruleData } = updateRuleDto;
+    if (members) {
+      await this.validateMembers(members, rule.tenantId);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.leadRoutingRule.update({
+        where: { id },
+        data: ruleData,
+      });
+
+      if (members) {
+        await this.replaceMembers(tx, rule, members);
+      }
+    });
+
+    return this.findOne(id);
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    return this.prisma.leadRoutingRule.delete({ where: { id } });
+  }
+
+  /**
+   * Pick the agent for a new lead from the first matching rule with an
+   * available agent, and count the assignment against that agent.
+   * Returns null when no rule can place the lead.
+   */
+  async selectAssignee(lead: RoutableLead): Promise<RoutingDecision | null> {
+    const rules = await this.prisma.leadRoutingRule.findMany({
+      where: { tenantId: lead.tenantId, isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+      include: { members: { include: MEMBER_INCLUDE } },
+    });
+
+    for (const rule of rules) {
+      if (!this.matches(rule, lead)) continue;
+
+      const available = await this.getAvailableMembers(rule);
+      if (available.length === 0) {
+        this.logger.debug(
+          `Routing rule "${rule.name}" matched but has no available agent, falling through`,
+        );
+        continue;
+      }
+
+      const member = this.pickMember(
+        rule.strategy as RoutingStrategy,
+        available,
+      );
+      await this.prisma.leadRoutingRuleMember.update({
+        where: { id: member.id },
+        data: { assignedCount: { increment: 1 }, lastAssignedAt: new Date() },
+      });
+
+      return { userId: member.userId, ruleId: rule.id, ruleName: rule.name };
+    }
+
+    return null;
+  }
+
+  private matches(rule: LeadRoutingRule, lead: RoutableLead): boolean {
+    const includes = (list: Prisma.JsonValue, value: string | null) => {
+      if (!Array.isArray(list) || list.length === 0) return true;
+      if (!value) return false;
+      const normalized = value.trim().toLowerCase();
+      return list.some(
+        (item) =>
+          typeof item === 'string' && item.trim().toLowerCase() === normalized,
+      );
+    };
+
+    return (
+      includes(rule.insuranceTypes, lead.insuranceType) &&
+      includes(rule.sources, lead.source) &&
+      includes(rule.states, lead.state) &&
+      includes(rule.cities, lead.city)
+    );
+  }
+
+  /**
+   * Members who are active and below the rule's open-lead cap
+   */
+  private async getAvailableMembers(
+    rule: LeadRoutingRule & {
+      members: Array<
+        LeadRoutingRuleMember & { user: { id: string; isActive: boolean } }
+      >;
+    },
+  ) {
+    const activeMembers = rule.members.filter((member) => member.user.isActive);
+    if (!rule.maxOpenLeads || activeMembers.length === 0) {
+      return activeMembers;
+    }
+
+    const openLeads = await this.prisma.lead.groupBy({
+      by: ['assignedUserId'],
+      where: {
+        tenantId: rule.tenantId,
+        assignedUserId: { in: activeMembers.map((member) => member.userId) },
+        status: { notIn: [LeadStatus.CLOSED_WON, LeadStatus.CLOSED_LOST] },
+      },
+      _count: { _all: true },
+    });
+    const openLeadCounts = new Map(
+      openLeads.map((row) => [row.assignedUserId, row._count._all]),
+    );
+
+    return activeMembers.filter(
+      (member) => (openLeadCounts.get(member.userId) ?? 0) < rule.maxOpenLeads,
+    );
+  }
+
+  private pickMember<T extends LeadRoutingRuleMember>(
+    strategy: RoutingStrategy,
+    members: T[],
+  ): T {
+    const lastAssigned = (member: T) => member.lastAssignedAt?.getTime() ?? 0;
+
+    return [...members].sort((a, b) => {
+      if (strategy === RoutingStrategy.WEIGHTED) {
+        // Furthest behind its share of leads goes first
+        const share = a.assignedCount / a.weight - b.assignedCount / b.weight;
+        if (share !== 0) return share;
+      }
+      return lastAssigned(a) - lastAssigned(b);
+    })[0];
+  }
+
+  /**
+   * Replace a rule's agent pool, keeping the counters of agents who stay.
+   * Newcomers start level with the pool so weighted routing does not send
+   * them every lead until they catch up.
+   */
+  private async replaceMembers(
+    tx: Prisma.TransactionClient,
+    rule: LeadRoutingRule & { members: LeadRoutingRuleMember[] },
+    members: RoutingRuleMemberDto[],
+  ) {
+    const keptUserIds = members.map((member) => member.userId);
+    await tx.leadRoutingRuleMember.deleteMany({
+      where: { ruleId: rule.id, userId: { notIn: keptUserIds } },
+    });
+
+    const existing = new Map(
+      rule.members.map((member) => [member.userId, member]),
+    );
+    const kept = rule.members.filter((member) =>
+      keptUserIds.includes(member.userId),
+    );
+    const baselineShare = kept.length
+      ? Math.min(...kept.map((member) => member.assignedCount / member.weight))
+      : 0;
+
+    for (const member of members) {
+      const weight = member.weight ?? 1;
+      const current = existing.get(member.userId);
+      if (current) {
+        await tx.leadRoutingRuleMember.update({
+          where: { id: current.id },
+          data: { weight },
+        });
+      } else {
+        await tx.leadRoutingRuleMember.create({
+          data: {
+            ruleId: rule.id,
+            userId: member.userId,
+            weight,
+            assignedCount: Math.floor(baselineShare * weight),
+            tenantId: rule.tenantId,
+          },
+        });
+      }
+    }
+  }
+
+  private async validateMembers(
+    members: RoutingRuleMemberDto[],
+    tenantId: string,
+  ) {
+    const userIds = members.map((member) => member.userId);
+    if (new Set(userIds).size !== userIds.length) {
+      throw new BadRequestException('An agent can only be listed once');
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds }, tenantId },
+      select: { id: true },
+    });
+    const missing = userIds.filter((id) => !users.some((u) => u.id === id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Users not found: ${missing.join(', ')}`);
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsNumber,
+  IsIn,
+  Min,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  EngagementEventType,
+  ScoringOperator,
+  ScoringRuleType,
+} from '../enums/lead-scoring.enums';
+
+/**
+ * Lead fields that FIELD_PRESENT and FIELD_VALUE rules may check
+ */
+export const SCORABLE_FIELDS = [
+  'email',
+  'phone',
+  'alternatePhone',
+  'preferredContact',
+  'address',
+  'city',
+  'state',
+  'zipCode',
+  'country',
+  'inquiryDetails',
+  'budget',
+  'expectedCloseDate',
+  'urgency',
+  'status',
+  'assignedUserId',
+] as const;
+
+export class CreateScoringRuleDto {
+  @ApiProperty({
+    example: 'Replied on WhatsApp',
+    description: 'Rule name shown in score breakdowns',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'Rewards leads that engage with us on WhatsApp',
+    description: 'Rule description',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({
+    enum: ScoringRuleType,
+    example: ScoringRuleType.ENGAGEMENT_EVENT,
+    description: 'What the rule checks',
+  })
+  @IsEnum(ScoringRuleType)
+  ruleType: ScoringRuleType;
+
+  @ApiPropertyOptional({
+    enum: SCORABLE_FIELDS,
+    example: 'email',
+    description: 'Lead field checked by FIELD_PRESENT and FIELD_VALUE rules',
+  })
+  @IsOptional()
+  @IsIn(SCORABLE_FIELDS)
+  field?: string;
+
+  @ApiPropertyOptional({
+    enum: ScoringOperator,
+    example: ScoringOperator.EQUALS,
+    description: 'Comparison used by FIELD_VALUE rules',
+  })
+  @IsOptional()
+  @IsEnum(ScoringOperator)
+  operator?: ScoringOperator;
+
+  @ApiPropertyOptional({
+    type: [String],
+    example: ['LIFE', 'HEALTH'],
+    description:
+      'Values compared against: FIELD_VALUE operand(s), or the insurance types / sources matched by INSURANCE_TYPE and SOURCE rules',
+  })
+  @IsOptional()
+  @IsArray()
+  values?: Array<string | number | boolean>;
+
+  @ApiPropertyOptional({
+    example: 1000,
+    description:
+      'Inclusive lower bound: budget for BUDGET_BAND, days for DAYS_SINCE_CONTACT',
+  })
+  @IsOptional()
+  @IsNumber()
+  minValue?: number;
+
+  @ApiPropertyOptional({
+    example: 5000,
+    description: 'Exclusive upper bound, open-ended when omitted',
+  })
+  @IsOptional()
+  @IsNumber()
+  maxValue?: number;
+
+  @ApiPropertyOptional({
+    enum: EngagementEventType,
+    example: EngagementEventType.WHATSAPP_REPLY,
+    description: 'Event counted by ENGAGEMENT_EVENT rules',
+  })
+  @IsOptional()
+  @IsEnum(EngagementEventType)
+  eventType?: EngagementEventType;
+
+  @ApiProperty({
+    example: 5,
+    description:
+      'Points awarded on match (per event for ENGAGEMENT_EVENT). Negative values lower the score',
+  })
+  @IsNumber()
+  points: number;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Cap on the points an ENGAGEMENT_EVENT rule can contribute',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPoints?: number;
+
+  @ApiPropertyOptional({
+    example: 14,
+    description:
+      'ENGAGEMENT_EVENT points halve every this many days since the event. No decay when omitted',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  decayHalfLifeDays?: number;
+
+  @ApiPropertyOptional({ example: true, description: 'Rule is applied' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
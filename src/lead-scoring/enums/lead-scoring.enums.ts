@@ -0,0 +1,30 @@
+/**
+ * Lead Scoring Enums - Types for tenant-defined lead scoring rules
+ */
+
+export enum ScoringRuleType {
+  FIELD_PRESENT = 'FIELD_PRESENT',
+  FIELD_VALUE = 'FIELD_VALUE',
+  INSURANCE_TYPE = 'INSURANCE_TYPE',
+  SOURCE = 'SOURCE',
+  BUDGET_BAND = 'BUDGET_BAND',
+  ENGAGEMENT_EVENT = 'ENGAGEMENT_EVENT',
+  DAYS_SINCE_CONTACT = 'DAYS_SINCE_CONTACT',
+}
+
+export enum ScoringOperator {
+  EQUALS = 'EQUALS',
+  NOT_EQUALS = 'NOT_EQUALS',
+  CONTAINS = 'CONTAINS',
+  GREATER_THAN = 'GREATER_THAN',
+  LESS_THAN = 'LESS_THAN',
+  IN = 'IN',
+}
+
+export enum EngagementEventType {
+  WHATSAPP_REPLY = 'WHATSAPP_REPLY', // Inbound WhatsApp message from the lead
+  EMAIL_REPLY = 'EMAIL_REPLY', // Inbound email from the lead
+  EMAIL_OPENED = 'EMAIL_OPENED', // Outbound email opened by the lead
+  WIDGET_CHAT_MESSAGE = 'WIDGET_CHAT_MESSAGE', // Message sent in the website chat widget
+  INBOUND_COMMUNICATION = 'INBOUND_COMMUNICATION', // Logged inbound call, SMS, etc.
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../common/services/prisma.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { LeadScoringService } from './lead-scoring.service';
+
+@Injectable()
+export class LeadScoringSchedulerService {
+  private readonly logger = new Logger(LeadScoringSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadScoringService: LeadScoringService,
+  ) {}
+
+  // Engagement decay and days since contact change with time alone, so
+  // re-score open leads nightly
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async recalculateScores() {
+    const tenants = await this.prisma.tenant.findMany({
+      where: { status: { in: ['active', 'trial'] } },
+      select: { id: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        await runWithTenantContext(
+          { tenantId: tenant.id, isSuperAdmin: false },
+          () => this.leadScoringService.recalculateTenant(),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to re-score leads for tenant ${tenant.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
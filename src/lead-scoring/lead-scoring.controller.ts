@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LeadScoringService } from './lead-scoring.service';
+import { CreateScoringRuleDto } from './dto/create-scoring-rule.dto';
+import { UpdateScoringRuleDto } from './dto/update-scoring-rule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Lead Scoring')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lead-scoring')
+export class LeadScoringController {
+  constructor(private readonly leadScoringService: LeadScoringService) {}
+
+  @Get('rules')
+  @ApiOperation({ summary: 'Get all lead scoring rules' })
+  @ApiResponse({ status: 200, description: 'Scoring rules retrieved' })
+  findAll() {
+    return this.leadScoringService.findAll();
+  }
+
+  @Post('rules')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Create a lead scoring rule' })
+  @ApiResponse({ status: 201, description: 'Scoring rule created' })
+  @ApiResponse({ status: 400, description: 'Rule configuration is invalid' })
+  create(@Body() createRuleDto: CreateScoringRuleDto) {
+    return this.leadScoringService.create(createRuleDto);
+  }
+
+  @Post('recalculate')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Re-score all open leads with the current rules' })
+  @ApiResponse({ status: 201, description: 'Leads re-scored' })
+  recalculate() {
+    return this.leadScoringService.recalculateTenant();
+  }
+
+  @Get('rules/:id')
+  @ApiOperation({ summary: 'Get lead scoring rule by ID' })
+  @ApiResponse({ status: 200, description: 'Scoring rule found' })
+  @ApiResponse({ status: 404, description: 'Scoring rule not found' })
+  findOne(@Param('id') id: string) {
+    return this.leadScoringService.findOne(id);
+  }
+
+  @Patch('rules/:id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a lead scoring rule' })
+  @ApiResponse({ status: 200, description: 'Scoring rule updated' })
+  @ApiResponse({ status: 400, description: 'Rule configuration is invalid' })
+  update(@Param('id') id: string, @Body() updateRuleDto: UpdateScoringRuleDto) {
+    return this.leadScoringService.update(id, updateRuleDto);
+  }
+
+  @Delete('rules/:id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Delete a lead scoring rule' })
+  @ApiResponse({ status: 200, description: 'Scoring rule deleted' })
+  remove(@Param('id') id: string) {
+    return this.leadScoringService.remove(id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { LeadScoringService } from './lead-scoring.service';
+import { LeadScoringSchedulerService } from './lead-scoring-scheduler.service';
+import { LeadScoringController } from './lead-scoring.controller';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadActivityService } from '../leads/lead-activity.service';
+
+@Module({
+  controllers: [LeadScoringController],
+  providers: [
+    LeadScoringService,
+    LeadScoringSchedulerService,
+    LeadActivityService,
+    PrismaService,
+  ],
+  exports: [LeadScoringService],
+})
+export class LeadScoringModule {}
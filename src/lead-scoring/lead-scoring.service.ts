@@ -0,0 +1,718 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  InsuranceType,
+  Lead,
+  LeadScoringRule,
+  LeadSource,
+  LeadStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { LeadActivityService } from '../leads/lead-activity.service';
+import { CreateScoringRuleDto } from './dto/create-scoring-rule.dto';
+import { UpdateScoringRuleDto } from './dto/update-scoring-rule.dto';
+import {
+  EngagementEventType,
+  ScoringOperator,
+  ScoringRuleType,
+} from './enums/lead-scoring.enums';
+
+export type ScoreContribution = {
+  ruleId: string;
+  name: string;
+  ruleType: string;
+  points: number;
+  detail: string;
+};
+
+export type ScoreBreakdown = {
+  total: number;
+  contributions: ScoreContribution[];
+  evaluatedAt: string;
+};
+
+type RuleDefinition = Omit<
+  Prisma.LeadScoringRuleUncheckedCreateInput,
+  'tenantId'
+>;
+
+/**
+ * Rules every tenant starts with - close to the original fixed formula,
+ * plus engagement and staleness signals
+ */
+const DEFAULT_RULES: RuleDefinition[] = [
+  {
+    name: 'Has email address',
+    ruleType: ScoringRuleType.FIELD_PRESENT,
+    field: 'email',
+    points: 15,
+  },
+  {
+    name: 'Has phone number',
+    ruleType: ScoringRuleType.FIELD_PRESENT,
+    field: 'phone',
+    points: 15,
+  },
+  {
+    name: 'Stated a budget',
+    ruleType: ScoringRuleType.FIELD_PRESENT,
+    field: 'budget',
+    points: 20,
+  },
+  {
+    name: 'Described their needs',
+    ruleType: ScoringRuleType.FIELD_PRESENT,
+    field: 'inquiryDetails',
+    points: 10,
+  },
+  {
+    name: 'Has expected close date',
+    ruleType: ScoringRuleType.FIELD_PRESENT,
+    field: 'expectedCloseDate',
+    points: 15,
+  },
+  {
+    name: 'High urgency',
+    ruleType: ScoringRuleType.FIELD_VALUE,
+    field: 'urgency',
+    operator: ScoringOperator.GREATER_THAN,
+    values: [3],
+    points: 15,
+  },
+  {
+    name: 'Replied on WhatsApp',
+    ruleType: ScoringRuleType.ENGAGEMENT_EVENT,
+    eventType: EngagementEventType.WHATSAPP_REPLY,
+    points: 5,
+    maxPoints: 20,
+    decayHalfLifeDays: 14,
+  },
+  {
+    name: 'Replied by email',
+    ruleType: ScoringRuleType.ENGAGEMENT_EVENT,
+    eventType: EngagementEventType.EMAIL_REPLY,
+    points: 5,
+    maxPoints: 15,
+    decayHalfLifeDays: 14,
+  },
+  {
+    name: 'Opened our emails',
+    ruleType: ScoringRuleType.ENGAGEMENT_EVENT,
+    eventType: EngagementEventType.EMAIL_OPENED,
+    points: 2,
+    maxPoints: 6,
+    decayHalfLifeDays: 7,
+  },
+  {
+    name: 'Chatted on the website',
+    ruleType: ScoringRuleType.ENGAGEMENT_EVENT,
+    eventType: EngagementEventType.WIDGET_CHAT_MESSAGE,
+    points: 1,
+    maxPoints: 10,
+    decayHalfLifeDays: 14,
+  },
+  {
+    name: 'No contact for 30+ days',
+    ruleType: ScoringRuleType.DAYS_SINCE_CONTACT,
+    minValue: 30,
+    points: -15,
+  },
+];
+
+const MIN_SCORE = 0;
+const MAX_SCORE = 100;
+const MAX_EVENTS_PER_TYPE = 200;
+const RECALCULATION_BATCH_SIZE = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Smaller moves (mostly engagement decay) are not worth a timeline entry
+const MIN_RECORDED_SCORE_CHANGE = 1;
+
+/**
+ * LeadScoringService - Tenant-defined lead scoring rules
+ *
+ * Key Features:
+ * - Rules on lead fields, insurance type, source, budget bands, engagement
+ *   events and days since last contact, each with its own weight
+ * - Engagement points decay with the age of the event
+ * - Scores are re-evaluated when relevant events happen and nightly, and
+ *   stored with a breakdown of the rules that produced them
+ * - manualScore, when set, overrides the computed score
+ */
+@Injectable()
+export class LeadScoringService {
+  private readonly logger = new Logger(LeadScoringService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadActivityService: LeadActivityService,
+  ) {}
+
+  async findAll() {
+    await this.ensureDefaultRules(this.requireTenantId());
+
+    return this.prisma.leadScoringRule.findMany({
+      where: this.prisma.addTenantFilter({}),
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const rule = await this.prisma.leadScoringRule.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Scoring rule not found');
+    }
+
+    return rule;
+  }
+
+  async create(createRuleDto: CreateScoringRuleDto) {
+    const tenantId = this.requireTenantId();
+    await this.ensureDefaultRules(tenantId);
+    this.validateRule(createRuleDto);
+
+    return this.prisma.leadScoringRule.create({
+      data: {
+        ...createRuleDto,
+        values: createRuleDto.values ?? undefined,
+        tenantId,
+      },
+    });
+  }
+
+  async update(id: string, updateRuleDto: UpdateScoringRuleDto) {
+    const rule = await this.findOne(id);
+    this.validateRule({
+      ...rule,
+      ...updateRuleDto,
+      values: (updateRuleDto.values ?? rule.values) as any,
+    });
+
+    return this.prisma.leadScoringRule.update({
+      where: { id },
+      data: {
+        ...updateRuleDto,
+        values: updateRuleDto.values ?? undefined,
+      },
+    });
+  }
+
+  /**
+   * Delete a rule. Deactivate rules instead to keep them for later - a tenant
+   * left with no rules at all starts over from the default set.
+   */
+  async remove(id: string) {
+    await this.findOne(id);
+
+    return this.prisma.leadScoringRule.delete({ where: { id } });
+  }
+
+  /**
+   * Seed the default rules for a tenant that has none
+   */
+  async ensureDefaultRules(tenantId: string) {
+    const count = await this.prisma.leadScoringRule.count({
+      where: { tenantId },
+    });
+    if (count > 0) {
+      return;
+    }
+
+    await this.prisma.leadScoringRule.createMany({
+      data: DEFAULT_RULES.map((rule) => ({ ...rule, tenantId })),
+    });
+  }
+
+  /**
+   * Re-evaluate a lead against its tenant's active rules and store the
+   * score and breakdown
+   */
+  async scoreLead(leadId: string, reason?: string): Promise<ScoreBreakdown> {
+    const lead = await this.prisma.lead.findUnique({ where: { id: leadId } });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const rules = await this.getActiveRules(lead.tenantId);
+    return this.applyRules(lead, rules, reason);
+  }
+
+  /**
+   * Re-score a lead after an event that may affect its score. Failures are
+   * logged rather than thrown so they never break the triggering flow.
+   */
+  async rescoreLead(
+    leadId: string | null | undefined,
+    reason: string,
+  ): Promise<ScoreBreakdown | null> {
+    if (!leadId) {
+      return null;
+    }
+
+    try {
+      const breakdown = await this.scoreLead(leadId, reason);
+      this.logger.debug(`Re-scored lead ${leadId} after ${reason}`);
+      return breakdown;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to re-score lead ${leadId} after ${reason}: ${error.message}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Re-score every open lead of the current tenant, e.g. after rule changes
+   */
+  async recalculateTenant() {
+    const tenantId = this.requireTenantId();
+    const rules = await this.getActiveRules(tenantId);
+
+    let rescored = 0;
+    let cursor: string | undefined;
+    while (true) {
+      const leads = await this.prisma.lead.findMany({
+        where: {
+          tenantId,
+          status: { notIn: [LeadStatus.CLOSED_WON, LeadStatus.CLOSED_LOST] },
+        },
+        orderBy: { id: 'asc' },
+        take: RECALCULATION_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (leads.length === 0) break;
+
+      for (const lead of leads) {
+        await this.applyRules(lead, rules, 'recalculation');
+      }
+      rescored += leads.length;
+      cursor = leads[leads.length - 1].id;
+    }
+
+    this.logger.log(`Re-scored ${rescored} leads for tenant ${tenantId}`);
+    return { rescored };
+  }
+
+  /**
+   * Score summary for a lead the caller has already been authorised to see
+   */
+  formatLeadScore(
+    lead: Pick<
+      Lead,
+      'id' | 'score' | 'manualScore' | 'scoreBreakdown' | 'scoreUpdatedAt'
+    >,
+  ) {
+    return {
+      leadId: lead.id,
+      score: lead.score,
+      manualScore: lead.manualScore,
+      effectiveScore: lead.manualScore ?? lead.score,
+      isManualOverride: lead.manualScore !== null,
+      scoreUpdatedAt: lead.scoreUpdatedAt,
+      breakdown: lead.scoreBreakdown as ScoreBreakdown | null,
+    };
+  }
+
+  private async getActiveRules(tenantId: string) {
+    await this.ensureDefaultRules(tenantId);
+
+    return this.prisma.leadScoringRule.findMany({
+      where: { tenantId, isActive: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  private async applyRules(
+    lead: Lead,
+    rules: LeadScoringRule[],
+    reason?: string,
+  ): Promise<ScoreBreakdown> {
+    const now = new Date();
+    const eventTypes = rules
+      .filter((rule) => rule.ruleType === ScoringRuleType.ENGAGEMENT_EVENT)
+      .map((rule) => rule.eventType as EngagementEventType);
+    const events = await this.loadEngagementEvents(lead.id, eventTypes);
+
+    const contributions: ScoreContribution[] = [];
+    for (const rule of rules) {
+      const result = this.evaluateRule(rule, lead, events, now);
+      if (result && result.points !== 0) {
+        contributions.push({
+          ruleId: rule.id,
+          name: rule.name,
+          ruleType: rule.ruleType,
+          points: this.round(result.points),
+          detail: result.detail,
+        });
+      }
+    }
+
+    const rawTotal = contributions.reduce((sum, c) => sum + c.points, 0);
+    const breakdown: ScoreBreakdown = {
+      total: this.round(Math.min(MAX_SCORE, Math.max(MIN_SCORE, rawTotal))),
+      contributions,
+      evaluatedAt: now.toISOString(),
+    };
+
+    await this.prisma.lead.update({
+      where: { id: lead.id },
+      data: {
+        score: breakdown.total,
+        scoreBreakdown: breakdown,
+        scoreUpdatedAt: now,
+        // Re-scoring is not an edit of the lead
+        updatedAt: lead.updatedAt,
+      },
+    });
+
+    // A manual override hides computed changes, so only record visible ones
+    if (
+      lead.manualScore === null &&
+      Math.abs(breakdown.total - lead.score) >= MIN_RECORDED_SCORE_CHANGE
+    ) {
+      await this.leadActivityService.recordScoreChange({
+        leadId: lead.id,
+        tenantId: lead.tenantId,
+        fromScore: lead.score,
+        toScore: breakdown.total,
+        note: reason ? `Re-scored after ${reason}` : null,
+        source: 'SCORING',
+      });
+    }
+
+    return breakdown;
+  }
+
+  private evaluateRule(
+    rule: LeadScoringRule,
+    lead: Lead,
+    events: Map<EngagementEventType, Date[]>,
+    now: Date,
+  ): { points: number; detail: string } | null {
+    const values = Array.isArray(rule.values) ? rule.values : [];
+
+    switch (rule.ruleType) {
+      case ScoringRuleType.FIELD_PRESENT: {
+        const value = lead[rule.field as keyof Lead];
+        const present =
+          value !== null &&
+          value !== undefined &&
+          this.toText(value).trim() !== '';
+        return present
+          ? { points: rule.points, detail: `${rule.field} is set` }
+          : null;
+      }
+
+      case ScoringRuleType.FIELD_VALUE: {
+        const value = lead[rule.field as keyof Lead];
+        return this.compare(value, rule.operator as ScoringOperator, values)
+          ? {
+              points: rule.points,
+              detail: `${rule.field} ${rule.operator} ${values.join(', ')}`,
+            }
+          : null;
+      }
+
+      case ScoringRuleType.INSURANCE_TYPE:
+        return values.includes(lead.insuranceType)
+          ? {
+              points: rule.points,
+              detail: `Insurance type ${lead.insuranceType}`,
+            }
+          : null;
+
+      case ScoringRuleType.SOURCE:
+        return values.includes(lead.source)
+          ? { points: rule.points, detail: `Source ${lead.source}` }
+          : null;
+
+      case ScoringRuleType.BUDGET_BAND: {
+        if (lead.budget === null) return null;
+        const budget = Number(lead.budget);
+        return this.inRange(budget, rule.minValue, rule.maxValue)
+          ? { points: rule.points, detail: `Budget ${budget}` }
+          : null;
+      }
+
+      case ScoringRuleType.DAYS_SINCE_CONTACT: {
+        const lastContact = lead.lastContactedAt ?? lead.createdAt;
+        const days = Math.floor(
+          (now.getTime() - lastContact.getTime()) / DAY_MS,
+        );
+        return this.inRange(days, rule.minValue, rule.maxValue)
+          ? {
+              points: rule.points,
+              detail: lead.lastContactedAt
+                ? `Last contacted ${days} days ago`
+                : `Never contacted, created ${days} days ago`,
+            }
+          : null;
+      }
+
+      case ScoringRuleType.ENGAGEMENT_EVENT: {
+        const occurrences =
+          events.get(rule.eventType as EngagementEventType) ?? [];
+        if (occurrences.length === 0) return null;
+
+        let points = occurrences.reduce((sum, occurredAt) => {
+          const ageDays = (now.getTime() - occurredAt.getTime()) / DAY_MS;
+          const decay = rule.decayHalfLifeDays
+            ? Math.pow(0.5, Math.max(0, ageDays) / rule.decayHalfLifeDays)
+            : 1;
+          return sum + rule.points * decay;
+        }, 0);
+        if (rule.maxPoints !== null) {
+          points =
+            Math.sign(points) * Math.min(Math.abs(points), rule.maxPoints);
+        }
+
+        return {
+          points,
+          detail: `${occurrences.length} ${rule.eventType} event(s)`,
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  private compare(
+    value: unknown,
+    operator: ScoringOperator,
+    operands: Prisma.JsonValue[],
+  ): boolean {
+    const isEqual = (operand: Prisma.JsonValue) =>
+      value !== null &&
+      value !== undefined &&
+      this.toText(value).toLowerCase() === this.toText(operand).toLowerCase();
+    const [operand] = operands;
+
+    switch (operator) {
+      case ScoringOperator.EQUALS:
+        return isEqual(operand);
+      case ScoringOperator.NOT_EQUALS:
+        return !isEqual(operand);
+      case ScoringOperator.IN:
+        return operands.some(isEqual);
+      case ScoringOperator.CONTAINS:
+        return (
+          value !== null &&
+          value !== undefined &&
+          this.toText(value)
+            .toLowerCase()
+            .includes(this.toText(operand).toLowerCase())
+        );
+      case ScoringOperator.GREATER_THAN:
+      case ScoringOperator.LESS_THAN: {
+        const left = this.toComparable(value);
+        const right = this.toComparable(operand);
+        if (left === null || right === null) return false;
+        return operator === ScoringOperator.GREATER_THAN
+          ? left > right
+          : left < right;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Numbers, decimals and dates (as timestamps) for ordered comparisons
+   */
+  private toComparable(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    if (value instanceof Date) return value.getTime();
+
+    const numeric = Number(value);
+    if (!isNaN(numeric)) return numeric;
+
+    const timestamp = Date.parse(this.toText(value));
+    return isNaN(timestamp) ? null : timestamp;
+  }
+
+  private toText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Prisma.Decimal) return value.toString();
+    return typeof value === 'object'
+      ? JSON.stringify(value)
+      : String(value as string | number | boolean);
+  }
+
+  private inRange(
+    value: number,
+    min: number | null,
+    max: number | null,
+  ): boolean {
+    return (min === null || value >= min) && (max === null || value < max);
+  }
+
+  /**
+   * When each engagement event used by the rules happened, newest first
+   */
+  private async loadEngagementEvents(
+    leadId: string,
+    eventTypes: EngagementEventType[],
+  ) {
+    const events = new Map<EngagementEventType, Date[]>();
+    const load = async (
+      eventType: EngagementEventType,
+      query: () => Promise<Date[]>,
+    ) => {
+      if (eventTypes.includes(eventType)) {
+        events.set(eventType, await query());
+      }
+    };
+    const chatMessageTimes = (platform: string) =>
+      this.prisma.chatMessage
+        .findMany({
+          where: { leadId, sender: 'CUSTOMER', platform },
+          select: { createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_EVENTS_PER_TYPE,
+        })
+        .then((messages) => messages.map((m) => m.createdAt));
+
+    await load(EngagementEventType.WHATSAPP_REPLY, () =>
+      chatMessageTimes('WHATSAPP'),
+    );
+    await load(EngagementEventType.WIDGET_CHAT_MESSAGE, () =>
+      chatMessageTimes('WEBSITE'),
+    );
+    await load(EngagementEventType.EMAIL_REPLY, () =>
+      this.prisma.emailMessage
+        .findMany({
+          where: { leadId, direction: 'INBOUND' },
+          select: { createdAt: true },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_EVENTS_PER_TYPE,
+        })
+        .then((emails) => emails.map((e) => e.createdAt)),
+    );
+    await load(EngagementEventType.EMAIL_OPENED, () =>
+      this.prisma.emailMessage
+        .findMany({
+          where: { leadId, direction: 'OUTBOUND', openedAt: { not: null } },
+          select: { openedAt: true },
+          orderBy: { openedAt: 'desc' },
+          take: MAX_EVENTS_PER_TYPE,
+        })
+        .then((emails) => emails.map((e) => e.openedAt)),
+    );
+    await load(EngagementEventType.INBOUND_COMMUNICATION, () =>
+      this.prisma.communication
+        .findMany({
+          where: { leadId, direction: 'INBOUND' },
+          select: { sentAt: true },
+          orderBy: { sentAt: 'desc' },
+          take: MAX_EVENTS_PER_TYPE,
+        })
+        .then((communications) => communications.map((c) => c.sentAt)),
+    );
+
+    return events;
+  }
+
+  private validateRule(rule: {
+    ruleType: string;
+    field?: string | null;
+    operator?: string | null;
+    values?: Prisma.JsonValue | Array<string | number | boolean>;
+    minValue?: number | null;
+    maxValue?: number | null;
+    eventType?: string | null;
+  }) {
+    const values = Array.isArray(rule.values) ? rule.values : [];
+    const hasBound =
+      (rule.minValue !== null && rule.minValue !== undefined) ||
+      (rule.maxValue !== null && rule.maxValue !== undefined);
+
+    switch (rule.ruleType as ScoringRuleType) {
+      case ScoringRuleType.FIELD_PRESENT:
+        if (!rule.field) {
+          throw new BadRequestException('FIELD_PRESENT rules need a field');
+        }
+        break;
+      case ScoringRuleType.FIELD_VALUE:
+        if (!rule.field || !rule.operator || values.length === 0) {
+          throw new BadRequestException(
+            'FIELD_VALUE rules need a field, an operator and at least one value',
+          );
+        }
+        break;
+      case ScoringRuleType.INSURANCE_TYPE:
+        this.assertValuesIn(
+          values,
+          Object.values(InsuranceType),
+          rule.ruleType,
+        );
+        break;
+      case ScoringRuleType.SOURCE:
+        this.assertValuesIn(values, Object.values(LeadSource), rule.ruleType);
+        break;
+      case ScoringRuleType.BUDGET_BAND:
+      case ScoringRuleType.DAYS_SINCE_CONTACT:
+        if (!hasBound) {
+          throw new BadRequestException(
+            `${rule.ruleType} rules need a minValue and/or maxValue`,
+          );
+        }
+        if (
+          rule.minValue != null &&
+          rule.maxValue != null &&
+          rule.minValue >= rule.maxValue
+        ) {
+          throw new BadRequestException('minValue must be below maxValue');
+        }
+        break;
+      case ScoringRuleType.ENGAGEMENT_EVENT:
+        if (!rule.eventType) {
+          throw new BadRequestException(
+            'ENGAGEMENT_EVENT rules need an eventType',
+          );
+        }
+        break;
+    }
+  }
+
+  private assertValuesIn(
+    values: Prisma.JsonValue[],
+    allowed: string[],
+    ruleType: string,
+  ) {
+    if (values.length === 0) {
+      throw new BadRequestException(
+        `${ruleType} rules need at least one value`,
+      );
+    }
+    const invalid = values.filter(
+      (value) => !allowed.includes(value as string),
+    );
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Invalid values for ${ruleType}: ${invalid.map((value) => this.toText(value)).join(', ')}`,
+      );
+    }
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
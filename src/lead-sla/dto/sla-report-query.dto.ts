@@ -0,0 +1,34 @@
+import { IsDate, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { SlaBreachType } from '../enums/lead-sla.enums';
+
+export class SlaReportQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-10-01',
+    description: 'Only breaches that fell due on or after this date',
+  })
+  @IsOptional()
+  @Transform(({ value }) => new Date(value))
+  @IsDate()
+  startDate?: Date;
+
+  @ApiPropertyOptional({
+    example: '2026-10-31',
+    description: 'Only breaches that fell due before this date',
+  })
+  @IsOptional()
+  @Transform(({ value }) => new Date(value))
+  @IsDate()
+  endDate?: Date;
+
+  @ApiPropertyOptional({ enum: SlaBreachType })
+  @IsOptional()
+  @IsEnum(SlaBreachType)
+  type?: SlaBreachType;
+
+  @ApiPropertyOptional({ description: 'Only breaches of this agent' })
+  @IsOptional()
+  @IsUUID()
+  assignedUserId?: string;
+}
@@ -0,0 +1,74 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsObject,
+  IsOptional,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateSlaPolicyDto {
+  @ApiPropertyOptional({
+    example: 4,
+    description:
+      'Leads at or above this urgency (1-5) use the urgent first contact SLA',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  urgentMinUrgency?: number;
+
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Minutes allowed before first contact with an urgent lead',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10080)
+  urgentFirstContactMinutes?: number;
+
+  @ApiPropertyOptional({
+    example: 24,
+    description: 'Hours allowed before first contact with any other lead',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(720)
+  firstContactHours?: number;
+
+  @ApiPropertyOptional({
+    example: 7,
+    nullable: true,
+    description:
+      'Longest a lead may sit in one stage, in days. null disables the stage age SLA',
+  })
+  @IsOptional()
+  @ValidateIf((dto) => dto.maxStageAgeDays !== null)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  maxStageAgeDays?: number | null;
+
+  @ApiPropertyOptional({
+    example: { NEW: 2, PROPOSAL_SENT: 14 },
+    nullable: true,
+    description: 'Per-status day limits overriding maxStageAgeDays',
+  })
+  @IsOptional()
+  @ValidateIf((dto) => dto.stageAgeLimits !== null)
+  @IsObject()
+  stageAgeLimits?: Record<string, number> | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Evaluate the SLAs and send breach alerts',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
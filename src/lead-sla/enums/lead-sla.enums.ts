@@ -0,0 +1,8 @@
+/**
+ * Lead SLA Enums - Types for lead response-time and stage-age SLAs
+ */
+
+export enum SlaBreachType {
+  FIRST_CONTACT = 'FIRST_CONTACT', // Lead not contacted within the first contact SLA
+  STAGE_AGE = 'STAGE_AGE', // Lead sat in one stage longer than allowed
+}
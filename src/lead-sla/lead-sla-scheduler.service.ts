@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../common/services/prisma.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { LeadSlaService } from './lead-sla.service';
+
+@Injectable()
+export class LeadSlaSchedulerService {
+  private readonly logger = new Logger(LeadSlaSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadSlaService: LeadSlaService,
+  ) {}
+
+  // First contact SLAs for urgent leads run in minutes, so check often
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async evaluateSlas() {
+    const tenants = await this.prisma.tenant.findMany({
+      where: { status: { in: ['active', 'trial'] } },
+      select: { id: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        await runWithTenantContext(
+          { tenantId: tenant.id, isSuperAdmin: false },
+          () => this.leadSlaService.evaluateTenant(),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to check lead SLAs for tenant ${tenant.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
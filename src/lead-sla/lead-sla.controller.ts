@@ -0,0 +1,62 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LeadSlaService } from './lead-sla.service';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+import { SlaReportQueryDto } from './dto/sla-report-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Lead SLAs')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lead-sla')
+export class LeadSlaController {
+  constructor(private readonly leadSlaService: LeadSlaService) {}
+
+  @Get('policy')
+  @ApiOperation({ summary: 'Get the lead SLA policy' })
+  @ApiResponse({ status: 200, description: 'SLA policy retrieved' })
+  getPolicy() {
+    return this.leadSlaService.getPolicy();
+  }
+
+  @Put('policy')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update the lead SLA policy' })
+  @ApiResponse({ status: 200, description: 'SLA policy updated' })
+  @ApiResponse({ status: 400, description: 'Policy is invalid' })
+  updatePolicy(@Body() updatePolicyDto: UpdateSlaPolicyDto) {
+    return this.leadSlaService.updatePolicy(updatePolicyDto);
+  }
+
+  @Post('evaluate')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Check open leads against the SLA policy now' })
+  @ApiResponse({ status: 201, description: 'Leads checked' })
+  evaluate() {
+    return this.leadSlaService.evaluateTenant();
+  }
+
+  @Get('report')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get the SLA breach report' })
+  @ApiResponse({ status: 200, description: 'SLA breach report retrieved' })
+  getReport(@Query() query: SlaReportQueryDto) {
+    return this.leadSlaService.getReport(query);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LeadSlaService } from './lead-sla.service';
+import { LeadSlaSchedulerService } from './lead-sla-scheduler.service';
+import { LeadSlaController } from './lead-sla.controller';
+import { PrismaService } from '../common/services/prisma.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [NotificationsModule],
+  controllers: [LeadSlaController],
+  providers: [LeadSlaService, LeadSlaSchedulerService, PrismaService],
+  exports: [LeadSlaService],
+})
+export class LeadSlaModule {}
@@ -0,0 +1,285 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadSlaService } from './lead-sla.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { SlaBreachType } from './enums/lead-sla.enums';
+
+const NOW = new Date('2026-10-20T12:00:00Z');
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const ago = (ms: number) => new Date(NOW.getTime() - ms);
+
+const lead = (overrides: Record<string, unknown> = {}) => ({
+  id: 'lead-1',
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  status: 'NEW',
+  urgency: 1,
+  createdAt: ago(HOUR_MS),
+  assignedUserId: 'agent-1',
+  firstContactedAt: null,
+  ...overrides,
+});
+
+describe('LeadSlaService', () => {
+  let service: LeadSlaService;
+  const prisma = {
+    addTenantFilter: jest.fn(),
+    leadSlaPolicy: { findFirst: jest.fn() },
+    lead: { findMany: jest.fn(), update: jest.fn() },
+    leadSlaBreach: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    leadStageTransition: { groupBy: jest.fn() },
+    communication: { groupBy: jest.fn() },
+    chatMessage: { groupBy: jest.fn() },
+    emailMessage: { groupBy: jest.fn() },
+    user: { findMany: jest.fn() },
+  };
+  const notificationsService = { create: jest.fn() };
+
+  const evaluate = (leads: ReturnType<typeof lead>[]) => {
+    prisma.lead.findMany.mockResolvedValueOnce(leads).mockResolvedValue([]);
+    return runWithTenantContext({ tenantId: 'tenant-1' }, () =>
+      service.evaluateTenant(),
+    );
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers().setSystemTime(NOW);
+
+    prisma.addTenantFilter.mockImplementation((where) => where);
+    prisma.leadSlaPolicy.findFirst.mockResolvedValue(null);
+    prisma.leadSlaBreach.findMany.mockResolvedValue([]);
+    prisma.leadSlaBreach.create.mockResolvedValue({ id: 'breach-1' });
+    prisma.leadSlaBreach.updateMany.mockResolvedValue({ count: 0 });
+    prisma.leadStageTransition.groupBy.mockResolvedValue([]);
+    prisma.communication.groupBy.mockResolvedValue([]);
+    prisma.chatMessage.groupBy.mockResolvedValue([]);
+    prisma.emailMessage.groupBy.mockResolvedValue([]);
+    prisma.user.findMany.mockResolvedValue([
+      { id: 'manager-1', role: 'MANAGER' },
+      { id: 'admin-1', role: 'ADMIN' },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadSlaService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = module.get(LeadSlaService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('gives urgent leads the shorter first contact window', async () => {
+    const result = await evaluate([
+      lead({ id: 'urgent', urgency: 4 }),
+      lead({ id: 'normal', urgency: 3 }),
+    ]);
+
+    expect(result).toMatchObject({ checked: 2, breached: 1 });
+    expect(prisma.leadSlaBreach.create).toHaveBeenCalledTimes(1);
+    expect(prisma.leadSlaBreach.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        leadId: 'urgent',
+        type: SlaBreachType.FIRST_CONTACT,
+        dueAt: ago(30 * MINUTE_MS),
+      }),
+    });
+    expect(notificationsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'agent-1',
+        type: 'SLA_BREACH',
+        message: 'Ada Lovelace has not been contacted within 30 minutes',
+      }),
+    );
+  });
+
+  it('breaches normal leads after the first contact hours', async () => {
+    const result = await evaluate([lead({ createdAt: ago(25 * HOUR_MS) })]);
+
+    expect(result.breached).toBe(1);
+    expect(prisma.leadSlaBreach.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ dueAt: ago(HOUR_MS) }),
+    });
+  });
+
+  it('records first contact and resolves the open breach', async () => {
+    const contactedAt = ago(10 * MINUTE_MS);
+    prisma.communication.groupBy.mockResolvedValue([
+      { leadId: 'lead-1', _min: { sentAt: contactedAt } },
+    ]);
+    prisma.leadSlaBreach.findMany.mockResolvedValue([
+      {
+        id: 'breach-1',
+        leadId: 'lead-1',
+        type: SlaBreachType.FIRST_CONTACT,
+        status: 'NEW',
+        breachCount: 1,
+        lastNotifiedAt: ago(20 * MINUTE_MS),
+        escalatedAt: null,
+      },
+    ]);
+
+    const result = await evaluate([lead({ createdAt: ago(2 * DAY_MS) })]);
+
+    expect(result).toMatchObject({ contacted: 1, resolved: 1, breached: 0 });
+    expect(prisma.communication.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ channel: { not: 'IN_APP' } }),
+      }),
+    );
+    expect(prisma.lead.update).toHaveBeenCalledWith({
+      where: { id: 'lead-1' },
+      data: { firstContactedAt: contactedAt },
+    });
+    expect(prisma.leadSlaBreach.update).toHaveBeenCalledWith({
+      where: { id: 'breach-1' },
+      data: { resolvedAt: contactedAt },
+    });
+  });
+
+  it('uses per-status stage age limits from the last stage move', async () => {
+    prisma.leadSlaPolicy.findFirst.mockResolvedValue({
+      urgentMinUrgency: 4,
+      urgentFirstContactMinutes: 30,
+      firstContactHours: 24,
+      maxStageAgeDays: 7,
+      stageAgeLimits: { CONTACTED: 2 },
+      isActive: true,
+    });
+    prisma.leadStageTransition.groupBy.mockResolvedValue([
+      { leadId: 'contacted', _max: { createdAt: ago(3 * DAY_MS) } },
+      { leadId: 'qualified', _max: { createdAt: ago(3 * DAY_MS) } },
+    ]);
+
+    const result = await evaluate([
+      lead({
+        id: 'contacted',
+        status: 'CONTACTED',
+        createdAt: ago(30 * DAY_MS),
+        firstContactedAt: ago(29 * DAY_MS),
+      }),
+      lead({
+        id: 'qualified',
+        status: 'QUALIFIED',
+        createdAt: ago(30 * DAY_MS),
+        firstContactedAt: ago(29 * DAY_MS),
+      }),
+    ]);
+
+    expect(result.breached).toBe(1);
+    expect(prisma.leadSlaBreach.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        leadId: 'contacted',
+        type: SlaBreachType.STAGE_AGE,
+        dueAt: ago(DAY_MS),
+      }),
+    });
+  });
+
+  it('resolves a stage age breach once the lead changes stage', async () => {
+    prisma.leadSlaBreach.findMany.mockResolvedValue([
+      {
+        id: 'breach-1',
+        leadId: 'lead-1',
+        type: SlaBreachType.STAGE_AGE,
+        status: 'NEW',
+        breachCount: 1,
+        lastNotifiedAt: ago(DAY_MS),
+        escalatedAt: null,
+      },
+    ]);
+    prisma.leadStageTransition.groupBy.mockResolvedValue([
+      { leadId: 'lead-1', _max: { createdAt: ago(HOUR_MS) } },
+    ]);
+
+    const result = await evaluate([
+      lead({
+        status: 'CONTACTED',
+        createdAt: ago(30 * DAY_MS),
+        firstContactedAt: ago(29 * DAY_MS),
+      }),
+    ]);
+
+    expect(result).toMatchObject({ resolved: 1, breached: 0 });
+    expect(prisma.leadSlaBreach.update).toHaveBeenCalledWith({
+      where: { id: 'breach-1' },
+      data: { resolvedAt: NOW },
+    });
+  });
+
+  it('escalates to managers after another window without action', async () => {
+    const breach = {
+      id: 'breach-1',
+      leadId: 'lead-1',
+      type: SlaBreachType.FIRST_CONTACT,
+      status: 'NEW',
+      breachCount: 1,
+      escalatedAt: null,
+    };
+    prisma.leadSlaBreach.findMany.mockResolvedValue([
+      { ...breach, lastNotifiedAt: ago(25 * HOUR_MS) },
+    ]);
+
+    const result = await evaluate([lead({ createdAt: ago(2 * DAY_MS) })]);
+
+    expect(result.escalated).toBe(1);
+    expect(prisma.leadSlaBreach.update).toHaveBeenCalledWith({
+      where: { id: 'breach-1' },
+      data: { breachCount: 2, lastNotifiedAt: NOW, escalatedAt: NOW },
+    });
+    expect(notificationsService.create).toHaveBeenCalledTimes(1);
+    expect(notificationsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'manager-1', type: 'SLA_ESCALATION' }),
+    );
+
+    // Still within the window since the alert
+    jest.clearAllMocks();
+    prisma.leadSlaBreach.findMany.mockResolvedValue([
+      { ...breach, lastNotifiedAt: ago(23 * HOUR_MS) },
+    ]);
+
+    await expect(
+      evaluate([lead({ createdAt: ago(2 * DAY_MS) })]),
+    ).resolves.toMatchObject({ escalated: 0 });
+    expect(prisma.leadSlaBreach.update).not.toHaveBeenCalled();
+  });
+
+  it('sends breaches on unassigned leads straight to managers', async () => {
+    await evaluate([lead({ assignedUserId: null, urgency: 5 })]);
+
+    expect(prisma.leadSlaBreach.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ escalatedAt: NOW }),
+    });
+    expect(notificationsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'manager-1', type: 'SLA_ESCALATION' }),
+    );
+  });
+
+  it('does nothing while the policy is inactive', async () => {
+    prisma.leadSlaPolicy.findFirst.mockResolvedValue({ isActive: false });
+
+    await expect(evaluate([lead()])).resolves.toEqual({
+      checked: 0,
+      contacted: 0,
+      breached: 0,
+      escalated: 0,
+      resolved: 0,
+    });
+    expect(prisma.lead.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,622 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  CommunicationChannel,
+  Lead,
+  LeadSlaBreach,
+  LeadSlaPolicy,
+  LeadStatus,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { NotificationsService } from '../notifications/notifications.service';
+import { UpdateSlaPolicyDto } from './dto/update-sla-policy.dto';
+import { SlaReportQueryDto } from './dto/sla-report-query.dto';
+import { SlaBreachType } from './enums/lead-sla.enums';
+
+export type SlaPolicySettings = Pick<
+  LeadSlaPolicy,
+  | 'urgentMinUrgency'
+  | 'urgentFirstContactMinutes'
+  | 'firstContactHours'
+  | 'maxStageAgeDays'
+  | 'stageAgeLimits'
+  | 'isActive'
+>;
+
+type SlaLead = Pick<
+  Lead,
+  | 'id'
+  | 'firstName'
+  | 'lastName'
+  | 'status'
+  | 'urgency'
+  | 'createdAt'
+  | 'assignedUserId'
+  | 'firstContactedAt'
+>;
+
+type SlaCheck = {
+  type: SlaBreachType;
+  dueAt: Date;
+  windowMs: number; // Length of the SLA, also the grace period before escalating
+  limit: string;
+};
+
+type PendingAlert = {
+  breachId: string;
+  lead: SlaLead;
+  check: SlaCheck;
+};
+
+export type SlaEvaluationResult = {
+  checked: number;
+  contacted: number;
+  breached: number;
+  escalated: number;
+  resolved: number;
+};
+
+const DEFAULT_POLICY: SlaPolicySettings = {
+  urgentMinUrgency: 4,
+  urgentFirstContactMinutes: 30,
+  firstContactHours: 24,
+  maxStageAgeDays: 7,
+  stageAgeLimits: null,
+  isActive: true,
+};
+
+const CLOSED_STATUSES: LeadStatus[] = [
+  LeadStatus.CLOSED_WON,
+  LeadStatus.CLOSED_LOST,
+];
+
+const SLA_LEAD_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  status: true,
+  urgency: true,
+  createdAt: true,
+  assignedUserId: true,
+  firstContactedAt: true,
+} satisfies Prisma.LeadSelect;
+
+const USER_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} satisfies Prisma.UserDefaultArgs;
+
+const EVALUATION_BATCH_SIZE = 200;
+const MAX_REPORT_OPEN_BREACHES = 100;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * LeadSlaService - Lead response-time and stage-age SLAs
+ *
+ * Key Features:
+ * - Tenant-defined first contact SLA, shorter for urgent leads
+ * - Maximum days in a stage, with per-status overrides
+ * - First contact is the earliest outbound communication, agent chat or
+ *   WhatsApp message or outbound email - not lastContactedAt, which stage
+ *   moves also stamp. AI assistant replies do not count
+ * - Breaches alert the assigned agent; a breach still open one SLA window
+ *   after the alert escalates to the tenant's managers
+ * - Breach report by type and agent
+ */
+@Injectable()
+export class LeadSlaService {
+  private readonly logger = new Logger(LeadSlaService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  /**
+   * The tenant's SLA policy, or the defaults when none has been saved
+   */
+  async getPolicy(): Promise<SlaPolicySettings> {
+    const policy = await this.prisma.leadSlaPolicy.findFirst({
+      where: this.prisma.addTenantFilter({}),
+    });
+
+    return policy ?? DEFAULT_POLICY;
+  }
+
+  async updatePolicy(updatePolicyDto: UpdateSlaPolicyDto) {
+    const tenantId = this.requireTenantId();
+    if (updatePolicyDto.stageAgeLimits) {
+      this.validateStageAgeLimits(updatePolicyDto.stageAgeLimits);
+    }
+
+    const data = {
+      ...updatePolicyDto,
+      stageAgeLimits:
+        updatePolicyDto.stageAgeLimits === null
+          ? Prisma.DbNull
+          : updatePolicyDto.stageAgeLimits,
+    };
+
+    return this.prisma.leadSlaPolicy.upsert({
+      where: { tenantId },
+      create: { ...DEFAULT_POLICY, ...data, tenantId },
+      update: data,
+    });
+  }
+
+  /**
+   * Check every open lead of the current tenant against the SLA policy,
+   * opening, escalating and resolving breaches
+   */
+  async evaluateTenant(): Promise<SlaEvaluationResult> {
+    const tenantId = this.requireTenantId();
+    const policy = await this.getPolicy();
+    const result: SlaEvaluationResult = {
+      checked: 0,
+      contacted: 0,
+      breached: 0,
+      escalated: 0,
+      resolved: 0,
+    };
+    if (!policy.isActive) return result;
+
+    const now = new Date();
+    const agentAlerts = new Map<string, PendingAlert[]>();
+    const managerAlerts: PendingAlert[] = [];
+
+    let cursor: string | undefined;
+    while (true) {
+      const leads = await this.prisma.lead.findMany({
+        where: { tenantId, status: { notIn: CLOSED_STATUSES } },
+        select: SLA_LEAD_SELECT,
+        orderBy: { id: 'asc' },
+        take: EVALUATION_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+      if (leads.length === 0) break;
+
+      const leadIds = leads.map((lead) => lead.id);
+      const [firstContacts, stageEntries, openBreaches] = await Promise.all([
+        this.findFirstContacts(
+          tenantId,
+          leads.filter((lead) => !lead.firstContactedAt).map((lead) => lead.id),
+        ),
+        this.findStageEntries(tenantId, leadIds),
+        this.prisma.leadSlaBreach.findMany({
+          where: { tenantId, leadId: { in: leadIds }, resolvedAt: null },
+        }),
+      ]);
+
+      const openByKey = new Map<string, LeadSlaBreach>(
+        openBreaches.map((breach) => [
+          `${breach.leadId}:${breach.type}`,
+          breach,
+        ]),
+      );
+
+      for (const lead of leads) {
+        const contactedAt = firstContacts.get(lead.id);
+        if (contactedAt) {
+          await this.prisma.lead.update({
+            where: { id: lead.id },
+            data: { firstContactedAt: contactedAt },
+          });
+          lead.firstContactedAt = contactedAt;
+          result.contacted++;
+        }
+
+        const checks: Record<SlaBreachType, SlaCheck | null> = {
+          [SlaBreachType.FIRST_CONTACT]: this.firstContactCheck(lead, policy),
+          [SlaBreachType.STAGE_AGE]: this.stageAgeCheck(
+            lead,
+            stageEntries.get(lead.id) ?? lead.createdAt,
+            policy,
+          ),
+        };
+
+        for (const type of Object.values(SlaBreachType)) {
+          const check = checks[type];
+          let breach = openByKey.get(`${lead.id}:${type}`);
+
+          // Contacted, moved to another stage or given a longer SLA since
+          if (
+            breach &&
+            (!check ||
+              now < check.dueAt ||
+              (type === SlaBreachType.STAGE_AGE &&
+                breach.status !== lead.status))
+          ) {
+            await this.resolveBreach(
+              breach.id,
+              type === SlaBreachType.FIRST_CONTACT && lead.firstContactedAt
+                ? lead.firstContactedAt
+                : now,
+            );
+            result.resolved++;
+            breach = undefined;
+          }
+
+          if (!check || now < check.dueAt) continue;
+
+          if (!breach) {
+            const created = await this.prisma.leadSlaBreach.create({
+              data: {
+                type,
+                status: lead.status,
+                dueAt: check.dueAt,
+                lastNotifiedAt: now,
+                // Nobody to alert on an unassigned lead, so go straight to managers
+                escalatedAt: lead.assignedUserId ? null : now,
+                leadId: lead.id,
+                assignedUserId: lead.assignedUserId,
+                tenantId,
+              },
+            });
+            const alert = { breachId: created.id, lead, check };
+            if (lead.assignedUserId) {
+              const alerts = agentAlerts.get(lead.assignedUserId) ?? [];
+              alerts.push(alert);
+              agentAlerts.set(lead.assignedUserId, alerts);
+            } else {
+              managerAlerts.push(alert);
+            }
+            result.breached++;
+          } else if (
+            breach.breachCount < 2 &&
+            now.getTime() >= breach.lastNotifiedAt.getTime() + check.windowMs
+          ) {
+            // Second breach: the alert went unanswered for another SLA window
+            await this.prisma.leadSlaBreach.update({
+              where: { id: breach.id },
+              data: {
+                breachCount: 2,
+                lastNotifiedAt: now,
+                escalatedAt: breach.escalatedAt ?? now,
+              },
+            });
+            if (!breach.escalatedAt) {
+              managerAlerts.push({ breachId: breach.id, lead, check });
+              result.escalated++;
+            }
+          }
+        }
+      }
+
+      result.checked += leads.length;
+      cursor = leads[leads.length - 1].id;
+    }
+
+    // Leads closed since their breach opened
+    const closed = await this.prisma.leadSlaBreach.updateMany({
+      where: {
+        tenantId,
+        resolvedAt: null,
+        lead: { status: { in: CLOSED_STATUSES } },
+      },
+      data: { resolvedAt: now },
+    });
+    result.resolved += closed.count;
+
+    for (const [userId, alerts] of agentAlerts) {
+      await this.notify(userId, 'SLA_BREACH', alerts);
+    }
+    if (managerAlerts.length > 0) {
+      for (const manager of await this.findManagers(tenantId)) {
+        await this.notify(manager.id, 'SLA_ESCALATION', managerAlerts);
+      }
+    }
+
+    this.logger.log(
+      `SLA check for tenant ${tenantId}: ${result.breached} new breaches, ${result.escalated} escalated, ${result.resolved} resolved`,
+    );
+    return result;
+  }
+
+  /**
+   * Breach counts by type and agent, first contact times and the
+   * breaches still open
+   */
+  async getReport(query: SlaReportQueryDto) {
+    const period: Prisma.DateTimeFilter = {};
+    if (query.startDate) period.gte = query.startDate;
+    if (query.endDate) period.lt = query.endDate;
+    const hasPeriod = query.startDate || query.endDate;
+
+    const breaches = await this.prisma.leadSlaBreach.findMany({
+      where: this.prisma.addTenantFilter({
+        ...(query.type && { type: query.type }),
+        ...(query.assignedUserId && { assignedUserId: query.assignedUserId }),
+        ...(hasPeriod && { dueAt: period }),
+      }),
+      include: {
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            status: true,
+            urgency: true,
+          },
+        },
+        assignedUser: USER_SELECT,
+      },
+      orderBy: { dueAt: 'desc' },
+    });
+
+    const byType = Object.fromEntries(
+      Object.values(SlaBreachType).map((type) => [type, 0]),
+    ) as Record<SlaBreachType, number>;
+    const byAgent = new Map<
+      string,
+      {
+        user: (typeof breaches)[number]['assignedUser'];
+        total: number;
+        open: number;
+        escalated: number;
+      }
+    >();
+
+    for (const breach of breaches) {
+      byType[breach.type as SlaBreachType]++;
+
+      const key = breach.assignedUserId ?? 'unassigned';
+      const agent = byAgent.get(key) ?? {
+        user: breach.assignedUser,
+        total: 0,
+        open: 0,
+        escalated: 0,
+      };
+      agent.total++;
+      if (!breach.resolvedAt) agent.open++;
+      if (breach.escalatedAt) agent.escalated++;
+      byAgent.set(key, agent);
+    }
+
+    const openBreaches = breaches.filter((breach) => !breach.resolvedAt);
+
+    return {
+      summary: {
+        total: breaches.length,
+        open: openBreaches.length,
+        escalated: breaches.filter((breach) => breach.escalatedAt).length,
+        byType,
+      },
+      byAgent: [...byAgent.values()].sort((a, b) => b.total - a.total),
+      firstContact: await this.getFirstContactStats(query, period),
+      openBreaches: openBreaches.slice(0, MAX_REPORT_OPEN_BREACHES),
+    };
+  }
+
+  private firstContactCheck(
+    lead: SlaLead,
+    policy: SlaPolicySettings,
+  ): SlaCheck | null {
+    if (lead.firstContactedAt) return null;
+
+    const isUrgent = lead.urgency >= policy.urgentMinUrgency;
+    const windowMs = isUrgent
+      ? policy.urgentFirstContactMinutes * MINUTE_MS
+      : policy.firstContactHours * HOUR_MS;
+
+    return {
+      type: SlaBreachType.FIRST_CONTACT,
+      dueAt: new Date(lead.createdAt.getTime() + windowMs),
+      windowMs,
+      limit: isUrgent
+        ? `${policy.urgentFirstContactMinutes} minutes`
+        : `${policy.firstContactHours} hours`,
+    };
+  }
+
+  private stageAgeCheck(
+    lead: SlaLead,
+    enteredAt: Date,
+    policy: SlaPolicySettings,
+  ): SlaCheck | null {
+    const limits = (policy.stageAgeLimits ?? {}) as Record<string, number>;
+    const days = limits[lead.status] ?? policy.maxStageAgeDays;
+    if (!days) return null;
+
+    const windowMs = days * DAY_MS;
+    return {
+      type: SlaBreachType.STAGE_AGE,
+      dueAt: new Date(enteredAt.getTime() + windowMs),
+      windowMs,
+      limit: `${days} days`,
+    };
+  }
+
+  /**
+   * Earliest real outbound contact per lead
+   */
+  private async findFirstContacts(tenantId: string, leadIds: string[]) {
+    const firstContacts = new Map<string, Date>();
+    if (leadIds.length === 0) return firstContacts;
+
+    const [communications, chatMessages, emailMessages] = await Promise.all([
+      this.prisma.communication.groupBy({
+        by: ['leadId'],
+        where: {
+          tenantId,
+          leadId: { in: leadIds },
+          direction: 'OUTBOUND',
+          // In-app entries are notes, such as stage change comments
+          channel: { not: CommunicationChannel.IN_APP },
+        },
+        _min: { sentAt: true },
+      }),
+      this.prisma.chatMessage.groupBy({
+        by: ['leadId'],
+        where: { tenantId, leadId: { in: leadIds }, sender: 'HUMAN_AGENT' },
+        _min: { createdAt: true },
+      }),
+      this.prisma.emailMessage.groupBy({
+        by: ['leadId'],
+        where: { tenantId, leadId: { in: leadIds }, direction: 'OUTBOUND' },
+        _min: { createdAt: true },
+      }),
+    ]);
+
+    const record = (leadId: string | null, at: Date | null) => {
+      if (!leadId || !at) return;
+      const current = firstContacts.get(leadId);
+      if (!current || at < current) firstContacts.set(leadId, at);
+    };
+
+    communications.forEach((row) => record(row.leadId, row._min.sentAt));
+    chatMessages.forEach((row) => record(row.leadId, row._min.createdAt));
+    emailMessages.forEach((row) => record(row.leadId, row._min.createdAt));
+
+    return firstContacts;
+  }
+
+  /**
+   * When each lead entered its current stage, from the stage history
+   */
+  private async findStageEntries(tenantId: string, leadIds: string[]) {
+    const transitions = await this.prisma.leadStageTransition.groupBy({
+      by: ['leadId'],
+      where: { tenantId, leadId: { in: leadIds } },
+      _max: { createdAt: true },
+    });
+
+    return new Map(
+      transitions.map((row) => [row.leadId, row._max.createdAt ?? undefined]),
+    );
+  }
+
+  private async getFirstContactStats(
+    query: SlaReportQueryDto,
+    createdAt: Prisma.DateTimeFilter,
+  ) {
+    const leads = await this.prisma.lead.findMany({
+      where: this.prisma.addTenantFilter({
+        firstContactedAt: { not: null },
+        ...(query.assignedUserId && { assignedUserId: query.assignedUserId }),
+        ...((query.startDate || query.endDate) && { createdAt }),
+      }),
+      select: { createdAt: true, firstContactedAt: true },
+    });
+
+    const minutes = leads
+      .map(
+        (lead) =>
+          (lead.firstContactedAt.getTime() - lead.createdAt.getTime()) /
+          MINUTE_MS,
+      )
+      .sort((a, b) => a - b);
+
+    return {
+      contactedLeads: minutes.length,
+      averageMinutes: minutes.length
+        ? Math.round(
+            minutes.reduce((sum, value) => sum + value, 0) / minutes.length,
+          )
+        : null,
+      medianMinutes: minutes.length
+        ? Math.round(minutes[Math.floor(minutes.length / 2)])
+        : null,
+    };
+  }
+
+  private async resolveBreach(id: string, resolvedAt: Date) {
+    await this.prisma.leadSlaBreach.update({
+      where: { id },
+      data: { resolvedAt },
+    });
+  }
+
+  /**
+   * Managers receive escalations, or admins when the tenant has no managers
+   */
+  private async findManagers(tenantId: string) {
+    const users = await this.prisma.user.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        role: { in: [UserRole.MANAGER, UserRole.ADMIN] },
+      },
+      select: { id: true, role: true },
+    });
+
+    const managers = users.filter((user) => user.role === UserRole.MANAGER);
+    return managers.length > 0 ? managers : users;
+  }
+
+  /**
+   * One notification per recipient per run rather than one per lead
+   */
+  private async notify(
+    userId: string,
+    type: 'SLA_BREACH' | 'SLA_ESCALATION',
+    alerts: PendingAlert[],
+  ) {
+    const isEscalation = type === 'SLA_ESCALATION';
+    const title = isEscalation ? 'Lead SLA Escalation' : 'Lead SLA Breached';
+
+    let message: string;
+    if (alerts.length === 1) {
+      const { lead, check } = alerts[0];
+      const name = `${lead.firstName} ${lead.lastName}`;
+      message =
+        check.type === SlaBreachType.FIRST_CONTACT
+          ? `${name} has not been contacted within ${check.limit}`
+          : `${name} has been in ${lead.status} for more than ${check.limit}`;
+      if (isEscalation && lead.assignedUserId) {
+        message += ' and the assigned agent has not acted on the alert';
+      }
+    } else {
+      message = isEscalation
+        ? `${alerts.length} leads are still breaching their SLAs`
+        : `${alerts.length} of your leads have breached their SLAs`;
+    }
+
+    await this.notificationsService.create({
+      userId,
+      type,
+      title,
+      message,
+      metadata: {
+        breachIds: alerts.map((alert) => alert.breachId),
+        leadIds: alerts.map((alert) => alert.lead.id),
+      },
+    });
+  }
+
+  private validateStageAgeLimits(limits: Record<string, unknown>) {
+    const errors: string[] = [];
+    const openStatuses = Object.values(LeadStatus).filter(
+      (status) => !CLOSED_STATUSES.includes(status),
+    );
+
+    for (const [status, days] of Object.entries(limits)) {
+      if (!openStatuses.includes(status as LeadStatus)) {
+        errors.push(`stageAgeLimits.${status} is not an open lead status`);
+      } else if (
+        typeof days !== 'number' ||
+        !Number.isInteger(days) ||
+        days < 1 ||
+        days > 365
+      ) {
+        errors.push(
+          `stageAgeLimits.${status} must be a whole number of days between 1 and 365`,
+        );
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsObject,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadViewVisibility } from '../enums/lead-view.enums';
+import type { FilterExpression } from '../lead-filter.service';
+
+export class CreateLeadViewDto {
+  @ApiProperty({
+    example: 'Hot chat leads going cold',
+    description: 'View name',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'High scoring WhatsApp and chatbot leads nobody has followed up',
+    description: 'View description',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: LeadViewVisibility,
+    example: LeadViewVisibility.SHARED,
+    default: LeadViewVisibility.PRIVATE,
+  })
+  @IsOptional()
+  @IsEnum(LeadViewVisibility)
+  visibility?: LeadViewVisibility;
+
+  @ApiProperty({
+    example: {
+      and: [
+        { field: 'score', operator: 'GREATER_THAN', value: 60 },
+        {
+          or: [
+            { field: 'source', operator: 'EQUALS', value: 'WHATSAPP' },
+            { field: 'source', operator: 'EQUALS', value: 'CHATBOT' },
+          ],
+        },
+        { field: 'lastContactedAt', operator: 'OLDER_THAN_DAYS', value: 3 },
+        { field: 'hasOpenTask', operator: 'EQUALS', value: false },
+      ],
+    },
+    description:
+      'Filter expression: a {field, operator, value} condition or a nested {and: [...]} / {or: [...]} group',
+  })
+  @IsObject()
+  filter: FilterExpression;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Show the view in the lead list quick access bar',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isPinned?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateLeadViewDto } from './create-lead-view.dto';
+
+export class UpdateLeadViewDto extends PartialType(CreateLeadViewDto) {}
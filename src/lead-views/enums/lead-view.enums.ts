@@ -0,0 +1,24 @@
+/**
+ * Lead View Enums - Saved view sharing and filter expression operators
+ */
+
+export enum LeadViewVisibility {
+  PRIVATE = 'PRIVATE', // Only the creator sees the view
+  SHARED = 'SHARED', // Everyone in the tenant sees the view
+}
+
+export enum FilterOperator {
+  EQUALS = 'EQUALS',
+  NOT_EQUALS = 'NOT_EQUALS', // Also matches empty values
+  GREATER_THAN = 'GREATER_THAN',
+  GREATER_THAN_OR_EQUAL = 'GREATER_THAN_OR_EQUAL',
+  LESS_THAN = 'LESS_THAN',
+  LESS_THAN_OR_EQUAL = 'LESS_THAN_OR_EQUAL',
+  IN = 'IN',
+  NOT_IN = 'NOT_IN',
+  CONTAINS = 'CONTAINS', // Text contains, or multi-select includes
+  IS_EMPTY = 'IS_EMPTY',
+  IS_NOT_EMPTY = 'IS_NOT_EMPTY',
+  OLDER_THAN_DAYS = 'OLDER_THAN_DAYS', // Date more than N days ago, or never set
+  WITHIN_LAST_DAYS = 'WITHIN_LAST_DAYS', // Date within the last N days
+}
@@ -0,0 +1,188 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadFilterService } from './lead-filter.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { FilterOperator } from './enums/lead-view.enums';
+
+describe('LeadFilterService', () => {
+  let service: LeadFilterService;
+  const customFieldsService = {
+    findAll: jest.fn(),
+    buildFilter: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    customFieldsService.findAll.mockResolvedValue([
+      { key: 'smoker', fieldType: 'BOOLEAN' },
+      { key: 'hobbies', fieldType: 'MULTI_SELECT' },
+    ]);
+    customFieldsService.buildFilter.mockImplementation((criteria) => [
+      { customFields: criteria },
+    ]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadFilterService,
+        { provide: CustomFieldsService, useValue: customFieldsService },
+      ],
+    }).compile();
+
+    service = module.get(LeadFilterService);
+  });
+
+  it('compiles nested and/or groups', async () => {
+    const where = await service.compile({
+      and: [
+        { field: 'score', operator: FilterOperator.GREATER_THAN, value: 60 },
+        {
+          or: [
+            {
+              field: 'source',
+              operator: FilterOperator.EQUALS,
+              value: 'WHATSAPP',
+            },
+            {
+              field: 'source',
+              operator: FilterOperator.EQUALS,
+              value: 'CHATBOT',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(where).toEqual({
+      AND: [
+        { score: { gt: 60 } },
+        { OR: [{ source: 'WHATSAPP' }, { source: 'CHATBOT' }] },
+      ],
+    });
+  });
+
+  it('includes empty values in negations of nullable fields', async () => {
+    await expect(
+      service.compile({
+        field: 'city',
+        operator: FilterOperator.NOT_EQUALS,
+        value: 'Austin',
+      }),
+    ).resolves.toEqual({ OR: [{ city: { not: 'Austin' } }, { city: null }] });
+
+    await expect(
+      service.compile({
+        field: 'status',
+        operator: FilterOperator.NOT_IN,
+        value: ['NEW'],
+      }),
+    ).resolves.toEqual({ status: { notIn: ['NEW'] } });
+  });
+
+  it('treats null and blank text as empty', async () => {
+    await expect(
+      service.compile({ field: 'email', operator: FilterOperator.IS_EMPTY }),
+    ).resolves.toEqual({ OR: [{ email: null }, { email: '' }] });
+
+    // A required number is never empty
+    await expect(
+      service.compile({ field: 'score', operator: FilterOperator.IS_EMPTY }),
+    ).resolves.toEqual({ id: { in: [] } });
+  });
+
+  it('compiles relative dates and derived fields', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-20T00:00:00Z'));
+    try {
+      await expect(
+        service.compile({
+          field: 'lastContactedAt',
+          operator: FilterOperator.OLDER_THAN_DAYS,
+          value: 7,
+        }),
+      ).resolves.toEqual({
+        OR: [
+          { lastContactedAt: { lt: new Date('2026-10-13T00:00:00Z') } },
+          { lastContactedAt: null },
+        ],
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+
+    await expect(
+      service.compile({
+        field: 'hasOpenTask',
+        operator: FilterOperator.EQUALS,
+        value: false,
+      }),
+    ).resolves.toEqual({
+      tasks: { none: { status: { in: ['PENDING', 'IN_PROGRESS'] } } },
+    });
+  });
+
+  it('compiles custom field conditions through the custom fields filter', async () => {
+    const where = await service.compile({
+      field: 'custom.hobbies',
+      operator: FilterOperator.CONTAINS,
+      value: 'golf',
+    });
+
+    expect(customFieldsService.buildFilter).toHaveBeenCalledWith({
+      hobbies: { has: 'golf' },
+    });
+    expect(where).toEqual({
+      AND: [{ customFields: { hobbies: { has: 'golf' } } }],
+    });
+  });
+
+  it.each([
+    [
+      { field: 'nope', operator: FilterOperator.EQUALS, value: 1 },
+      'unknown field',
+    ],
+    [
+      { field: 'status', operator: FilterOperator.CONTAINS, value: 'N' },
+      'cannot be used',
+    ],
+    [
+      { field: 'status', operator: FilterOperator.EQUALS, value: 'LOST' },
+      'must be one of',
+    ],
+    [
+      { field: 'score', operator: FilterOperator.EQUALS, value: '60' },
+      'must be a number',
+    ],
+    [
+      { field: 'custom.smoker', operator: FilterOperator.CONTAINS, value: 'y' },
+      'cannot be used',
+    ],
+    [{ and: [] }, 'non-empty list'],
+  ])('rejects invalid expression %j', async (expression, message) => {
+    await expect(service.compile(expression)).rejects.toThrow(message);
+  });
+
+  it('names the path of the offending node', async () => {
+    await expect(
+      service.compile({
+        or: [
+          { field: 'score', operator: FilterOperator.EQUALS, value: 1 },
+          { field: 'score', operator: FilterOperator.IN, value: [] },
+        ],
+      }),
+    ).rejects.toThrow(
+      new BadRequestException(
+        'Invalid filter at filter.or[1]: value must be a non-empty list',
+      ),
+    );
+  });
+
+  it('limits nesting depth', async () => {
+    let expression: any = {
+      field: 'score',
+      operator: FilterOperator.EQUALS,
+      value: 1,
+    };
+    for (let depth = 0; depth < 7; depth++) expression = { and: [expression] };
+
+    await expect(service.compile(expression)).rejects.toThrow('nested at most');
+  });
+});
@@ -0,0 +1,418 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  CustomFieldDefinition,
+  InsuranceType,
+  LeadSource,
+  LeadStatus,
+  Prisma,
+  TaskStatus,
+} from '@prisma/client';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import {
+  CustomFieldEntity,
+  CustomFieldType,
+} from '../custom-fields/enums/custom-field.enums';
+import { FilterOperator } from './enums/lead-view.enums';
+
+/**
+ * A filter expression is a condition or an and/or group of expressions, e.g.
+ * {"and":[{"field":"score","operator":"GREATER_THAN","value":60},
+ *         {"or":[{"field":"source","operator":"EQUALS","value":"WHATSAPP"},
+ *                {"field":"source","operator":"EQUALS","value":"CHATBOT"}]}]}
+ */
+export interface FilterCondition {
+  field: string;
+  operator: FilterOperator;
+  value?: unknown;
+}
+
+export type FilterExpression =
+  | FilterCondition
+  | { and: FilterExpression[] }
+  | { or: FilterExpression[] };
+
+type FieldType = 'string' | 'number' | 'date' | 'enum' | 'boolean';
+
+interface FilterField {
+  type: FieldType;
+  nullable?: boolean;
+  values?: string[];
+}
+
+/**
+ * Lead fields usable in filter expressions. hasOpenTask is derived from the
+ * lead's tasks; custom fields are referenced as custom.<key>.
+ */
+const FILTER_FIELDS: Record<string, FilterField> = {
+  status: { type: 'enum', values: Object.values(LeadStatus) },
+  source: { type: 'enum', values: Object.values(LeadSource) },
+  insuranceType: { type: 'enum', values: Object.values(InsuranceType) },
+  urgency: { type: 'number' },
+  score: { type: 'number' },
+  manualScore: { type: 'number', nullable: true },
+  budget: { type: 'number', nullable: true },
+  firstName: { type: 'string' },
+  lastName: { type: 'string' },
+  email: { type: 'string', nullable: true },
+  phone: { type: 'string', nullable: true },
+  city: { type: 'string', nullable: true },
+  state: { type: 'string', nullable: true },
+  zipCode: { type: 'string', nullable: true },
+  country: { type: 'string', nullable: true },
+  assignedUserId: { type: 'string', nullable: true },
+  pipelineId: { type: 'string', nullable: true },
+  pipelineStageId: { type: 'string', nullable: true },
+  createdAt: { type: 'date' },
+  updatedAt: { type: 'date' },
+  lastContactedAt: { type: 'date', nullable: true },
+  expectedCloseDate: { type: 'date', nullable: true },
+  hasOpenTask: { type: 'boolean' },
+};
+
+const OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+  string: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.IN,
+    FilterOperator.NOT_IN,
+    FilterOperator.CONTAINS,
+    FilterOperator.IS_EMPTY,
+    FilterOperator.IS_NOT_EMPTY,
+  ],
+  enum: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.IN,
+    FilterOperator.NOT_IN,
+  ],
+  number: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.GREATER_THAN,
+    FilterOperator.GREATER_THAN_OR_EQUAL,
+    FilterOperator.LESS_THAN,
+    FilterOperator.LESS_THAN_OR_EQUAL,
+    FilterOperator.IN,
+    FilterOperator.NOT_IN,
+    FilterOperator.IS_EMPTY,
+    FilterOperator.IS_NOT_EMPTY,
+  ],
+  date: [
+    FilterOperator.GREATER_THAN,
+    FilterOperator.GREATER_THAN_OR_EQUAL,
+    FilterOperator.LESS_THAN,
+    FilterOperator.LESS_THAN_OR_EQUAL,
+    FilterOperator.IS_EMPTY,
+    FilterOperator.IS_NOT_EMPTY,
+    FilterOperator.OLDER_THAN_DAYS,
+    FilterOperator.WITHIN_LAST_DAYS,
+  ],
+  boolean: [FilterOperator.EQUALS],
+};
+
+const CUSTOM_OPERATORS_BY_TYPE: Record<CustomFieldType, FilterOperator[]> = {
+  [CustomFieldType.TEXT]: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.IN,
+    FilterOperator.CONTAINS,
+  ],
+  [CustomFieldType.NUMBER]: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.GREATER_THAN,
+    FilterOperator.GREATER_THAN_OR_EQUAL,
+    FilterOperator.LESS_THAN,
+    FilterOperator.LESS_THAN_OR_EQUAL,
+    FilterOperator.IN,
+  ],
+  [CustomFieldType.DATE]: [
+    FilterOperator.EQUALS,
+    FilterOperator.GREATER_THAN,
+    FilterOperator.GREATER_THAN_OR_EQUAL,
+    FilterOperator.LESS_THAN,
+    FilterOperator.LESS_THAN_OR_EQUAL,
+    FilterOperator.OLDER_THAN_DAYS,
+    FilterOperator.WITHIN_LAST_DAYS,
+  ],
+  [CustomFieldType.SELECT]: [
+    FilterOperator.EQUALS,
+    FilterOperator.NOT_EQUALS,
+    FilterOperator.IN,
+  ],
+  [CustomFieldType.MULTI_SELECT]: [FilterOperator.CONTAINS],
+  [CustomFieldType.BOOLEAN]: [FilterOperator.EQUALS],
+};
+
+const COMPARISONS: Partial<
+  Record<FilterOperator, 'gt' | 'gte' | 'lt' | 'lte'>
+> = {
+  [FilterOperator.GREATER_THAN]: 'gt',
+  [FilterOperator.GREATER_THAN_OR_EQUAL]: 'gte',
+  [FilterOperator.LESS_THAN]: 'lt',
+  [FilterOperator.LESS_THAN_OR_EQUAL]: 'lte',
+};
+
+const OPEN_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+const MAX_DEPTH = 5;
+const MAX_CONDITIONS = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CompileContext {
+  customFields: Map<string, CustomFieldDefinition>;
+  conditionCount: number;
+}
+
+/**
+ * LeadFilterService - Compiles lead filter expressions into Prisma queries
+ *
+ * Key Features:
+ * - Nested and/or groups of field conditions
+ * - Comparison, list, text, emptiness and relative date operators
+ * - Derived conditions such as whether the lead has an open task
+ * - Conditions on lead custom fields
+ * - Invalid expressions are rejected with the path of the offending node
+ */
+@Injectable()
+export class LeadFilterService {
+  constructor(private customFieldsService: CustomFieldsService) {}
+
+  async compile(expression: unknown): Promise<Prisma.LeadWhereInput> {
+    const fields = await this.customFieldsService.findAll(
+      CustomFieldEntity.LEAD,
+    );
+    const context: CompileContext = {
+      customFields: new Map(fields.map((field) => [field.key, field])),
+      conditionCount: 0,
+    };
+
+    return this.compileNode(expression, 'filter', 0, context);
+  }
+
+  private compileNode(
+    node: unknown,
+    path: string,
+    depth: number,
+    context: CompileContext,
+  ): Prisma.LeadWhereInput {
+    if (!node || typeof node !== 'object' || Array.isArray(node)) {
+      throw this.invalid(path, 'must be a condition or an and/or group');
+    }
+    if (depth > MAX_DEPTH) {
+      throw this.invalid(
+        path,
+        `groups can be nested at most ${MAX_DEPTH} deep`,
+      );
+    }
+
+    const group = node as Record<string, unknown>;
+    for (const combinator of ['and', 'or'] as const) {
+      if (combinator in group) {
+        const children = group[combinator];
+        if (!Array.isArray(children) || children.length === 0) {
+          throw this.invalid(
+            `${path}.${combinator}`,
+            'must be a non-empty list',
+          );
+        }
+        const compiled = children.map((child, index) =>
+          this.compileNode(
+            child,
+            `${path}.${combinator}[${index}]`,
+            depth + 1,
+            context,
+          ),
+        );
+        return combinator === 'and' ? { AND: compiled } : { OR: compiled };
+      }
+    }
+
+    context.conditionCount++;
+    if (context.conditionCount > MAX_CONDITIONS) {
+      throw this.invalid(
+        path,
+        `a filter can have at most ${MAX_CONDITIONS} conditions`,
+      );
+    }
+
+    return this.compileCondition(node as FilterCondition, path, context);
+  }
+
+  private compileCondition(
+    condition: FilterCondition,
+    path: string,
+    context: CompileContext,
+  ): Prisma.LeadWhereInput {
+    const { field, operator, value } = condition;
+    if (typeof field !== 'string') {
+      throw this.invalid(path, 'field is required');
+    }
+    if (!Object.values(FilterOperator).includes(operator)) {
+      throw this.invalid(path, `unknown operator "${String(operator)}"`);
+    }
+
+    if (field.startsWith('custom.')) {
+      return this.compileCustomCondition(condition, path, context);
+    }
+
+    const definition = FILTER_FIELDS[field];
+    if (!definition) {
+      throw this.invalid(path, `unknown field "${field}"`);
+    }
+    if (!OPERATORS_BY_TYPE[definition.type].includes(operator)) {
+      throw this.invalid(
+        path,
+        `operator ${operator} cannot be used on ${field}`,
+      );
+    }
+
+    if (field === 'hasOpenTask') {
+      const openTasks = { status: { in: OPEN_TASK_STATUSES } };
+      return this.toBoolean(value, path)
+        ? { tasks: { some: openTasks } }
+        : { tasks: { none: openTasks } };
+    }
+
+    const nullable = definition.nullable ?? false;
+    const empty: Prisma.LeadWhereInput[] = [
+      ...(nullable ? [{ [field]: null }] : []),
+      ...(definition.type === 'string' ? [{ [field]: '' }] : []),
+    ];
+    const single = () => this.toValue(definition, value, path);
+    const list = () =>
+      this.toList(value, path).map((item) =>
+        this.toValue(definition, item, path),
+      );
+    // Empty values do not equal anything, so negations include them
+    const orEmpty = (where: Prisma.LeadWhereInput) =>
+      nullable ? { OR: [where, { [field]: null }] } : where;
+
+    switch (operator) {
+      case FilterOperator.EQUALS:
+        return { [field]: single() };
+      case FilterOperator.NOT_EQUALS:
+        return orEmpty({ [field]: { not: single() } });
+      case FilterOperator.IN:
+        return { [field]: { in: list() } };
+      case FilterOperator.NOT_IN:
+        return orEmpty({ [field]: { notIn: list() } });
+      case FilterOperator.CONTAINS:
+        return { [field]: { contains: this.toText(value, path) } };
+      case FilterOperator.IS_EMPTY:
+        if (empty.length === 0) return { id: { in: [] } };
+        return { OR: empty };
+      case FilterOperator.IS_NOT_EMPTY:
+        return { NOT: { OR: empty } };
+      case FilterOperator.OLDER_THAN_DAYS:
+        return orEmpty({ [field]: { lt: this.daysAgo(value, path) } });
+      case FilterOperator.WITHIN_LAST_DAYS:
+        return { [field]: { gte: this.daysAgo(value, path) } };
+      default:
+        return { [field]: { [COMPARISONS[operator]]: single() } };
+    }
+  }
+
+  private compileCustomCondition(
+    condition: FilterCondition,
+    path: string,
+    context: CompileContext,
+  ): Prisma.LeadWhereInput {
+    const { field, operator, value } = condition;
+    const key = field.slice('custom.'.length);
+    const definition = context.customFields.get(key);
+    if (!definition) {
+      throw this.invalid(path, `unknown custom field "${key}"`);
+    }
+
+    const fieldType = definition.fieldType as CustomFieldType;
+    if (!CUSTOM_OPERATORS_BY_TYPE[fieldType]?.includes(operator)) {
+      throw this.invalid(
+        path,
+        `operator ${operator} cannot be used on ${fieldType} custom field ${key}`,
+      );
+    }
+
+    const filter = (criteria: Record<string, unknown>) => ({
+      AND: this.customFieldsService.buildFilter({ [key]: criteria }),
+    });
+    const dateOnly = (date: Date) => date.toISOString().split('T')[0];
+
+    switch (operator) {
+      case FilterOperator.EQUALS:
+        return filter({ equals: value });
+      case FilterOperator.NOT_EQUALS:
+        return { NOT: filter({ equals: value }) };
+      case FilterOperator.IN:
+        return filter({ in: this.toList(value, path) });
+      case FilterOperator.CONTAINS:
+        return fieldType === CustomFieldType.MULTI_SELECT
+          ? filter({ has: value })
+          : filter({ contains: this.toText(value, path) });
+      case FilterOperator.OLDER_THAN_DAYS:
+        return filter({ lt: dateOnly(this.daysAgo(value, path)) });
+      case FilterOperator.WITHIN_LAST_DAYS:
+        return filter({ gte: dateOnly(this.daysAgo(value, path)) });
+      default:
+        return filter({ [COMPARISONS[operator]]: value });
+    }
+  }
+
+  private toValue(definition: FilterField, value: unknown, path: string) {
+    switch (definition.type) {
+      case 'number':
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          throw this.invalid(path, 'value must be a number');
+        }
+        return value;
+      case 'date': {
+        const date = typeof value === 'string' ? new Date(value) : null;
+        if (!date || isNaN(date.getTime())) {
+          throw this.invalid(path, 'value must be an ISO date');
+        }
+        return date;
+      }
+      case 'enum':
+        if (typeof value !== 'string' || !definition.values.includes(value)) {
+          throw this.invalid(
+            path,
+            `value must be one of: ${definition.values.join(', ')}`,
+          );
+        }
+        return value;
+      default:
+        return this.toText(value, path);
+    }
+  }
+
+  private toList(value: unknown, path: string): unknown[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      throw this.invalid(path, 'value must be a non-empty list');
+    }
+    return value;
+  }
+
+  private toText(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+      throw this.invalid(path, 'value must be text');
+    }
+    return value;
+  }
+
+  private toBoolean(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') {
+      throw this.invalid(path, 'value must be true or false');
+    }
+    return value;
+  }
+
+  private daysAgo(value: unknown, path: string): Date {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+      throw this.invalid(path, 'value must be a whole number of days');
+    }
+    return new Date(Date.now() - value * DAY_MS);
+  }
+
+  private invalid(path: string, message: string) {
+    return new BadRequestException(`Invalid filter at ${path}: ${message}`);
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LeadViewsService } from './lead-views.service';
+import { CreateLeadViewDto } from './dto/create-lead-view.dto';
+import { UpdateLeadViewDto } from './dto/update-lead-view.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@ApiTags('Lead Views')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('lead-views')
+export class LeadViewsController {
+  constructor(private readonly leadViewsService: LeadViewsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Get own and shared lead views, pinned views first',
+  })
+  @ApiResponse({ status: 200, description: 'Lead views retrieved' })
+  findAll(@CurrentUser() user: any) {
+    return this.leadViewsService.findAll(user);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Save a lead view' })
+  @ApiResponse({ status: 201, description: 'Lead view created' })
+  @ApiResponse({ status: 400, description: 'Filter expression is invalid' })
+  create(@Body() createViewDto: CreateLeadViewDto, @CurrentUser() user: any) {
+    return this.leadViewsService.create(createViewDto, user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get lead view by ID' })
+  @ApiResponse({ status: 200, description: 'Lead view found' })
+  @ApiResponse({ status: 404, description: 'Lead view not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.leadViewsService.findOne(id, user);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a lead view' })
+  @ApiResponse({ status: 200, description: 'Lead view updated' })
+  @ApiResponse({ status: 403, description: 'Not allowed to change the view' })
+  update(
+    @Param('id') id: string,
+    @Body() updateViewDto: UpdateLeadViewDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.leadViewsService.update(id, updateViewDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a lead view' })
+  @ApiResponse({ status: 200, description: 'Lead view deleted' })
+  @ApiResponse({ status: 403, description: 'Not allowed to delete the view' })
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.leadViewsService.remove(id, user);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { LeadViewsService } from './lead-views.service';
+import { LeadFilterService } from './lead-filter.service';
+import { LeadViewsController } from './lead-views.controller';
+import { PrismaService } from '../common/services/prisma.service';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+
+@Module({
+  imports: [CustomFieldsModule],
+  controllers: [LeadViewsController],
+  providers: [LeadViewsService, LeadFilterService, PrismaService],
+  exports: [LeadViewsService, LeadFilterService],
+})
+export class LeadViewsModule {}
@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeadView, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { CreateLeadViewDto } from './dto/create-lead-view.dto';
+import { UpdateLeadViewDto } from './dto/update-lead-view.dto';
+import { LeadViewVisibility } from './enums/lead-view.enums';
+import { LeadFilterService } from './lead-filter.service';
+
+const CREATOR_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} satisfies Prisma.UserDefaultArgs;
+
+/**
+ * LeadViewsService - Named, saved lead filters
+ *
+ * Key Features:
+ * - Private views for their creator, shared views for the whole tenant
+ * - Pinned views listed first
+ * - Filter expressions are validated when saved and compiled when used
+ * - Shared views can only be changed by their creator or a manager
+ */
+@Injectable()
+export class LeadViewsService {
+  constructor(
+    private prisma: PrismaService,
+    private leadFilterService: LeadFilterService,
+  ) {}
+
+  async findAll(currentUser: any) {
+    return this.prisma.leadView.findMany({
+      where: this.prisma.addTenantFilter({
+        OR: [
+          { createdById: currentUser.id },
+          { visibility: LeadViewVisibility.SHARED },
+        ],
+      }),
+      orderBy: [{ isPinned: 'desc' }, { name: 'asc' }],
+      include: { createdBy: CREATOR_SELECT },
+    });
+  }
+
+  async findOne(id: string, currentUser: any) {
+    const view = await this.prisma.leadView.findFirst({
+      where: this.prisma.addTenantFilter({
+        id,
+        OR: [
+          { createdById: currentUser.id },
+          { visibility: LeadViewVisibility.SHARED },
+        ],
+      }),
+      include: { createdBy: CREATOR_SELECT },
+    });
+
+    if (!view) {
+      throw new NotFoundException('Lead view not found');
+    }
+
+    return view;
+  }
+
+  async create(createViewDto: CreateLeadViewDto, currentUser: any) {
+    const tenantId = this.requireTenantId();
+    await this.leadFilterService.compile(createViewDto.filter);
+
+    return this.prisma.leadView.create({
+      data: {
+        ...createViewDto,
+        filter: createViewDto.filter as Prisma.InputJsonValue,
+        createdById: currentUser.id,
+        tenantId,
+      },
+      include: { createdBy: CREATOR_SELECT },
+    });
+  }
+
+  async update(id: string, updateViewDto: UpdateLeadViewDto, currentUser: any) {
+    const view = await this.findOne(id, currentUser);
+    this.assertCanManage(view, currentUser);
+
+    if (updateViewDto.filter) {
+      await this.leadFilterService.compile(updateViewDto.filter);
+    }
+
+    return this.prisma.leadView.update({
+      where: { id },
+      data: {
+        ...updateViewDto,
+        filter: updateViewDto.filter as Prisma.InputJsonValue,
+      },
+      include: { createdBy: CREATOR_SELECT },
+    });
+  }
+
+  async remove(id: string, currentUser: any) {
+    const view = await this.findOne(id, currentUser);
+    this.assertCanManage(view, currentUser);
+
+    return this.prisma.leadView.delete({ where: { id } });
+  }
+
+  /**
+   * Lead conditions of a view the user can see
+   */
+  async getViewWhere(
+    id: string,
+    currentUser: any,
+  ): Promise<Prisma.LeadWhereInput> {
+    const view = await this.findOne(id, currentUser);
+    return this.leadFilterService.compile(view.filter);
+  }
+
+  private assertCanManage(view: LeadView, currentUser: any) {
+    const isManager =
+      currentUser.role === UserRole.ADMIN ||
+      currentUser.role === UserRole.MANAGER;
+
+    if (view.createdById !== currentUser.id && !isManager) {
+      throw new ForbiddenException(
+        'Only the creator or a manager can change a shared view',
+      );
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,150 @@
+import {
+  IsOptional,
+  IsIn,
+  IsArray,
+  IsEnum,
+  IsNumber,
+  IsObject,
+  IsString,
+  IsUUID,
+  ArrayMaxSize,
+  ArrayMinSize,
+  Min,
+  Max,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadStatus } from '@prisma/client';
+import type { FilterExpression } from '../../lead-views/lead-filter.service';
+
+export const BULK_LEAD_ACTIONS = [
+  'ASSIGN',
+  'CHANGE_STATUS',
+  'ADD_TO_CONTACT_GROUP',
+  'REMOVE_FROM_CONTACT_GROUP',
+  'ADD_TAGS',
+  'REMOVE_TAGS',
+  'UPDATE_SCORE',
+  'DELETE',
+] as const;
+export type BulkLeadAction = (typeof BULK_LEAD_ACTIONS)[number];
+
+export const MAX_BULK_LEAD_IDS = 1000;
+
+export class BulkLeadActionDto {
+  @ApiProperty({
+    enum: BULK_LEAD_ACTIONS,
+    example: 'ASSIGN',
+    description: 'Operation applied to every targeted lead',
+  })
+  @IsIn(BULK_LEAD_ACTIONS)
+  action: BulkLeadAction;
+
+  @ApiPropertyOptional({
+    example: ['lead-id-1', 'lead-id-2'],
+    description: 'Leads to act on. Give either leadIds or a filter/viewId',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BULK_LEAD_IDS)
+  @IsString({ each: true })
+  leadIds?: string[];
+
+  @ApiPropertyOptional({
+    example: {
+      and: [
+        { field: 'status', operator: 'EQUALS', value: 'NEW' },
+        { field: 'lastContactedAt', operator: 'OLDER_THAN_DAYS', value: 7 },
+      ],
+    },
+    description: 'Filter expression selecting the leads to act on',
+  })
+  @IsOptional()
+  @IsObject()
+  filter?: FilterExpression;
+
+  @ApiPropertyOptional({
+    example: 'view-uuid-here',
+    description: 'Saved lead view selecting the leads to act on',
+  })
+  @IsOptional()
+  @IsUUID()
+  viewId?: string;
+
+  @ApiPropertyOptional({
+    example: 'user-uuid-here',
+    description: 'New assignee, required for ASSIGN',
+  })
+  @ValidateIf((dto) => dto.action === 'ASSIGN')
+  @IsUUID()
+  assignedUserId?: string;
+
+  @ApiPropertyOptional({
+    enum: LeadStatus,
+    example: LeadStatus.QUALIFIED,
+    description: 'New status, required for CHANGE_STATUS',
+  })
+  @ValidateIf((dto) => dto.action === 'CHANGE_STATUS')
+  @IsEnum(LeadStatus)
+  status?: LeadStatus;
+
+  @ApiPropertyOptional({
+    example: 'lost-reason-uuid-here',
+    description: 'Lost reason, required for CHANGE_STATUS to CLOSED_LOST',
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.action === 'CHANGE_STATUS' && dto.status === LeadStatus.CLOSED_LOST,
+  )
+  @IsUUID()
+  lostReasonId?: string;
+
+  @ApiPropertyOptional({
+    example: 'Leadway Assurance',
+    description:
+      'Insurer the leads chose instead, for lost reasons that require it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  lostCompetitor?: string;
+
+  @ApiPropertyOptional({
+    example: 'group-uuid-here',
+    description:
+      'Contact group, required for ADD_TO_CONTACT_GROUP and REMOVE_FROM_CONTACT_GROUP',
+  })
+  @ValidateIf(
+    (dto) =>
+      dto.action === 'ADD_TO_CONTACT_GROUP' ||
+      dto.action === 'REMOVE_FROM_CONTACT_GROUP',
+  )
+  @IsUUID()
+  contactGroupId?: string;
+
+  @ApiPropertyOptional({
+    example: ['tag-uuid-here'],
+    description: 'Tags, required for ADD_TAGS and REMOVE_TAGS',
+  })
+  @ValidateIf(
+    (dto) => dto.action === 'ADD_TAGS' || dto.action === 'REMOVE_TAGS',
+  )
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  tagIds?: string[];
+
+  @ApiPropertyOptional({
+    example: 80,
+    nullable: true,
+    description:
+      'Manual score override for UPDATE_SCORE. null clears the override',
+  })
+  @ValidateIf((dto) => dto.action === 'UPDATE_SCORE' && dto.score !== null)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  score?: number | null;
+}
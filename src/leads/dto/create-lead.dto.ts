@@ -6,8 +6,11 @@ import {
   IsNumber,
   IsDecimal,
   IsDateString,
+  IsObject,
+  IsUUID,
   Min,
   Max,
+  MaxLength,
 } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
@@ -161,4 +164,30 @@ export class CreateLeadDto {
   @IsOptional()
   @IsString()
   assignedUserId?: string;
+
+  @ApiPropertyOptional({ 
+    example: { vehicle_registration: 'AB12 CDE', dependants: 2 },
+    description: 'Values for the tenant\'s lead custom fields, keyed by field key. On update, null clears a value'
+  })
+  @IsOptional()
+  @IsObject()
+  customFields?: Record<string, any>;
+
+  @ApiPropertyOptional({ 
+    example: 'referrer-uuid-here',
+    nullable: true,
+    description: 'Referrer who referred this lead. On update, null clears it'
+  })
+  @IsOptional()
+  @IsUUID()
+  referrerId?: string | null;
+
+  @ApiPropertyOptional({ 
+    example: 'MARY-J',
+    description: 'Referral code of the referrer, instead of referrerId'
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  referralCode?: string;
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { IsOptional, IsIn, IsArray, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadQueryDto } from './lead-query.dto';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export class ExportLeadsDto extends LeadQueryDto {
+  @ApiPropertyOptional({
+    enum: EXPORT_FORMATS,
+    example: 'csv',
+    description: 'File format of the export',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value?.toLowerCase())
+  @IsIn(EXPORT_FORMATS)
+  format?: ExportFormat = 'csv';
+
+  @ApiPropertyOptional({
+    example:
+      'firstName,lastName,email,status,assignedUserName,communicationsCount',
+    description:
+      'Comma-separated columns to include; custom fields are custom.<key>. Defaults to the standard lead columns and all active custom fields',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    Array.isArray(value)
+      ? value
+      : String(value)
+          .split(',')
+          .map((column) => column.trim())
+          .filter(Boolean),
+  )
+  @IsArray()
+  @IsString({ each: true })
+  columns?: string[];
+}
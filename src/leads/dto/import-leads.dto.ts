@@ -0,0 +1,81 @@
+import { IsOptional, IsEnum, IsObject, IsBoolean, IsIn } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadSource, InsuranceType } from '@prisma/client';
+
+export const DUPLICATE_STRATEGIES = ['SKIP', 'CREATE'] as const;
+export type DuplicateStrategy = (typeof DUPLICATE_STRATEGIES)[number];
+
+// Multipart form fields arrive as strings. The raw value is read from `obj`
+// because implicit conversion has already run on `value`.
+const parseJson = ({ obj, key }) => {
+  const value = obj[key];
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+export class ImportLeadsDto {
+  @ApiProperty({
+    type: 'string',
+    format: 'binary',
+    description: 'CSV or XLSX file. The first row must contain column headers',
+  })
+  file: any;
+
+  @ApiPropertyOptional({
+    example: {
+      'First Name': 'firstName',
+      Surname: 'lastName',
+      Mobile: 'phone',
+      Product: 'insuranceType',
+    },
+    description:
+      'Spreadsheet column header -> lead field (JSON). Columns are matched by name when omitted',
+  })
+  @IsOptional()
+  @Transform(parseJson)
+  @IsObject()
+  columnMapping?: Record<string, string>;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Validate the file and report per-row errors without importing anything',
+  })
+  @IsOptional()
+  @Transform(({ obj }) => obj.dryRun === true || obj.dryRun === 'true')
+  @IsBoolean()
+  dryRun?: boolean = false;
+
+  @ApiPropertyOptional({
+    enum: DUPLICATE_STRATEGIES,
+    example: 'SKIP',
+    description:
+      'SKIP rows matching an existing lead by phone or email, or CREATE them anyway',
+  })
+  @IsOptional()
+  @IsIn(DUPLICATE_STRATEGIES)
+  duplicateStrategy?: DuplicateStrategy = 'SKIP';
+
+  @ApiPropertyOptional({
+    enum: LeadSource,
+    example: LeadSource.MANUAL,
+    description: 'Source for rows without a source column',
+  })
+  @IsOptional()
+  @IsEnum(LeadSource)
+  defaultSource?: LeadSource;
+
+  @ApiPropertyOptional({
+    enum: InsuranceType,
+    example: InsuranceType.LIFE,
+    description: 'Insurance type for rows without an insurance type column',
+  })
+  @IsOptional()
+  @IsEnum(InsuranceType)
+  defaultInsuranceType?: InsuranceType;
+}
@@ -1,7 +1,13 @@
-import { IsOptional, IsEnum, IsString } from 'class-validator';
+import { IsOptional, IsEnum, IsString, IsObject, IsUUID } from 'class-validator';
 import { Transform } from 'class-transformer';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { LeadStatus, LeadSource, InsuranceType } from '@prisma/client';
+import type { FilterExpression } from '../../lead-views/lead-filter.service';
+
+const splitTagIds = (value: unknown) =>
+  typeof value === 'string'
+    ? value.split(',').map((id) => id.trim()).filter(Boolean)
+    : value;
 
 export class LeadQueryDto extends PaginationDto {
   @IsOptional()
@@ -31,4 +37,53 @@ export class LeadQueryDto extends PaginationDto {
   @IsOptional()
   @Transform(({ value }) => new Date(value))
   endDate?: Date;
+
+  // JSON object keyed by custom field key, e.g. {"dependants":{"gte":2},"cover":"Comprehensive"}
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  customFields?: Record<string, any>;
+
+  // JSON filter expression of and/or groups, e.g. {"and":[{"field":"score","operator":"GREATER_THAN","value":60}]}
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  filter?: FilterExpression;
+
+  // Comma-separated tag IDs: leads with any of them
+  @IsOptional()
+  @Transform(({ value }) => splitTagIds(value))
+  @IsString({ each: true })
+  tagsAny?: string[];
+
+  // Comma-separated tag IDs: leads with all of them
+  @IsOptional()
+  @Transform(({ value }) => splitTagIds(value))
+  @IsString({ each: true })
+  tagsAll?: string[];
+
+  // Comma-separated tag IDs: leads with none of them
+  @IsOptional()
+  @Transform(({ value }) => splitTagIds(value))
+  @IsString({ each: true })
+  tagsNone?: string[];
+
+  // Saved lead view whose filter is applied on top of the other filters
+  @IsOptional()
+  @IsUUID()
+  viewId?: string;
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { LeadTimelineEventType } from '../enums/lead-timeline.enums';
+
+export class LeadTimelineQueryDto {
+  @ApiPropertyOptional({
+    example: 1,
+    description:
+      'Page number (1-100). Every page up to this one is read, so reach older events with endDate',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  page: number = 1;
+
+  @ApiPropertyOptional({ example: 25, description: 'Events per page (1-100)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @ApiPropertyOptional({
+    enum: LeadTimelineEventType,
+    isArray: true,
+    example: 'CHAT_MESSAGE,EMAIL',
+    description: 'Comma-separated event types to include. Defaults to all',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((type) => type.trim().toUpperCase())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @IsEnum(LeadTimelineEventType, { each: true })
+  types?: LeadTimelineEventType[];
+
+  @ApiPropertyOptional({
+    example: '2026-10-01',
+    description: 'Only events on or after this date',
+  })
+  @IsOptional()
+  @Transform(({ value }) => new Date(value))
+  @IsDate()
+  startDate?: Date;
+
+  @ApiPropertyOptional({
+    example: '2026-10-31',
+    description: 'Only events before this date',
+  })
+  @IsOptional()
+  @Transform(({ value }) => new Date(value))
+  @IsDate()
+  endDate?: Date;
+
+  @ApiPropertyOptional({
+    enum: ['asc', 'desc'],
+    example: 'desc',
+    description: 'desc for newest first (default), asc for oldest first',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value?.toLowerCase())
+  @IsIn(['asc', 'desc'])
+  order: 'asc' | 'desc' = 'desc';
+}
@@ -0,0 +1,14 @@
+import { IsArray, IsString, ArrayMinSize } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class MergeLeadsDto {
+  @ApiProperty({
+    example: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'],
+    description:
+      'IDs of the duplicate leads to merge into this lead. They are deleted after the merge',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  duplicateLeadIds: string[];
+}
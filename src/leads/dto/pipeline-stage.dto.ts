@@ -1,15 +1,25 @@
 import { IsEnum, IsOptional, IsString } from 'class-validator';
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiPropertyOptional } from '@nestjs/swagger';
 import { LeadStatus } from '@prisma/client';
+import { LeadLossDto } from '../../lost-reasons/dto/lead-loss.dto';
 
-export class MoveToPipelineStageDto {
-  @ApiProperty({
+export class MoveToPipelineStageDto extends LeadLossDto {
+  @ApiPropertyOptional({
+    example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+    description: 'Target pipeline stage ID. Takes precedence over status'
+  })
+  @IsOptional()
+  @IsString()
+  stageId?: string;
+
+  @ApiPropertyOptional({
     enum: LeadStatus,
     example: LeadStatus.CONTACTED,
-    description: 'New pipeline stage for the lead'
+    description: 'Move to the first stage with this status in the lead\'s pipeline'
   })
+  @IsOptional()
   @IsEnum(LeadStatus)
-  status: LeadStatus;
+  status?: LeadStatus;
 
   @ApiPropertyOptional({
     example: 'Successfully contacted lead via phone call',
@@ -22,6 +32,10 @@ export class MoveToPipelineStageDto {
 
 export class PipelineStageResponse {
   stage: LeadStatus;
+  stageId: string;
+  name: string;
+  color: string;
+  outcome: string;
   leads: any[];
   count: number;
   conversionRate?: number;
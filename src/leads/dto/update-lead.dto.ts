@@ -1,19 +1,17 @@
-import { PartialType } from '@nestjs/swagger';
+import { IntersectionType, PartialType } from '@nestjs/swagger';
 import { IsEnum, IsOptional, IsNumber, Min, Max } from 'class-validator';
 import { CreateLeadDto } from './create-lead.dto';
 import { LeadStatus } from '@prisma/client';
+import { LeadLossDto } from '../../lost-reasons/dto/lead-loss.dto';
 
-export class UpdateLeadDto extends PartialType(CreateLeadDto) {
+export class UpdateLeadDto extends IntersectionType(
+  PartialType(CreateLeadDto),
+  LeadLossDto,
+) {
   @IsOptional()
   @IsEnum(LeadStatus)
   status?: LeadStatus;
 
-  @IsOptional()
-  @IsNumber()
-  @Min(0)
-  @Max(100)
-  score?: number;
-
   @IsOptional()
   @IsNumber()
   @Min(0)
@@ -0,0 +1,15 @@
+/**
+ * Lead Timeline Enums - Event types of the unified lead activity feed
+ */
+
+export enum LeadTimelineEventType {
+  COMMUNICATION = 'COMMUNICATION', // Logged calls, notes and messages
+  CHAT_MESSAGE = 'CHAT_MESSAGE', // WhatsApp and website widget messages
+  EMAIL = 'EMAIL',
+  TASK_CREATED = 'TASK_CREATED',
+  TASK_COMPLETED = 'TASK_COMPLETED',
+  STAGE_CHANGE = 'STAGE_CHANGE',
+  ASSIGNMENT = 'ASSIGNMENT',
+  SCORE_CHANGE = 'SCORE_CHANGE',
+  AI_ESCALATION = 'AI_ESCALATION', // AI conversation handed to a human agent
+}
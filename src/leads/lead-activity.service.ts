@@ -0,0 +1,104 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+
+export type LeadActivityType = 'ASSIGNMENT' | 'SCORE_CHANGE';
+
+export type LeadActivitySource =
+  | 'MANUAL'
+  | 'ROUTING'
+  | 'BULK'
+  | 'MERGE'
+  | 'SCORING'
+  | 'OFFBOARDING';
+
+export interface RecordAssignmentInput {
+  leadId: string;
+  tenantId: string;
+  fromUserId?: string | null;
+  toUserId: string | null;
+  changedById?: string | null;
+  note?: string | null;
+  source?: LeadActivitySource;
+}
+
+export interface RecordScoreChangeInput {
+  leadId: string;
+  tenantId: string;
+  fromScore: number | null;
+  toScore: number | null;
+  changedById?: string | null;
+  note?: string | null;
+  source?: LeadActivitySource;
+}
+
+/**
+ * LeadActivityService - Records lead changes that leave no other trace
+ *
+ * Reassignments and score changes overwrite a column on the lead, so they
+ * are stored as LeadActivity rows for the lead timeline.
+ */
+@Injectable()
+export class LeadActivityService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record a change of assignee. Pass the transaction client when the
+   * reassignment itself happens inside a transaction.
+   */
+  async recordAssignment(
+    input: RecordAssignmentInput,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    return tx.leadActivity.create({
+      data: this.toAssignmentData(input),
+    });
+  }
+
+  /**
+   * Record the same kind of reassignment for many leads at once
+   */
+  async recordAssignments(
+    inputs: RecordAssignmentInput[],
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    if (inputs.length === 0) return { count: 0 };
+
+    return tx.leadActivity.createMany({
+      data: inputs.map((input) => this.toAssignmentData(input)),
+    });
+  }
+
+  async recordScoreChange(
+    input: RecordScoreChangeInput,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    return tx.leadActivity.create({
+      data: {
+        type: 'SCORE_CHANGE',
+        leadId: input.leadId,
+        tenantId: input.tenantId,
+        fromScore: input.fromScore,
+        toScore: input.toScore,
+        changedById: input.changedById || null,
+        note: input.note || null,
+        source: input.source || 'MANUAL',
+      },
+    });
+  }
+
+  private toAssignmentData(
+    input: RecordAssignmentInput,
+  ): Prisma.LeadActivityCreateManyInput {
+    return {
+      type: 'ASSIGNMENT',
+      leadId: input.leadId,
+      tenantId: input.tenantId,
+      fromUserId: input.fromUserId || null,
+      toUserId: input.toUserId || null,
+      changedById: input.changedById || null,
+      note: input.note || null,
+      source: input.source || 'MANUAL',
+    };
+  }
+}
@@ -0,0 +1,268 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserRole } from '@prisma/client';
+import { LeadBulkService } from './lead-bulk.service';
+import { LeadsController } from './leads.controller';
+import { LeadsService } from './leads.service';
+import { LeadStageHistoryService } from './lead-stage-history.service';
+import { LeadActivityService } from './lead-activity.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { PipelinesService } from '../pipelines/pipelines.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { TagsService } from '../tags/tags.service';
+import { LostReasonsService } from '../lost-reasons/lost-reasons.service';
+import { ROLES_KEY } from '../common/decorators/roles.decorator';
+import { BulkLeadActionDto } from './dto/bulk-lead-action.dto';
+
+const admin = { id: 'admin-1', role: UserRole.ADMIN };
+const manager = { id: 'manager-1', role: UserRole.MANAGER };
+
+// The lead list scope LeadsService.buildLeadWhere gives the caller
+const SCOPE = { tenantId: 'tenant-1', deletedAt: null };
+
+const target = (id: string, assignedUserId: string | null = null) => ({
+  id,
+  tenantId: 'tenant-1',
+  status: 'NEW',
+  insuranceType: 'LIFE',
+  pipelineId: null,
+  pipelineStageId: null,
+  assignedUserId,
+  score: 50,
+  manualScore: null,
+});
+
+describe('LeadBulkService', () => {
+  let service: LeadBulkService;
+  let prisma: any;
+  let leadsService: {
+    buildLeadWhere: jest.Mock;
+    createAutoFollowUpTask: jest.Mock;
+  };
+  let leadScoringService: { rescoreLead: jest.Mock };
+  let notificationsService: { create: jest.Mock };
+
+  const execute = (dto: Partial<BulkLeadActionDto>, currentUser: any) =>
+    service.execute(dto as BulkLeadActionDto, currentUser);
+
+  beforeEach(async () => {
+    prisma = {
+      addTenantFilter: (where: object) => ({ ...where, tenantId: 'tenant-1' }),
+      lead: {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      user: { findFirst: jest.fn().mockResolvedValue({ id: 'agent-1' }) },
+    };
+    prisma.$transaction = jest.fn((run) => run(prisma));
+    leadsService = {
+      buildLeadWhere: jest.fn().mockResolvedValue(SCOPE),
+      createAutoFollowUpTask: jest.fn(),
+    };
+    leadScoringService = { rescoreLead: jest.fn() };
+    notificationsService = { create: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadBulkService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LeadsService, useValue: leadsService },
+        {
+          provide: LeadStageHistoryService,
+          useValue: { recordTransition: jest.fn() },
+        },
+        {
+          provide: LeadActivityService,
+          useValue: { recordAssignments: jest.fn() },
+        },
+        {
+          provide: PipelinesService,
+          useValue: {
+            getPipelineForLead: jest.fn().mockResolvedValue({ id: 'default' }),
+            resolveStage: () => ({ id: 'stage-new' }),
+            getStageForStatus: () => ({ id: 'stage-contacted' }),
+          },
+        },
+        { provide: LeadScoringService, useValue: leadScoringService },
+        { provide: TagsService, useValue: {} },
+        { provide: LostReasonsService, useValue: {} },
+        { provide: NotificationsService, useValue: notificationsService },
+      ],
+    }).compile();
+
+    service = module.get(LeadBulkService);
+  });
+
+  it('is only open to admins and managers', () => {
+    const { value: handler } = Object.getOwnPropertyDescriptor(
+      LeadsController.prototype,
+      'bulkAction',
+    );
+
+    expect(Reflect.getMetadata(ROLES_KEY, handler)).toEqual([
+      UserRole.ADMIN,
+      UserRole.MANAGER,
+    ]);
+  });
+
+  it('only lets admins delete', async () => {
+    await expect(
+      execute({ action: 'DELETE', leadIds: ['lead-1'] }, manager),
+    ).rejects.toThrow(ForbiddenException);
+    expect(prisma.lead.findMany).not.toHaveBeenCalled();
+
+    prisma.lead.findMany.mockResolvedValue([target('lead-1')]);
+    await expect(
+      execute({ action: 'DELETE', leadIds: ['lead-1'] }, admin),
+    ).resolves.toMatchObject({ updated: 1 });
+    expect(prisma.lead.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['lead-1'] } },
+      data: { deletedAt: expect.any(Date), deletedById: 'admin-1' },
+    });
+  });
+
+  it('reports leads outside the caller scope as not found', async () => {
+    prisma.lead.findMany.mockResolvedValue([target('lead-1')]);
+
+    const result = await execute(
+      {
+        action: 'ASSIGN',
+        assignedUserId: 'agent-1',
+        leadIds: ['lead-1', 'lead-2', 'lead-1'],
+      },
+      manager,
+    );
+
+    expect(leadsService.buildLeadWhere).toHaveBeenCalledWith(
+      expect.anything(),
+      manager,
+    );
+    expect(prisma.lead.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { ...SCOPE, id: { in: ['lead-1', 'lead-2'] } },
+      }),
+    );
+    expect(result.results).toEqual([
+      { leadId: 'lead-2', status: 'FAILED', message: 'Lead not found' },
+      { leadId: 'lead-1', status: 'UPDATED' },
+    ]);
+  });
+
+  it('only assigns to active users of the tenant', async () => {
+    prisma.user.findFirst.mockResolvedValue(null);
+
+    await expect(
+      execute(
+        { action: 'ASSIGN', assignedUserId: 'other-tenant', leadIds: ['x'] },
+        manager,
+      ),
+    ).rejects.toThrow('User not found');
+    expect(prisma.user.findFirst).toHaveBeenCalledWith({
+      where: { id: 'other-tenant', isActive: true, tenantId: 'tenant-1' },
+    });
+  });
+
+  it('caps filter targets', async () => {
+    prisma.lead.count.mockResolvedValue(5001);
+
+    await expect(
+      execute(
+        { action: 'ASSIGN', assignedUserId: 'agent-1', filter: {} },
+        manager,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.lead.count).toHaveBeenCalledWith({ where: SCOPE });
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('requires either lead IDs or a filter', async () => {
+    await expect(
+      execute(
+        {
+          action: 'ASSIGN',
+          assignedUserId: 'agent-1',
+          leadIds: ['lead-1'],
+          filter: {},
+        },
+        manager,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('skips leads already in the target state and notifies the assignee once', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      target('lead-1', 'agent-1'),
+      target('lead-2'),
+      target('lead-3'),
+    ]);
+
+    const result = await execute(
+      {
+        action: 'ASSIGN',
+        assignedUserId: 'agent-1',
+        leadIds: ['lead-1', 'lead-2', 'lead-3'],
+      },
+      manager,
+    );
+
+    expect(result).toMatchObject({ updated: 2, skipped: 1, failed: 0 });
+    expect(prisma.lead.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['lead-2', 'lead-3'] } },
+      data: { assignedUserId: 'agent-1' },
+    });
+    expect(notificationsService.create).toHaveBeenCalledTimes(1);
+    expect(notificationsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'agent-1',
+        message: 'You have been assigned 2 leads',
+      }),
+    );
+  });
+
+  it('creates follow-up tasks for the lead owners after a status change', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      target('lead-1', 'agent-1'),
+      target('lead-2'),
+    ]);
+
+    await execute(
+      {
+        action: 'CHANGE_STATUS',
+        status: 'CONTACTED',
+        leadIds: ['lead-1', 'lead-2'],
+      },
+      manager,
+    );
+
+    expect(leadsService.createAutoFollowUpTask).toHaveBeenCalledWith(
+      'lead-1',
+      'tenant-1',
+      'CONTACTED',
+      'agent-1',
+    );
+    expect(leadsService.createAutoFollowUpTask).toHaveBeenCalledWith(
+      'lead-2',
+      'tenant-1',
+      'CONTACTED',
+      'manager-1',
+    );
+    expect(leadScoringService.rescoreLead).toHaveBeenCalledTimes(2);
+  });
+
+  it('rescores leads after a bulk assignment', async () => {
+    prisma.lead.findMany.mockResolvedValue([target('lead-1')]);
+
+    await execute(
+      { action: 'ASSIGN', assignedUserId: 'agent-1', leadIds: ['lead-1'] },
+      manager,
+    );
+    expect(leadScoringService.rescoreLead).toHaveBeenCalledWith(
+      'lead-1',
+      'bulk assignment',
+    );
+    expect(leadsService.createAutoFollowUpTask).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,582 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { Lead, LeadStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import {
+  PipelinesService,
+  PipelineWithStages,
+} from '../pipelines/pipelines.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { TagsService } from '../tags/tags.service';
+import {
+  LostReasonsService,
+  CLEARED_LOSS,
+} from '../lost-reasons/lost-reasons.service';
+import { LeadsService } from './leads.service';
+import { LeadStageHistoryService } from './lead-stage-history.service';
+import { LeadActivityService } from './lead-activity.service';
+import { BulkLeadActionDto } from './dto/bulk-lead-action.dto';
+import { LeadQueryDto } from './dto/lead-query.dto';
+
+export type BulkLeadResultStatus = 'UPDATED' | 'SKIPPED' | 'FAILED';
+
+export interface BulkLeadResult {
+  leadId: string;
+  status: BulkLeadResultStatus;
+  message?: string;
+}
+
+type TargetLead = Pick<
+  Lead,
+  | 'id'
+  | 'tenantId'
+  | 'status'
+  | 'insuranceType'
+  | 'pipelineId'
+  | 'pipelineStageId'
+  | 'assignedUserId'
+  | 'score'
+  | 'manualScore'
+>;
+
+const TARGET_SELECT = {
+  id: true,
+  tenantId: true,
+  status: true,
+  insuranceType: true,
+  pipelineId: true,
+  pipelineStageId: true,
+  assignedUserId: true,
+  score: true,
+  manualScore: true,
+} satisfies Prisma.LeadSelect;
+
+const BATCH_SIZE = 100;
+const MAX_BULK_LEADS = 5000;
+
+/**
+ * LeadBulkService - Applies one operation to many leads
+ *
+ * Key Features:
+ * - Targets explicit lead IDs, a filter expression or a saved view, within
+ *   what the caller can see in the lead list
+ * - Assign, change status, add to / remove from a contact group, add or
+ *   remove tags, set the manual score, or delete
+ * - Each batch is written in one transaction; a failing batch is reported
+ *   without undoing the batches before it
+ * - Per-lead result (updated, skipped with reason, or failed)
+ */
+@Injectable()
+export class LeadBulkService {
+  private readonly logger = new Logger(LeadBulkService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadsService: LeadsService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadActivityService: LeadActivityService,
+    private pipelinesService: PipelinesService,
+    private leadScoringService: LeadScoringService,
+    private tagsService: TagsService,
+    private lostReasonsService: LostReasonsService,
+    @Inject(forwardRef(() => NotificationsService))
+    private notificationsService: NotificationsService,
+  ) {}
+
+  async execute(bulkDto: BulkLeadActionDto, currentUser: any) {
+    if (bulkDto.action === 'DELETE' && currentUser.role !== UserRole.ADMIN) {
+      throw new ForbiddenException('Only admins can delete leads');
+    }
+
+    const { leads, missingIds } = await this.resolveTargets(
+      bulkDto,
+      currentUser,
+    );
+    await this.validateActionTarget(bulkDto);
+
+    const results: BulkLeadResult[] = missingIds.map((leadId) => ({
+      leadId,
+      status: 'FAILED',
+      message: 'Lead not found',
+    }));
+
+    for (let start = 0; start < leads.length; start += BATCH_SIZE) {
+      const batch = leads.slice(start, start + BATCH_SIZE);
+      results.push(...(await this.runBatch(bulkDto, batch, currentUser)));
+    }
+
+    const updatedIds = new Set(
+      results
+        .filter((result) => result.status === 'UPDATED')
+        .map((result) => result.leadId),
+    );
+    await this.afterCommit(
+      bulkDto,
+      leads.filter((lead) => updatedIds.has(lead.id)),
+      currentUser,
+    );
+
+    const count = (status: BulkLeadResultStatus) =>
+      results.filter((result) => result.status === status).length;
+    this.logger.log(
+      `Bulk ${bulkDto.action} by ${currentUser.id}: ${count('UPDATED')} updated, ${count('SKIPPED')} skipped, ${count('FAILED')} failed`,
+    );
+
+    return {
+      action: bulkDto.action,
+      total: results.length,
+      updated: count('UPDATED'),
+      skipped: count('SKIPPED'),
+      failed: count('FAILED'),
+      results,
+    };
+  }
+
+  /**
+   * Leads the caller can see among the given IDs, or matching the filter.
+   * IDs the caller cannot see are reported as missing.
+   */
+  private async resolveTargets(bulkDto: BulkLeadActionDto, currentUser: any) {
+    const hasIds = !!bulkDto.leadIds?.length;
+    const hasFilter = !!bulkDto.filter || !!bulkDto.viewId;
+    if (hasIds === hasFilter) {
+      throw new BadRequestException(
+        'Provide either leadIds, or a filter or viewId',
+      );
+    }
+
+    const where = await this.leadsService.buildLeadWhere(
+      Object.assign(new LeadQueryDto(), {
+        filter: bulkDto.filter,
+        viewId: bulkDto.viewId,
+      }),
+      currentUser,
+    );
+
+    if (hasIds) {
+      const leadIds = [...new Set(bulkDto.leadIds)];
+      const leads: TargetLead[] = await this.prisma.lead.findMany({
+        where: { ...where, id: { in: leadIds } },
+        select: TARGET_SELECT,
+      });
+      const found = new Set(leads.map((lead) => lead.id));
+
+      return {
+        leads,
+        missingIds: leadIds.filter((id) => !found.has(id)),
+      };
+    }
+
+    const total = await this.prisma.lead.count({ where });
+    if (total > MAX_BULK_LEADS) {
+      throw new BadRequestException(
+        `The filter matches ${total} leads; bulk operations are limited to ${MAX_BULK_LEADS}`,
+      );
+    }
+
+    const leads: TargetLead[] = await this.prisma.lead.findMany({
+      where,
+      select: TARGET_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return { leads, missingIds: [] as string[] };
+  }
+
+  private async validateActionTarget(bulkDto: BulkLeadActionDto) {
+    if (bulkDto.action === 'ASSIGN') {
+      const user = await this.prisma.user.findFirst({
+        where: this.prisma.addTenantFilter({
+          id: bulkDto.assignedUserId,
+          isActive: true,
+        }),
+      });
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+    }
+
+    if (
+      bulkDto.action === 'ADD_TO_CONTACT_GROUP' ||
+      bulkDto.action === 'REMOVE_FROM_CONTACT_GROUP'
+    ) {
+      const group = await this.prisma.contactGroup.findFirst({
+        where: this.prisma.addTenantFilter({ id: bulkDto.contactGroupId }),
+      });
+      if (!group) {
+        throw new NotFoundException('Contact group not found');
+      }
+      if (group.leadViewId) {
+        throw new BadRequestException(
+          'Members of this contact group follow its lead view and cannot be changed directly',
+        );
+      }
+    }
+
+    if (bulkDto.action === 'ADD_TAGS' || bulkDto.action === 'REMOVE_TAGS') {
+      await this.tagsService.assertTagsExist(bulkDto.tagIds);
+    }
+
+    if (
+      bulkDto.action === 'CHANGE_STATUS' &&
+      bulkDto.status === LeadStatus.CLOSED_LOST
+    ) {
+      await this.lostReasonsService.resolveLoss(bulkDto);
+    }
+  }
+
+  private async runBatch(
+    bulkDto: BulkLeadActionDto,
+    batch: TargetLead[],
+    currentUser: any,
+  ): Promise<BulkLeadResult[]> {
+    try {
+      const { toUpdate, skipped } = await this.partition(bulkDto, batch);
+
+      if (toUpdate.length > 0) {
+        const statusChanges =
+          bulkDto.action === 'CHANGE_STATUS'
+            ? await this.planStatusChanges(toUpdate, bulkDto.status)
+            : [];
+
+        await this.prisma.$transaction(async (tx) => {
+          await this.apply(tx, bulkDto, toUpdate, statusChanges, currentUser);
+        });
+      }
+
+      return [
+        ...skipped,
+        ...toUpdate.map((lead) => ({
+          leadId: lead.id,
+          status: 'UPDATED' as const,
+        })),
+      ];
+    } catch (error) {
+      this.logger.error(
+        `Bulk ${bulkDto.action} batch failed: ${error.message}`,
+      );
+      return batch.map((lead) => ({
+        leadId: lead.id,
+        status: 'FAILED' as const,
+        message: error.message,
+      }));
+    }
+  }
+
+  /**
+   * Split a batch into leads to change and leads already in the target state
+   */
+  private async partition(bulkDto: BulkLeadActionDto, batch: TargetLead[]) {
+    let skipReason: (lead: TargetLead) => string | null = () => null;
+
+    switch (bulkDto.action) {
+      case 'ASSIGN':
+        skipReason = (lead) =>
+          lead.assignedUserId === bulkDto.assignedUserId
+            ? 'Already assigned to this user'
+            : null;
+        break;
+      case 'CHANGE_STATUS':
+        skipReason = (lead) =>
+          lead.status === bulkDto.status ? 'Already in this status' : null;
+        break;
+      case 'UPDATE_SCORE':
+        skipReason = (lead) =>
+          lead.manualScore === (bulkDto.score ?? null)
+            ? 'Score unchanged'
+            : null;
+        break;
+      case 'ADD_TO_CONTACT_GROUP':
+      case 'REMOVE_FROM_CONTACT_GROUP': {
+        const memberships = await this.prisma.leadContactGroup.findMany({
+          where: {
+            contactGroupId: bulkDto.contactGroupId,
+            leadId: { in: batch.map((lead) => lead.id) },
+          },
+          select: { leadId: true },
+        });
+        const members = new Set(memberships.map((m) => m.leadId));
+        skipReason =
+          bulkDto.action === 'ADD_TO_CONTACT_GROUP'
+            ? (lead) =>
+                members.has(lead.id) ? 'Already in the contact group' : null
+            : (lead) =>
+                members.has(lead.id) ? null : 'Not in the contact group';
+        break;
+      }
+      case 'ADD_TAGS':
+      case 'REMOVE_TAGS': {
+        const tagIds = new Set(bulkDto.tagIds);
+        const taggings = await this.prisma.leadTag.findMany({
+          where: {
+            tagId: { in: [...tagIds] },
+            leadId: { in: batch.map((lead) => lead.id) },
+          },
+          select: { leadId: true },
+        });
+        const tagCounts = new Map<string, number>();
+        for (const { leadId } of taggings) {
+          tagCounts.set(leadId, (tagCounts.get(leadId) ?? 0) + 1);
+        }
+        skipReason =
+          bulkDto.action === 'ADD_TAGS'
+            ? (lead) =>
+                tagCounts.get(lead.id) === tagIds.size
+                  ? 'Already has these tags'
+                  : null
+            : (lead) =>
+                tagCounts.has(lead.id) ? null : 'Has none of these tags';
+        break;
+      }
+    }
+
+    const toUpdate: TargetLead[] = [];
+    const skipped: BulkLeadResult[] = [];
+    for (const lead of batch) {
+      const reason = skipReason(lead);
+      if (reason) {
+        skipped.push({ leadId: lead.id, status: 'SKIPPED', message: reason });
+      } else {
+        toUpdate.push(lead);
+      }
+    }
+
+    return { toUpdate, skipped };
+  }
+
+  /**
+   * Pipeline stages each lead moves between, resolved before the
+   * transaction opens
+   */
+  private async planStatusChanges(
+    leads: TargetLead[],
+    status: BulkLeadActionDto['status'],
+  ) {
+    const pipelines = new Map<string, PipelineWithStages>();
+
+    const plans = [];
+    for (const lead of leads) {
+      const cacheKey = `${lead.pipelineId ?? ''}|${lead.insuranceType}`;
+      let pipeline = pipelines.get(cacheKey);
+      if (!pipeline) {
+        pipeline = await this.pipelinesService.getPipelineForLead(lead);
+        pipelines.set(cacheKey, pipeline);
+      }
+
+      plans.push({
+        lead,
+        fromStageId: this.pipelinesService.resolveStage(pipeline, lead).id,
+        toStageId: this.pipelinesService.getStageForStatus(pipeline, status).id,
+      });
+    }
+
+    return plans;
+  }
+
+  /**
+   * Loss fields for a lead whose status changes: the reason checked in
+   * validateActionTarget when closing as lost, cleared when reopening
+   */
+  private lossFields(bulkDto: BulkLeadActionDto, fromStatus: LeadStatus) {
+    if (bulkDto.status === LeadStatus.CLOSED_LOST) {
+      return {
+        lostReasonId: bulkDto.lostReasonId,
+        lostCompetitor: bulkDto.lostCompetitor?.trim() || null,
+        lostAt: new Date(),
+      };
+    }
+    return fromStatus === LeadStatus.CLOSED_LOST ? CLEARED_LOSS : {};
+  }
+
+  private async apply(
+    tx: Prisma.TransactionClient,
+    bulkDto: BulkLeadActionDto,
+    leads: TargetLead[],
+    statusChanges: Awaited<ReturnType<LeadBulkService['planStatusChanges']>>,
+    currentUser: any,
+  ) {
+    const leadIds = leads.map((lead) => lead.id);
+
+    switch (bulkDto.action) {
+      case 'ASSIGN':
+        await tx.lead.updateMany({
+          where: { id: { in: leadIds } },
+          data: { assignedUserId: bulkDto.assignedUserId },
+        });
+        await this.leadActivityService.recordAssignments(
+          leads.map((lead) => ({
+            leadId: lead.id,
+            tenantId: lead.tenantId,
+            fromUserId: lead.assignedUserId,
+            toUserId: bulkDto.assignedUserId,
+            changedById: currentUser.id,
+            source: 'BULK',
+          })),
+          tx,
+        );
+        break;
+
+      case 'CHANGE_STATUS':
+        for (const { lead, fromStageId, toStageId } of statusChanges) {
+          await tx.lead.update({
+            where: { id: lead.id },
+            data: {
+              ...this.lossFields(bulkDto, lead.status),
+              status: bulkDto.status,
+              pipelineStageId: toStageId,
+              lastContactedAt: new Date(),
+            },
+          });
+          await this.stageHistoryService.recordTransition(
+            {
+              leadId: lead.id,
+              tenantId: lead.tenantId,
+              fromStatus: lead.status,
+              toStatus: bulkDto.status,
+              fromStageId,
+              toStageId,
+              changedById: currentUser.id,
+              note: 'Bulk status change',
+              source: 'MANUAL',
+            },
+            tx,
+          );
+        }
+        break;
+
+      case 'ADD_TO_CONTACT_GROUP':
+        await tx.leadContactGroup.createMany({
+          data: leadIds.map((leadId) => ({
+            leadId,
+            contactGroupId: bulkDto.contactGroupId,
+          })),
+          skipDuplicates: true,
+        });
+        break;
+
+      case 'REMOVE_FROM_CONTACT_GROUP':
+        await tx.leadContactGroup.deleteMany({
+          where: {
+            contactGroupId: bulkDto.contactGroupId,
+            leadId: { in: leadIds },
+          },
+        });
+        break;
+
+      case 'ADD_TAGS':
+        await tx.leadTag.createMany({
+          data: leads.flatMap((lead) =>
+            [...new Set(bulkDto.tagIds)].map((tagId) => ({
+              leadId: lead.id,
+              tagId,
+              assignedById: currentUser.id,
+              tenantId: lead.tenantId,
+            })),
+          ),
+          skipDuplicates: true,
+        });
+        break;
+
+      case 'REMOVE_TAGS':
+        await tx.leadTag.deleteMany({
+          where: { tagId: { in: bulkDto.tagIds }, leadId: { in: leadIds } },
+        });
+        break;
+
+      case 'UPDATE_SCORE':
+        await tx.lead.updateMany({
+          where: { id: { in: leadIds } },
+          data: { manualScore: bulkDto.score ?? null },
+        });
+        for (const lead of leads) {
+          const fromScore = lead.manualScore ?? lead.score;
+          const toScore = bulkDto.score ?? lead.score;
+          if (fromScore === toScore) continue;
+
+          await this.leadActivityService.recordScoreChange(
+            {
+              leadId: lead.id,
+              tenantId: lead.tenantId,
+              fromScore,
+              toScore,
+              changedById: currentUser.id,
+              note:
+                typeof bulkDto.score === 'number'
+                  ? 'Manual score override'
+                  : 'Manual score override cleared',
+              source: 'BULK',
+            },
+            tx,
+          );
+        }
+        break;
+
+      case 'DELETE':
+        await tx.lead.updateMany({
+          where: { id: { in: leadIds } },
+          data: { deletedAt: new Date(), deletedById: currentUser.id },
+        });
+        break;
+    }
+  }
+
+  /**
+   * Notifications, follow-up tasks and re-scoring, once the changes are
+   * committed
+   */
+  private async afterCommit(
+    bulkDto: BulkLeadActionDto,
+    updatedLeads: TargetLead[],
+    currentUser: any,
+  ) {
+    if (updatedLeads.length === 0) return;
+    const updatedIds = updatedLeads.map((lead) => lead.id);
+
+    if (
+      bulkDto.action === 'ASSIGN' &&
+      bulkDto.assignedUserId !== currentUser.id
+    ) {
+      // One summary notification rather than one per lead
+      await this.notificationsService.create({
+        userId: bulkDto.assignedUserId,
+        type: 'LEAD_ASSIGNED',
+        title: 'New Leads Assigned',
+        message: `You have been assigned ${updatedIds.length} lead${updatedIds.length === 1 ? '' : 's'}`,
+        metadata: {
+          leadIds: updatedIds,
+          assignedById: currentUser.id,
+        },
+      });
+    }
+
+    // Like a single status change, each lead gets its stage's follow-up task
+    if (bulkDto.action === 'CHANGE_STATUS') {
+      for (const lead of updatedLeads) {
+        await this.leadsService.createAutoFollowUpTask(
+          lead.id,
+          lead.tenantId,
+          bulkDto.status,
+          lead.assignedUserId ?? currentUser.id,
+        );
+      }
+    }
+
+    // Scoring rules look at lead fields and engagement, not at tags or
+    // contact groups, so only these actions can change the score
+    if (bulkDto.action === 'CHANGE_STATUS' || bulkDto.action === 'ASSIGN') {
+      const reason =
+        bulkDto.action === 'ASSIGN' ? 'bulk assignment' : 'bulk status change';
+      for (const leadId of updatedIds) {
+        await this.leadScoringService.rescoreLead(leadId, reason);
+      }
+    }
+  }
+}
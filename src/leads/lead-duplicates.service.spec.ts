@@ -0,0 +1,311 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadDuplicatesService } from './lead-duplicates.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadActivityService } from './lead-activity.service';
+
+// Lead-owned models moved with a plain leadId update
+const MOVED_MODELS = [
+  'communication',
+  'task',
+  'chatMessage',
+  'emailMessage',
+  'ticket',
+  'aIConversation',
+  'quote',
+  'leadActivity',
+  'leadStageTransition',
+  'leadSlaBreach',
+  'leadFormSubmission',
+  'apiLeadSubmission',
+  'campaignRecipientSkip',
+];
+
+const TX_MODELS = [
+  ...MOVED_MODELS,
+  'lead',
+  'client',
+  'leadMerge',
+  'leadContactGroup',
+  'leadProduct',
+  'leadTag',
+  'marketingConsent',
+  'relationship',
+  'referrer',
+  'referralReward',
+];
+
+const txModel = () => ({
+  findMany: jest.fn().mockResolvedValue([]),
+  findUnique: jest.fn().mockResolvedValue(null),
+  create: jest.fn(),
+  createMany: jest.fn().mockResolvedValue({ count: 0 }),
+  update: jest.fn(),
+  updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+  delete: jest.fn(),
+  deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+});
+
+const lead = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  firstName: 'Ada',
+  lastName: 'Lovelace',
+  email: 'ada@example.com',
+  phone: '+15550100',
+  alternatePhone: 'n/a',
+  preferredContact: 'EMAIL',
+  address: '1 Main St',
+  city: 'Austin',
+  state: 'TX',
+  zipCode: '78701',
+  inquiryDetails: 'Term life',
+  budget: 100,
+  expectedCloseDate: new Date('2026-12-01'),
+  assignedUserId: 'agent-1',
+  referrerId: null,
+  country: 'US',
+  tenantId: 'tenant-1',
+  createdAt: new Date('2026-10-01'),
+  client: null,
+  ...overrides,
+});
+
+describe('LeadDuplicatesService', () => {
+  let service: LeadDuplicatesService;
+  let tx: Record<string, ReturnType<typeof txModel>>;
+  const prisma = {
+    addTenantFilter: jest.fn(),
+    lead: { findMany: jest.fn(), findFirst: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  const leadScoringService = { rescoreLead: jest.fn() };
+  const leadActivityService = { recordAssignment: jest.fn() };
+
+  const movedRecords = () =>
+    tx.leadMerge.create.mock.calls[0][0].data.movedRecords;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tx = Object.fromEntries(TX_MODELS.map((name) => [name, txModel()]));
+
+    prisma.addTenantFilter.mockImplementation((where) => where);
+    prisma.lead.findMany.mockResolvedValue([
+      lead('survivor'),
+      lead('duplicate', { createdAt: new Date('2026-09-01') }),
+    ]);
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LeadDuplicatesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LeadScoringService, useValue: leadScoringService },
+        { provide: LeadActivityService, useValue: leadActivityService },
+      ],
+    }).compile();
+
+    service = module.get(LeadDuplicatesService);
+  });
+
+  const merge = () =>
+    service.mergeLeads('survivor', ['duplicate'], { id: 'user-1' });
+
+  it('moves every lead-owned record to the survivor', async () => {
+    for (const name of MOVED_MODELS) {
+      tx[name].updateMany.mockResolvedValue({ count: 2 });
+    }
+
+    await merge();
+
+    for (const name of MOVED_MODELS) {
+      expect(tx[name].updateMany).toHaveBeenCalledWith({
+        where: { leadId: 'duplicate' },
+        data: { leadId: 'survivor' },
+      });
+    }
+    expect(movedRecords()).toMatchObject({
+      communications: 2,
+      tasks: 2,
+      activities: 2,
+      stageTransitions: 2,
+      slaBreaches: 2,
+      formSubmissions: 2,
+      apiSubmissions: 2,
+      campaignSkips: 2,
+    });
+    expect(tx.leadMerge.updateMany).toHaveBeenCalledWith({
+      where: { survivorLeadId: 'duplicate' },
+      data: { survivorLeadId: 'survivor' },
+    });
+    expect(tx.lead.delete).toHaveBeenCalledWith({ where: { id: 'duplicate' } });
+    expect(leadScoringService.rescoreLead).toHaveBeenCalledWith(
+      'survivor',
+      'lead merge',
+    );
+  });
+
+  it('keeps the survivor its own group memberships and products', async () => {
+    tx.leadContactGroup.findMany.mockResolvedValue([
+      { contactGroupId: 'group-1' },
+    ]);
+    tx.leadProduct.findMany.mockResolvedValue([{ productId: 'product-1' }]);
+
+    await merge();
+
+    expect(tx.leadContactGroup.updateMany).toHaveBeenCalledWith({
+      where: { leadId: 'duplicate', contactGroupId: { notIn: ['group-1'] } },
+      data: { leadId: 'survivor' },
+    });
+    expect(tx.leadProduct.updateMany).toHaveBeenCalledWith({
+      where: { leadId: 'duplicate', productId: { notIn: ['product-1'] } },
+      data: { leadId: 'survivor' },
+    });
+  });
+
+  it('copies tags the survivor lacks', async () => {
+    const createdAt = new Date('2026-09-02');
+    tx.leadTag.findMany.mockResolvedValue([
+      {
+        leadId: 'duplicate',
+        tagId: 'tag-1',
+        assignedById: 'user-2',
+        tenantId: 'tenant-1',
+        createdAt,
+      },
+    ]);
+    tx.leadTag.createMany.mockResolvedValue({ count: 1 });
+
+    await merge();
+
+    expect(tx.leadTag.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          leadId: 'survivor',
+          tagId: 'tag-1',
+          assignedById: 'user-2',
+          tenantId: 'tenant-1',
+          createdAt,
+        },
+      ],
+      skipDuplicates: true,
+    });
+    expect(tx.leadTag.deleteMany).toHaveBeenCalledWith({
+      where: { leadId: 'duplicate' },
+    });
+    expect(movedRecords().tags).toBe(1);
+  });
+
+  it('keeps the most recent consent decision per channel', async () => {
+    tx.marketingConsent.findMany.mockImplementation(({ where }) =>
+      Promise.resolve(
+        where.leadId === 'survivor'
+          ? [
+              {
+                id: 'survivor-email',
+                channel: 'EMAIL',
+                recordedAt: new Date('2026-09-01'),
+              },
+              {
+                id: 'survivor-sms',
+                channel: 'SMS',
+                recordedAt: new Date('2026-10-01'),
+              },
+            ]
+          : [
+              {
+                id: 'duplicate-email',
+                channel: 'EMAIL',
+                recordedAt: new Date('2026-10-01'),
+              },
+              {
+                id: 'duplicate-sms',
+                channel: 'SMS',
+                recordedAt: new Date('2026-09-01'),
+              },
+            ],
+      ),
+    );
+
+    await merge();
+
+    expect(tx.marketingConsent.delete).toHaveBeenCalledTimes(1);
+    expect(tx.marketingConsent.delete).toHaveBeenCalledWith({
+      where: { id: 'survivor-email' },
+    });
+    expect(tx.marketingConsent.update).toHaveBeenCalledTimes(1);
+    expect(tx.marketingConsent.update).toHaveBeenCalledWith({
+      where: { id: 'duplicate-email' },
+      data: { leadId: 'survivor' },
+    });
+    expect(movedRecords().marketingConsents).toBe(1);
+  });
+
+  it('repoints relationships and drops those between the merged leads', async () => {
+    tx.relationship.updateMany.mockResolvedValue({ count: 1 });
+
+    await merge();
+
+    expect(tx.relationship.deleteMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { fromLeadId: 'duplicate', toLeadId: 'survivor' },
+          { fromLeadId: 'survivor', toLeadId: 'duplicate' },
+        ],
+      },
+    });
+    expect(tx.relationship.updateMany).toHaveBeenCalledWith({
+      where: { fromLeadId: 'duplicate' },
+      data: { fromLeadId: 'survivor' },
+    });
+    expect(tx.relationship.updateMany).toHaveBeenCalledWith({
+      where: { toLeadId: 'duplicate' },
+      data: { toLeadId: 'survivor' },
+    });
+    expect(movedRecords().relationships).toBe(2);
+  });
+
+  it('credits referrals to the survivor referrer profile', async () => {
+    tx.referrer.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve({ id: `${where.leadId}-referrer` }),
+    );
+    tx.lead.updateMany.mockResolvedValue({ count: 3 });
+    tx.client.updateMany.mockResolvedValue({ count: 1 });
+
+    await merge();
+
+    expect(tx.lead.updateMany).toHaveBeenCalledWith({
+      where: { referrerId: 'duplicate-referrer', deletedAt: undefined },
+      data: { referrerId: 'survivor-referrer' },
+    });
+    expect(tx.referrer.delete).toHaveBeenCalledWith({
+      where: { id: 'duplicate-referrer' },
+    });
+    expect(movedRecords().referrals).toBe(4);
+  });
+
+  it('moves the client of a converted duplicate', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      lead('survivor'),
+      lead('duplicate', { client: { id: 'client-1' } }),
+    ]);
+
+    await merge();
+
+    expect(tx.client.update).toHaveBeenCalledWith({
+      where: { id: 'client-1' },
+      data: { leadId: 'survivor' },
+    });
+    expect(movedRecords().client).toBe(1);
+  });
+
+  it('rejects merging two converted leads', async () => {
+    prisma.lead.findMany.mockResolvedValue([
+      lead('survivor', { client: { id: 'client-1' } }),
+      lead('duplicate', { client: { id: 'client-2' } }),
+    ]);
+
+    await expect(merge()).rejects.toThrow(BadRequestException);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,810 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Lead, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadActivityService } from './lead-activity.service';
+
+export type DuplicateMatchReason = 'PHONE' | 'EMAIL' | 'NAME';
+
+export interface DuplicateCandidate {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  alternatePhone: string | null;
+  country: string | null;
+  status: string;
+  source: string;
+  assignedUserId: string | null;
+  createdAt: Date;
+}
+
+export interface DuplicatePair {
+  lead: DuplicateCandidate;
+  duplicate: DuplicateCandidate;
+  score: number;
+  reasons: DuplicateMatchReason[];
+}
+
+interface ContactKeys {
+  phones: string[];
+  email: string | null;
+  name: string | null;
+}
+
+/**
+ * Calling codes used to expand national phone numbers to E.164, keyed by
+ * the lead's ISO country code. Leads without a country are treated as US.
+ */
+const COUNTRY_CALLING_CODES: Record<string, string> = {
+  US: '1',
+  CA: '1',
+  GB: '44',
+  IE: '353',
+  NG: '234',
+  GH: '233',
+  KE: '254',
+  ZA: '27',
+  IN: '91',
+  AU: '61',
+  DE: '49',
+  FR: '33',
+};
+
+// Placeholder values written by the auto-create paths, never a real match.
+// Names are in normalized form (lowercase, parts sorted).
+const PLACEHOLDER_EMAIL_PATTERN = /^whatsapp_.*@temp\.com$/;
+const PLACEHOLDER_NAMES = new Set(['user whatsapp', 'unknown', 'customer']);
+
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+const PHONE_WEIGHT = 60;
+const EMAIL_WEIGHT = 60;
+const NAME_WEIGHT = 40;
+
+// Names are blocked on their first and last few characters, so a typo
+// still leaves the pair sharing one of the two blocks
+const NAME_BLOCK_KEY_LENGTH = 4;
+// Larger name blocks are common names, too costly to compare pair by pair
+const MAX_NAME_BLOCK_SIZE = 500;
+// Comparisons between yields to the event loop during a tenant-wide scan
+const COMPARISONS_PER_TICK = 5000;
+
+const CANDIDATE_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  alternatePhone: true,
+  country: true,
+  status: true,
+  source: true,
+  assignedUserId: true,
+  createdAt: true,
+} as const;
+
+/**
+ * LeadDuplicatesService - Finds and merges leads that describe the same person
+ *
+ * Leads are matched on phone numbers normalized to E.164, case-insensitive
+ * email and fuzzy full name. Merging moves every related record onto the
+ * surviving lead, deletes the duplicate and keeps a LeadMerge record.
+ */
+@Injectable()
+export class LeadDuplicatesService {
+  private readonly logger = new Logger(LeadDuplicatesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadScoringService: LeadScoringService,
+    private leadActivityService: LeadActivityService,
+  ) {}
+
+  /**
+   * Normalize a phone number to E.164 (+<country code><number>). National
+   * numbers are expanded with the calling code of the given country.
+   */
+  normalizePhone(
+    phone: string | null | undefined,
+    country?: string | null,
+  ): string | null {
+    if (!phone) return null;
+
+    const trimmed = phone.trim();
+    let digits = trimmed.replace(/\D/g, '');
+    if (digits.length < 7) return null;
+
+    if (trimmed.startsWith('+')) return `+${digits}`;
+    if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+
+    const callingCode =
+      COUNTRY_CALLING_CODES[(country || 'US').toUpperCase()] || '1';
+
+    // North American numbers are often stored with the country code but no +
+    if (callingCode === '1') {
+      if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`;
+      if (digits.length === 10) return `+1${digits}`;
+      return `+${digits}`;
+    }
+
+    if (digits.startsWith(callingCode) && digits.length > 10) {
+      return `+${digits}`;
+    }
+
+    // Drop the national trunk prefix (e.g. 0803... in Nigeria)
+    if (digits.startsWith('0')) digits = digits.slice(1);
+    return `+${callingCode}${digits}`;
+  }
+
+  normalizeEmail(email: string | null | undefined): string | null {
+    if (!email) return null;
+
+    const normalized = email.trim().toLowerCase();
+    if (!normalized || PLACEHOLDER_EMAIL_PATTERN.test(normalized)) return null;
+    return normalized;
+  }
+
+  /**
+   * Similarity of two full names between 0 and 1, ignoring case, accents,
+   * punctuation and the order of the name parts
+   */
+  nameSimilarity(a: string, b: string): number {
+    const left = this.normalizeName(a);
+    const right = this.normalizeName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+
+    const longest = Math.max(left.length, right.length);
+    return 1 - this.levenshtein(left, right) / longest;
+  }
+
+  /**
+   * Suspected duplicate pairs across the tenant, strongest matches first.
+   * Only leads sharing a phone, an email or the start or end of their name
+   * are compared, yielding to the event loop as the scan goes.
+   */
+  async findDuplicatePairs(limit = 50): Promise<DuplicatePair[]> {
+    const leads = await this.prisma.lead.findMany({
+      where: this.prisma.addTenantFilter({}),
+      select: CANDIDATE_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const keys = new Map(
+      leads.map((lead) => [lead.id, this.contactKeys(lead)]),
+    );
+
+    // Only compare leads that share a blocking key, instead of every pair
+    const blocks = new Map<string, DuplicateCandidate[]>();
+    const addToBlock = (key: string, lead: DuplicateCandidate) => {
+      const block = blocks.get(key) || [];
+      block.push(lead);
+      blocks.set(key, block);
+    };
+    for (const lead of leads) {
+      const leadKeys = keys.get(lead.id);
+      leadKeys.phones.forEach((phone) => addToBlock(`phone:${phone}`, lead));
+      if (leadKeys.email) addToBlock(`email:${leadKeys.email}`, lead);
+      if (leadKeys.name) {
+        const name = leadKeys.name;
+        addToBlock(`name^${name.slice(0, NAME_BLOCK_KEY_LENGTH)}`, lead);
+        addToBlock(`name$${name.slice(-NAME_BLOCK_KEY_LENGTH)}`, lead);
+      }
+    }
+
+    const pairs = new Map<string, DuplicatePair>();
+    let comparisons = 0;
+    for (const [blockKey, block] of blocks) {
+      if (blockKey.startsWith('name') && block.length > MAX_NAME_BLOCK_SIZE) {
+        this.logger.debug(
+          `Skipping name block ${blockKey} of ${block.length} leads`,
+        );
+        continue;
+      }
+
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const pairKey = `${block[i].id}:${block[j].id}`;
+          if (pairs.has(pairKey)) continue;
+
+          if (++comparisons % COMPARISONS_PER_TICK === 0) {
+            await new Promise((resolve) => setImmediate(resolve));
+          }
+
+          const match = this.compare(
+            keys.get(block[i].id),
+            keys.get(block[j].id),
+          );
+          if (match) {
+            pairs.set(pairKey, {
+              lead: block[i],
+              duplicate: block[j],
+              ...match,
+            });
+          }
+        }
+      }
+    }
+
+    return Array.from(pairs.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Suspected duplicates of a single lead, strongest matches first
+   */
+  async findDuplicatesOfLead(leadId: string) {
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: leadId }),
+      select: CANDIDATE_SELECT,
+    });
+
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const matches = await this.findMatchesForContact(lead, leadId);
+    return matches.map(({ lead: duplicate, score, reasons }) => ({
+      duplicate,
+      score,
+      reasons,
+    }));
+  }
+
+  /**
+   * Existing leads that match the given contact details. Used before creating
+   * a lead to tell whether the person is already known.
+   */
+  async findMatchesForContact(
+    contact: {
+      firstName?: string | null;
+      lastName?: string | null;
+      email?: string | null;
+      phone?: string | null;
+      alternatePhone?: string | null;
+      country?: string | null;
+    },
+    excludeLeadId?: string,
+  ) {
+    const target = this.contactKeys(contact);
+
+    // Narrow the candidates in the database, then score them precisely
+    const or: Prisma.LeadWhereInput[] = [];
+    if (target.email) or.push({ email: target.email });
+    for (const phone of target.phones) {
+      const tail = phone.slice(-7);
+      or.push({ phone: { contains: tail } });
+      or.push({ alternatePhone: { contains: tail } });
+    }
+    if (contact.firstName?.trim()) {
+      or.push({ firstName: { contains: contact.firstName.trim() } });
+    }
+    if (contact.lastName?.trim()) {
+      or.push({ lastName: { contains: contact.lastName.trim() } });
+    }
+    if (or.length === 0) return [];
+
+    const candidates = await this.prisma.lead.findMany({
+      where: this.prisma.addTenantFilter({
+        OR: or,
+        ...(excludeLeadId && { id: { not: excludeLeadId } }),
+      }),
+      select: CANDIDATE_SELECT,
+      take: 200,
+    });
+
+    return candidates
+      .map((candidate) => {
+        const match = this.compare(target, this.contactKeys(candidate));
+        return match ? { lead: candidate, ...match } : null;
+      })
+      .filter((match): match is NonNullable<typeof match> => match !== null)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Merge duplicate leads into the survivor. Related records are moved, empty
+   * survivor fields are filled from the duplicates, and each duplicate is
+   * deleted with a LeadMerge record left behind.
+   */
+  async mergeLeads(
+    survivorId: string,
+    duplicateIds: string[],
+    currentUser: any,
+  ) {
+    const uniqueDuplicateIds = [...new Set(duplicateIds)].filter(
+      (id) => id !== survivorId,
+    );
+    if (uniqueDuplicateIds.length === 0) {
+      throw new BadRequestException(
+        'At least one lead other than the surviving lead is required',
+      );
+    }
+
+    const leads = await this.prisma.lead.findMany({
+      where: this.prisma.addTenantFilter({
+        id: { in: [survivorId, ...uniqueDuplicateIds] },
+      }),
+      include: { client: { select: { id: true } } },
+    });
+
+    const survivor = leads.find((lead) => lead.id === survivorId);
+    if (!survivor) {
+      throw new NotFoundException('Lead not found');
+    }
+    const duplicates = uniqueDuplicateIds.map((id) => {
+      const duplicate = leads.find((lead) => lead.id === id);
+      if (!duplicate) {
+        throw new NotFoundException(`Lead ${id} not found`);
+      }
+      return duplicate;
+    });
+
+    const convertedLeads = leads.filter((lead) => lead.client);
+    if (convertedLeads.length > 1) {
+      throw new BadRequestException(
+        'Only one of the merged leads can already be converted to a client',
+      );
+    }
+
+    const survivorKeys = this.contactKeys(survivor);
+
+    await this.prisma.$transaction(async (tx) => {
+      let hasClient = !!survivor.client;
+
+      for (const duplicate of duplicates) {
+        const movedRecords = await this.moveRelatedRecords(
+          tx,
+          duplicate.id,
+          survivor.id,
+        );
+
+        if (duplicate.client && !hasClient) {
+          await tx.client.update({
+            where: { id: duplicate.client.id },
+            data: { leadId: survivor.id },
+          });
+          movedRecords.client = 1;
+          hasClient = true;
+        }
+
+        await tx.leadMerge.create({
+          data: {
+            survivorLeadId: survivor.id,
+            mergedLeadId: duplicate.id,
+            mergedLeadData: JSON.parse(
+              JSON.stringify({ ...duplicate, client: undefined }),
+            ),
+            movedRecords,
+            matchReasons:
+              this.compare(survivorKeys, this.contactKeys(duplicate))
+                ?.reasons ?? [],
+            mergedById: currentUser.id,
+            tenantId: survivor.tenantId,
+          },
+        });
+
+        await tx.lead.delete({ where: { id: duplicate.id } });
+      }
+
+      const filledFields = this.fillEmptyFields(survivor, duplicates);
+      if (filledFields.referrerId) {
+        const referrer = await tx.referrer.findUnique({
+          where: { id: filledFields.referrerId },
+          select: { leadId: true },
+        });
+        // Merged away with a duplicate, or now the survivor's own profile
+        if (!referrer || referrer.leadId === survivor.id) {
+          delete filledFields.referrerId;
+        }
+      }
+      if (Object.keys(filledFields).length > 0) {
+        await tx.lead.update({
+          where: { id: survivor.id },
+          data: filledFields,
+        });
+      }
+
+      if (filledFields.assignedUserId) {
+        await this.leadActivityService.recordAssignment(
+          {
+            leadId: survivor.id,
+            tenantId: survivor.tenantId,
+            toUserId: filledFields.assignedUserId,
+            changedById: currentUser.id,
+            note: 'Assignee taken over from a merged duplicate',
+            source: 'MERGE',
+          },
+          tx,
+        );
+      }
+    });
+
+    this.logger.log(`Merged ${duplicates.length} lead(s) into ${survivor.id}`);
+
+    // The survivor picked up the duplicates' fields and engagement history
+    await this.leadScoringService.rescoreLead(survivor.id, 'lead merge');
+
+    return this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: survivor.id }),
+      include: {
+        mergedDuplicates: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+  }
+
+  /**
+   * Merge records of the leads folded into this one
+   */
+  async getMergeHistory(leadId: string) {
+    return this.prisma.leadMerge.findMany({
+      where: this.prisma.addTenantFilter({ survivorLeadId: leadId }),
+      orderBy: { createdAt: 'desc' },
+      include: {
+        mergedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+  }
+
+  private async moveRelatedRecords(
+    tx: Prisma.TransactionClient,
+    fromLeadId: string,
+    toLeadId: string,
+  ): Promise<Record<string, number>> {
+    const where = { leadId: fromLeadId };
+    const data = { leadId: toLeadId };
+
+    const [
+      communications,
+      tasks,
+      chatMessages,
+      emailMessages,
+      tickets,
+      aiConversations,
+      quotes,
+      activities,
+      stageTransitions,
+      slaBreaches,
+      formSubmissions,
+      apiSubmissions,
+      campaignSkips,
+    ] = await Promise.all([
+      tx.communication.updateMany({ where, data }),
+      tx.task.updateMany({ where, data }),
+      tx.chatMessage.updateMany({ where, data }),
+      tx.emailMessage.updateMany({ where, data }),
+      tx.ticket.updateMany({ where, data }),
+      tx.aIConversation.updateMany({ where, data }),
+      tx.quote.updateMany({ where, data }),
+      // History stays on the timeline of the lead it was merged into
+      tx.leadActivity.updateMany({ where, data }),
+      tx.leadStageTransition.updateMany({ where, data }),
+      tx.leadSlaBreach.updateMany({ where, data }),
+      tx.leadFormSubmission.updateMany({ where, data }),
+      tx.apiLeadSubmission.updateMany({ where, data }),
+      tx.campaignRecipientSkip.updateMany({ where, data }),
+    ]);
+
+    // Earlier merges into the duplicate now belong to the survivor
+    await tx.leadMerge.updateMany({
+      where: { survivorLeadId: fromLeadId },
+      data: { survivorLeadId: toLeadId },
+    });
+
+    // WhatsApp conversations also reference their lead in metadata
+    const linkedConversations = await tx.aIConversation.findMany({
+      where: { metadata: { path: '$.leadId', equals: fromLeadId } },
+      select: { id: true, metadata: true },
+    });
+    for (const conversation of linkedConversations) {
+      await tx.aIConversation.update({
+        where: { id: conversation.id },
+        data: {
+          metadata: {
+            ...(conversation.metadata as Record<string, any>),
+            leadId: toLeadId,
+          },
+        },
+      });
+    }
+
+    // Memberships and products are unique per lead: keep the survivor's own
+    const [survivorGroups, survivorProducts] = await Promise.all([
+      tx.leadContactGroup.findMany({
+        where: { leadId: toLeadId },
+        select: { contactGroupId: true },
+      }),
+      tx.leadProduct.findMany({
+        where: { leadId: toLeadId },
+        select: { productId: true },
+      }),
+    ]);
+
+    const contactGroups = await tx.leadContactGroup.updateMany({
+      where: {
+        leadId: fromLeadId,
+        contactGroupId: {
+          notIn: survivorGroups.map((group) => group.contactGroupId),
+        },
+      },
+      data,
+    });
+    const leadProducts = await tx.leadProduct.updateMany({
+      where: {
+        leadId: fromLeadId,
+        productId: {
+          notIn: survivorProducts.map((product) => product.productId),
+        },
+      },
+      data,
+    });
+
+    // Tags are unique per lead: the survivor keeps one of each
+    const duplicateTags = await tx.leadTag.findMany({
+      where: { leadId: fromLeadId },
+    });
+    const tags = await tx.leadTag.createMany({
+      data: duplicateTags.map((tag) => ({
+        leadId: toLeadId,
+        tagId: tag.tagId,
+        assignedById: tag.assignedById,
+        tenantId: tag.tenantId,
+        createdAt: tag.createdAt,
+      })),
+      skipDuplicates: true,
+    });
+    await tx.leadTag.deleteMany({ where: { leadId: fromLeadId } });
+
+    // Consent is unique per channel: the most recent decision wins
+    const [survivorConsents, duplicateConsents] = await Promise.all([
+      tx.marketingConsent.findMany({ where: { leadId: toLeadId } }),
+      tx.marketingConsent.findMany({ where: { leadId: fromLeadId } }),
+    ]);
+    let marketingConsents = 0;
+    for (const consent of duplicateConsents) {
+      const current = survivorConsents.find(
+        (c) => c.channel === consent.channel,
+      );
+      if (current && current.recordedAt >= consent.recordedAt) continue;
+
+      if (current) {
+        await tx.marketingConsent.delete({ where: { id: current.id } });
+      }
+      await tx.marketingConsent.update({ where: { id: consent.id }, data });
+      marketingConsents++;
+    }
+
+    // Links between the two would relate the survivor to itself
+    await tx.relationship.deleteMany({
+      where: {
+        OR: [
+          { fromLeadId, toLeadId },
+          { fromLeadId: toLeadId, toLeadId: fromLeadId },
+        ],
+      },
+    });
+    const [relationshipsFrom, relationshipsTo] = await Promise.all([
+      tx.relationship.updateMany({
+        where: { fromLeadId },
+        data: { fromLeadId: toLeadId },
+      }),
+      tx.relationship.updateMany({
+        where: { toLeadId: fromLeadId },
+        data: { toLeadId },
+      }),
+    ]);
+
+    const referrals = await this.moveReferrals(tx, fromLeadId, toLeadId);
+
+    return {
+      communications: communications.count,
+      tasks: tasks.count,
+      chatMessages: chatMessages.count,
+      emailMessages: emailMessages.count,
+      tickets: tickets.count,
+      aiConversations: aiConversations.count,
+      quotes: quotes.count,
+      activities: activities.count,
+      stageTransitions: stageTransitions.count,
+      slaBreaches: slaBreaches.count,
+      formSubmissions: formSubmissions.count,
+      apiSubmissions: apiSubmissions.count,
+      campaignSkips: campaignSkips.count,
+      contactGroups: contactGroups.count,
+      leadProducts: leadProducts.count,
+      tags: tags.count,
+      marketingConsents,
+      referrals,
+      relationships: relationshipsFrom.count + relationshipsTo.count,
+    };
+  }
+
+  /**
+   * A duplicate's referrer profile moves to the survivor, or its referrals
+   * are credited to the survivor's own profile. Returns the number of
+   * referred leads and clients moved.
+   */
+  private async moveReferrals(
+    tx: Prisma.TransactionClient,
+    fromLeadId: string,
+    toLeadId: string,
+  ): Promise<number> {
+    const [survivorProfile, duplicateProfile, survivorReward] =
+      await Promise.all([
+        tx.referrer.findUnique({ where: { leadId: toLeadId } }),
+        tx.referrer.findUnique({ where: { leadId: fromLeadId } }),
+        tx.referralReward.findUnique({ where: { leadId: toLeadId } }),
+      ]);
+
+    // A reward earned by the duplicate's conversion, unless the survivor has one
+    if (!survivorReward) {
+      await tx.referralReward.updateMany({
+        where: { leadId: fromLeadId },
+        data: { leadId: toLeadId },
+      });
+    }
+
+    if (!duplicateProfile) return 0;
+
+    if (!survivorProfile) {
+      await tx.referrer.update({
+        where: { id: duplicateProfile.id },
+        data: { leadId: toLeadId },
+      });
+      return 0;
+    }
+
+    const where = { referrerId: duplicateProfile.id, deletedAt: undefined };
+    const data = { referrerId: survivorProfile.id };
+    const [leads, clients] = await Promise.all([
+      tx.lead.updateMany({ where, data }),
+      tx.client.updateMany({ where, data }),
+      tx.referralReward.updateMany({
+        where: { referrerId: duplicateProfile.id },
+        data,
+      }),
+    ]);
+    await tx.referrer.delete({ where: { id: duplicateProfile.id } });
+
+    return leads.count + clients.count;
+  }
+
+  /**
+   * Values from the duplicates (oldest first) for fields the survivor lacks
+   */
+  private fillEmptyFields(survivor: Lead, duplicates: Lead[]) {
+    const fillable = [
+      'email',
+      'phone',
+      'alternatePhone',
+      'preferredContact',
+      'address',
+      'city',
+      'state',
+      'zipCode',
+      'inquiryDetails',
+      'budget',
+      'expectedCloseDate',
+      'assignedUserId',
+      'referrerId',
+    ] as const;
+
+    const ordered = [...duplicates].sort(
+      (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+    );
+
+    const filled: Record<string, any> = {};
+    for (const field of fillable) {
+      const current = survivor[field];
+      const isEmpty =
+        current === null ||
+        current === '' ||
+        (field === 'email' && !this.normalizeEmail(current as string));
+      if (!isEmpty) continue;
+
+      const source = ordered.find((lead) =>
+        field === 'email'
+          ? this.normalizeEmail(lead.email)
+          : lead[field] !== null && lead[field] !== '',
+      );
+      if (source) filled[field] = source[field];
+    }
+
+    return filled;
+  }
+
+  private compare(
+    a: ContactKeys,
+    b: ContactKeys,
+  ): { score: number; reasons: DuplicateMatchReason[] } | null {
+    const reasons: DuplicateMatchReason[] = [];
+    let score = 0;
+
+    if (a.phones.some((phone) => b.phones.includes(phone))) {
+      reasons.push('PHONE');
+      score += PHONE_WEIGHT;
+    }
+
+    if (a.email && a.email === b.email) {
+      reasons.push('EMAIL');
+      score += EMAIL_WEIGHT;
+    }
+
+    if (a.name && b.name) {
+      const similarity = this.nameSimilarity(a.name, b.name);
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+        reasons.push('NAME');
+        score += Math.round(similarity * NAME_WEIGHT);
+      }
+    }
+
+    return reasons.length > 0 ? { score: Math.min(score, 100), reasons } : null;
+  }
+
+  private contactKeys(contact: {
+    firstName?: string | null;
+    lastName?: string | null;
+    email?: string | null;
+    phone?: string | null;
+    alternatePhone?: string | null;
+    country?: string | null;
+  }): ContactKeys {
+    const phones = [contact.phone, contact.alternatePhone]
+      .map((phone) => this.normalizePhone(phone, contact.country))
+      .filter((phone): phone is string => !!phone);
+
+    const name = this.normalizeName(
+      `${contact.firstName || ''} ${contact.lastName || ''}`,
+    );
+
+    return {
+      phones: [...new Set(phones)],
+      email: this.normalizeEmail(contact.email),
+      name:
+        name && !PLACEHOLDER_NAMES.has(name) && name.length >= 3 ? name : null,
+    };
+  }
+
+  private normalizeName(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .sort()
+      .join(' ');
+  }
+
+  private levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
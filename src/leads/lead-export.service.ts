@@ -0,0 +1,328 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import type { Response } from 'express';
+import { once } from 'events';
+import * as XLSX from 'xlsx';
+import { PrismaService } from '../common/services/prisma.service';
+import { ExportLeadsDto } from './dto/export-leads.dto';
+import { LeadsService } from './leads.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { CustomFieldEntity } from '../custom-fields/enums/custom-field.enums';
+
+interface ExportColumn {
+  header: string;
+  value: (lead: any) => any;
+}
+
+/**
+ * Columns available for export, in their default order. Lead custom fields
+ * are added as custom.<key> columns.
+ */
+const EXPORT_COLUMNS: Record<string, ExportColumn> = {
+  id: { header: 'ID', value: (lead) => lead.id },
+  firstName: { header: 'First Name', value: (lead) => lead.firstName },
+  lastName: { header: 'Last Name', value: (lead) => lead.lastName },
+  email: { header: 'Email', value: (lead) => lead.email },
+  phone: { header: 'Phone', value: (lead) => lead.phone },
+  alternatePhone: {
+    header: 'Alternate Phone',
+    value: (lead) => lead.alternatePhone,
+  },
+  status: { header: 'Status', value: (lead) => lead.status },
+  source: { header: 'Source', value: (lead) => lead.source },
+  insuranceType: {
+    header: 'Insurance Type',
+    value: (lead) => lead.insuranceType,
+  },
+  urgency: { header: 'Urgency', value: (lead) => lead.urgency },
+  score: { header: 'Score', value: (lead) => lead.score },
+  budget: {
+    header: 'Budget',
+    value: (lead) => (lead.budget !== null ? Number(lead.budget) : null),
+  },
+  address: { header: 'Address', value: (lead) => lead.address },
+  city: { header: 'City', value: (lead) => lead.city },
+  state: { header: 'State', value: (lead) => lead.state },
+  zipCode: { header: 'ZIP Code', value: (lead) => lead.zipCode },
+  country: { header: 'Country', value: (lead) => lead.country },
+  inquiryDetails: {
+    header: 'Inquiry Details',
+    value: (lead) => lead.inquiryDetails,
+  },
+  expectedCloseDate: {
+    header: 'Expected Close Date',
+    value: (lead) => lead.expectedCloseDate,
+  },
+  assignedUserName: {
+    header: 'Assigned To',
+    value: (lead) =>
+      lead.assignedUser
+        ? `${lead.assignedUser.firstName} ${lead.assignedUser.lastName}`.trim()
+        : null,
+  },
+  assignedUserEmail: {
+    header: 'Assigned To Email',
+    value: (lead) => lead.assignedUser?.email,
+  },
+  communicationsCount: {
+    header: 'Communications',
+    value: (lead) => lead._count.communications,
+  },
+  tasksCount: { header: 'Tasks', value: (lead) => lead._count.tasks },
+  lastContactedAt: {
+    header: 'Last Contacted',
+    value: (lead) => lead.lastContactedAt,
+  },
+  createdAt: { header: 'Created', value: (lead) => lead.createdAt },
+  updatedAt: { header: 'Updated', value: (lead) => lead.updatedAt },
+};
+
+const DEFAULT_COLUMNS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'status',
+  'source',
+  'insuranceType',
+  'score',
+  'assignedUserName',
+  'communicationsCount',
+  'tasksCount',
+  'createdAt',
+];
+
+const BATCH_SIZE = 500;
+
+// XLSX is a zip archive built in memory; larger exports have to use CSV
+const MAX_XLSX_ROWS = 50000;
+
+/**
+ * LeadExportService - Exports the filtered lead list as CSV or XLSX
+ *
+ * Leads are read in keyset-paginated batches. CSV is streamed to the
+ * response batch by batch; XLSX is a zip archive, so its sheet is built up
+ * batch by batch and written once complete, up to MAX_XLSX_ROWS rows.
+ */
+@Injectable()
+export class LeadExportService {
+  private readonly logger = new Logger(LeadExportService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadsService: LeadsService,
+    private customFieldsService: CustomFieldsService,
+  ) {}
+
+  async exportLeads(
+    exportDto: ExportLeadsDto,
+    currentUser: any,
+    res: Response,
+  ) {
+    const customColumns = await this.getCustomFieldColumns();
+    const availableColumns = { ...EXPORT_COLUMNS, ...customColumns };
+
+    const columnKeys = exportDto.columns?.length
+      ? exportDto.columns
+      : [...DEFAULT_COLUMNS, ...Object.keys(customColumns)];
+    const unknownColumns = columnKeys.filter((key) => !availableColumns[key]);
+    if (unknownColumns.length > 0) {
+      throw new BadRequestException(
+        `Unknown export columns: ${unknownColumns.join(', ')}. Allowed: ${Object.keys(availableColumns).join(', ')}`,
+      );
+    }
+    const columns = columnKeys.map((key) => availableColumns[key]);
+
+    const where = await this.leadsService.buildLeadWhere(
+      exportDto,
+      currentUser,
+    );
+    const format = exportDto.format || 'csv';
+    const filename = `leads_${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'xlsx') {
+      await this.writeXlsx(where, exportDto, columns, filename, res);
+    } else {
+      await this.writeCsv(where, exportDto, columns, filename, res);
+    }
+  }
+
+  private async writeCsv(
+    where: any,
+    exportDto: ExportLeadsDto,
+    columns: ExportColumn[],
+    filename: string,
+    res: Response,
+  ) {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    // BOM so spreadsheet apps open the file as UTF-8
+    res.write('\uFEFF' + this.toCsvLine(columns.map((c) => c.header)));
+
+    let rowCount = 0;
+    for await (const batch of this.readBatches(where, exportDto)) {
+      if (res.destroyed) break;
+
+      const chunk = batch
+        .map((lead) =>
+          this.toCsvLine(columns.map((column) => column.value(lead))),
+        )
+        .join('');
+      rowCount += batch.length;
+
+      // Respect backpressure so slow clients do not buffer the whole export
+      if (!res.write(chunk) && !(await this.waitForDrain(res))) break;
+    }
+
+    if (res.destroyed) {
+      this.logger.warn(
+        `CSV export aborted by the client after ${rowCount} leads`,
+      );
+      return;
+    }
+
+    res.end();
+    this.logger.log(`Exported ${rowCount} leads as CSV`);
+  }
+
+  private async writeXlsx(
+    where: any,
+    exportDto: ExportLeadsDto,
+    columns: ExportColumn[],
+    filename: string,
+    res: Response,
+  ) {
+    const total = await this.prisma.lead.count({ where });
+    if (total > MAX_XLSX_ROWS) {
+      throw new BadRequestException(
+        `XLSX exports are limited to ${MAX_XLSX_ROWS} leads and ${total} match; narrow the filters or export as CSV`,
+      );
+    }
+
+    const worksheet = XLSX.utils.aoa_to_sheet([columns.map((c) => c.header)]);
+
+    let rowCount = 0;
+    for await (const batch of this.readBatches(where, exportDto)) {
+      XLSX.utils.sheet_add_aoa(
+        worksheet,
+        batch.map((lead) => columns.map((column) => column.value(lead))),
+        { origin: -1 },
+      );
+      rowCount += batch.length;
+    }
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Leads');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    res.setHeader(
+      'Content-Type',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(buffer);
+    this.logger.log(`Exported ${rowCount} leads as XLSX`);
+  }
+
+  /**
+   * Resolves true once the response can take more data, or false when the
+   * client went away first
+   */
+  private async waitForDrain(res: Response): Promise<boolean> {
+    if (res.destroyed) return false;
+
+    const abort = new AbortController();
+    try {
+      return await Promise.race([
+        once(res, 'drain', { signal: abort.signal }).then(() => true),
+        once(res, 'close', { signal: abort.signal }).then(() => false),
+      ]);
+    } catch {
+      // 'error' on the response rejects both waits
+      return false;
+    } finally {
+      abort.abort();
+    }
+  }
+
+  /**
+   * One column per active lead custom field, headed by its label
+   */
+  private async getCustomFieldColumns(): Promise<Record<string, ExportColumn>> {
+    const fields = await this.customFieldsService.findAll(
+      CustomFieldEntity.LEAD,
+      true,
+    );
+
+    return Object.fromEntries(
+      fields.map((field) => [
+        `custom.${field.key}`,
+        {
+          header: field.label,
+          value: (lead) => {
+            const value = lead.customFields?.[field.key];
+            return typeof value === 'number'
+              ? value
+              : this.customFieldsService.formatValue(value);
+          },
+        },
+      ]),
+    );
+  }
+
+  /**
+   * Yield matching leads in batches, paging on (sort field, id) so rows are
+   * neither skipped nor repeated
+   */
+  private async *readBatches(where: any, exportDto: ExportLeadsDto) {
+    const sortField = exportDto.sortBy || 'createdAt';
+    const sortOrder = exportDto.sortOrder || 'desc';
+    let cursor: string | undefined;
+
+    while (true) {
+      const batch = await this.prisma.lead.findMany({
+        where,
+        orderBy: [{ [sortField]: sortOrder }, { id: sortOrder }],
+        take: BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+        include: {
+          assignedUser: {
+            select: {
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
+          },
+          _count: {
+            select: {
+              communications: true,
+              tasks: true,
+            },
+          },
+        },
+      });
+
+      if (batch.length === 0) return;
+      yield batch;
+      if (batch.length < BATCH_SIZE) return;
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  private toCsvLine(values: any[]): string {
+    return values.map((value) => this.toCsvCell(value)).join(',') + '\r\n';
+  }
+
+  private toCsvCell(value: any): string {
+    if (value === null || value === undefined) return '';
+
+    let text = value instanceof Date ? value.toISOString() : String(value);
+
+    // Stop spreadsheet apps from evaluating cell content as a formula
+    if (typeof value === 'string' && /^[=@+\-\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -0,0 +1,553 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import * as XLSX from 'xlsx';
+import * as path from 'path';
+import { LeadSource } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { QueueService, Job } from '../common/services/queue.service';
+import {
+  getTenantContext,
+  runWithTenantContext,
+} from '../common/context/tenant-context';
+import { CreateLeadDto } from './dto/create-lead.dto';
+import { DuplicateStrategy, ImportLeadsDto } from './dto/import-leads.dto';
+import { LeadsService } from './leads.service';
+import { LeadDuplicatesService } from './lead-duplicates.service';
+
+/**
+ * CreateLeadDto fields a spreadsheet column can be mapped to, with the
+ * header spellings recognised when no mapping is given
+ */
+const IMPORTABLE_FIELDS: Record<string, string[]> = {
+  firstName: ['first name', 'firstname', 'given name', 'forename'],
+  lastName: ['last name', 'lastname', 'surname', 'family name'],
+  email: ['email', 'e-mail', 'email address'],
+  phone: ['phone', 'phone number', 'mobile', 'mobile number', 'telephone'],
+  alternatePhone: ['alternate phone', 'other phone', 'secondary phone'],
+  source: ['source', 'lead source'],
+  insuranceType: ['insurance type', 'product', 'line of business', 'type'],
+  urgency: ['urgency', 'priority'],
+  preferredContact: ['preferred contact', 'contact preference'],
+  address: ['address', 'street', 'street address'],
+  city: ['city', 'town'],
+  state: ['state', 'province', 'region'],
+  zipCode: ['zip', 'zip code', 'postal code', 'postcode'],
+  country: ['country'],
+  inquiryDetails: ['inquiry details', 'notes', 'comments', 'details'],
+  budget: ['budget', 'monthly budget'],
+  expectedCloseDate: ['expected close date', 'close date'],
+  assignedUserId: ['assigned to', 'agent', 'owner', 'assigned user'],
+};
+
+const NUMBER_FIELDS = ['urgency', 'budget'];
+const ENUM_FIELDS = ['source', 'insuranceType', 'preferredContact'];
+const ALLOWED_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+const MAX_IMPORT_ROWS = 10000;
+const PROGRESS_UPDATE_INTERVAL = 25;
+
+export const LEAD_IMPORT_JOB = 'LEAD_IMPORT';
+
+type RowStatus = 'VALID' | 'INVALID' | 'DUPLICATE';
+
+interface RowResult {
+  row: number;
+  status: RowStatus;
+  data: Record<string, any>;
+  errors?: string[];
+  duplicateOf?: { id: string; name: string; reasons: string[] };
+}
+
+interface ImportContext {
+  tenantId: string;
+  userId: string;
+  duplicateStrategy: DuplicateStrategy;
+  users: Array<{ id: string; email: string }>;
+  seenEmails: Set<string>;
+  seenPhones: Set<string>;
+}
+
+export interface LeadImportJobData {
+  importId: string;
+  tenantId: string;
+  userId: string;
+  duplicateStrategy: DuplicateStrategy;
+  rows: Record<string, any>[];
+}
+
+/**
+ * LeadImportService - Bulk lead import from CSV/XLSX files
+ *
+ * Key Features:
+ * - Maps spreadsheet columns to CreateLeadDto fields (explicit or by header name)
+ * - Validates every row with the CreateLeadDto class-validator rules
+ * - Dry-run reports per-row errors and duplicates without writing anything
+ * - Skips rows matching existing leads (or earlier rows) by phone or email
+ * - Real imports run as a queue job; progress is stored on the LeadImport record
+ */
+@Injectable()
+export class LeadImportService implements OnModuleInit {
+  private readonly logger = new Logger(LeadImportService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private queueService: QueueService,
+    private leadsService: LeadsService,
+    private duplicatesService: LeadDuplicatesService,
+  ) {}
+
+  onModuleInit() {
+    this.queueService.registerProcessor(
+      LEAD_IMPORT_JOB,
+      async (job: Job<LeadImportJobData>) => {
+        await this.processImportJob(job);
+      },
+    );
+  }
+
+  /**
+   * Validate an uploaded file and either report on it (dry-run) or queue the
+   * import and return the LeadImport record to poll
+   */
+  async importLeads(
+    file: Express.Multer.File,
+    importDto: ImportLeadsDto,
+    currentUser: any,
+  ) {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+
+    const sheetRows = this.parseFile(file);
+    const headers = Object.keys(sheetRows[0]);
+    const columnMapping = this.resolveColumnMapping(
+      headers,
+      importDto.columnMapping,
+    );
+
+    const rows = sheetRows.map((sheetRow) =>
+      this.mapRow(sheetRow, columnMapping, importDto),
+    );
+    const duplicateStrategy = importDto.duplicateStrategy || 'SKIP';
+
+    if (!importDto.dryRun) {
+      return this.queueImport(file.originalname, rows, columnMapping, {
+        tenantId,
+        userId: currentUser.id,
+        duplicateStrategy,
+      });
+    }
+
+    const context = await this.createContext(
+      tenantId,
+      currentUser.id,
+      duplicateStrategy,
+    );
+    const results: RowResult[] = [];
+    for (const [index, data] of rows.entries()) {
+      results.push(await this.checkRow(index + 2, data, context));
+    }
+
+    return {
+      dryRun: true,
+      fileName: file.originalname,
+      totalRows: rows.length,
+      validRows: results.filter((r) => r.status === 'VALID').length,
+      duplicateRows: results.filter((r) => r.status === 'DUPLICATE').length,
+      invalidRows: results.filter((r) => r.status === 'INVALID').length,
+      columnMapping,
+      unmappedColumns: headers.filter((header) => !columnMapping[header]),
+      rows: results
+        .filter((result) => result.status !== 'VALID')
+        .map(({ row, status, errors, duplicateOf }) => ({
+          row,
+          status,
+          errors,
+          duplicateOf,
+        })),
+    };
+  }
+
+  async findAll() {
+    return this.prisma.leadImport.findMany({
+      where: this.prisma.addTenantFilter({}),
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      omit: { errors: true },
+    });
+  }
+
+  /**
+   * Import progress and per-row errors
+   */
+  async findOne(id: string) {
+    const leadImport = await this.prisma.leadImport.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!leadImport) {
+      throw new NotFoundException('Import not found');
+    }
+
+    return {
+      ...leadImport,
+      progress:
+        leadImport.totalRows > 0
+          ? Math.round((leadImport.processedRows / leadImport.totalRows) * 100)
+          : 0,
+    };
+  }
+
+  private async queueImport(
+    fileName: string,
+    rows: Record<string, any>[],
+    columnMapping: Record<string, string>,
+    options: Omit<LeadImportJobData, 'importId' | 'rows'>,
+  ) {
+    const leadImport = await this.prisma.leadImport.create({
+      data: {
+        fileName,
+        columnMapping,
+        duplicateStrategy: options.duplicateStrategy,
+        totalRows: rows.length,
+        createdById: options.userId,
+        tenantId: options.tenantId,
+      },
+    });
+
+    // A failed import must not be retried: rows already created would be
+    // imported twice
+    const jobId = await this.queueService.addJob<LeadImportJobData>(
+      LEAD_IMPORT_JOB,
+      { importId: leadImport.id, rows, ...options },
+      { maxAttempts: 1 },
+    );
+
+    return this.prisma.leadImport.update({
+      where: { id: leadImport.id },
+      data: { jobId },
+    });
+  }
+
+  private async processImportJob(job: Job<LeadImportJobData>) {
+    const { importId, tenantId, userId, duplicateStrategy, rows } = job.data;
+
+    await runWithTenantContext({ tenantId, userId }, async () => {
+      await this.prisma.leadImport.update({
+        where: { id: importId },
+        data: { status: 'PROCESSING', startedAt: new Date() },
+      });
+
+      const context = await this.createContext(
+        tenantId,
+        userId,
+        duplicateStrategy,
+      );
+      const errors: Array<Pick<RowResult, 'row' | 'errors'>> = [];
+      const counts = { createdCount: 0, duplicateCount: 0, failedCount: 0 };
+
+      try {
+        for (const [index, data] of rows.entries()) {
+          const result = await this.checkRow(index + 2, data, context);
+
+          if (result.status === 'VALID') {
+            try {
+              await this.leadsService.create(
+                result.data as CreateLeadDto,
+                userId,
+              );
+              counts.createdCount++;
+            } catch (error) {
+              counts.failedCount++;
+              errors.push({ row: result.row, errors: [error.message] });
+            }
+          } else if (result.status === 'DUPLICATE') {
+            counts.duplicateCount++;
+          } else {
+            counts.failedCount++;
+            errors.push({ row: result.row, errors: result.errors });
+          }
+
+          const processedRows = index + 1;
+          if (
+            processedRows % PROGRESS_UPDATE_INTERVAL === 0 &&
+            processedRows < rows.length
+          ) {
+            await this.prisma.leadImport.update({
+              where: { id: importId },
+              data: { processedRows, ...counts },
+            });
+          }
+        }
+
+        await this.prisma.leadImport.update({
+          where: { id: importId },
+          data: {
+            status: 'COMPLETED',
+            processedRows: rows.length,
+            ...counts,
+            errors,
+            completedAt: new Date(),
+          },
+        });
+
+        this.logger.log(
+          `Import ${importId} completed: ${counts.createdCount} created, ${counts.duplicateCount} duplicates, ${counts.failedCount} failed`,
+        );
+      } catch (error) {
+        this.logger.error(`Import ${importId} failed:`, error);
+        await this.prisma.leadImport.update({
+          where: { id: importId },
+          data: {
+            status: 'FAILED',
+            ...counts,
+            errors: [...errors, { row: 0, errors: [error.message] }],
+            completedAt: new Date(),
+          },
+        });
+      }
+    });
+  }
+
+  /**
+   * Validate a mapped row and check it against existing leads and the
+   * earlier rows of the same file
+   */
+  private async checkRow(
+    row: number,
+    data: Record<string, any>,
+    context: ImportContext,
+  ): Promise<RowResult> {
+    const assignmentError = this.resolveAssignedUser(data, context);
+
+    const dto = plainToInstance(CreateLeadDto, data);
+    const validationErrors = await validate(dto, { whitelist: true });
+    const errors = this.formatValidationErrors(validationErrors);
+    if (assignmentError) errors.push(assignmentError);
+
+    if (errors.length > 0) {
+      return { row, status: 'INVALID', data, errors };
+    }
+
+    const email = this.duplicatesService.normalizeEmail(dto.email);
+    const phones = [dto.phone, dto.alternatePhone]
+      .map((phone) => this.duplicatesService.normalizePhone(phone, dto.country))
+      .filter((phone): phone is string => !!phone);
+
+    if (context.duplicateStrategy === 'SKIP') {
+      if (
+        (email && context.seenEmails.has(email)) ||
+        phones.some((phone) => context.seenPhones.has(phone))
+      ) {
+        return {
+          row,
+          status: 'DUPLICATE',
+          data,
+          errors: ['Duplicates an earlier row in the file'],
+        };
+      }
+
+      const match = (
+        await this.duplicatesService.findMatchesForContact(dto)
+      ).find((m) => m.reasons.includes('PHONE') || m.reasons.includes('EMAIL'));
+      if (match) {
+        return {
+          row,
+          status: 'DUPLICATE',
+          data,
+          duplicateOf: {
+            id: match.lead.id,
+            name: `${match.lead.firstName} ${match.lead.lastName}`.trim(),
+            reasons: match.reasons,
+          },
+        };
+      }
+    }
+
+    if (email) context.seenEmails.add(email);
+    phones.forEach((phone) => context.seenPhones.add(phone));
+
+    return { row, status: 'VALID', data: dto };
+  }
+
+  private parseFile(file: Express.Multer.File): Record<string, any>[] {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (!ALLOWED_EXTENSIONS.includes(extension)) {
+      throw new BadRequestException(
+        `Unsupported file type ${extension}. Upload a CSV or XLSX file`,
+      );
+    }
+
+    let rows: Record<string, any>[];
+    try {
+      const workbook = XLSX.read(file.buffer, { type: 'buffer' });
+      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+      rows = XLSX.utils.sheet_to_json(worksheet, { raw: false, defval: '' });
+    } catch (error) {
+      throw new BadRequestException(`Could not read file: ${error.message}`);
+    }
+
+    rows = rows.filter((row) =>
+      Object.values(row).some((value) => String(value).trim() !== ''),
+    );
+
+    if (rows.length === 0) {
+      throw new BadRequestException('The file contains no data rows');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(
+        `The file has ${rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS} rows`,
+      );
+    }
+
+    return rows;
+  }
+
+  /**
+   * Column -> field mapping: the explicit mapping when given, otherwise
+   * headers matched against known field names and spellings
+   */
+  private resolveColumnMapping(
+    headers: string[],
+    explicitMapping?: Record<string, string>,
+  ): Record<string, string> {
+    if (explicitMapping) {
+      const unknownColumns = Object.keys(explicitMapping).filter(
+        (column) => !headers.includes(column),
+      );
+      if (unknownColumns.length > 0) {
+        throw new BadRequestException(
+          `Columns not found in file: ${unknownColumns.join(', ')}`,
+        );
+      }
+
+      const invalidFields = Object.values(explicitMapping).filter(
+        (field) => !IMPORTABLE_FIELDS[field],
+      );
+      if (invalidFields.length > 0) {
+        throw new BadRequestException(
+          `Unknown lead fields: ${invalidFields.join(', ')}. Allowed: ${Object.keys(IMPORTABLE_FIELDS).join(', ')}`,
+        );
+      }
+
+      return explicitMapping;
+    }
+
+    const mapping: Record<string, string> = {};
+    const mappedFields = new Set<string>();
+    for (const header of headers) {
+      const normalized = header
+        .trim()
+        .toLowerCase()
+        .replace(/[_\s]+/g, ' ');
+      const field = Object.keys(IMPORTABLE_FIELDS).find(
+        (candidate) =>
+          !mappedFields.has(candidate) &&
+          (candidate.toLowerCase() === normalized.replace(/ /g, '') ||
+            IMPORTABLE_FIELDS[candidate].includes(normalized)),
+      );
+      if (field) {
+        mapping[header] = field;
+        mappedFields.add(field);
+      }
+    }
+
+    return mapping;
+  }
+
+  /**
+   * Turn a spreadsheet row into CreateLeadDto input, coercing cell text to
+   * the types the DTO expects
+   */
+  private mapRow(
+    sheetRow: Record<string, any>,
+    columnMapping: Record<string, string>,
+    importDto: ImportLeadsDto,
+  ): Record<string, any> {
+    const data: Record<string, any> = {};
+
+    for (const [column, field] of Object.entries(columnMapping)) {
+      const raw = String(sheetRow[column] ?? '').trim();
+      if (raw === '') continue;
+
+      if (NUMBER_FIELDS.includes(field)) {
+        const numeric = Number(raw.replace(/[^0-9.-]/g, ''));
+        data[field] = Number.isNaN(numeric) ? raw : numeric;
+      } else if (ENUM_FIELDS.includes(field)) {
+        data[field] = raw.toUpperCase().replace(/[\s-]+/g, '_');
+      } else if (field === 'expectedCloseDate') {
+        const date = new Date(raw);
+        data[field] = Number.isNaN(date.getTime())
+          ? raw
+          : date.toISOString().split('T')[0];
+      } else {
+        data[field] = raw;
+      }
+    }
+
+    data.source ??= importDto.defaultSource || LeadSource.MANUAL;
+    if (!data.insuranceType && importDto.defaultInsuranceType) {
+      data.insuranceType = importDto.defaultInsuranceType;
+    }
+    data.lastName ??= '';
+
+    return data;
+  }
+
+  /**
+   * Accept a user ID or email in the assignment column. Returns an error
+   * message when it does not match a user of the tenant.
+   */
+  private resolveAssignedUser(
+    data: Record<string, any>,
+    context: ImportContext,
+  ): string | null {
+    if (!data.assignedUserId) return null;
+
+    const value = String(data.assignedUserId).toLowerCase();
+    const user = context.users.find(
+      (u) => u.id === data.assignedUserId || u.email.toLowerCase() === value,
+    );
+    if (!user) {
+      return `Assigned user "${data.assignedUserId}" not found`;
+    }
+
+    data.assignedUserId = user.id;
+    return null;
+  }
+
+  private async createContext(
+    tenantId: string,
+    userId: string,
+    duplicateStrategy: DuplicateStrategy,
+  ): Promise<ImportContext> {
+    const users = await this.prisma.user.findMany({
+      where: { tenantId, isActive: true },
+      select: { id: true, email: true },
+    });
+
+    return {
+      tenantId,
+      userId,
+      duplicateStrategy,
+      users,
+      seenEmails: new Set(),
+      seenPhones: new Set(),
+    };
+  }
+
+  private formatValidationErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap((error) => Object.values(error.constraints || {}));
+  }
+}
@@ -0,0 +1,336 @@
+import { Injectable } from '@nestjs/common';
+import { LeadStatus, PipelineStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+
+export type StageTransitionSource =
+  | 'MANUAL'
+  | 'PIPELINE'
+  | 'CONVERSION'
+  | 'WHATSAPP'
+  | 'WIDGET'
+  | 'EMAIL'
+  | 'FORM'
+  | 'API'
+  | 'QUOTE';
+
+export interface RecordStageTransitionInput {
+  leadId: string;
+  tenantId: string;
+  fromStatus?: LeadStatus | null;
+  toStatus: LeadStatus;
+  fromStageId?: string | null;
+  toStageId?: string | null;
+  changedById?: string | null;
+  note?: string | null;
+  source?: StageTransitionSource;
+}
+
+/**
+ * A completed stay of a lead in one stage, derived from two consecutive
+ * transitions (the one that entered the stage and the one that left it).
+ */
+interface StageStay {
+  leadId: string;
+  status: LeadStatus;
+  stageId: string | null;
+  nextStatus: LeadStatus;
+  enteredAt: Date;
+  exitedAt: Date;
+}
+
+/**
+ * Stays that ended in this range are averaged
+ */
+export interface StageTimingRange {
+  gte?: Date;
+  lte?: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Stays averaged when no range is given, so views do not read all history
+const DEFAULT_TIMING_DAYS = 90;
+
+/**
+ * LeadStageHistoryService - Records and analyses lead pipeline movements
+ *
+ * Every status change is stored as a LeadStageTransition so that pipeline
+ * timings are computed from real history instead of estimates.
+ */
+@Injectable()
+export class LeadStageHistoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Record a stage transition. Pass the transaction client when the status
+   * change itself happens inside a transaction.
+   */
+  async recordTransition(
+    input: RecordStageTransitionInput,
+    tx: Prisma.TransactionClient = this.prisma,
+  ) {
+    return tx.leadStageTransition.create({
+      data: {
+        leadId: input.leadId,
+        tenantId: input.tenantId,
+        fromStatus: input.fromStatus ?? null,
+        toStatus: input.toStatus,
+        fromStageId: input.fromStageId || null,
+        toStageId: input.toStageId || null,
+        changedById: input.changedById || null,
+        note: input.note || null,
+        source: input.source || 'MANUAL',
+      },
+    });
+  }
+
+  /**
+   * Full transition history for a single lead, oldest first
+   */
+  async getLeadHistory(leadId: string) {
+    return this.prisma.leadStageTransition.findMany({
+      where: this.prisma.addTenantFilter({ leadId }),
+      orderBy: { createdAt: 'asc' },
+      include: {
+        changedBy: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+          },
+        },
+        fromStage: { select: { id: true, name: true, color: true } },
+        toStage: { select: { id: true, name: true, color: true } },
+      },
+    });
+  }
+
+  /**
+   * Average number of days leads spent in each stage before moving on.
+   * Only completed stays are counted; stages nobody has left yet report 0.
+   */
+  async getAverageDaysInStage(
+    leadWhere: any = {},
+    range?: StageTimingRange,
+  ): Promise<Record<string, number>> {
+    const stays = await this.loadStays(leadWhere, range);
+
+    const totals = new Map<LeadStatus, { days: number; count: number }>();
+    for (const stay of stays) {
+      const entry = totals.get(stay.status) || { days: 0, count: 0 };
+      entry.days += this.durationInDays(stay);
+      entry.count++;
+      totals.set(stay.status, entry);
+    }
+
+    return Object.values(LeadStatus).reduce(
+      (acc, status) => {
+        const entry = totals.get(status);
+        acc[status] = entry ? this.round(entry.days / entry.count) : 0;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+  }
+
+  /**
+   * Average days leads spent in each stage of a custom pipeline, keyed by
+   * stage ID. Stays recorded before the lead had a stage of this pipeline
+   * count towards the first stage carrying the same status.
+   */
+  async getAverageDaysInPipelineStages(
+    leadWhere: any,
+    stages: Pick<PipelineStage, 'id' | 'status'>[],
+    range?: StageTimingRange,
+  ): Promise<Record<string, number>> {
+    const stays = await this.loadStays(leadWhere, range);
+    const stageIds = new Set(stages.map((stage) => stage.id));
+
+    const totals = new Map<string, { days: number; count: number }>();
+    for (const stay of stays) {
+      const stageId =
+        stay.stageId && stageIds.has(stay.stageId)
+          ? stay.stageId
+          : stages.find((stage) => stage.status === stay.status)?.id;
+      if (!stageId) continue;
+
+      const entry = totals.get(stageId) || { days: 0, count: 0 };
+      entry.days += this.durationInDays(stay);
+      entry.count++;
+      totals.set(stageId, entry);
+    }
+
+    return stages.reduce(
+      (acc, stage) => {
+        const entry = totals.get(stage.id);
+        acc[stage.id] = entry ? this.round(entry.days / entry.count) : 0;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+  }
+
+  /**
+   * Average days spent in a stage before each distinct transition, keyed
+   * as FROM_TO_TO (e.g. NEW_TO_CONTACTED). Only transitions that happened
+   * inside the date range (by default the last 90 days) are included.
+   */
+  async getAverageTransitionDays(
+    dateFilter?: StageTimingRange,
+  ): Promise<Record<string, number>> {
+    const stays = await this.loadStays({}, dateFilter);
+
+    const totals = new Map<string, { days: number; count: number }>();
+    for (const stay of stays) {
+      const key = `${stay.status}_TO_${stay.nextStatus}`;
+      const entry = totals.get(key) || { days: 0, count: 0 };
+      entry.days += this.durationInDays(stay);
+      entry.count++;
+      totals.set(key, entry);
+    }
+
+    const result: Record<string, number> = {};
+    totals.forEach((entry, key) => {
+      result[key] = this.round(entry.days / entry.count);
+    });
+    return result;
+  }
+
+  /**
+   * Most recent transitions across the leads matching the filter
+   */
+  async getRecentTransitions(leadWhere: any = {}, take = 10) {
+    return this.prisma.leadStageTransition.findMany({
+      where: this.prisma.addTenantFilter({ lead: leadWhere }),
+      orderBy: { createdAt: 'desc' },
+      take,
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        source: true,
+        note: true,
+        createdAt: true,
+        fromStage: { select: { id: true, name: true, color: true } },
+        toStage: { select: { id: true, name: true, color: true } },
+        lead: {
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            status: true,
+          },
+        },
+        changedBy: {
+          select: {
+            firstName: true,
+            lastName: true,
+          },
+        },
+      },
+    });
+  }
+
+  formatDays(days: number): string {
+    return `${days} days`;
+  }
+
+  /**
+   * Stays that ended in the range (by default the last DEFAULT_TIMING_DAYS).
+   * Only leads that moved in the range are read, with their history up to
+   * its end so stays that started earlier get their entry time.
+   */
+  private async loadStays(
+    leadWhere: any,
+    range?: StageTimingRange,
+  ): Promise<StageStay[]> {
+    const exitedAt = range ?? {
+      gte: new Date(Date.now() - DEFAULT_TIMING_DAYS * MS_PER_DAY),
+    };
+
+    const transitions = await this.prisma.leadStageTransition.findMany({
+      where: this.prisma.addTenantFilter({
+        lead: {
+          AND: [
+            leadWhere,
+            { stageTransitions: { some: { createdAt: exitedAt } } },
+          ],
+        },
+        ...(exitedAt.lte && { createdAt: { lte: exitedAt.lte } }),
+      }),
+      orderBy: [{ leadId: 'asc' }, { createdAt: 'asc' }],
+      select: {
+        leadId: true,
+        fromStatus: true,
+        toStatus: true,
+        fromStageId: true,
+        toStageId: true,
+        createdAt: true,
+        lead: { select: { createdAt: true } },
+      },
+    });
+
+    const stays: StageStay[] = [];
+    let currentLeadId: string | null = null;
+    let current: {
+      status: LeadStatus;
+      stageId: string | null;
+      enteredAt: Date;
+    } | null = null;
+
+    for (const transition of transitions) {
+      if (transition.leadId !== currentLeadId) {
+        currentLeadId = transition.leadId;
+        // Leads that existed before history was recorded start their first
+        // known stage at creation time
+        current = transition.fromStatus
+          ? {
+              status: transition.fromStatus,
+              stageId: transition.fromStageId,
+              enteredAt: transition.lead.createdAt,
+            }
+          : null;
+      }
+
+      // Events that keep the lead in place (e.g. conversion to client) do
+      // not end a stay; moving between stages with the same status does
+      if (
+        current &&
+        current.status === transition.toStatus &&
+        (!transition.toStageId || current.stageId === transition.toStageId)
+      ) {
+        continue;
+      }
+
+      if (current && (!exitedAt.gte || transition.createdAt >= exitedAt.gte)) {
+        stays.push({
+          leadId: transition.leadId,
+          status: current.status,
+          stageId: current.stageId,
+          nextStatus: transition.toStatus,
+          enteredAt: current.enteredAt,
+          exitedAt: transition.createdAt,
+        });
+      }
+
+      current = {
+        status: transition.toStatus,
+        stageId: transition.toStageId,
+        enteredAt: transition.createdAt,
+      };
+    }
+
+    return stays;
+  }
+
+  private durationInDays(stay: StageStay): number {
+    return Math.max(
+      0,
+      (stay.exitedAt.getTime() - stay.enteredAt.getTime()) / MS_PER_DAY,
+    );
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+}
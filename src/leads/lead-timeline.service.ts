@@ -0,0 +1,462 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { LeadTimelineQueryDto } from './dto/lead-timeline-query.dto';
+import { LeadTimelineEventType } from './enums/lead-timeline.enums';
+
+const SUMMARY_LENGTH = 280;
+
+const ACTOR_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} satisfies Prisma.UserDefaultArgs;
+
+type TimelineActor = { id: string; firstName: string; lastName: string };
+
+export interface LeadTimelineEvent {
+  // Unique across types: a task has both a created and a completed event
+  id: string;
+  type: LeadTimelineEventType;
+  occurredAt: Date;
+  title: string;
+  summary: string | null;
+  channel: string | null;
+  direction: 'INBOUND' | 'OUTBOUND' | null;
+  actor: TimelineActor | null;
+  recordId: string;
+  details: Record<string, unknown>;
+}
+
+/**
+ * One kind of event. load returns the first `take` events in the requested
+ * order so pages can be merged across sources.
+ */
+interface TimelineSource {
+  count(range: Prisma.DateTimeFilter | undefined): Promise<number>;
+  load(
+    range: Prisma.DateTimeFilter | undefined,
+    order: Prisma.SortOrder,
+    take: number,
+  ): Promise<LeadTimelineEvent[]>;
+}
+
+/**
+ * LeadTimelineService - Unified activity feed of a lead
+ *
+ * Key Features:
+ * - Merges communications, chat messages, emails, task events, stage
+ *   transitions, reassignments, score changes and AI escalations
+ * - One event shape for every source, in chronological order
+ * - Filtering by event type and date range, with page-based pagination
+ */
+@Injectable()
+export class LeadTimelineService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Timeline of a lead the caller has already been authorised to see
+   */
+  async getLeadTimeline(
+    leadId: string,
+    queryDto: LeadTimelineQueryDto,
+  ): Promise<PaginationResult<LeadTimelineEvent>> {
+    const page = queryDto.page ?? 1;
+    const limit = queryDto.limit ?? 25;
+    const order = queryDto.order ?? 'desc';
+    const range =
+      queryDto.startDate || queryDto.endDate
+        ? {
+            ...(queryDto.startDate && { gte: queryDto.startDate }),
+            ...(queryDto.endDate && { lt: queryDto.endDate }),
+          }
+        : undefined;
+
+    const sources = this.buildSources(leadId);
+    const types = queryDto.types?.length
+      ? [...new Set(queryDto.types)]
+      : Object.values(LeadTimelineEventType);
+
+    // Every source contributes at most the events up to the end of the page
+    const take = page * limit;
+    const [counts, batches] = await Promise.all([
+      Promise.all(types.map((type) => sources[type].count(range))),
+      Promise.all(types.map((type) => sources[type].load(range, order, take))),
+    ]);
+
+    const direction = order === 'asc' ? 1 : -1;
+    const events = batches
+      .flat()
+      .sort(
+        (a, b) =>
+          direction * (a.occurredAt.getTime() - b.occurredAt.getTime()) ||
+          a.id.localeCompare(b.id),
+      );
+
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: events.slice((page - 1) * limit, take),
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  private buildSources(
+    leadId: string,
+  ): Record<LeadTimelineEventType, TimelineSource> {
+    const where = <T>(filter: T) => this.prisma.addTenantFilter(filter);
+
+    return {
+      [LeadTimelineEventType.COMMUNICATION]: {
+        count: (range) =>
+          this.prisma.communication.count({
+            where: where({ leadId, sentAt: range }),
+          }),
+        load: async (range, order, take) => {
+          const communications = await this.prisma.communication.findMany({
+            where: where({ leadId, sentAt: range }),
+            orderBy: { sentAt: order },
+            take,
+            include: { user: ACTOR_SELECT },
+          });
+          return communications.map((communication) => ({
+            id: `${LeadTimelineEventType.COMMUNICATION}:${communication.id}`,
+            type: LeadTimelineEventType.COMMUNICATION,
+            occurredAt: communication.sentAt,
+            title:
+              communication.subject ||
+              `${this.humanize(communication.direction)} ${this.humanize(communication.channel).toLowerCase()}`,
+            summary: this.summarize(communication.content),
+            channel: communication.channel,
+            direction: this.toDirection(communication.direction),
+            actor: communication.user,
+            recordId: communication.id,
+            details: { isRead: communication.isRead },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.CHAT_MESSAGE]: {
+        count: (range) =>
+          this.prisma.chatMessage.count({
+            where: where({ leadId, createdAt: range }),
+          }),
+        load: async (range, order, take) => {
+          const messages = await this.prisma.chatMessage.findMany({
+            where: where({ leadId, createdAt: range }),
+            orderBy: { createdAt: order },
+            take,
+          });
+          return messages.map((message) => ({
+            id: `${LeadTimelineEventType.CHAT_MESSAGE}:${message.id}`,
+            type: LeadTimelineEventType.CHAT_MESSAGE,
+            occurredAt: message.createdAt,
+            title: this.chatTitle(message.sender, message.platform),
+            summary: this.summarize(message.content),
+            channel: message.platform,
+            direction: message.sender === 'CUSTOMER' ? 'INBOUND' : 'OUTBOUND',
+            actor: null,
+            recordId: message.id,
+            details: {
+              sender: message.sender,
+              conversationId: message.conversationId,
+              isRead: message.isRead,
+            },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.EMAIL]: {
+        count: (range) =>
+          this.prisma.emailMessage.count({
+            where: where({ leadId, createdAt: range }),
+          }),
+        load: async (range, order, take) => {
+          const emails = await this.prisma.emailMessage.findMany({
+            where: where({ leadId, createdAt: range }),
+            orderBy: { createdAt: order },
+            take,
+          });
+          return emails.map((email) => ({
+            id: `${LeadTimelineEventType.EMAIL}:${email.id}`,
+            type: LeadTimelineEventType.EMAIL,
+            occurredAt: email.createdAt,
+            title: email.subject || '(no subject)',
+            summary: this.summarize(this.toPlainText(email.content)),
+            channel: 'EMAIL',
+            direction: this.toDirection(email.direction),
+            actor: null,
+            recordId: email.id,
+            details: {
+              fromEmail: email.fromEmail,
+              toEmail: email.toEmail,
+              threadId: email.threadId,
+              isRead: email.isRead,
+              openedAt: email.openedAt,
+            },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.TASK_CREATED]: {
+        count: (range) =>
+          this.prisma.task.count({
+            where: where({ leadId, createdAt: range }),
+          }),
+        load: async (range, order, take) => {
+          const tasks = await this.prisma.task.findMany({
+            where: where({ leadId, createdAt: range }),
+            orderBy: { createdAt: order },
+            take,
+            include: { assignedUser: ACTOR_SELECT },
+          });
+          return tasks.map((task) => ({
+            id: `${LeadTimelineEventType.TASK_CREATED}:${task.id}`,
+            type: LeadTimelineEventType.TASK_CREATED,
+            occurredAt: task.createdAt,
+            title: `Task created: ${task.title}`,
+            summary: this.summarize(task.description),
+            channel: null,
+            direction: null,
+            actor: task.assignedUser,
+            recordId: task.id,
+            details: {
+              taskType: task.type,
+              status: task.status,
+              priority: task.priority,
+              dueDate: task.dueDate,
+            },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.TASK_COMPLETED]: {
+        count: (range) =>
+          this.prisma.task.count({
+            where: where({ leadId, completedAt: range ?? { not: null } }),
+          }),
+        load: async (range, order, take) => {
+          const tasks = await this.prisma.task.findMany({
+            where: where({ leadId, completedAt: range ?? { not: null } }),
+            orderBy: { completedAt: order },
+            take,
+            include: { assignedUser: ACTOR_SELECT },
+          });
+          return tasks.map((task) => ({
+            id: `${LeadTimelineEventType.TASK_COMPLETED}:${task.id}`,
+            type: LeadTimelineEventType.TASK_COMPLETED,
+            occurredAt: task.completedAt,
+            title: `Task completed: ${task.title}`,
+            summary: this.summarize(task.description),
+            channel: null,
+            direction: null,
+            actor: task.assignedUser,
+            recordId: task.id,
+            details: { taskType: task.type, status: task.status },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.STAGE_CHANGE]: {
+        count: (range) =>
+          this.prisma.leadStageTransition.count({
+            where: where({ leadId, createdAt: range }),
+          }),
+        load: async (range, order, take) => {
+          const transitions = await this.prisma.leadStageTransition.findMany({
+            where: where({ leadId, createdAt: range }),
+            orderBy: { createdAt: order },
+            take,
+            include: {
+              changedBy: ACTOR_SELECT,
+              fromStage: { select: { id: true, name: true } },
+              toStage: { select: { id: true, name: true } },
+            },
+          });
+          return transitions.map((transition) => ({
+            id: `${LeadTimelineEventType.STAGE_CHANGE}:${transition.id}`,
+            type: LeadTimelineEventType.STAGE_CHANGE,
+            occurredAt: transition.createdAt,
+            title: transition.fromStatus
+              ? `Moved from ${transition.fromStage?.name ?? transition.fromStatus} to ${transition.toStage?.name ?? transition.toStatus}`
+              : `Created as ${transition.toStage?.name ?? transition.toStatus}`,
+            summary: transition.note,
+            channel: null,
+            direction: null,
+            actor: transition.changedBy,
+            recordId: transition.id,
+            details: {
+              fromStatus: transition.fromStatus,
+              toStatus: transition.toStatus,
+              fromStage: transition.fromStage,
+              toStage: transition.toStage,
+              source: transition.source,
+            },
+          }));
+        },
+      },
+
+      [LeadTimelineEventType.ASSIGNMENT]: this.activitySource(
+        leadId,
+        LeadTimelineEventType.ASSIGNMENT,
+      ),
+
+      [LeadTimelineEventType.SCORE_CHANGE]: this.activitySource(
+        leadId,
+        LeadTimelineEventType.SCORE_CHANGE,
+      ),
+
+      [LeadTimelineEventType.AI_ESCALATION]: {
+        count: (range) =>
+          this.prisma.aIConversation.count({
+            where: where({
+              leadId,
+              isEscalated: true,
+              escalatedAt: range ?? { not: null },
+            }),
+          }),
+        load: async (range, order, take) => {
+          const conversations = await this.prisma.aIConversation.findMany({
+            where: where({
+              leadId,
+              isEscalated: true,
+              escalatedAt: range ?? { not: null },
+            }),
+            orderBy: { escalatedAt: order },
+            take,
+            include: { user: ACTOR_SELECT },
+          });
+          return conversations.map((conversation) => ({
+            id: `${LeadTimelineEventType.AI_ESCALATION}:${conversation.id}`,
+            type: LeadTimelineEventType.AI_ESCALATION,
+            occurredAt: conversation.escalatedAt,
+            title: conversation.user
+              ? `AI conversation handed to ${conversation.user.firstName} ${conversation.user.lastName}`
+              : 'AI conversation escalated to a human agent',
+            summary: this.summarize(conversation.input),
+            channel: null,
+            direction: null,
+            actor: conversation.user,
+            recordId: conversation.id,
+            details: {
+              conversationType: conversation.type,
+              confidence: conversation.confidence,
+            },
+          }));
+        },
+      },
+    };
+  }
+
+  /**
+   * Events stored as LeadActivity rows (reassignments and score changes)
+   */
+  private activitySource(
+    leadId: string,
+    type: LeadTimelineEventType.ASSIGNMENT | LeadTimelineEventType.SCORE_CHANGE,
+  ): TimelineSource {
+    const where = (range: Prisma.DateTimeFilter | undefined) =>
+      this.prisma.addTenantFilter({ leadId, type, createdAt: range });
+
+    return {
+      count: (range) => this.prisma.leadActivity.count({ where: where(range) }),
+      load: async (range, order, take) => {
+        const activities = await this.prisma.leadActivity.findMany({
+          where: where(range),
+          orderBy: { createdAt: order },
+          take,
+          include: {
+            changedBy: ACTOR_SELECT,
+            fromUser: ACTOR_SELECT,
+            toUser: ACTOR_SELECT,
+          },
+        });
+        return activities.map((activity) => ({
+          id: `${type}:${activity.id}`,
+          type,
+          occurredAt: activity.createdAt,
+          title:
+            type === LeadTimelineEventType.ASSIGNMENT
+              ? this.assignmentTitle(activity.fromUser, activity.toUser)
+              : `Score changed from ${activity.fromScore ?? 0} to ${activity.toScore ?? 0}`,
+          summary: activity.note,
+          channel: null,
+          direction: null,
+          actor: activity.changedBy,
+          recordId: activity.id,
+          details:
+            type === LeadTimelineEventType.ASSIGNMENT
+              ? {
+                  fromUser: activity.fromUser,
+                  toUser: activity.toUser,
+                  source: activity.source,
+                }
+              : {
+                  fromScore: activity.fromScore,
+                  toScore: activity.toScore,
+                  source: activity.source,
+                },
+        }));
+      },
+    };
+  }
+
+  private assignmentTitle(
+    fromUser: TimelineActor | null,
+    toUser: TimelineActor | null,
+  ): string {
+    const name = (user: TimelineActor) => `${user.firstName} ${user.lastName}`;
+    if (!toUser) return 'Unassigned';
+    return fromUser
+      ? `Reassigned from ${name(fromUser)} to ${name(toUser)}`
+      : `Assigned to ${name(toUser)}`;
+  }
+
+  private chatTitle(sender: string, platform: string): string {
+    const channel =
+      platform === 'WEBSITE'
+        ? 'website chat'
+        : platform === 'WHATSAPP'
+          ? 'WhatsApp'
+          : this.humanize(platform);
+    switch (sender) {
+      case 'CUSTOMER':
+        return `Message from customer via ${channel}`;
+      case 'AI_ASSISTANT':
+        return `AI assistant reply via ${channel}`;
+      default:
+        return `Agent reply via ${channel}`;
+    }
+  }
+
+  private toDirection(direction: string): 'INBOUND' | 'OUTBOUND' | null {
+    return direction === 'INBOUND' || direction === 'OUTBOUND'
+      ? direction
+      : null;
+  }
+
+  private humanize(value: string): string {
+    const words = value.toLowerCase().replace(/_/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  private summarize(text: string | null): string | null {
+    if (!text) return null;
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > SUMMARY_LENGTH
+      ? `${clean.slice(0, SUMMARY_LENGTH - 1)}…`
+      : clean;
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ');
+  }
+}
@@ -8,19 +8,36 @@ import {
   Delete,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
+  Res,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiQuery,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { LeadsService } from './leads.service';
+import { LeadDuplicatesService } from './lead-duplicates.service';
+import { LeadImportService } from './lead-import.service';
+import { LeadExportService } from './lead-export.service';
+import { LeadBulkService } from './lead-bulk.service';
 import { CreateLeadDto } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
 import { LeadQueryDto } from './dto/lead-query.dto';
 import { MoveToPipelineStageDto } from './dto/pipeline-stage.dto';
+import { MergeLeadsDto } from './dto/merge-leads.dto';
+import { ImportLeadsDto } from './dto/import-leads.dto';
+import { ExportLeadsDto } from './dto/export-leads.dto';
+import { BulkLeadActionDto } from './dto/bulk-lead-action.dto';
+import { LeadTimelineQueryDto } from './dto/lead-timeline-query.dto';
+import { TagsService } from '../tags/tags.service';
+import { AssignTagsDto } from '../tags/dto/assign-tags.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -32,7 +49,14 @@ import { UserRole } from '@prisma/client';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Controller('leads')
 export class LeadsController {
-  constructor(private readonly leadsService: LeadsService) {}
+  constructor(
+    private readonly leadsService: LeadsService,
+    private readonly leadDuplicatesService: LeadDuplicatesService,
+    private readonly leadImportService: LeadImportService,
+    private readonly leadExportService: LeadExportService,
+    private readonly leadBulkService: LeadBulkService,
+    private readonly tagsService: TagsService,
+  ) {}
 
   @Post()
   @ApiOperation({ summary: 'Create a new lead' })
@@ -51,6 +75,24 @@ export class LeadsController {
   @ApiQuery({ name: 'insuranceType', required: false })
   @ApiQuery({ name: 'assignedUserId', required: false, type: String })
   @ApiQuery({ name: 'urgency', required: false })
+  @ApiQuery({
+    name: 'tagsAny',
+    required: false,
+    type: String,
+    description: 'Comma-separated tag IDs, lead has any',
+  })
+  @ApiQuery({
+    name: 'tagsAll',
+    required: false,
+    type: String,
+    description: 'Comma-separated tag IDs, lead has all',
+  })
+  @ApiQuery({
+    name: 'tagsNone',
+    required: false,
+    type: String,
+    description: 'Comma-separated tag IDs, lead has none',
+  })
   findAll(@Query() queryDto: LeadQueryDto, @CurrentUser() user: any) {
     return this.leadsService.findAll(queryDto, user);
   }
@@ -62,6 +104,97 @@ export class LeadsController {
     return this.leadsService.getLeadStats(user);
   }
 
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export leads matching the list filters as CSV or XLSX',
+  })
+  @ApiResponse({ status: 200, description: 'Export file streamed' })
+  @ApiResponse({ status: 400, description: 'Unknown export column' })
+  async exportLeads(
+    @Query() exportDto: ExportLeadsDto,
+    @CurrentUser() user: any,
+    @Res() res: Response,
+  ) {
+    await this.leadExportService.exportLeads(exportDto, user, res);
+  }
+
+  @Post('bulk')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary:
+      'Assign, change status, regroup, rescore or delete many leads at once',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Per-lead results of the operation',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing target or action parameter',
+  })
+  @ApiResponse({ status: 403, description: 'Only admins can bulk delete' })
+  bulkAction(@Body() bulkDto: BulkLeadActionDto, @CurrentUser() user: any) {
+    return this.leadBulkService.execute(bulkDto, user);
+  }
+
+  @Post('import')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: {
+        fileSize: 10 * 1024 * 1024, // 10MB limit
+      },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({ summary: 'Import leads from a CSV or XLSX file' })
+  @ApiResponse({
+    status: 201,
+    description: 'Dry-run report, or the queued import to poll for progress',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'File or column mapping is invalid',
+  })
+  importLeads(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() importDto: ImportLeadsDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.leadImportService.importLeads(file, importDto, user);
+  }
+
+  @Get('imports')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get recent lead imports' })
+  @ApiResponse({ status: 200, description: 'Imports retrieved successfully' })
+  findImports() {
+    return this.leadImportService.findAll();
+  }
+
+  @Get('imports/:importId')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get lead import progress and row errors' })
+  @ApiResponse({ status: 200, description: 'Import retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Import not found' })
+  findImport(@Param('importId') importId: string) {
+    return this.leadImportService.findOne(importId);
+  }
+
+  @Get('duplicates')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get suspected duplicate lead pairs' })
+  @ApiQuery({ name: 'limit', required: false, type: Number })
+  @ApiResponse({
+    status: 200,
+    description: 'Duplicate pairs retrieved, strongest matches first',
+  })
+  findDuplicates(@Query('limit') limit?: string) {
+    return this.leadDuplicatesService.findDuplicatePairs(
+      limit ? parseInt(limit) : undefined,
+    );
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get lead by ID' })
   @ApiResponse({ status: 200, description: 'Lead found' })
@@ -86,7 +219,7 @@ export class LeadsController {
 
   @Delete(':id')
   @Roles(UserRole.ADMIN)
-  @ApiOperation({ summary: 'Delete lead' })
+  @ApiOperation({ summary: 'Delete lead (moves it to the recycle bin)' })
   @ApiResponse({ status: 200, description: 'Lead deleted successfully' })
   @ApiResponse({ status: 404, description: 'Lead not found' })
   remove(@Param('id') id: string, @CurrentUser() user: any) {
@@ -107,16 +240,130 @@ export class LeadsController {
   }
 
   @Patch(':id/score')
-  @ApiOperation({ summary: 'Update lead score' })
+  @ApiOperation({ summary: 'Set the manual score override (null clears it)' })
   @ApiResponse({ status: 200, description: 'Lead score updated successfully' })
   updateScore(
     @Param('id') id: string,
-    @Body('score') score: number,
+    @Body('score') score: number | null,
     @CurrentUser() user: any,
   ) {
     return this.leadsService.updateLeadScore(id, score, user);
   }
 
+  @Get(':id/score')
+  @ApiOperation({ summary: 'Get lead score with the rules that produced it' })
+  @ApiResponse({
+    status: 200,
+    description: 'Score breakdown retrieved successfully',
+  })
+  getScore(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.leadsService.getLeadScore(id, user);
+  }
+
+  @Post(':id/score/recalculate')
+  @ApiOperation({ summary: 'Re-evaluate lead score against the scoring rules' })
+  @ApiResponse({ status: 201, description: 'Lead re-scored successfully' })
+  recalculateScore(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.leadsService.recalculateLeadScore(id, user);
+  }
+
+  @Get(':id/stage-history')
+  @ApiOperation({ summary: 'Get pipeline stage transition history for a lead' })
+  @ApiResponse({
+    status: 200,
+    description: 'Stage history retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  getStageHistory(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.leadsService.getStageHistory(id, user);
+  }
+
+  @Get(':id/timeline')
+  @ApiOperation({ summary: 'Get the unified activity timeline of a lead' })
+  @ApiResponse({ status: 200, description: 'Timeline retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  getTimeline(
+    @Param('id') id: string,
+    @Query() queryDto: LeadTimelineQueryDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.leadsService.getTimeline(id, queryDto, user);
+  }
+
+  @Post(':id/tags')
+  @ApiOperation({ summary: 'Add tags to a lead' })
+  @ApiResponse({
+    status: 201,
+    description: 'Tags added; returns the lead tags',
+  })
+  @ApiResponse({ status: 404, description: 'Lead or tag not found' })
+  async addTags(
+    @Param('id') id: string,
+    @Body() assignTagsDto: AssignTagsDto,
+    @CurrentUser() user: any,
+  ) {
+    await this.leadsService.findOne(id, user);
+    return this.tagsService.tagLead(id, assignTagsDto.tagIds, user.id);
+  }
+
+  @Delete(':id/tags/:tagId')
+  @ApiOperation({ summary: 'Remove a tag from a lead' })
+  @ApiResponse({
+    status: 200,
+    description: 'Tag removed; returns the lead tags',
+  })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  async removeTag(
+    @Param('id') id: string,
+    @Param('tagId') tagId: string,
+    @CurrentUser() user: any,
+  ) {
+    await this.leadsService.findOne(id, user);
+    return this.tagsService.untagLead(id, tagId);
+  }
+
+  @Get(':id/duplicates')
+  @ApiOperation({ summary: 'Get suspected duplicates of a lead' })
+  @ApiResponse({
+    status: 200,
+    description: 'Duplicates retrieved, strongest matches first',
+  })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  async findLeadDuplicates(@Param('id') id: string, @CurrentUser() user: any) {
+    await this.leadsService.findOne(id, user);
+    return this.leadDuplicatesService.findDuplicatesOfLead(id);
+  }
+
+  @Post(':id/merge')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Merge duplicate leads into this lead' })
+  @ApiResponse({ status: 201, description: 'Leads merged successfully' })
+  @ApiResponse({ status: 400, description: 'Leads cannot be merged' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  mergeLeads(
+    @Param('id') id: string,
+    @Body() mergeLeadsDto: MergeLeadsDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.leadDuplicatesService.mergeLeads(
+      id,
+      mergeLeadsDto.duplicateLeadIds,
+      user,
+    );
+  }
+
+  @Get(':id/merges')
+  @ApiOperation({ summary: 'Get duplicate leads merged into this lead' })
+  @ApiResponse({
+    status: 200,
+    description: 'Merge history retrieved successfully',
+  })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  async getMergeHistory(@Param('id') id: string, @CurrentUser() user: any) {
+    await this.leadsService.findOne(id, user);
+    return this.leadDuplicatesService.getMergeHistory(id);
+  }
+
   @Post(':id/convert')
   @ApiOperation({ summary: 'Convert lead to client' })
   @ApiResponse({ status: 201, description: 'Lead converted to client successfully' })
@@ -127,16 +374,34 @@ export class LeadsController {
 
   @Get('pipeline/view')
   @ApiOperation({ summary: 'Get complete pipeline view with all stages' })
+  @ApiQuery({
+    name: 'pipelineId',
+    required: false,
+    type: String,
+    description: 'Defaults to the tenant default pipeline',
+  })
   @ApiResponse({ status: 200, description: 'Pipeline view retrieved successfully' })
-  getPipelineView(@CurrentUser() user: any) {
-    return this.leadsService.getPipelineView(user);
+  getPipelineView(
+    @CurrentUser() user: any,
+    @Query('pipelineId') pipelineId?: string,
+  ) {
+    return this.leadsService.getPipelineView(user, pipelineId);
   }
 
   @Get('pipeline/metrics')
   @ApiOperation({ summary: 'Get pipeline performance metrics' })
+  @ApiQuery({
+    name: 'pipelineId',
+    required: false,
+    type: String,
+    description: 'Defaults to the tenant default pipeline',
+  })
   @ApiResponse({ status: 200, description: 'Pipeline metrics retrieved successfully' })
-  getPipelineMetrics(@CurrentUser() user: any) {
-    return this.leadsService.getPipelineMetrics(user);
+  getPipelineMetrics(
+    @CurrentUser() user: any,
+    @Query('pipelineId') pipelineId?: string,
+  ) {
+    return this.leadsService.getPipelineMetrics(user, pipelineId);
   }
 
   @Patch(':id/pipeline/move')
@@ -150,7 +415,12 @@ export class LeadsController {
   ) {
     return this.leadsService.moveToPipelineStage(
       id,
-      moveStageDto.status,
+      {
+        stageId: moveStageDto.stageId,
+        status: moveStageDto.status,
+        lostReasonId: moveStageDto.lostReasonId,
+        lostCompetitor: moveStageDto.lostCompetitor,
+      },
       moveStageDto.notes || '',
       user,
     );
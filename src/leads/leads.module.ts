@@ -1,13 +1,55 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { LeadsService } from './leads.service';
+import { LeadStageHistoryService } from './lead-stage-history.service';
+import { LeadActivityService } from './lead-activity.service';
+import { LeadTimelineService } from './lead-timeline.service';
+import { LeadDuplicatesService } from './lead-duplicates.service';
+import { LeadImportService } from './lead-import.service';
+import { LeadExportService } from './lead-export.service';
+import { LeadBulkService } from './lead-bulk.service';
 import { LeadsController } from './leads.controller';
 import { PrismaService } from '../common/services/prisma.service';
+import { QueueService } from '../common/services/queue.service';
 import { NotificationsModule } from '../notifications/notifications.module';
+import { PipelinesModule } from '../pipelines/pipelines.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { LeadRoutingModule } from '../lead-routing/lead-routing.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { LeadViewsModule } from '../lead-views/lead-views.module';
+import { TagsModule } from '../tags/tags.module';
+import { ReferralsModule } from '../referrals/referrals.module';
+import { LostReasonsModule } from '../lost-reasons/lost-reasons.module';
 
 @Module({
-  imports: [forwardRef(() => NotificationsModule)],
+  imports: [
+    forwardRef(() => NotificationsModule),
+    PipelinesModule,
+    LeadScoringModule,
+    LeadRoutingModule,
+    CustomFieldsModule,
+    LeadViewsModule,
+    TagsModule,
+    ReferralsModule,
+    LostReasonsModule,
+  ],
   controllers: [LeadsController],
-  providers: [LeadsService, PrismaService],
-  exports: [LeadsService],
+  providers: [
+    LeadsService,
+    LeadStageHistoryService,
+    LeadActivityService,
+    LeadTimelineService,
+    LeadDuplicatesService,
+    LeadImportService,
+    LeadExportService,
+    LeadBulkService,
+    PrismaService,
+    QueueService,
+  ],
+  exports: [
+    LeadsService,
+    LeadStageHistoryService,
+    LeadActivityService,
+    LeadDuplicatesService,
+  ],
 })
 export class LeadsModule {}
\ No newline at end of file
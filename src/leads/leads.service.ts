@@ -13,8 +13,48 @@ import { CreateLeadDto } from './dto/create-lead.dto';
 import { UpdateLeadDto } from './dto/update-lead.dto';
 import { LeadQueryDto } from './dto/lead-query.dto';
 import { PaginationResult } from '../common/dto/pagination.dto';
-import { UserRole, LeadStatus } from '@prisma/client';
+import { UserRole, LeadStatus, Prisma } from '@prisma/client';
 import { NotificationsService } from '../notifications/notifications.service';
+import {
+  LeadStageHistoryService,
+  StageTransitionSource,
+} from './lead-stage-history.service';
+import { LeadActivityService } from './lead-activity.service';
+import { LeadTimelineService } from './lead-timeline.service';
+import { LeadTimelineQueryDto } from './dto/lead-timeline-query.dto';
+import {
+  PipelinesService,
+  PipelineWithStages,
+} from '../pipelines/pipelines.service';
+import { PipelineStageOutcome } from '../pipelines/enums/pipeline.enums';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import {
+  LeadRoutingService,
+  RoutingDecision,
+} from '../lead-routing/lead-routing.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { CustomFieldEntity } from '../custom-fields/enums/custom-field.enums';
+import { LeadViewsService } from '../lead-views/lead-views.service';
+import { LeadFilterService } from '../lead-views/lead-filter.service';
+import { TagsService, TAG_SELECT } from '../tags/tags.service';
+import {
+  ReferralsService,
+  REFERRER_SUMMARY_SELECT,
+} from '../referrals/referrals.service';
+import {
+  LostReasonsService,
+  CLEARED_LOSS,
+} from '../lost-reasons/lost-reasons.service';
+import { LeadLossDto } from '../lost-reasons/dto/lead-loss.dto';
+
+/**
+ * Where a lead came from when it was not entered by hand
+ */
+export interface LeadOrigin {
+  source: StageTransitionSource;
+  note?: string;
+  attribution?: Prisma.InputJsonValue;
+}
 
 @Injectable()
 export class LeadsService {
@@ -24,76 +64,106 @@ export class LeadsService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => NotificationsService))
     private notificationsService: NotificationsService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadActivityService: LeadActivityService,
+    private leadTimelineService: LeadTimelineService,
+    private pipelinesService: PipelinesService,
+    private leadScoringService: LeadScoringService,
+    private leadRoutingService: LeadRoutingService,
+    private customFieldsService: CustomFieldsService,
+    private leadViewsService: LeadViewsService,
+    private leadFilterService: LeadFilterService,
+    private tagsService: TagsService,
+    private referralsService: ReferralsService,
+    private lostReasonsService: LostReasonsService,
   ) {}
 
-  async create(createLeadDto: CreateLeadDto, userId?: string) {
-    const assignedUserId = createLeadDto.assignedUserId || userId;
+  async create(
+    createLeadDto: CreateLeadDto,
+    userId?: string,
+    origin?: LeadOrigin,
+  ) {
+    const assignedUserId = createLeadDto.assignedUserId;
     const context = getTenantContext();
     const tenantId = context?.tenantId || 'default-tenant-000';
 
     const { assignedUserId: _, ...dtoData } = createLeadDto as any;
+    // Connected below once the referrer ID or code is resolved
+    delete dtoData.referrerId;
+    delete dtoData.referralCode;
+    const referrerId =
+      await this.referralsService.resolveReferrerId(createLeadDto);
+    dtoData.customFields = await this.customFieldsService.prepareForCreate(
+      CustomFieldEntity.LEAD,
+      createLeadDto.customFields,
+    );
 
-    return this.prisma.lead.create({
-      data: {
-        ...dtoData,
-        assignedUser: assignedUserId ? { connect: { id: assignedUserId } } : undefined,
-        tenant: { connect: { id: tenantId } },
-        score: this.calculateInitialScore(createLeadDto),
-      },
-      include: {
-        assignedUser: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+    const lead = await this.prisma.$transaction(async (tx) => {
+      const lead = await tx.lead.create({
+        data: {
+          ...dtoData,
+          attribution: origin?.attribution,
+          assignedUser: assignedUserId
+            ? { connect: { id: assignedUserId } }
+            : undefined,
+          referrer: referrerId ? { connect: { id: referrerId } } : undefined,
+          tenant: { connect: { id: tenantId } },
+        },
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
         },
-      },
+      });
+
+      await this.stageHistoryService.recordTransition(
+        {
+          leadId: lead.id,
+          tenantId: lead.tenantId,
+          toStatus: lead.status,
+          changedById: userId,
+          note: origin?.note,
+          source: origin?.source ?? 'MANUAL',
+        },
+        tx,
+      );
+
+      if (assignedUserId) {
+        await this.leadActivityService.recordAssignment(
+          {
+            leadId: lead.id,
+            tenantId: lead.tenantId,
+            toUserId: assignedUserId,
+            changedById: userId,
+          },
+          tx,
+        );
+      }
+
+      return lead;
     });
+
+    // Without an explicit assignee, routing rules decide; the creator is the fallback
+    const routedLead = assignedUserId
+      ? lead
+      : await this.autoAssignLead(lead.id, userId);
+
+    return this.withFreshScore(routedLead, 'lead creation');
   }
 
   async findAll(
     queryDto: LeadQueryDto,
     currentUser: any,
   ): Promise<PaginationResult<any>> {
-    const { page, limit, search, sortBy, sortOrder, ...filters } = queryDto;
+    const { page, limit, sortBy, sortOrder } = queryDto;
     const skip = (page - 1) * limit;
 
-    let where: any = {};
-
-    // CRITICAL: Add tenant filter first
-    where = this.prisma.addTenantFilter(where);
-
-    if (currentUser.role === UserRole.AGENT) {
-      where.assignedUserId = currentUser.id;
-    }
-
-    if (search) {
-      where.OR = [
-        { firstName: { contains: search } },
-        { lastName: { contains: search } },
-        { email: { contains: search } },
-        { phone: { contains: search } },
-        { inquiryDetails: { contains: search } },
-      ];
-    }
-
-    if (filters.status) where.status = filters.status;
-    if (filters.source) where.source = filters.source;
-    if (filters.insuranceType) where.insuranceType = filters.insuranceType;
-    if (filters.assignedUserId) where.assignedUserId = filters.assignedUserId;
-
-    if (filters.urgency) {
-      const urgencyMap = { low: [1, 2], medium: [3], high: [4, 5] };
-      where.urgency = { in: urgencyMap[filters.urgency] || [1, 2, 3, 4, 5] };
-    }
-
-    if (filters.startDate || filters.endDate) {
-      where.createdAt = {};
-      if (filters.startDate) where.createdAt.gte = filters.startDate;
-      if (filters.endDate) where.createdAt.lte = filters.endDate;
-    }
+    const where = await this.buildLeadWhere(queryDto, currentUser);
 
     const orderBy = sortBy ? { [sortBy]: sortOrder } : { createdAt: sortOrder };
 
@@ -112,6 +182,7 @@ export class LeadsService {
               email: true,
             },
           },
+          tags: { select: { tag: TAG_SELECT } },
           _count: {
             select: {
               communications: true,
@@ -134,6 +205,74 @@ export class LeadsService {
     };
   }
 
+  /**
+   * Tenant-scoped where clause for the lead list filters. Agents only ever
+   * see their own leads, whatever assignee filter they pass.
+   */
+  async buildLeadWhere(queryDto: LeadQueryDto, currentUser: any) {
+    const { search, ...filters } = queryDto;
+
+    let where: any = {};
+
+    // CRITICAL: Add tenant filter first
+    where = this.prisma.addTenantFilter(where);
+
+    if (search) {
+      where.OR = [
+        { firstName: { contains: search } },
+        { lastName: { contains: search } },
+        { email: { contains: search } },
+        { phone: { contains: search } },
+        { inquiryDetails: { contains: search } },
+      ];
+    }
+
+    if (filters.status) where.status = filters.status;
+    if (filters.source) where.source = filters.source;
+    if (filters.insuranceType) where.insuranceType = filters.insuranceType;
+    if (filters.assignedUserId) where.assignedUserId = filters.assignedUserId;
+
+    if (filters.urgency) {
+      const urgencyMap = { low: [1, 2], medium: [3], high: [4, 5] };
+      where.urgency = { in: urgencyMap[filters.urgency] || [1, 2, 3, 4, 5] };
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.createdAt = {};
+      if (filters.startDate) where.createdAt.gte = filters.startDate;
+      if (filters.endDate) where.createdAt.lte = filters.endDate;
+    }
+
+    const conditions: Prisma.LeadWhereInput[] = [];
+    if (filters.customFields) {
+      conditions.push(
+        ...this.customFieldsService.buildFilter(filters.customFields),
+      );
+    }
+    conditions.push(
+      ...this.tagsService.buildLeadFilter({
+        any: filters.tagsAny,
+        all: filters.tagsAll,
+        none: filters.tagsNone,
+      }),
+    );
+    if (filters.filter) {
+      conditions.push(await this.leadFilterService.compile(filters.filter));
+    }
+    if (filters.viewId) {
+      conditions.push(
+        await this.leadViewsService.getViewWhere(filters.viewId, currentUser),
+      );
+    }
+    if (conditions.length > 0) where.AND = conditions;
+
+    if (currentUser.role === UserRole.AGENT) {
+      where.assignedUserId = currentUser.id;
+    }
+
+    return where;
+  }
+
   async findOne(id: string, currentUser: any) {
     let where: any = { id };
 
@@ -195,6 +334,9 @@ export class LeadsService {
             startDate: true,
           },
         },
+        tags: { select: { tag: TAG_SELECT } },
+        referrer: REFERRER_SUMMARY_SELECT,
+        lostReason: { select: { id: true, name: true } },
       },
     });
 
@@ -220,9 +362,49 @@ export class LeadsService {
       }
 
       const updateData: any = { ...updateLeadDto };
+      updateData.customFields = await this.customFieldsService.prepareForUpdate(
+        CustomFieldEntity.LEAD,
+        updateLeadDto.customFields,
+        existingLead.customFields,
+      );
+      delete updateData.referralCode;
+      updateData.referrerId = await this.referralsService.resolveReferrerId(
+        updateLeadDto,
+        { leadId: id },
+      );
+      delete updateData.lostReasonId;
+      delete updateData.lostCompetitor;
+      Object.assign(
+        updateData,
+        await this.resolveLossFields(
+          existingLead,
+          updateLeadDto.status ?? existingLead.status,
+          updateLeadDto,
+        ),
+      );
 
-      if (updateLeadDto.status && updateLeadDto.status !== existingLead.status) {
+      const isStatusChanged =
+        updateLeadDto.status && updateLeadDto.status !== existingLead.status;
+      let fromStageId: string | undefined;
+      let toStageId: string | undefined;
+      if (isStatusChanged) {
         updateData.lastContactedAt = new Date();
+
+        // Place the lead in the pipeline stage matching its new status
+        const pipeline = await this.pipelinesService.getPipelineForLead({
+          ...existingLead,
+          insuranceType:
+            updateLeadDto.insuranceType || existingLead.insuranceType,
+        });
+        fromStageId = this.pipelinesService.resolveStage(
+          pipeline,
+          existingLead,
+        ).id;
+        toStageId = this.pipelinesService.getStageForStatus(
+          pipeline,
+          updateLeadDto.status,
+        ).id;
+        updateData.pipelineStageId = toStageId;
       }
 
       // Check if lead is being assigned to a different user
@@ -231,19 +413,52 @@ export class LeadsService {
 
       this.logger.log(`Updating lead with data: ${JSON.stringify(updateData, null, 2)}`);
 
-      const updatedLead = await this.prisma.lead.update({
-        where: { id },
-        data: updateData,
-        include: {
-          assignedUser: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
+      const updatedLead = await this.prisma.$transaction(async (tx) => {
+        const lead = await tx.lead.update({
+          where: { id },
+          data: updateData,
+          include: {
+            assignedUser: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
             },
           },
-        },
+        });
+
+        if (isStatusChanged) {
+          await this.stageHistoryService.recordTransition(
+            {
+              leadId: id,
+              tenantId: existingLead.tenantId,
+              fromStatus: existingLead.status,
+              toStatus: lead.status,
+              fromStageId,
+              toStageId,
+              changedById: currentUser.id,
+              source: 'MANUAL',
+            },
+            tx,
+          );
+        }
+
+        if (isReassigned) {
+          await this.leadActivityService.recordAssignment(
+            {
+              leadId: id,
+              tenantId: existingLead.tenantId,
+              fromUserId: existingLead.assignedUserId,
+              toUserId: lead.assignedUserId,
+              changedById: currentUser.id,
+            },
+            tx,
+          );
+        }
+
+        return lead;
       });
 
       // Create notification if lead was assigned to someone
@@ -262,7 +477,7 @@ export class LeadsService {
       }
 
       this.logger.log(`Lead ${id} updated successfully`);
-      return updatedLead;
+      return this.withFreshScore(updatedLead, 'lead update');
     } catch (error) {
       this.logger.error(`Error updating lead ${id}:`, error);
       this.logger.error(`Error details: ${JSON.stringify(error, Object.getOwnPropertyNames(error))}`);
@@ -270,6 +485,10 @@ export class LeadsService {
     }
   }
 
+  /**
+   * Move a lead to the recycle bin. It can be restored until the tenant's
+   * retention period runs out.
+   */
   async remove(id: string, currentUser: any) {
     const lead = await this.findOne(id, currentUser);
 
@@ -277,55 +496,235 @@ export class LeadsService {
       throw new ForbiddenException('Only admins can delete leads');
     }
 
-    return this.prisma.lead.delete({
+    return this.prisma.lead.update({
       where: { id },
+      data: { deletedAt: new Date(), deletedById: currentUser.id },
     });
   }
 
-  async assignLead(id: string, assignedUserId: string, currentUser: any) {
-    if (currentUser.role === UserRole.AGENT) {
+  /**
+   * Assign a lead to a user and notify them. currentUser is null when the
+   * assignment comes from the routing rules.
+   */
+  async assignLead(
+    id: string,
+    assignedUserId: string,
+    currentUser: any,
+    routing?: RoutingDecision,
+  ) {
+    if (currentUser?.role === UserRole.AGENT) {
       throw new ForbiddenException('Agents cannot reassign leads');
     }
 
-    const user = await this.prisma.user.findUnique({
-      where: { id: assignedUserId },
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const user = await this.prisma.user.findFirst({
+      where: { id: assignedUserId, tenantId: lead.tenantId },
     });
 
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    return this.prisma.lead.update({
-      where: { id },
-      data: {
-        assignedUserId,
-        updatedAt: new Date(),
-      },
-      include: {
-        assignedUser: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
-            email: true,
+    const updatedLead = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.lead.update({
+        where: { id },
+        data: {
+          assignedUserId,
+          updatedAt: new Date(),
+        },
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
           },
         },
-      },
+      });
+
+      if (lead.assignedUserId !== assignedUserId) {
+        await this.leadActivityService.recordAssignment(
+          {
+            leadId: id,
+            tenantId: lead.tenantId,
+            fromUserId: lead.assignedUserId,
+            toUserId: assignedUserId,
+            changedById: currentUser?.id,
+            note: routing ? `Routing rule "${routing.ruleName}"` : null,
+            source: routing ? 'ROUTING' : 'MANUAL',
+          },
+          tx,
+        );
+      }
+
+      return updated;
     });
+
+    if (assignedUserId !== currentUser?.id) {
+      await this.notificationsService.create({
+        userId: assignedUserId,
+        type: 'LEAD_ASSIGNED',
+        title: 'New Lead Assigned',
+        message: `You have been assigned a new lead: ${updatedLead.firstName} ${updatedLead.lastName}`,
+        metadata: {
+          leadId: updatedLead.id,
+          leadName: `${updatedLead.firstName} ${updatedLead.lastName}`,
+          ...(routing && {
+            routingRuleId: routing.ruleId,
+            routingRuleName: routing.ruleName,
+          }),
+        },
+      });
+    }
+
+    return updatedLead;
+  }
+
+  /**
+   * Assign an unassigned lead using the tenant's routing rules. When no rule
+   * can place it, the lead goes to fallbackUserId (if given) without a
+   * notification, or stays unassigned.
+   */
+  async autoAssignLead(leadId: string, fallbackUserId?: string) {
+    const lead = await this.prisma.lead.findUnique({ where: { id: leadId } });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+    if (lead.assignedUserId) {
+      return lead;
+    }
+
+    const routing = await this.leadRoutingService.selectAssignee(lead);
+    if (routing) {
+      this.logger.log(
+        `Lead ${leadId} routed to ${routing.userId} by rule "${routing.ruleName}"`,
+      );
+      return this.assignLead(leadId, routing.userId, null, routing);
+    }
+
+    if (fallbackUserId) {
+      return this.prisma.$transaction(async (tx) => {
+        const assignedLead = await tx.lead.update({
+          where: { id: leadId },
+          data: { assignedUserId: fallbackUserId },
+          include: {
+            assignedUser: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
+            },
+          },
+        });
+
+        await this.leadActivityService.recordAssignment(
+          {
+            leadId,
+            tenantId: lead.tenantId,
+            toUserId: fallbackUserId,
+            changedById: fallbackUserId,
+            note: 'No routing rule matched; assigned to the creator',
+          },
+          tx,
+        );
+
+        return assignedLead;
+      });
+    }
+
+    return lead;
+  }
+
+  /**
+   * Route a lead created from an inbound channel (WhatsApp, email, widget).
+   * Failures are logged rather than thrown so they never block the message.
+   */
+  async routeInboundLead(leadId: string) {
+    try {
+      await this.autoAssignLead(leadId);
+    } catch (error) {
+      this.logger.warn(`Failed to route lead ${leadId}: ${error.message}`);
+    }
+  }
+
+  async getStageHistory(id: string, currentUser: any) {
+    await this.findOne(id, currentUser);
+
+    return this.stageHistoryService.getLeadHistory(id);
+  }
+
+  async getTimeline(
+    id: string,
+    queryDto: LeadTimelineQueryDto,
+    currentUser: any,
+  ) {
+    await this.findOne(id, currentUser);
+
+    return this.leadTimelineService.getLeadTimeline(id, queryDto);
   }
 
-  async updateLeadScore(id: string, score: number, currentUser: any) {
+  /**
+   * Set the manual score override, or clear it with null to fall back to the
+   * rule-based score
+   */
+  async updateLeadScore(id: string, score: number | null, currentUser: any) {
     const lead = await this.findOne(id, currentUser);
 
-    return this.prisma.lead.update({
-      where: { id },
-      data: {
-        manualScore: score,
-        updatedAt: new Date(),
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const updatedLead = await tx.lead.update({
+        where: { id },
+        data: {
+          manualScore: score,
+          updatedAt: new Date(),
+        },
+      });
+
+      const fromScore = lead.manualScore ?? lead.score;
+      const toScore = updatedLead.manualScore ?? updatedLead.score;
+      if (fromScore !== toScore) {
+        await this.leadActivityService.recordScoreChange(
+          {
+            leadId: id,
+            tenantId: lead.tenantId,
+            fromScore,
+            toScore,
+            changedById: currentUser.id,
+            note:
+              score === null
+                ? 'Manual score override cleared'
+                : 'Manual score override',
+          },
+          tx,
+        );
+      }
+
+      return updatedLead;
     });
   }
 
+  async getLeadScore(id: string, currentUser: any) {
+    const lead = await this.findOne(id, currentUser);
+
+    return this.leadScoringService.formatLeadScore(lead);
+  }
+
+  async recalculateLeadScore(id: string, currentUser: any) {
+    await this.findOne(id, currentUser);
+    await this.leadScoringService.scoreLead(id, 'manual recalculation');
+
+    return this.getLeadScore(id, currentUser);
+  }
+
   async convertToClient(id: string, currentUser: any) {
     const lead = await this.findOne(id, currentUser);
 
@@ -339,18 +738,38 @@ export class LeadsService {
       );
     }
 
-    return this.prisma.client.create({
-      // @ts-ignore - tenantId added by Prisma middleware
-      data: {
-        leadId: id,
-        firstName: lead.firstName,
-        lastName: lead.lastName,
-        email: lead.email,
-        phone: lead.phone,
-      },
-      include: {
-        lead: true,
-      },
+    return this.prisma.$transaction(async (tx) => {
+      const client = await tx.client.create({
+        data: {
+          leadId: id,
+          firstName: lead.firstName,
+          lastName: lead.lastName,
+          email: lead.email,
+          phone: lead.phone,
+          referrerId: lead.referrerId,
+          tenantId: lead.tenantId,
+        },
+        include: {
+          lead: true,
+        },
+      });
+
+      await this.referralsService.recordConversion(tx, lead, client.id);
+
+      await this.stageHistoryService.recordTransition(
+        {
+          leadId: id,
+          tenantId: lead.tenantId,
+          fromStatus: lead.status,
+          toStatus: lead.status,
+          changedById: currentUser.id,
+          note: 'Converted to client',
+          source: 'CONVERSION',
+        },
+        tx,
+      );
+
+      return client;
     });
   }
 
@@ -398,41 +817,42 @@ export class LeadsService {
     };
   }
 
-  private calculateInitialScore(leadData: CreateLeadDto): number {
-    let score = 10;
-
-    if (leadData.email) score += 15;
-    if (leadData.phone) score += 15;
-    if (leadData.budget) score += 20;
-    if (leadData.inquiryDetails && leadData.inquiryDetails.length > 50) score += 10;
-    if (leadData.expectedCloseDate) score += 15;
-
-    score += (leadData.urgency || 1) * 5;
+  /**
+   * Re-score a lead that was just written and return it with the new score
+   */
+  private async withFreshScore<T extends { id: string; score: number }>(
+    lead: T,
+    reason: string,
+  ): Promise<T> {
+    const breakdown = await this.leadScoringService.rescoreLead(
+      lead.id,
+      reason,
+    );
 
-    return Math.min(score, 100);
+    return breakdown
+      ? { ...lead, score: breakdown.total, scoreBreakdown: breakdown }
+      : lead;
   }
 
-  async getPipelineView(currentUser: any) {
-    const where = currentUser.role === UserRole.AGENT 
-      ? { assignedUserId: currentUser.id } 
-      : {};
+  async getPipelineView(currentUser: any, pipelineId?: string) {
+    const pipeline = await this.pipelinesService.resolvePipeline(pipelineId);
+    const where = await this.getPipelineLeadWhere(pipeline, currentUser);
 
-    const statusOrder = [
-      LeadStatus.NEW,
-      LeadStatus.CONTACTED,
-      LeadStatus.ENGAGED,
-      LeadStatus.QUALIFIED,
-      LeadStatus.PROPOSAL_SENT,
-      LeadStatus.NEGOTIATION,
-      LeadStatus.CLOSED_WON,
-      LeadStatus.CLOSED_LOST,
-      LeadStatus.FOLLOW_UP,
-    ];
+    const avgDaysByStage =
+      await this.stageHistoryService.getAverageDaysInPipelineStages(
+        where,
+        pipeline.stages,
+      );
 
     const pipelineStages = await Promise.all(
-      statusOrder.map(async (status) => {
+      pipeline.stages.map(async (stage) => {
         const leads = await this.prisma.lead.findMany({
-          where: { ...where, status },
+          where: {
+            AND: [
+              where,
+              this.pipelinesService.getStageLeadFilter(pipeline, stage),
+            ],
+          },
           include: {
             assignedUser: {
               select: {
@@ -445,13 +865,17 @@ export class LeadsService {
           orderBy: { updatedAt: 'desc' },
         });
 
-        const avgTimeInStage = await this.calculateAverageTimeInStage(status, where);
-
         return {
-          stage: status,
+          stage: stage.status,
+          stageId: stage.id,
+          name: stage.name,
+          color: stage.color,
+          outcome: stage.outcome,
           leads,
           count: leads.length,
-          averageTimeInStage: avgTimeInStage,
+          averageTimeInStage: this.stageHistoryService.formatDays(
+            avgDaysByStage[stage.id],
+          ),
         };
       })
     );
@@ -460,6 +884,12 @@ export class LeadsService {
     const conversionRate = await this.calculateConversionRate(where);
 
     return {
+      pipelineDefinition: {
+        id: pipeline.id,
+        name: pipeline.name,
+        insuranceType: pipeline.insuranceType,
+        isDefault: pipeline.isDefault,
+      },
       pipeline: pipelineStages,
       summary: {
         totalLeads,
@@ -469,42 +899,87 @@ export class LeadsService {
     };
   }
 
+  /**
+   * Move a lead to a pipeline stage, given either the stage itself (which
+   * may belong to another pipeline) or a status within its current pipeline
+   */
   async moveToPipelineStage(
     leadId: string,
-    newStatus: LeadStatus,
+    target: { stageId?: string; status?: LeadStatus } & LeadLossDto,
     notes: string,
     currentUser: any
   ) {
+    if (!target.stageId && !target.status) {
+      throw new BadRequestException('Either stageId or status is required');
+    }
+
     const lead = await this.findOne(leadId, currentUser);
     const oldStatus = lead.status;
 
-    const updatedLead = await this.prisma.lead.update({
-      where: { id: leadId },
-      data: {
-        status: newStatus,
-        lastContactedAt: new Date(),
-        updatedAt: new Date(),
-      },
-      include: {
-        assignedUser: {
-          select: {
-            id: true,
-            firstName: true,
-            lastName: true,
+    const currentPipeline =
+      await this.pipelinesService.getPipelineForLead(lead);
+    const fromStage = this.pipelinesService.resolveStage(currentPipeline, lead);
+    const toStage = target.stageId
+      ? await this.pipelinesService.findStage(target.stageId)
+      : this.pipelinesService.getStageForStatus(currentPipeline, target.status);
+    const newStatus = toStage.status;
+    const lossFields = await this.resolveLossFields(lead, newStatus, target);
+
+    const updatedLead = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.lead.update({
+        where: { id: leadId },
+        data: {
+          ...lossFields,
+          status: newStatus,
+          pipelineStageId: toStage.id,
+          // Choosing a stage of another pipeline moves the lead into it
+          pipelineId:
+            toStage.pipelineId !== currentPipeline.id
+              ? toStage.pipelineId
+              : undefined,
+          lastContactedAt: new Date(),
+          updatedAt: new Date(),
+        },
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+            },
           },
         },
-      },
+      });
+
+      if (oldStatus !== newStatus || fromStage.id !== toStage.id) {
+        await this.stageHistoryService.recordTransition(
+          {
+            leadId,
+            tenantId: lead.tenantId,
+            fromStatus: oldStatus,
+            toStatus: newStatus,
+            fromStageId: fromStage.id,
+            toStageId: toStage.id,
+            changedById: currentUser.id,
+            note: notes,
+            source: 'PIPELINE',
+          },
+          tx,
+        );
+      }
+
+      return updated;
     });
 
     // Log the stage transition
     if (notes) {
       await this.prisma.communication.create({
-      // @ts-ignore - tenantId added by Prisma middleware
         data: {
+          tenantId: lead.tenantId,
           leadId,
           channel: 'IN_APP',
           direction: 'OUTBOUND',
-          subject: `Pipeline Stage Change: ${oldStatus} → ${newStatus}`,
+          subject: `Pipeline Stage Change: ${fromStage.name} → ${toStage.name}`,
           content: notes,
           userId: currentUser.id,
         },
@@ -512,15 +987,117 @@ export class LeadsService {
     }
 
     // Auto-create follow-up task based on new stage
-    await this.createAutoFollowUpTask(leadId, newStatus, currentUser.id);
+    await this.createAutoFollowUpTask(
+      leadId,
+      lead.tenantId,
+      newStatus,
+      currentUser.id,
+    );
 
-    return updatedLead;
+    return this.withFreshScore(updatedLead, 'pipeline stage change');
   }
 
-  async getPipelineMetrics(currentUser: any) {
-    const where = currentUser.role === UserRole.AGENT 
-      ? { assignedUserId: currentUser.id } 
-      : {};
+  /**
+   * Move a lead to a status on behalf of the system, e.g. when a quote is
+   * sent or answered. The lead goes to the matching stage of its pipeline
+   * and gets the usual follow-up task, assigned to its owner.
+   */
+  async applyStatusChange(
+    leadId: string,
+    status: LeadStatus,
+    origin: LeadOrigin & { changedById?: string | null },
+  ) {
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: leadId }),
+    });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+    if (lead.status === status) {
+      return lead;
+    }
+
+    const pipeline = await this.pipelinesService.getPipelineForLead(lead);
+    const fromStage = this.pipelinesService.resolveStage(pipeline, lead);
+    const toStage = this.pipelinesService.getStageForStatus(pipeline, status);
+
+    const updatedLead = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.lead.update({
+        where: { id: leadId },
+        data: {
+          status,
+          pipelineStageId: toStage.id,
+          // No reason is asked for when the system closes a lead as lost
+          ...(status === LeadStatus.CLOSED_LOST
+            ? { lostAt: new Date() }
+            : lead.status === LeadStatus.CLOSED_LOST
+              ? CLEARED_LOSS
+              : {}),
+        },
+      });
+
+      await this.stageHistoryService.recordTransition(
+        {
+          leadId,
+          tenantId: lead.tenantId,
+          fromStatus: lead.status,
+          toStatus: status,
+          fromStageId: fromStage.id,
+          toStageId: toStage.id,
+          changedById: origin.changedById,
+          note: origin.note,
+          source: origin.source,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+
+    const taskOwnerId = lead.assignedUserId ?? origin.changedById;
+    if (taskOwnerId) {
+      await this.createAutoFollowUpTask(
+        leadId,
+        lead.tenantId,
+        status,
+        taskOwnerId,
+      );
+    }
+
+    return this.withFreshScore(
+      updatedLead,
+      `${origin.source.toLowerCase()} status change`,
+    );
+  }
+
+  /**
+   * Loss fields for a lead moving to a status. Closing it as lost needs a
+   * valid reason and reopening it clears the loss. A lead that stays lost
+   * may have its reason corrected without changing when it was lost.
+   */
+  private async resolveLossFields(
+    lead: { status: LeadStatus; lostAt: Date | null },
+    toStatus: LeadStatus,
+    lossDto: LeadLossDto,
+  ) {
+    const wasLost = lead.status === LeadStatus.CLOSED_LOST;
+    if (toStatus !== LeadStatus.CLOSED_LOST) {
+      return wasLost ? CLEARED_LOSS : {};
+    }
+    if (!wasLost) {
+      return this.lostReasonsService.resolveLoss(lossDto);
+    }
+    if (!lossDto.lostReasonId) {
+      return {};
+    }
+
+    const loss = await this.lostReasonsService.resolveLoss(lossDto);
+    return { ...loss, lostAt: lead.lostAt ?? loss.lostAt };
+  }
+
+  async getPipelineMetrics(currentUser: any, pipelineId?: string) {
+    const pipeline = await this.pipelinesService.resolvePipeline(pipelineId);
+    const where = await this.getPipelineLeadWhere(pipeline, currentUser);
 
     const [
       stageDistribution,
@@ -528,13 +1105,14 @@ export class LeadsService {
       conversionFunnel,
       recentTransitions
     ] = await Promise.all([
-      this.getStageDistribution(where),
-      this.getAverageTimeByStage(where),
-      this.getConversionFunnel(where),
+      this.getStageDistribution(pipeline, where),
+      this.getAverageTimeByStage(pipeline, where),
+      this.getConversionFunnel(pipeline, where),
       this.getRecentStageTransitions(where),
     ]);
 
     return {
+      pipelineId: pipeline.id,
       stageDistribution,
       avgTimeByStage,
       conversionFunnel,
@@ -542,24 +1120,15 @@ export class LeadsService {
     };
   }
 
-  private async calculateAverageTimeInStage(stage: LeadStatus, where: any): Promise<string> {
-    // Mock implementation - in real scenario, you'd track stage transition timestamps
-    const stageTimings = {
-      [LeadStatus.NEW]: '1.2 days',
-      [LeadStatus.CONTACTED]: '2.1 days',
-      [LeadStatus.ENGAGED]: '3.5 days',
-      [LeadStatus.QUALIFIED]: '2.8 days',
-      [LeadStatus.PROPOSAL_SENT]: '4.2 days',
-      [LeadStatus.NEGOTIATION]: '5.1 days',
-      [LeadStatus.CLOSED_WON]: '0 days',
-      [LeadStatus.CLOSED_LOST]: '0 days',
-      [LeadStatus.FOLLOW_UP]: '7.3 days',
-    };
-    
-    return stageTimings[stage] || '0 days';
-  }
-
-  private async createAutoFollowUpTask(leadId: string, newStatus: LeadStatus, userId: string) {
+  /**
+   * Follow-up task for a lead that just moved to a status, if its stage has one
+   */
+  async createAutoFollowUpTask(
+    leadId: string,
+    tenantId: string,
+    newStatus: LeadStatus,
+    userId: string,
+  ) {
     const taskTemplates = {
       [LeadStatus.CONTACTED]: {
         title: 'Follow up on initial contact',
@@ -599,7 +1168,6 @@ export class LeadsService {
       dueDate.setDate(dueDate.getDate() + template.daysFromNow);
 
       await this.prisma.task.create({
-      // @ts-ignore - tenantId added by Prisma middleware
         data: {
           title: template.title,
           type: template.type,
@@ -607,49 +1175,63 @@ export class LeadsService {
           dueDate,
           leadId,
           assignedUserId: userId,
+          tenantId,
         },
       });
     }
   }
 
-  private async getStageDistribution(where: any) {
-    return this.prisma.lead.groupBy({
-      by: ['status'],
-      where,
-      _count: { id: true },
+  /**
+   * Tenant-scoped filter for the leads of a pipeline the user may see
+   */
+  private async getPipelineLeadWhere(
+    pipeline: PipelineWithStages,
+    currentUser: any,
+  ) {
+    const where: any =
+      currentUser.role === UserRole.AGENT
+        ? { assignedUserId: currentUser.id }
+        : {};
+
+    return this.prisma.addTenantFilter({
+      ...where,
+      AND: [await this.pipelinesService.getLeadFilter(pipeline)],
     });
   }
 
-  private async getAverageTimeByStage(where: any) {
-    // Mock implementation - would calculate actual stage durations
-    return {
-      [LeadStatus.NEW]: 1.2,
-      [LeadStatus.CONTACTED]: 2.1,
-      [LeadStatus.ENGAGED]: 3.5,
-      [LeadStatus.QUALIFIED]: 2.8,
-      [LeadStatus.PROPOSAL_SENT]: 4.2,
-      [LeadStatus.NEGOTIATION]: 5.1,
-    };
+  private async getStageDistribution(pipeline: PipelineWithStages, where: any) {
+    return this.pipelinesService.countLeadsByStage(pipeline, where);
   }
 
-  private async getConversionFunnel(where: any) {
-    const statusOrder = [
-      LeadStatus.NEW,
-      LeadStatus.CONTACTED,
-      LeadStatus.ENGAGED,
-      LeadStatus.QUALIFIED,
-      LeadStatus.PROPOSAL_SENT,
-      LeadStatus.NEGOTIATION,
-      LeadStatus.CLOSED_WON,
-    ];
-
-    const funnel = await Promise.all(
-      statusOrder.map(async (status) => {
-        const count = await this.prisma.lead.count({
-          where: { ...where, status },
-        });
-        return { status, count };
-      })
+  private async getAverageTimeByStage(
+    pipeline: PipelineWithStages,
+    where: any,
+  ) {
+    const avgDaysByStage =
+      await this.stageHistoryService.getAverageDaysInPipelineStages(
+        where,
+        pipeline.stages,
+      );
+
+    // Won and lost stages are terminal, so there is no time-in-stage to report
+    return pipeline.stages
+      .filter((stage) => stage.outcome === PipelineStageOutcome.OPEN)
+      .map((stage) => ({
+        stageId: stage.id,
+        name: stage.name,
+        status: stage.status,
+        averageDays: avgDaysByStage[stage.id],
+      }));
+  }
+
+  private async getConversionFunnel(pipeline: PipelineWithStages, where: any) {
+    // The funnel runs through the open stages in order and ends at won
+    const stageCounts = await this.pipelinesService.countLeadsByStage(
+      pipeline,
+      where,
+    );
+    const funnel = stageCounts.filter(
+      (stage) => stage.outcome !== PipelineStageOutcome.LOST,
     );
 
     return funnel.map((stage, index) => ({
@@ -663,25 +1245,7 @@ export class LeadsService {
   }
 
   private async getRecentStageTransitions(where: any) {
-    // Mock implementation - would query actual stage transition logs
-    return this.prisma.lead.findMany({
-      where,
-      orderBy: { updatedAt: 'desc' },
-      take: 10,
-      select: {
-        id: true,
-        firstName: true,
-        lastName: true,
-        status: true,
-        updatedAt: true,
-        assignedUser: {
-          select: {
-            firstName: true,
-            lastName: true,
-          },
-        },
-      },
-    });
+    return this.stageHistoryService.getRecentTransitions(where);
   }
 
   private async calculateConversionRate(where: any): Promise<number> {
@@ -0,0 +1,43 @@
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateLostReasonDto {
+  @ApiProperty({ example: 'Price', description: 'Unique per tenant' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Premium above what the lead would pay' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  description?: string;
+
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Ask for the competitor when a lead is lost for this reason',
+  })
+  @IsOptional()
+  @IsBoolean()
+  requiresCompetitor?: boolean;
+
+  @ApiPropertyOptional({
+    example: 0,
+    description: 'Order in pick lists; appended when omitted',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
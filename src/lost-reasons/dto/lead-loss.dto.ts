@@ -0,0 +1,25 @@
+import { IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Why a lead was lost, required when it moves to CLOSED_LOST
+ */
+export class LeadLossDto {
+  @ApiPropertyOptional({
+    example: 'lost-reason-uuid-here',
+    description: 'Required when the lead is closed as lost',
+  })
+  @IsOptional()
+  @IsUUID()
+  lostReasonId?: string;
+
+  @ApiPropertyOptional({
+    example: 'Leadway Assurance',
+    description:
+      'Insurer the lead chose instead; required by some lost reasons',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  lostCompetitor?: string;
+}
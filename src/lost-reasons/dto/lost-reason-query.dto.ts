@@ -0,0 +1,14 @@
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class LostReasonQueryDto {
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Include deactivated reasons',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeInactive?: boolean;
+}
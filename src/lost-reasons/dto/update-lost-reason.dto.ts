@@ -0,0 +1,13 @@
+import { PartialType, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateLostReasonDto } from './create-lost-reason.dto';
+
+export class UpdateLostReasonDto extends PartialType(CreateLostReasonDto) {
+  @ApiPropertyOptional({
+    example: false,
+    description: 'Inactive reasons stay on past leads but cannot be chosen',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { LostReasonsService } from './lost-reasons.service';
+import { CreateLostReasonDto } from './dto/create-lost-reason.dto';
+import { UpdateLostReasonDto } from './dto/update-lost-reason.dto';
+import { LostReasonQueryDto } from './dto/lost-reason-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Lost Reasons')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('lost-reasons')
+export class LostReasonsController {
+  constructor(private readonly lostReasonsService: LostReasonsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get lost reasons in pick-list order' })
+  @ApiResponse({ status: 200, description: 'Lost reasons retrieved' })
+  findAll(@Query() queryDto: LostReasonQueryDto) {
+    return this.lostReasonsService.findAll(queryDto);
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Create a lost reason' })
+  @ApiResponse({ status: 201, description: 'Lost reason created' })
+  @ApiResponse({ status: 409, description: 'Name already in use' })
+  create(@Body() createDto: CreateLostReasonDto) {
+    return this.lostReasonsService.create(createDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get lost reason by ID' })
+  @ApiResponse({ status: 200, description: 'Lost reason found' })
+  @ApiResponse({ status: 404, description: 'Lost reason not found' })
+  findOne(@Param('id') id: string) {
+    return this.lostReasonsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update or deactivate a lost reason' })
+  @ApiResponse({ status: 200, description: 'Lost reason updated' })
+  @ApiResponse({ status: 409, description: 'Name already in use' })
+  update(@Param('id') id: string, @Body() updateDto: UpdateLostReasonDto) {
+    return this.lostReasonsService.update(id, updateDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a lost reason no lead uses' })
+  @ApiResponse({ status: 200, description: 'Lost reason deleted' })
+  @ApiResponse({ status: 409, description: 'Lost reason in use' })
+  remove(@Param('id') id: string) {
+    return this.lostReasonsService.remove(id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LostReasonsService } from './lost-reasons.service';
+import { LostReasonsController } from './lost-reasons.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [LostReasonsController],
+  providers: [LostReasonsService, PrismaService],
+  exports: [LostReasonsService],
+})
+export class LostReasonsModule {}
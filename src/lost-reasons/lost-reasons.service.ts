@@ -0,0 +1,183 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { CreateLostReasonDto } from './dto/create-lost-reason.dto';
+import { UpdateLostReasonDto } from './dto/update-lost-reason.dto';
+import { LostReasonQueryDto } from './dto/lost-reason-query.dto';
+import { LeadLossDto } from './dto/lead-loss.dto';
+
+// Created for a tenant the first time its reasons are listed
+const DEFAULT_LOST_REASONS = [
+  { name: 'Price', description: 'Premium above what the lead would pay' },
+  { name: 'Went with a competitor', requiresCompetitor: true },
+  { name: 'No response', description: 'Stopped replying to follow-ups' },
+  {
+    name: 'Not eligible',
+    description: 'Failed underwriting or outside what we cover',
+  },
+  { name: 'Coverage not suitable' },
+  { name: 'Not ready to buy' },
+  { name: 'Other' },
+];
+
+// Lead fields of a lead that is not lost
+export const CLEARED_LOSS = {
+  lostReasonId: null,
+  lostCompetitor: null,
+  lostAt: null,
+};
+
+/**
+ * LostReasonsService - Tenant-defined reasons for losing leads
+ *
+ * Key Features:
+ * - Reason CRUD with a pick-list order and a starter set for new tenants
+ * - Reasons can ask for the competitor the lead chose
+ * - Reasons in use are deactivated rather than deleted, so loss reports
+ *   keep their history
+ * - Validation of the reason given when a lead is closed as lost
+ */
+@Injectable()
+export class LostReasonsService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(queryDto: LostReasonQueryDto = {}) {
+    await this.ensureDefaults();
+
+    return this.prisma.lostReason.findMany({
+      where: this.prisma.addTenantFilter(
+        queryDto.includeInactive ? {} : { isActive: true },
+      ),
+      include: { _count: { select: { leads: true } } },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  async findOne(id: string) {
+    const reason = await this.prisma.lostReason.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: { _count: { select: { leads: true } } },
+    });
+
+    if (!reason) {
+      throw new NotFoundException('Lost reason not found');
+    }
+
+    return reason;
+  }
+
+  async create(createDto: CreateLostReasonDto) {
+    const tenantId = this.requireTenantId();
+    await this.assertNameAvailable(createDto.name);
+
+    let position = createDto.position;
+    if (position === undefined) {
+      const last = await this.prisma.lostReason.aggregate({
+        where: { tenantId },
+        _max: { position: true },
+      });
+      position = (last._max.position ?? -1) + 1;
+    }
+
+    return this.prisma.lostReason.create({
+      data: { ...createDto, position, tenantId },
+    });
+  }
+
+  async update(id: string, updateDto: UpdateLostReasonDto) {
+    const reason = await this.findOne(id);
+    if (updateDto.name && updateDto.name !== reason.name) {
+      await this.assertNameAvailable(updateDto.name);
+    }
+
+    return this.prisma.lostReason.update({
+      where: { id },
+      data: updateDto,
+    });
+  }
+
+  async remove(id: string) {
+    const reason = await this.findOne(id);
+    if (reason._count.leads > 0) {
+      throw new ConflictException(
+        `"${reason.name}" is recorded on ${reason._count.leads} leads; deactivate it instead`,
+      );
+    }
+
+    await this.prisma.lostReason.delete({ where: { id } });
+    return { message: 'Lost reason deleted successfully' };
+  }
+
+  /**
+   * Lead fields for a lead being closed as lost. The reason must be active
+   * and comes with a competitor when it asks for one.
+   */
+  async resolveLoss(lossDto: LeadLossDto) {
+    if (!lossDto.lostReasonId) {
+      throw new BadRequestException(
+        'A lost reason is required to close a lead as lost',
+      );
+    }
+
+    const reason = await this.prisma.lostReason.findFirst({
+      where: this.prisma.addTenantFilter({
+        id: lossDto.lostReasonId,
+        isActive: true,
+      }),
+    });
+    if (!reason) {
+      throw new BadRequestException('Lost reason not found or inactive');
+    }
+
+    const competitor = lossDto.lostCompetitor?.trim() || null;
+    if (reason.requiresCompetitor && !competitor) {
+      throw new BadRequestException(
+        `Enter the competitor for the lost reason "${reason.name}"`,
+      );
+    }
+
+    return {
+      lostReasonId: reason.id,
+      lostCompetitor: competitor,
+      lostAt: new Date(),
+    };
+  }
+
+  private async ensureDefaults() {
+    const tenantId = this.requireTenantId();
+    const count = await this.prisma.lostReason.count({ where: { tenantId } });
+    if (count > 0) return;
+
+    await this.prisma.lostReason.createMany({
+      data: DEFAULT_LOST_REASONS.map((reason, position) => ({
+        ...reason,
+        position,
+        tenantId,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.lostReason.findFirst({
+      where: this.prisma.addTenantFilter({ name }),
+    });
+
+    if (existing) {
+      throw new ConflictException(`Lost reason "${name}" already exists`);
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
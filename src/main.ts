@@ -48,6 +48,7 @@ async function bootstrap() {
     .setDescription('A comprehensive backend system for managing insurance leads, communications, and client relationships')
     .setVersion('1.0')
     .addBearerAuth()
+    .addApiKey({ type: 'apiKey', name: 'X-API-Key', in: 'header' }, 'api-key')
     .addTag('Authentication', 'User authentication and authorization')
     .addTag('Users', 'User management and profiles')
     .addTag('Leads', 'Lead management and pipeline')
@@ -57,6 +58,7 @@ async function bootstrap() {
     .addTag('Tasks', 'Task scheduling and follow-ups')
     .addTag('AI', 'AI-powered features and automation')
     .addTag('Reports', 'Analytics and reporting')
+    .addTag('Partner API', 'Lead ingestion for partners, authenticated with API keys')
     .build();
 
   const document = SwaggerModule.createDocument(app, config);
@@ -0,0 +1,42 @@
+import { IsIn, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  MarketingChannel,
+  SuppressionReason,
+} from '../enums/marketing-consent.enums';
+
+// STOP_REQUEST entries only come from inbound WhatsApp messages
+const MANUAL_REASONS = [
+  SuppressionReason.UNSUBSCRIBED,
+  SuppressionReason.BOUNCED,
+  SuppressionReason.COMPLAINT,
+  SuppressionReason.MANUAL,
+];
+
+export class CreateSuppressionDto {
+  @ApiProperty({ enum: MarketingChannel, example: MarketingChannel.EMAIL })
+  @IsEnum(MarketingChannel)
+  channel: MarketingChannel;
+
+  @ApiProperty({
+    example: 'john.doe@example.com',
+    description: 'Email address, or phone number with country code',
+  })
+  @IsString()
+  @MaxLength(191)
+  value: string;
+
+  @ApiPropertyOptional({
+    enum: MANUAL_REASONS,
+    default: SuppressionReason.MANUAL,
+  })
+  @IsOptional()
+  @IsIn(MANUAL_REASONS)
+  reason?: SuppressionReason;
+
+  @ApiPropertyOptional({ example: 'Asked not to be contacted by phone' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
@@ -0,0 +1,47 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { MarketingChannel } from '../enums/marketing-consent.enums';
+
+export class SuppressionQueryDto {
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({ example: 25, description: 'Entries per page (1-100)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @ApiPropertyOptional({ enum: MarketingChannel })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(MarketingChannel)
+  channel?: MarketingChannel;
+
+  @ApiPropertyOptional({
+    example: 'example.com',
+    description: 'Part of the address',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
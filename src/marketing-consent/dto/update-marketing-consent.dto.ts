@@ -0,0 +1,18 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ConsentStatus } from '../enums/marketing-consent.enums';
+
+export class UpdateMarketingConsentDto {
+  @ApiProperty({ enum: ConsentStatus, example: ConsentStatus.GRANTED })
+  @IsEnum(ConsentStatus)
+  status: ConsentStatus;
+
+  @ApiPropertyOptional({
+    example: 'Agreed to newsletters on a call on 2026-10-18',
+    description: 'How the lead gave or withdrew consent',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
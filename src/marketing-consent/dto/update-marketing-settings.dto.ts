@@ -0,0 +1,12 @@
+import { IsBoolean } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateMarketingSettingsDto {
+  @ApiProperty({
+    example: false,
+    description:
+      'Only send marketing to leads who granted consent on the channel. When off, everyone is reached unless they withdrew consent or are suppressed.',
+  })
+  @IsBoolean()
+  requireOptIn: boolean;
+}
@@ -0,0 +1,34 @@
+/**
+ * Marketing Consent Enums - Channels, consent states and why a marketing
+ * message was not sent
+ */
+
+export enum MarketingChannel {
+  EMAIL = 'EMAIL',
+  WHATSAPP = 'WHATSAPP',
+}
+
+export enum ConsentStatus {
+  GRANTED = 'GRANTED',
+  WITHDRAWN = 'WITHDRAWN',
+}
+
+export enum ConsentSource {
+  MANUAL = 'MANUAL', // Recorded by a user
+  WHATSAPP_KEYWORD = 'WHATSAPP_KEYWORD', // STOP or START sent on WhatsApp
+  EMAIL_REPLY = 'EMAIL_REPLY', // Unsubscribe reply to an email
+}
+
+export enum SuppressionReason {
+  STOP_REQUEST = 'STOP_REQUEST', // STOP keyword on WhatsApp
+  UNSUBSCRIBED = 'UNSUBSCRIBED',
+  BOUNCED = 'BOUNCED',
+  COMPLAINT = 'COMPLAINT',
+  MANUAL = 'MANUAL',
+}
+
+export enum MarketingSkipReason {
+  SUPPRESSED = 'SUPPRESSED', // Address is on the suppression list
+  CONSENT_WITHDRAWN = 'CONSENT_WITHDRAWN',
+  NO_CONSENT = 'NO_CONSENT', // Opt-in required but never granted
+}
@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { MarketingConsentService } from './marketing-consent.service';
+import { UpdateMarketingConsentDto } from './dto/update-marketing-consent.dto';
+import { CreateSuppressionDto } from './dto/create-suppression.dto';
+import { SuppressionQueryDto } from './dto/suppression-query.dto';
+import { UpdateMarketingSettingsDto } from './dto/update-marketing-settings.dto';
+import { MarketingChannel } from './enums/marketing-consent.enums';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Marketing Consent')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('marketing-consent')
+export class MarketingConsentController {
+  constructor(
+    private readonly marketingConsentService: MarketingConsentService,
+  ) {}
+
+  @Get('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get the marketing opt-in setting' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved' })
+  getSettings() {
+    return this.marketingConsentService.getSettings();
+  }
+
+  @Put('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Require granted consent before sending marketing',
+  })
+  @ApiResponse({ status: 200, description: 'Settings updated' })
+  updateSettings(@Body() settingsDto: UpdateMarketingSettingsDto) {
+    return this.marketingConsentService.updateSettings(settingsDto);
+  }
+
+  @Get('suppressions')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get the do-not-contact list' })
+  @ApiResponse({ status: 200, description: 'Suppressions retrieved' })
+  findSuppressions(@Query() queryDto: SuppressionQueryDto) {
+    return this.marketingConsentService.findSuppressions(queryDto);
+  }
+
+  @Post('suppressions')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Add an email address or phone number' })
+  @ApiResponse({ status: 201, description: 'Address suppressed' })
+  @ApiResponse({ status: 400, description: 'Invalid address' })
+  @ApiResponse({ status: 409, description: 'Address already suppressed' })
+  addSuppression(
+    @Body() suppressionDto: CreateSuppressionDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.marketingConsentService.addSuppression(suppressionDto, user.id);
+  }
+
+  @Delete('suppressions/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Remove an address from the do-not-contact list' })
+  @ApiResponse({ status: 200, description: 'Suppression removed' })
+  @ApiResponse({ status: 404, description: 'Suppression not found' })
+  removeSuppression(@Param('id') id: string) {
+    return this.marketingConsentService.removeSuppression(id);
+  }
+
+  @Get('leads/:leadId')
+  @ApiOperation({
+    summary: 'Get the consent of a lead and whether marketing reaches it',
+  })
+  @ApiResponse({ status: 200, description: 'Consent per channel' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  getLeadConsent(@Param('leadId') leadId: string) {
+    return this.marketingConsentService.getLeadConsent(leadId);
+  }
+
+  @Put('leads/:leadId/:channel')
+  @ApiParam({ name: 'channel', enum: MarketingChannel })
+  @ApiOperation({ summary: 'Record that a lead gave or withdrew consent' })
+  @ApiResponse({ status: 200, description: 'Consent per channel' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  updateLeadConsent(
+    @Param('leadId') leadId: string,
+    @Param('channel', new ParseEnumPipe(MarketingChannel))
+    channel: MarketingChannel,
+    @Body() consentDto: UpdateMarketingConsentDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.marketingConsentService.updateLeadConsent(
+      leadId,
+      channel,
+      consentDto,
+      user.id,
+    );
+  }
+}
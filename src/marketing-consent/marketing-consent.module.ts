@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { MarketingConsentService } from './marketing-consent.service';
+import { MarketingConsentController } from './marketing-consent.controller';
+import { LeadsModule } from '../leads/leads.module';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  imports: [LeadsModule],
+  controllers: [MarketingConsentController],
+  providers: [MarketingConsentService, PrismaService],
+  exports: [MarketingConsentService],
+})
+export class MarketingConsentModule {}
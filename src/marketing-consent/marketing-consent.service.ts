@@ -0,0 +1,573 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { UpdateMarketingConsentDto } from './dto/update-marketing-consent.dto';
+import { CreateSuppressionDto } from './dto/create-suppression.dto';
+import { SuppressionQueryDto } from './dto/suppression-query.dto';
+import { UpdateMarketingSettingsDto } from './dto/update-marketing-settings.dto';
+import {
+  ConsentSource,
+  ConsentStatus,
+  MarketingChannel,
+  MarketingSkipReason,
+  SuppressionReason,
+} from './enums/marketing-consent.enums';
+
+// Whole-message keywords, compared after upper-casing and dropping punctuation
+const WHATSAPP_STOP_KEYWORDS = [
+  'STOP',
+  'STOP ALL',
+  'STOPALL',
+  'UNSUBSCRIBE',
+  'CANCEL',
+  'END',
+  'QUIT',
+  'OPT OUT',
+  'OPTOUT',
+];
+const WHATSAPP_START_KEYWORDS = [
+  'START',
+  'UNSTOP',
+  'SUBSCRIBE',
+  'OPT IN',
+  'OPTIN',
+];
+const EMAIL_UNSUBSCRIBE_KEYWORDS = [
+  'UNSUBSCRIBE',
+  'UNSUBSCRIBE ME',
+  'STOP',
+  'REMOVE',
+  'REMOVE ME',
+  'OPT OUT',
+  'OPTOUT',
+];
+
+const USER_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} as const;
+
+/**
+ * Someone a marketing message is about to be sent to
+ */
+export interface MarketingRecipient {
+  leadId: string;
+  address: string | null; // Email or phone number, as stored on the lead
+  country?: string | null;
+}
+
+/**
+ * MarketingConsentService - Who may receive marketing, per channel
+ *
+ * Key Features:
+ * - Per-lead consent on email and WhatsApp, with source and time
+ * - Tenant-wide suppression list of addresses that must never be messaged
+ * - STOP/START on WhatsApp and unsubscribe replies to emails are captured
+ *   automatically
+ * - Optional opt-in mode where only leads who granted consent are reached
+ * - Skip reasons for campaign and automation sends
+ */
+@Injectable()
+export class MarketingConsentService {
+  private readonly logger = new Logger(MarketingConsentService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private duplicatesService: LeadDuplicatesService,
+  ) {}
+
+  /**
+   * Consent of a lead on each channel and whether marketing reaches it
+   */
+  async getLeadConsent(leadId: string) {
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: leadId }),
+      select: { id: true, email: true, phone: true, country: true },
+    });
+
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const tenantId = this.requireTenantId();
+    const consents = await this.prisma.marketingConsent.findMany({
+      where: { tenantId, leadId },
+      include: { recordedBy: USER_SELECT },
+    });
+
+    return Promise.all(
+      Object.values(MarketingChannel).map(async (channel) => {
+        const consent = consents.find((c) => c.channel === channel);
+        const address =
+          channel === MarketingChannel.EMAIL ? lead.email : lead.phone;
+        const skipReasons = await this.getSkipReasons(tenantId, channel, [
+          { leadId, address, country: lead.country },
+        ]);
+
+        return {
+          channel,
+          status: consent?.status ?? null,
+          source: consent?.source ?? null,
+          note: consent?.note ?? null,
+          recordedAt: consent?.recordedAt ?? null,
+          recordedBy: consent?.recordedBy ?? null,
+          canReceiveMarketing: !skipReasons.has(leadId),
+          skipReason: skipReasons.get(leadId) ?? null,
+        };
+      }),
+    );
+  }
+
+  async updateLeadConsent(
+    leadId: string,
+    channel: MarketingChannel,
+    consentDto: UpdateMarketingConsentDto,
+    userId: string,
+  ) {
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: leadId }),
+      select: { id: true, tenantId: true },
+    });
+
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    await this.recordConsent(lead.tenantId, leadId, channel, {
+      status: consentDto.status,
+      source: ConsentSource.MANUAL,
+      note: consentDto.note,
+      recordedById: userId,
+    });
+
+    return this.getLeadConsent(leadId);
+  }
+
+  async findSuppressions(
+    queryDto: SuppressionQueryDto,
+  ): Promise<PaginationResult<any>> {
+    const { page, limit } = queryDto;
+    const where = this.prisma.addTenantFilter({
+      ...(queryDto.channel && { channel: queryDto.channel }),
+      ...(queryDto.search && {
+        value: { contains: queryDto.search.toLowerCase() },
+      }),
+    });
+
+    const [data, total] = await Promise.all([
+      this.prisma.marketingSuppression.findMany({
+        where,
+        include: { createdBy: USER_SELECT },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.marketingSuppression.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  async addSuppression(suppressionDto: CreateSuppressionDto, userId: string) {
+    const tenantId = this.requireTenantId();
+    const value = this.normalizeAddress(
+      suppressionDto.channel,
+      suppressionDto.value,
+    );
+
+    if (!value) {
+      throw new BadRequestException(
+        suppressionDto.channel === MarketingChannel.EMAIL
+          ? 'Invalid email address'
+          : 'Invalid phone number',
+      );
+    }
+
+    try {
+      return await this.prisma.marketingSuppression.create({
+        data: {
+          channel: suppressionDto.channel,
+          value,
+          reason: suppressionDto.reason ?? SuppressionReason.MANUAL,
+          note: suppressionDto.note,
+          createdById: userId,
+          tenantId,
+        },
+        include: { createdBy: USER_SELECT },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(`${value} is already suppressed`);
+      }
+      throw error;
+    }
+  }
+
+  async removeSuppression(id: string) {
+    const suppression = await this.prisma.marketingSuppression.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      select: { id: true, channel: true, value: true },
+    });
+
+    if (!suppression) {
+      throw new NotFoundException('Suppression not found');
+    }
+
+    await this.prisma.marketingSuppression.delete({ where: { id } });
+    this.logger.log(
+      `${suppression.channel} suppression of ${suppression.value} removed`,
+    );
+    return { id, deleted: true };
+  }
+
+  async getSettings() {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: this.requireTenantId() },
+      select: { marketingRequiresOptIn: true },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return { requireOptIn: tenant.marketingRequiresOptIn };
+  }
+
+  async updateSettings(settingsDto: UpdateMarketingSettingsDto) {
+    const tenant = await this.prisma.tenant.update({
+      where: { id: this.requireTenantId() },
+      data: { marketingRequiresOptIn: settingsDto.requireOptIn },
+      select: { marketingRequiresOptIn: true },
+    });
+
+    return { requireOptIn: tenant.marketingRequiresOptIn };
+  }
+
+  /**
+   * Why each lead must not receive marketing on the channel. Leads that may
+   * be messaged are left out of the map. Used by schedulers, so the tenant
+   * is passed explicitly.
+   */
+  async getSkipReasons(
+    tenantId: string,
+    channel: MarketingChannel,
+    recipients: MarketingRecipient[],
+  ): Promise<Map<string, MarketingSkipReason>> {
+    const reasons = new Map<string, MarketingSkipReason>();
+    if (recipients.length === 0) return reasons;
+
+    const addresses = new Map(
+      recipients.map((recipient) => [
+        recipient.leadId,
+        this.normalizeAddress(channel, recipient.address, recipient.country),
+      ]),
+    );
+    const [requireOptIn, suppressed, consents] = await Promise.all([
+      this.requiresOptIn(tenantId),
+      this.findSuppressed(tenantId, channel, [...addresses.values()]),
+      this.prisma.marketingConsent.findMany({
+        where: {
+          tenantId,
+          channel,
+          leadId: { in: recipients.map((recipient) => recipient.leadId) },
+        },
+        select: { leadId: true, status: true },
+      }),
+    ]);
+    const statuses = new Map(consents.map((c) => [c.leadId, c.status]));
+
+    for (const { leadId } of recipients) {
+      const address = addresses.get(leadId);
+      const status = statuses.get(leadId);
+
+      if (address && suppressed.has(address)) {
+        reasons.set(leadId, MarketingSkipReason.SUPPRESSED);
+      } else if (status === ConsentStatus.WITHDRAWN) {
+        reasons.set(leadId, MarketingSkipReason.CONSENT_WITHDRAWN);
+      } else if (requireOptIn && status !== ConsentStatus.GRANTED) {
+        reasons.set(leadId, MarketingSkipReason.NO_CONSENT);
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Why a phone number or email address must not receive marketing, for
+   * sends that only know the address. Consent is taken from the leads with
+   * that address: a withdrawal on any of them applies.
+   */
+  async getAddressSkipReason(
+    tenantId: string,
+    channel: MarketingChannel,
+    address: string,
+  ): Promise<MarketingSkipReason | null> {
+    const leads = await this.findLeadsByAddress(tenantId, channel, address);
+    const normalized = new Set(
+      [null, ...leads.map((lead) => lead.country)].map((country) =>
+        this.normalizeAddress(channel, address, country),
+      ),
+    );
+
+    const [requireOptIn, suppressed, consents] = await Promise.all([
+      this.requiresOptIn(tenantId),
+      this.findSuppressed(tenantId, channel, [...normalized]),
+      this.prisma.marketingConsent.findMany({
+        where: {
+          tenantId,
+          channel,
+          leadId: { in: leads.map((lead) => lead.id) },
+        },
+        select: { status: true },
+      }),
+    ]);
+
+    if (suppressed.size > 0) {
+      return MarketingSkipReason.SUPPRESSED;
+    }
+    if (consents.some((c) => c.status === ConsentStatus.WITHDRAWN)) {
+      return MarketingSkipReason.CONSENT_WITHDRAWN;
+    }
+    if (
+      requireOptIn &&
+      !consents.some((c) => c.status === ConsentStatus.GRANTED)
+    ) {
+      return MarketingSkipReason.NO_CONSENT;
+    }
+    return null;
+  }
+
+  /**
+   * Handle STOP and START keywords in an inbound WhatsApp message. STOP
+   * suppresses the number and withdraws the lead's consent; START lifts a
+   * suppression created by STOP.
+   */
+  async captureWhatsAppKeyword(
+    tenantId: string,
+    phone: string,
+    text: string | undefined,
+    leadId?: string | null,
+  ): Promise<'STOP' | 'START' | null> {
+    const keyword = this.normalizeKeyword(text);
+    const isStop = WHATSAPP_STOP_KEYWORDS.includes(keyword);
+    const isStart = WHATSAPP_START_KEYWORDS.includes(keyword);
+    const value = this.normalizeAddress(MarketingChannel.WHATSAPP, phone);
+    if ((!isStop && !isStart) || !value) return null;
+
+    if (isStop) {
+      await this.suppress(
+        tenantId,
+        MarketingChannel.WHATSAPP,
+        value,
+        SuppressionReason.STOP_REQUEST,
+        `WhatsApp message "${text.trim()}"`,
+      );
+    } else {
+      await this.prisma.marketingSuppression.deleteMany({
+        where: {
+          tenantId,
+          channel: MarketingChannel.WHATSAPP,
+          value,
+          reason: SuppressionReason.STOP_REQUEST,
+        },
+      });
+    }
+
+    if (leadId) {
+      await this.recordConsent(tenantId, leadId, MarketingChannel.WHATSAPP, {
+        status: isStop ? ConsentStatus.WITHDRAWN : ConsentStatus.GRANTED,
+        source: ConsentSource.WHATSAPP_KEYWORD,
+        note: `Sent "${text.trim()}" on WhatsApp`,
+      });
+    }
+
+    this.logger.log(
+      `WhatsApp ${isStop ? 'STOP' : 'START'} from ${value} for tenant ${tenantId}`,
+    );
+    return isStop ? 'STOP' : 'START';
+  }
+
+  /**
+   * Handle an inbound email whose subject or first line asks to
+   * unsubscribe. Returns whether it did.
+   */
+  async captureEmailUnsubscribe(
+    tenantId: string,
+    from: string,
+    subject: string | undefined,
+    content: string | undefined,
+    leadId?: string | null,
+  ): Promise<boolean> {
+    const firstLine = (content || '')
+      .replace(/<[^>]+>/g, '\n')
+      .split('\n')
+      .find((line) => line.trim());
+    const asksToUnsubscribe = [
+      (subject || '').replace(/^((re|fwd?|aw):\s*)+/i, ''),
+      firstLine,
+    ].some((text) =>
+      EMAIL_UNSUBSCRIBE_KEYWORDS.includes(this.normalizeKeyword(text)),
+    );
+
+    const address = from.match(/<([^>]+)>/)?.[1] ?? from;
+    const value = this.normalizeAddress(MarketingChannel.EMAIL, address);
+    if (!asksToUnsubscribe || !value) return false;
+
+    await this.suppress(
+      tenantId,
+      MarketingChannel.EMAIL,
+      value,
+      SuppressionReason.UNSUBSCRIBED,
+      'Unsubscribe reply by email',
+    );
+    if (leadId) {
+      await this.recordConsent(tenantId, leadId, MarketingChannel.EMAIL, {
+        status: ConsentStatus.WITHDRAWN,
+        source: ConsentSource.EMAIL_REPLY,
+        note: 'Replied asking to unsubscribe',
+      });
+    }
+
+    this.logger.log(`Email unsubscribe from ${value} for tenant ${tenantId}`);
+    return true;
+  }
+
+  /**
+   * Lowercased email or E.164 phone number, as stored on the suppression list
+   */
+  normalizeAddress(
+    channel: MarketingChannel,
+    address: string | null | undefined,
+    country?: string | null,
+  ): string | null {
+    return channel === MarketingChannel.EMAIL
+      ? this.duplicatesService.normalizeEmail(address)
+      : this.duplicatesService.normalizePhone(address, country);
+  }
+
+  private async recordConsent(
+    tenantId: string,
+    leadId: string,
+    channel: MarketingChannel,
+    consent: {
+      status: ConsentStatus;
+      source: ConsentSource;
+      note?: string;
+      recordedById?: string;
+    },
+  ) {
+    const data = {
+      ...consent,
+      note: consent.note ?? null,
+      recordedById: consent.recordedById ?? null,
+      recordedAt: new Date(),
+    };
+
+    await this.prisma.marketingConsent.upsert({
+      where: { leadId_channel: { leadId, channel } },
+      create: { ...data, leadId, channel, tenantId },
+      update: data,
+    });
+  }
+
+  private async suppress(
+    tenantId: string,
+    channel: MarketingChannel,
+    value: string,
+    reason: SuppressionReason,
+    note: string,
+  ) {
+    await this.prisma.marketingSuppression.upsert({
+      where: { tenantId_channel_value: { tenantId, channel, value } },
+      create: { tenantId, channel, value, reason, note },
+      update: {},
+    });
+  }
+
+  private async findSuppressed(
+    tenantId: string,
+    channel: MarketingChannel,
+    values: (string | null)[],
+  ): Promise<Set<string>> {
+    const suppressed = await this.prisma.marketingSuppression.findMany({
+      where: {
+        tenantId,
+        channel,
+        value: { in: values.filter((value): value is string => !!value) },
+      },
+      select: { value: true },
+    });
+    return new Set(suppressed.map(({ value }) => value));
+  }
+
+  private async findLeadsByAddress(
+    tenantId: string,
+    channel: MarketingChannel,
+    address: string,
+  ) {
+    if (channel === MarketingChannel.EMAIL) {
+      return this.prisma.lead.findMany({
+        where: { tenantId, email: address.trim() },
+        select: { id: true, country: true },
+      });
+    }
+
+    // Phone numbers are stored as typed: match the common spellings
+    const normalized = this.duplicatesService.normalizePhone(address);
+    const variants = [
+      ...new Set(
+        [address.trim(), normalized, normalized?.replace(/^\+/, '')].filter(
+          (variant): variant is string => !!variant,
+        ),
+      ),
+    ];
+    return this.prisma.lead.findMany({
+      where: { tenantId, phone: { in: variants } },
+      select: { id: true, country: true },
+    });
+  }
+
+  private async requiresOptIn(tenantId: string): Promise<boolean> {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { marketingRequiresOptIn: true },
+    });
+    return tenant?.marketingRequiresOptIn ?? false;
+  }
+
+  private normalizeKeyword(text: string | undefined): string {
+    return (text || '')
+      .toUpperCase()
+      .replace(/[^A-Z ]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  IsInt,
+  Min,
+  Max,
+  IsHexColor,
+  ArrayMinSize,
+  MinLength,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { InsuranceType, LeadStatus } from '@prisma/client';
+import { PipelineStageOutcome } from '../enums/pipeline.enums';
+
+export class CreatePipelineStageDto {
+  @ApiProperty({
+    example: 'Medical Underwriting',
+    description: 'Stage name shown on the pipeline board',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: '#8B5CF6',
+    description: 'Hex colour used for the stage column',
+  })
+  @IsOptional()
+  @IsHexColor()
+  color?: string;
+
+  @ApiProperty({
+    enum: LeadStatus,
+    example: LeadStatus.QUALIFIED,
+    description: 'Lead status applied to leads entering this stage',
+  })
+  @IsEnum(LeadStatus)
+  status: LeadStatus;
+
+  @ApiPropertyOptional({
+    enum: PipelineStageOutcome,
+    example: PipelineStageOutcome.OPEN,
+    description:
+      'Whether the stage is open, won or lost. Derived from the status when omitted',
+  })
+  @IsOptional()
+  @IsEnum(PipelineStageOutcome)
+  outcome?: PipelineStageOutcome;
+
+  @ApiPropertyOptional({
+    example: 60,
+    nullable: true,
+    description:
+      'Percent chance that a lead in this stage is won, used by the forecast. Defaults by status when empty',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  winProbability?: number | null;
+}
+
+export class AddPipelineStageDto extends CreatePipelineStageDto {
+  @ApiPropertyOptional({
+    example: 2,
+    description:
+      'Zero-based position to insert the stage at. Appends when omitted',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  position?: number;
+}
+
+export class CreatePipelineDto {
+  @ApiProperty({
+    example: 'Motor Insurance',
+    description: 'Pipeline name',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    example: 'Short sales cycle for motor policies',
+    description: 'Pipeline description',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: InsuranceType,
+    example: InsuranceType.AUTO,
+    description:
+      'Insurance type whose leads use this pipeline. Leave empty for a pipeline leads are moved into explicitly',
+  })
+  @IsOptional()
+  @IsEnum(InsuranceType)
+  insuranceType?: InsuranceType;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Whether the pipeline is active',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    type: [CreatePipelineStageDto],
+    description:
+      'Ordered stages. Defaults to a copy of the standard stages when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(3)
+  @ValidateNested({ each: true })
+  @Type(() => CreatePipelineStageDto)
+  stages?: CreatePipelineStageDto[];
+}
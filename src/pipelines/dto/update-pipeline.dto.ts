@@ -0,0 +1,75 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsBoolean,
+  IsArray,
+  ArrayMinSize,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import { InsuranceType } from '@prisma/client';
+import { CreatePipelineStageDto } from './create-pipeline.dto';
+
+export class UpdatePipelineDto {
+  @ApiPropertyOptional({
+    example: 'Motor Insurance',
+    description: 'Pipeline name',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(1)
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    example: 'Short sales cycle for motor policies',
+    description: 'Pipeline description',
+  })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({
+    enum: InsuranceType,
+    nullable: true,
+    example: InsuranceType.AUTO,
+    description: 'Insurance type whose leads use this pipeline (null to clear)',
+  })
+  @IsOptional()
+  @IsEnum(InsuranceType)
+  insuranceType?: InsuranceType | null;
+
+  @ApiPropertyOptional({
+    example: true,
+    description: 'Whether the pipeline is active',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Make this the default pipeline for leads without a type-specific pipeline',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdatePipelineStageDto extends PartialType(
+  CreatePipelineStageDto,
+) {}
+
+export class ReorderPipelineStagesDto {
+  @ApiProperty({
+    example: ['stage-id-1', 'stage-id-2', 'stage-id-3'],
+    description: 'Every stage ID of the pipeline in the new order',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  stageIds: string[];
+}
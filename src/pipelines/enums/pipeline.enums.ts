@@ -0,0 +1,9 @@
+/**
+ * Pipeline Enums - Semantics of tenant-defined pipeline stages
+ */
+
+export enum PipelineStageOutcome {
+  OPEN = 'OPEN',
+  WON = 'WON',
+  LOST = 'LOST',
+}
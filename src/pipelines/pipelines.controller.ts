@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PipelinesService } from './pipelines.service';
+import {
+  AddPipelineStageDto,
+  CreatePipelineDto,
+} from './dto/create-pipeline.dto';
+import {
+  ReorderPipelineStagesDto,
+  UpdatePipelineDto,
+  UpdatePipelineStageDto,
+} from './dto/update-pipeline.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Pipelines')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('pipelines')
+export class PipelinesController {
+  constructor(private readonly pipelinesService: PipelinesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all pipelines with their stages' })
+  @ApiResponse({ status: 200, description: 'Pipelines retrieved' })
+  findAll() {
+    return this.pipelinesService.findAll();
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Create a pipeline' })
+  @ApiResponse({ status: 201, description: 'Pipeline created successfully' })
+  @ApiResponse({
+    status: 409,
+    description: 'Insurance type already has an active pipeline',
+  })
+  create(@Body() createPipelineDto: CreatePipelineDto) {
+    return this.pipelinesService.create(createPipelineDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get pipeline by ID' })
+  @ApiResponse({ status: 200, description: 'Pipeline found' })
+  @ApiResponse({ status: 404, description: 'Pipeline not found' })
+  findOne(@Param('id') id: string) {
+    return this.pipelinesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update pipeline' })
+  @ApiResponse({ status: 200, description: 'Pipeline updated successfully' })
+  @ApiResponse({ status: 404, description: 'Pipeline not found' })
+  update(
+    @Param('id') id: string,
+    @Body() updatePipelineDto: UpdatePipelineDto,
+  ) {
+    return this.pipelinesService.update(id, updatePipelineDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete pipeline' })
+  @ApiResponse({ status: 200, description: 'Pipeline deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Pipeline is default or in use' })
+  remove(@Param('id') id: string) {
+    return this.pipelinesService.remove(id);
+  }
+
+  @Post(':id/stages')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Add a stage to a pipeline' })
+  @ApiResponse({ status: 201, description: 'Stage added successfully' })
+  addStage(@Param('id') id: string, @Body() addStageDto: AddPipelineStageDto) {
+    return this.pipelinesService.addStage(id, addStageDto);
+  }
+
+  @Patch(':id/stages/reorder')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Reorder pipeline stages' })
+  @ApiResponse({ status: 200, description: 'Stages reordered successfully' })
+  reorderStages(
+    @Param('id') id: string,
+    @Body() reorderDto: ReorderPipelineStagesDto,
+  ) {
+    return this.pipelinesService.reorderStages(id, reorderDto.stageIds);
+  }
+
+  @Patch(':id/stages/:stageId')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a pipeline stage' })
+  @ApiResponse({ status: 200, description: 'Stage updated successfully' })
+  @ApiResponse({ status: 404, description: 'Stage not found' })
+  updateStage(
+    @Param('id') id: string,
+    @Param('stageId') stageId: string,
+    @Body() updateStageDto: UpdatePipelineStageDto,
+  ) {
+    return this.pipelinesService.updateStage(id, stageId, updateStageDto);
+  }
+
+  @Delete(':id/stages/:stageId')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Delete a pipeline stage' })
+  @ApiResponse({ status: 200, description: 'Stage deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Stage still holds leads' })
+  removeStage(@Param('id') id: string, @Param('stageId') stageId: string) {
+    return this.pipelinesService.removeStage(id, stageId);
+  }
+}
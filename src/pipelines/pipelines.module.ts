@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PipelinesService } from './pipelines.service';
+import { PipelinesController } from './pipelines.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [PipelinesController],
+  providers: [PipelinesService, PrismaService],
+  exports: [PipelinesService],
+})
+export class PipelinesModule {}
@@ -0,0 +1,648 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  InsuranceType,
+  LeadStatus,
+  Pipeline,
+  PipelineStage,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import {
+  AddPipelineStageDto,
+  CreatePipelineDto,
+  CreatePipelineStageDto,
+} from './dto/create-pipeline.dto';
+import {
+  UpdatePipelineDto,
+  UpdatePipelineStageDto,
+} from './dto/update-pipeline.dto';
+import { PipelineStageOutcome } from './enums/pipeline.enums';
+
+export type PipelineWithStages = Pipeline & { stages: PipelineStage[] };
+
+interface StageDefinition {
+  name: string;
+  color: string;
+  status: LeadStatus;
+  outcome: PipelineStageOutcome;
+  winProbability?: number | null;
+}
+
+/**
+ * Stages every tenant starts with - mirrors the original LeadStatus order
+ */
+const DEFAULT_STAGES: StageDefinition[] = [
+  { name: 'New', color: '#94A3B8', status: LeadStatus.NEW },
+  { name: 'Contacted', color: '#3B82F6', status: LeadStatus.CONTACTED },
+  { name: 'Engaged', color: '#6366F1', status: LeadStatus.ENGAGED },
+  { name: 'Qualified', color: '#8B5CF6', status: LeadStatus.QUALIFIED },
+  {
+    name: 'Proposal Sent',
+    color: '#F59E0B',
+    status: LeadStatus.PROPOSAL_SENT,
+  },
+  { name: 'Negotiation', color: '#F97316', status: LeadStatus.NEGOTIATION },
+  { name: 'Closed Won', color: '#10B981', status: LeadStatus.CLOSED_WON },
+  { name: 'Closed Lost', color: '#EF4444', status: LeadStatus.CLOSED_LOST },
+  { name: 'Follow Up', color: '#14B8A6', status: LeadStatus.FOLLOW_UP },
+].map((stage) => ({ ...stage, outcome: outcomeForStatus(stage.status) }));
+
+const DEFAULT_STAGE_COLOR = '#3B82F6';
+
+function outcomeForStatus(status: LeadStatus): PipelineStageOutcome {
+  if (status === LeadStatus.CLOSED_WON) return PipelineStageOutcome.WON;
+  if (status === LeadStatus.CLOSED_LOST) return PipelineStageOutcome.LOST;
+  return PipelineStageOutcome.OPEN;
+}
+
+/**
+ * PipelinesService - Tenant-defined sales pipelines
+ *
+ * Key Features:
+ * - One active pipeline per insurance type, plus a default pipeline for
+ *   every other lead (created on first use from the standard stages)
+ * - Named, ordered, colour-coded stages, each mapped to a lead status and
+ *   an open/won/lost outcome
+ * - Resolves which pipeline and stage a lead is in, for the pipeline board,
+ *   funnel and reports
+ */
+@Injectable()
+export class PipelinesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * List the tenant's pipelines, default first
+   */
+  async findAll() {
+    await this.ensureDefaultPipeline(this.requireTenantId());
+
+    return this.prisma.pipeline.findMany({
+      where: this.prisma.addTenantFilter({}),
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+  }
+
+  async findOne(id: string): Promise<PipelineWithStages> {
+    const pipeline = await this.prisma.pipeline.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+
+    if (!pipeline) {
+      throw new NotFoundException('Pipeline not found');
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Create a pipeline. Without explicit stages it starts from the standard set.
+   */
+  async create(createPipelineDto: CreatePipelineDto) {
+    const tenantId = this.requireTenantId();
+    await this.ensureDefaultPipeline(tenantId);
+
+    const stages = createPipelineDto.stages
+      ? createPipelineDto.stages.map((stage) => this.normalizeStage(stage))
+      : DEFAULT_STAGES;
+    this.validateStages(stages);
+
+    const isActive = createPipelineDto.isActive ?? true;
+    if (createPipelineDto.insuranceType && isActive) {
+      await this.assertInsuranceTypeAvailable(createPipelineDto.insuranceType);
+    }
+
+    return this.prisma.pipeline.create({
+      data: {
+        name: createPipelineDto.name,
+        description: createPipelineDto.description,
+        insuranceType: createPipelineDto.insuranceType,
+        isActive,
+        tenantId,
+        stages: {
+          create: stages.map((stage, index) => ({
+            ...stage,
+            position: index,
+            tenantId,
+          })),
+        },
+      },
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+  }
+
+  async update(id: string, updatePipelineDto: UpdatePipelineDto) {
+    const pipeline = await this.findOne(id);
+
+    if (pipeline.isDefault && updatePipelineDto.isDefault === false) {
+      throw new BadRequestException(
+        'Make another pipeline the default instead',
+      );
+    }
+
+    const isDefault = updatePipelineDto.isDefault ?? pipeline.isDefault;
+    const isActive = updatePipelineDto.isActive ?? pipeline.isActive;
+    if (isDefault && !isActive) {
+      throw new BadRequestException('The default pipeline must stay active');
+    }
+
+    const insuranceType =
+      updatePipelineDto.insuranceType !== undefined
+        ? updatePipelineDto.insuranceType
+        : pipeline.insuranceType;
+    if (insuranceType && isActive) {
+      await this.assertInsuranceTypeAvailable(insuranceType, id);
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      if (isDefault && !pipeline.isDefault) {
+        await tx.pipeline.updateMany({
+          where: { tenantId: pipeline.tenantId, isDefault: true },
+          data: { isDefault: false, defaultForTenantId: null },
+        });
+      }
+
+      await tx.pipeline.update({
+        where: { id },
+        data: {
+          name: updatePipelineDto.name,
+          description: updatePipelineDto.description,
+          insuranceType,
+          isActive,
+          isDefault,
+          defaultForTenantId: isDefault ? pipeline.tenantId : null,
+        },
+      });
+    });
+
+    return this.findOne(id);
+  }
+
+  /**
+   * Delete a pipeline. Leads must be moved out of it first.
+   */
+  async remove(id: string) {
+    const pipeline = await this.findOne(id);
+
+    if (pipeline.isDefault) {
+      throw new BadRequestException('The default pipeline cannot be deleted');
+    }
+
+    const leadCount = await this.prisma.lead.count({
+      where: this.prisma.addTenantFilter({ pipelineId: id }),
+    });
+    if (leadCount > 0) {
+      throw new BadRequestException(
+        `Move the ${leadCount} lead(s) in this pipeline to another pipeline before deleting it`,
+      );
+    }
+
+    return this.prisma.pipeline.delete({ where: { id } });
+  }
+
+  /**
+   * Add a stage, appending it unless a position is given
+   */
+  async addStage(pipelineId: string, addStageDto: AddPipelineStageDto) {
+    const pipeline = await this.findOne(pipelineId);
+    const stage = this.normalizeStage(addStageDto);
+    const position = Math.min(
+      addStageDto.position ?? pipeline.stages.length,
+      pipeline.stages.length,
+    );
+
+    const stages: Array<Pick<PipelineStage, 'name' | 'status' | 'outcome'>> = [
+      ...pipeline.stages,
+    ];
+    stages.splice(position, 0, stage);
+    this.validateStages(stages);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.pipelineStage.updateMany({
+        where: { pipelineId, position: { gte: position } },
+        data: { position: { increment: 1 } },
+      });
+
+      await tx.pipelineStage.create({
+        data: {
+          ...stage,
+          position,
+          pipelineId,
+          tenantId: pipeline.tenantId,
+        },
+      });
+    });
+
+    return this.findOne(pipelineId);
+  }
+
+  async updateStage(
+    pipelineId: string,
+    stageId: string,
+    updateStageDto: UpdatePipelineStageDto,
+  ) {
+    const pipeline = await this.findOne(pipelineId);
+    const stage = this.getStageOrThrow(pipeline, stageId);
+
+    const status = updateStageDto.status ?? stage.status;
+    const updated = this.normalizeStage({
+      name: updateStageDto.name ?? stage.name,
+      color: updateStageDto.color ?? stage.color,
+      status,
+      // A new status without an explicit outcome re-derives the outcome
+      outcome:
+        updateStageDto.outcome ??
+        (updateStageDto.status
+          ? undefined
+          : (stage.outcome as PipelineStageOutcome)),
+      winProbability:
+        updateStageDto.winProbability !== undefined
+          ? updateStageDto.winProbability
+          : stage.winProbability,
+    });
+
+    this.validateStages(
+      pipeline.stages.map((existing) =>
+        existing.id === stageId ? updated : existing,
+      ),
+    );
+
+    if (updated.status !== stage.status || updated.outcome !== stage.outcome) {
+      await this.assertStageEmpty(stageId, 'changing its status');
+    }
+
+    await this.prisma.pipelineStage.update({
+      where: { id: stageId },
+      data: updated,
+    });
+
+    return this.findOne(pipelineId);
+  }
+
+  async removeStage(pipelineId: string, stageId: string) {
+    const pipeline = await this.findOne(pipelineId);
+    this.getStageOrThrow(pipeline, stageId);
+
+    const remaining = pipeline.stages.filter((stage) => stage.id !== stageId);
+    this.validateStages(remaining);
+    await this.assertStageEmpty(stageId, 'deleting it');
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.pipelineStage.delete({ where: { id: stageId } });
+      await this.writePositions(
+        tx,
+        remaining.map((stage) => stage.id),
+      );
+    });
+
+    return this.findOne(pipelineId);
+  }
+
+  /**
+   * Reorder stages. Every stage of the pipeline must be listed exactly once.
+   */
+  async reorderStages(pipelineId: string, stageIds: string[]) {
+    const pipeline = await this.findOne(pipelineId);
+
+    const currentIds = pipeline.stages.map((stage) => stage.id);
+    const isPermutation =
+      stageIds.length === currentIds.length &&
+      new Set(stageIds).size === stageIds.length &&
+      stageIds.every((id) => currentIds.includes(id));
+    if (!isPermutation) {
+      throw new BadRequestException(
+        'stageIds must list every stage of the pipeline exactly once',
+      );
+    }
+
+    await this.prisma.$transaction((tx) => this.writePositions(tx, stageIds));
+
+    return this.findOne(pipelineId);
+  }
+
+  /**
+   * The tenant's default pipeline, created from the standard stages the
+   * first time it is needed. Concurrent first requests race on the unique
+   * default key; the loser reads the winner's pipeline.
+   */
+  async ensureDefaultPipeline(tenantId: string): Promise<PipelineWithStages> {
+    const existing = await this.findDefaultPipeline(tenantId);
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await this.createDefaultPipeline(tenantId);
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return this.findDefaultPipeline(tenantId);
+      }
+      throw error;
+    }
+  }
+
+  private findDefaultPipeline(tenantId: string) {
+    return this.prisma.pipeline.findFirst({
+      where: { tenantId, isDefault: true },
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+  }
+
+  private createDefaultPipeline(tenantId: string) {
+    return this.prisma.pipeline.create({
+      data: {
+        name: 'Default Pipeline',
+        description: 'Standard sales pipeline',
+        isDefault: true,
+        defaultForTenantId: tenantId,
+        tenantId,
+        stages: {
+          create: DEFAULT_STAGES.map((stage, index) => ({
+            ...stage,
+            position: index,
+            tenantId,
+          })),
+        },
+      },
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+  }
+
+  /**
+   * The pipeline to show: the requested one, or the tenant's default
+   */
+  async resolvePipeline(pipelineId?: string): Promise<PipelineWithStages> {
+    if (pipelineId) {
+      return this.findOne(pipelineId);
+    }
+    return this.ensureDefaultPipeline(this.requireTenantId());
+  }
+
+  /**
+   * The pipeline a lead belongs to: its explicit pipeline, else the active
+   * pipeline for its insurance type, else the tenant default
+   */
+  async getPipelineForLead(lead: {
+    pipelineId?: string | null;
+    insuranceType: InsuranceType;
+    tenantId: string;
+  }): Promise<PipelineWithStages> {
+    if (lead.pipelineId) {
+      const pipeline = await this.prisma.pipeline.findFirst({
+        where: { id: lead.pipelineId, tenantId: lead.tenantId },
+        include: { stages: { orderBy: { position: 'asc' } } },
+      });
+      if (pipeline) {
+        return pipeline;
+      }
+    }
+
+    const typed = await this.prisma.pipeline.findFirst({
+      where: {
+        tenantId: lead.tenantId,
+        insuranceType: lead.insuranceType,
+        isActive: true,
+      },
+      include: { stages: { orderBy: { position: 'asc' } } },
+    });
+
+    if (typed) {
+      return typed;
+    }
+    return this.ensureDefaultPipeline(lead.tenantId);
+  }
+
+  /**
+   * Find a stage by ID within the current tenant
+   */
+  async findStage(stageId: string): Promise<PipelineStage> {
+    const stage = await this.prisma.pipelineStage.findFirst({
+      where: this.prisma.addTenantFilter({ id: stageId }),
+    });
+
+    if (!stage) {
+      throw new NotFoundException('Pipeline stage not found');
+    }
+
+    return stage;
+  }
+
+  /**
+   * The stage a lead is in: its explicit stage when that belongs to the
+   * pipeline, otherwise the first stage carrying its status
+   */
+  resolveStage(
+    pipeline: PipelineWithStages,
+    lead: { pipelineStageId?: string | null; status: LeadStatus },
+  ): PipelineStage {
+    return (
+      pipeline.stages.find((stage) => stage.id === lead.pipelineStageId) ??
+      this.getStageForStatus(pipeline, lead.status)
+    );
+  }
+
+  /**
+   * First stage (by position) carrying the status, falling back to the first
+   * stage with the same outcome
+   */
+  getStageForStatus(
+    pipeline: PipelineWithStages,
+    status: LeadStatus,
+  ): PipelineStage {
+    return (
+      pipeline.stages.find((stage) => stage.status === status) ??
+      pipeline.stages.find(
+        (stage) => stage.outcome === outcomeForStatus(status),
+      ) ??
+      pipeline.stages[0]
+    );
+  }
+
+  /**
+   * Lead filter matching every lead that belongs to the pipeline
+   */
+  async getLeadFilter(pipeline: PipelineWithStages) {
+    let insuranceTypes: InsuranceType[] = [];
+
+    if (pipeline.isDefault) {
+      const typed = await this.prisma.pipeline.findMany({
+        where: {
+          tenantId: pipeline.tenantId,
+          isActive: true,
+          insuranceType: { not: null },
+        },
+        select: { insuranceType: true },
+      });
+      const claimed = typed.map((p) => p.insuranceType);
+      insuranceTypes = Object.values(InsuranceType).filter(
+        (type) => !claimed.includes(type),
+      );
+    } else if (pipeline.insuranceType && pipeline.isActive) {
+      insuranceTypes = [pipeline.insuranceType];
+    }
+
+    if (insuranceTypes.length === 0) {
+      return { pipelineId: pipeline.id };
+    }
+
+    return {
+      OR: [
+        { pipelineId: pipeline.id },
+        { pipelineId: null, insuranceType: { in: insuranceTypes } },
+      ],
+    };
+  }
+
+  /**
+   * Lead filter matching the leads of a pipeline that sit in the stage.
+   * Leads without a stage of this pipeline are placed by their status.
+   */
+  getStageLeadFilter(pipeline: PipelineWithStages, stage: PipelineStage) {
+    if (this.getStageForStatus(pipeline, stage.status).id !== stage.id) {
+      return { pipelineStageId: stage.id };
+    }
+
+    return {
+      OR: [
+        { pipelineStageId: stage.id },
+        { pipelineStageId: null, status: stage.status },
+        {
+          pipelineStageId: { notIn: pipeline.stages.map((s) => s.id) },
+          status: stage.status,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Lead counts per stage for the leads matching the filter
+   */
+  async countLeadsByStage(pipeline: PipelineWithStages, leadWhere: any = {}) {
+    const pipelineFilter = await this.getLeadFilter(pipeline);
+
+    return Promise.all(
+      pipeline.stages.map(async (stage) => ({
+        stageId: stage.id,
+        name: stage.name,
+        color: stage.color,
+        outcome: stage.outcome,
+        status: stage.status,
+        count: await this.prisma.lead.count({
+          where: {
+            AND: [
+              this.prisma.addTenantFilter(leadWhere),
+              pipelineFilter,
+              this.getStageLeadFilter(pipeline, stage),
+            ],
+          },
+        }),
+      })),
+    );
+  }
+
+  private normalizeStage(
+    stage: Pick<CreatePipelineStageDto, 'name' | 'status'> & {
+      color?: string | null;
+      outcome?: PipelineStageOutcome | null;
+      winProbability?: number | null;
+    },
+  ): StageDefinition {
+    return {
+      name: stage.name,
+      color: stage.color || DEFAULT_STAGE_COLOR,
+      status: stage.status,
+      outcome: stage.outcome || outcomeForStatus(stage.status),
+      winProbability: stage.winProbability ?? null,
+    };
+  }
+
+  /**
+   * Won stages must close leads as won, lost stages as lost, and open
+   * stages must keep leads open. A pipeline needs at least one of each.
+   */
+  private validateStages(
+    stages: Array<{ name: string; status: LeadStatus; outcome: string }>,
+  ) {
+    for (const stage of stages) {
+      if (stage.outcome !== outcomeForStatus(stage.status)) {
+        throw new BadRequestException(
+          `Stage "${stage.name}" has outcome ${stage.outcome}, which does not match status ${stage.status}`,
+        );
+      }
+    }
+
+    for (const outcome of Object.values(PipelineStageOutcome)) {
+      if (!stages.some((stage) => stage.outcome === outcome)) {
+        throw new BadRequestException(
+          `A pipeline needs at least one ${outcome} stage`,
+        );
+      }
+    }
+  }
+
+  private async assertInsuranceTypeAvailable(
+    insuranceType: InsuranceType,
+    excludeId?: string,
+  ) {
+    const existing = await this.prisma.pipeline.findFirst({
+      where: this.prisma.addTenantFilter({
+        insuranceType,
+        isActive: true,
+        ...(excludeId && { id: { not: excludeId } }),
+      }),
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        `Pipeline "${existing.name}" is already active for ${insuranceType} leads`,
+      );
+    }
+  }
+
+  private async assertStageEmpty(stageId: string, action: string) {
+    const leadCount = await this.prisma.lead.count({
+      where: this.prisma.addTenantFilter({ pipelineStageId: stageId }),
+    });
+
+    if (leadCount > 0) {
+      throw new BadRequestException(
+        `Move the ${leadCount} lead(s) in this stage elsewhere before ${action}`,
+      );
+    }
+  }
+
+  private getStageOrThrow(pipeline: PipelineWithStages, stageId: string) {
+    const stage = pipeline.stages.find((s) => s.id === stageId);
+    if (!stage) {
+      throw new NotFoundException('Pipeline stage not found');
+    }
+    return stage;
+  }
+
+  private async writePositions(
+    tx: Prisma.TransactionClient,
+    stageIds: string[],
+  ) {
+    for (const [position, id] of stageIds.entries()) {
+      await tx.pipelineStage.update({ where: { id }, data: { position } });
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
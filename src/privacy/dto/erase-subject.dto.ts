@@ -0,0 +1,13 @@
+import { IsString, MaxLength, MinLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class EraseSubjectDto {
+  @ApiProperty({
+    example: 'Erasure request received by email on 2026-10-18',
+    description: 'How the request was received, kept in the request log',
+  })
+  @IsString()
+  @MinLength(3)
+  @MaxLength(1000)
+  reason: string;
+}
@@ -0,0 +1,13 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ExportSubjectDto {
+  @ApiPropertyOptional({
+    example: 'Access request received by email on 2026-10-18',
+    description: 'How the request was received, kept in the request log',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
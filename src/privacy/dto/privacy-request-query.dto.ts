@@ -0,0 +1,34 @@
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PrivacyRequestType } from '../enums/privacy.enums';
+
+export class PrivacyRequestQueryDto {
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({
+    example: 25,
+    description: 'Requests per page (1-100)',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @ApiPropertyOptional({ enum: PrivacyRequestType })
+  @IsOptional()
+  @IsEnum(PrivacyRequestType)
+  type?: PrivacyRequestType;
+
+  @ApiPropertyOptional({ description: 'Lead or client ID' })
+  @IsOptional()
+  @IsString()
+  subjectId?: string;
+}
@@ -0,0 +1,18 @@
+/**
+ * Privacy Enums - Data subject request kinds and outcomes
+ */
+
+export enum PrivacySubjectType {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+}
+
+export enum PrivacyRequestType {
+  EXPORT = 'EXPORT', // Copy of the subject's personal data
+  ERASURE = 'ERASURE', // Personal data anonymized or deleted
+}
+
+export enum PrivacyRequestStatus {
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
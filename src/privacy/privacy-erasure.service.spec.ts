@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PrivacyErasureService } from './privacy-erasure.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { PrivacySubjectType } from './enums/privacy.enums';
+import type { PrivacySubject } from './privacy.service';
+
+// Linked models with nothing personal to erase
+const KEPT_MODELS = [
+  'LeadTag',
+  'ClientTag',
+  'LeadSlaBreach', // Due dates and statuses only
+  'CampaignRecipientSkip', // Reason codes only
+];
+
+const delegateName = (model: string) =>
+  model.charAt(0).toLowerCase() + model.slice(1);
+
+// Every model with a foreign key to a lead or client
+const linkedModels = Prisma.dmmf.datamodel.models
+  .filter((model) =>
+    model.fields.some(
+      (field) =>
+        (field.type === 'Lead' || field.type === 'Client') &&
+        field.relationFromFields?.length,
+    ),
+  )
+  .map((model) => model.name);
+
+const txModel = () => ({
+  findMany: jest.fn().mockResolvedValue([]),
+  update: jest.fn(),
+  updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+  deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+});
+
+describe('PrivacyErasureService', () => {
+  let service: PrivacyErasureService;
+  let tx: Record<string, ReturnType<typeof txModel>>;
+  const prisma = { $transaction: jest.fn() };
+
+  const subject = (overrides: Partial<PrivacySubject> = {}) =>
+    ({
+      type: PrivacySubjectType.LEAD,
+      id: 'lead-1',
+      tenantId: 'tenant-1',
+      lead: {
+        id: 'lead-1',
+        attribution: { utmSource: 'google', gclid: 'abc', landingPage: '/x' },
+      },
+      client: { id: 'client-1' },
+      phoneNumbers: ['+15550100'],
+      emails: ['ada@example.com'],
+      ...overrides,
+    }) as PrivacySubject;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    tx = Object.fromEntries(
+      Prisma.dmmf.datamodel.models.map((model) => [
+        delegateName(model.name),
+        txModel(),
+      ]),
+    );
+    prisma.$transaction.mockImplementation((callback) => callback(tx));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PrivacyErasureService,
+        { provide: PrismaService, useValue: prisma },
+      ],
+    }).compile();
+
+    service = module.get(PrivacyErasureService);
+  });
+
+  it('erases every model linked to the subject', async () => {
+    await service.erase(subject());
+
+    const untouched = linkedModels.filter((model) => {
+      const delegate = tx[delegateName(model)];
+      return (
+        !KEPT_MODELS.includes(model) &&
+        !delegate.update.mock.calls.length &&
+        !delegate.updateMany.mock.calls.length &&
+        !delegate.deleteMany.mock.calls.length
+      );
+    });
+    expect(untouched).toEqual([]);
+  });
+
+  it('anonymizes the lead and keeps only channel attribution', async () => {
+    await service.erase(subject());
+
+    expect(tx.lead.update).toHaveBeenCalledWith({
+      where: { id: 'lead-1', deletedAt: undefined },
+      data: expect.objectContaining({
+        firstName: '[erased]',
+        email: null,
+        phone: null,
+        attribution: { utmSource: 'google' },
+        erasedAt: expect.any(Date),
+      }),
+    });
+    expect(tx.client.update).toHaveBeenCalledWith({
+      where: { id: 'client-1', deletedAt: undefined },
+      data: expect.objectContaining({ firstName: '[erased]', email: null }),
+    });
+  });
+
+  it('takes the lead out of contact groups and relationships', async () => {
+    await service.erase(subject());
+
+    expect(tx.leadContactGroup.deleteMany).toHaveBeenCalledWith({
+      where: { leadId: 'lead-1' },
+    });
+    expect(tx.relationship.deleteMany).toHaveBeenCalledWith({
+      where: {
+        tenantId: 'tenant-1',
+        OR: [
+          { fromLeadId: 'lead-1' },
+          { toLeadId: 'lead-1' },
+          { fromClientId: 'client-1' },
+          { toClientId: 'client-1' },
+        ],
+      },
+    });
+  });
+
+  it('erases rows matched by contact details rather than lead', async () => {
+    await service.erase(subject());
+
+    expect(tx.emailMessage.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          OR: [
+            { leadId: 'lead-1' },
+            { fromEmail: { in: ['ada@example.com'] } },
+            { toEmail: { in: ['ada@example.com'] } },
+          ],
+          direction: 'INBOUND',
+        }),
+      }),
+    );
+    expect(tx.whatsAppCampaignMessage.updateMany).toHaveBeenCalledWith({
+      where: { tenantId: 'tenant-1', phoneNumber: { in: ['+15550100'] } },
+      data: { phoneNumber: '[erased]', contactName: null },
+    });
+  });
+
+  it('returns the number of records erased per kind', async () => {
+    tx.communication.updateMany.mockResolvedValue({ count: 4 });
+
+    const summary = await service.erase(subject({ client: null }));
+
+    expect(summary).toMatchObject({
+      leads: 1,
+      clients: 0,
+      communications: 4,
+      quoteRevisionNotes: 1,
+      consentNotes: 1,
+    });
+    expect(tx.client.update).not.toHaveBeenCalled();
+  });
+});
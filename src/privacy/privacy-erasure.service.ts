@@ -0,0 +1,293 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import type { PrivacySubject } from './privacy.service';
+
+// Replaces personal text in required columns
+const ERASED = '[erased]';
+
+// Erasure touches many tables; give the transaction room on large histories
+const ERASURE_TIMEOUT_MS = 60 * 1000;
+
+// Attribution keys that describe the channel rather than the person
+const KEPT_ATTRIBUTION_KEYS = [
+  'formId',
+  'formName',
+  'partner',
+  'apiKeyId',
+  'campaign',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'utmTerm',
+  'utmContent',
+  'referralCode',
+];
+
+/**
+ * PrivacyErasureService - Anonymizes a data subject in place
+ *
+ * Rows are kept with their status, source, dates, amounts and ownership so
+ * lead counts, conversion rates, pipeline history and campaign statistics
+ * do not change. Names, contact details and free text are replaced or
+ * cleared, and the lead is taken out of its contact groups so campaigns
+ * stop reaching it.
+ */
+@Injectable()
+export class PrivacyErasureService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Erase the subject in one transaction. Returns the number of records
+   * anonymized per kind.
+   */
+  async erase(subject: PrivacySubject): Promise<Record<string, number>> {
+    const { tenantId, lead, client } = subject;
+    const leadId = lead?.id ?? '';
+    const byLead = { tenantId, leadId };
+    const entityIds = [lead?.id, client?.id].filter((id): id is string => !!id);
+    const now = new Date();
+
+    return this.prisma.$transaction(
+      async (tx) => {
+        const summary: Record<string, number> = { leads: 0, clients: 0 };
+
+        if (lead) {
+          await tx.lead.update({
+            // deletedAt: undefined so leads in the recycle bin match too
+            where: { id: lead.id, deletedAt: undefined },
+            data: {
+              firstName: ERASED,
+              lastName: ERASED,
+              email: null,
+              phone: null,
+              alternatePhone: null,
+              address: null,
+              city: null,
+              state: null,
+              zipCode: null,
+              inquiryDetails: null,
+              customFields: Prisma.DbNull,
+              attribution: this.keptAttribution(lead.attribution),
+              erasedAt: now,
+            },
+          });
+          summary.leads = 1;
+        }
+
+        if (client) {
+          await tx.client.update({
+            where: { id: client.id, deletedAt: undefined },
+            data: {
+              firstName: ERASED,
+              lastName: ERASED,
+              email: null,
+              phone: null,
+              dateOfBirth: null,
+              policyNumber: null,
+              customFields: Prisma.DbNull,
+              erasedAt: now,
+            },
+          });
+          summary.clients = 1;
+        }
+
+        const conversations = await tx.aIConversation.findMany({
+          where: byLead,
+          select: { id: true },
+        });
+        const conversationIds = conversations.map(({ id }) => id);
+
+        // Emails by lead or by address, with the subject's side of the
+        // exchange erased
+        const emailWhere = {
+          tenantId,
+          OR: [
+            { leadId },
+            { fromEmail: { in: subject.emails } },
+            { toEmail: { in: subject.emails } },
+          ],
+        };
+
+        const operations = {
+          inboundEmails: () =>
+            tx.emailMessage.updateMany({
+              where: { ...emailWhere, direction: 'INBOUND' },
+              data: {
+                subject: ERASED,
+                content: ERASED,
+                fromEmail: ERASED,
+                ccEmails: null,
+                bccEmails: null,
+              },
+            }),
+          outboundEmails: () =>
+            tx.emailMessage.updateMany({
+              where: { ...emailWhere, direction: 'OUTBOUND' },
+              data: {
+                subject: ERASED,
+                content: ERASED,
+                toEmail: ERASED,
+                ccEmails: null,
+                bccEmails: null,
+              },
+            }),
+          communications: () =>
+            tx.communication.updateMany({
+              where: byLead,
+              data: { subject: null, content: ERASED, metadata: Prisma.DbNull },
+            }),
+          chatMessages: () =>
+            tx.chatMessage.updateMany({
+              where: {
+                tenantId,
+                OR: [{ leadId }, { conversationId: { in: conversationIds } }],
+              },
+              data: { content: ERASED, metadata: Prisma.DbNull },
+            }),
+          aiConversations: () =>
+            tx.aIConversation.updateMany({
+              where: byLead,
+              data: { input: ERASED, output: ERASED, metadata: Prisma.DbNull },
+            }),
+          tasks: () =>
+            tx.task.updateMany({
+              where: byLead,
+              data: { title: ERASED, description: null },
+            }),
+          tickets: () =>
+            tx.ticket.updateMany({
+              where: byLead,
+              data: { title: ERASED, description: ERASED },
+            }),
+          stageTransitions: () =>
+            tx.leadStageTransition.updateMany({
+              where: { ...byLead, note: { not: null } },
+              data: { note: null },
+            }),
+          activities: () =>
+            tx.leadActivity.updateMany({
+              where: { ...byLead, note: { not: null } },
+              data: { note: null },
+            }),
+          leadProducts: () =>
+            tx.leadProduct.updateMany({
+              where: { leadId, notes: { not: null } },
+              data: { notes: null },
+            }),
+          mergedDuplicates: () =>
+            tx.leadMerge.updateMany({
+              where: { tenantId, survivorLeadId: leadId },
+              data: { mergedLeadData: {} },
+            }),
+          formSubmissions: () =>
+            tx.leadFormSubmission.updateMany({
+              where: byLead,
+              data: {
+                data: {},
+                attribution: Prisma.DbNull,
+                ipAddress: null,
+                userAgent: null,
+              },
+            }),
+          apiSubmissions: () =>
+            tx.apiLeadSubmission.updateMany({
+              where: byLead,
+              data: { externalId: null, response: Prisma.DbNull },
+            }),
+          referrerNotes: () =>
+            tx.referrer.updateMany({
+              where: {
+                tenantId,
+                OR: [{ leadId }, { clientId: client?.id ?? '' }],
+                notes: { not: null },
+              },
+              data: { notes: null },
+            }),
+          consentNotes: () =>
+            tx.marketingConsent.updateMany({
+              where: { ...byLead, note: { not: null } },
+              data: { note: null },
+            }),
+          referralRewardNotes: () =>
+            tx.referralReward.updateMany({
+              where: {
+                tenantId,
+                OR: [{ leadId }, { clientId: client?.id ?? '' }],
+                note: { not: null },
+              },
+              data: { note: null },
+            }),
+          quoteDeclineReasons: () =>
+            tx.quote.updateMany({
+              where: { ...byLead, declineReason: { not: null } },
+              data: { declineReason: null },
+            }),
+          quoteRevisionNotes: () =>
+            tx.quoteRevision.updateMany({
+              where: { quote: byLead, notes: { not: null } },
+              data: { notes: null },
+            }),
+          contactGroups: () =>
+            tx.leadContactGroup.deleteMany({ where: { leadId } }),
+          relationships: () =>
+            tx.relationship.deleteMany({
+              where: {
+                tenantId,
+                OR: [
+                  { fromLeadId: leadId },
+                  { toLeadId: leadId },
+                  { fromClientId: client?.id ?? '' },
+                  { toClientId: client?.id ?? '' },
+                ],
+              },
+            }),
+          whatsAppCampaignMessages: () =>
+            tx.whatsAppCampaignMessage.updateMany({
+              where: { tenantId, phoneNumber: { in: subject.phoneNumbers } },
+              data: { phoneNumber: ERASED, contactName: null },
+            }),
+          whatsAppAutomationLogs: () =>
+            tx.whatsAppAutomationLog.updateMany({
+              where: { tenantId, phoneNumber: { in: subject.phoneNumbers } },
+              data: { phoneNumber: ERASED },
+            }),
+          notifications: () =>
+            tx.notification.updateMany({
+              where: {
+                user: { tenantId },
+                metadata: { path: '$.leadId', equals: leadId },
+              },
+              data: { message: ERASED, metadata: { leadId } },
+            }),
+          auditLogs: () =>
+            tx.auditLog.updateMany({
+              where: { entityId: { in: entityIds } },
+              data: { oldValue: Prisma.DbNull, newValue: Prisma.DbNull },
+            }),
+        };
+
+        // Sequential: an interactive transaction runs one query at a time
+        for (const [kind, operation] of Object.entries(operations)) {
+          summary[kind] = (await operation()).count;
+        }
+
+        return summary;
+      },
+      { timeout: ERASURE_TIMEOUT_MS },
+    );
+  }
+
+  private keptAttribution(
+    attribution: Prisma.JsonValue,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    if (!attribution || typeof attribution !== 'object') return Prisma.DbNull;
+
+    const kept = Object.fromEntries(
+      Object.entries(attribution).filter(([key]) =>
+        KEPT_ATTRIBUTION_KEYS.includes(key),
+      ),
+    );
+    return Object.keys(kept).length ? kept : Prisma.DbNull;
+  }
+}
@@ -0,0 +1,345 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import type { PrivacySubject } from './privacy.service';
+import AdmZip = require('adm-zip');
+
+const USER_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} as const;
+
+export interface PrivacyExportData {
+  exportedAt: string;
+  subject: { type: string; id: string };
+  profile: { lead: unknown; client: unknown };
+  [section: string]: unknown;
+}
+
+// Report headings, in the order the sections appear
+const SECTION_TITLES: Record<string, string> = {
+  communications: 'Communications',
+  chatMessages: 'Chat messages',
+  emailMessages: 'Emails',
+  aiConversations: 'AI conversations',
+  tasks: 'Tasks',
+  tickets: 'Support tickets',
+  campaignSends: 'Campaigns sent',
+  whatsAppCampaignMessages: 'WhatsApp campaign messages',
+  formSubmissions: 'Web form submissions',
+  stageHistory: 'Stage history',
+  tags: 'Tags',
+  marketingConsents: 'Marketing consent',
+  referralRewards: 'Referral rewards',
+  quotes: 'Quotes',
+};
+
+/**
+ * PrivacyExportService - Everything held about a data subject, packaged
+ * as data.json plus a report.html for people who do not read JSON
+ */
+@Injectable()
+export class PrivacyExportService {
+  constructor(private prisma: PrismaService) {}
+
+  async collect(subject: PrivacySubject): Promise<PrivacyExportData> {
+    const { tenantId, lead, client } = subject;
+    const leadId = lead?.id;
+    // Lead-linked records; an impossible ID when the client has no lead
+    const byLead = { tenantId, leadId: leadId ?? '' };
+
+    const [
+      communications,
+      aiConversations,
+      tasks,
+      tickets,
+      formSubmissions,
+      stageHistory,
+      leadTags,
+      clientTags,
+      campaignSends,
+      whatsAppCampaignMessages,
+      marketingConsents,
+      referralRewards,
+      quotes,
+    ] = await Promise.all([
+      this.prisma.communication.findMany({
+        where: byLead,
+        include: { user: USER_SELECT },
+        orderBy: { sentAt: 'asc' },
+      }),
+      this.prisma.aIConversation.findMany({
+        where: byLead,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.task.findMany({
+        where: byLead,
+        include: { assignedUser: USER_SELECT },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.ticket.findMany({
+        where: byLead,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.leadFormSubmission.findMany({
+        where: byLead,
+        include: { form: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.leadStageTransition.findMany({
+        where: byLead,
+        include: { changedBy: USER_SELECT },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.leadTag.findMany({
+        where: byLead,
+        include: { tag: { select: { name: true } } },
+      }),
+      this.prisma.clientTag.findMany({
+        where: { tenantId, clientId: client?.id ?? '' },
+        include: { tag: { select: { name: true } } },
+      }),
+      this.findCampaignSends(leadId),
+      this.prisma.whatsAppCampaignMessage.findMany({
+        where: { tenantId, phoneNumber: { in: subject.phoneNumbers } },
+        include: { campaign: { select: { id: true, name: true } } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.marketingConsent.findMany({
+        where: byLead,
+        select: {
+          channel: true,
+          status: true,
+          source: true,
+          note: true,
+          recordedAt: true,
+        },
+      }),
+      // Rewards earned as a referrer
+      this.prisma.referralReward.findMany({
+        where: {
+          tenantId,
+          referrer: {
+            OR: [{ leadId: byLead.leadId }, { clientId: client?.id ?? '' }],
+          },
+        },
+        select: {
+          amount: true,
+          status: true,
+          note: true,
+          paidAt: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.quote.findMany({
+        where: byLead,
+        select: {
+          number: true,
+          title: true,
+          status: true,
+          currency: true,
+          total: true,
+          validUntil: true,
+          sentAt: true,
+          respondedAt: true,
+          declineReason: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    const conversationIds = aiConversations.map(({ id }) => id);
+    const [chatMessages, emailMessages] = await Promise.all([
+      this.prisma.chatMessage.findMany({
+        where: {
+          tenantId,
+          OR: [
+            { leadId: byLead.leadId },
+            { conversationId: { in: conversationIds } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.emailMessage.findMany({
+        where: {
+          tenantId,
+          OR: [
+            { leadId: byLead.leadId },
+            { fromEmail: { in: subject.emails } },
+            { toEmail: { in: subject.emails } },
+          ],
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      subject: { type: subject.type, id: subject.id },
+      profile: { lead, client },
+      communications,
+      chatMessages,
+      emailMessages,
+      aiConversations,
+      tasks,
+      tickets,
+      campaignSends,
+      whatsAppCampaignMessages,
+      formSubmissions,
+      stageHistory,
+      tags: [
+        ...leadTags.map(({ tag, createdAt }) => ({
+          on: 'LEAD',
+          name: tag.name,
+          createdAt,
+        })),
+        ...clientTags.map(({ tag, createdAt }) => ({
+          on: 'CLIENT',
+          name: tag.name,
+          createdAt,
+        })),
+      ],
+      marketingConsents,
+      referralRewards,
+      quotes,
+    };
+  }
+
+  /**
+   * Number of records per section, for the request log
+   */
+  summarize(data: PrivacyExportData): Record<string, number> {
+    const summary: Record<string, number> = {
+      leads: data.profile.lead ? 1 : 0,
+      clients: data.profile.client ? 1 : 0,
+    };
+    for (const section of Object.keys(SECTION_TITLES)) {
+      summary[section] = (data[section] as unknown[]).length;
+    }
+    return summary;
+  }
+
+  buildArchive(data: PrivacyExportData): Buffer {
+    const zip = new AdmZip();
+    zip.addFile('data.json', Buffer.from(JSON.stringify(data, null, 2)));
+    zip.addFile('report.html', Buffer.from(this.renderReport(data)));
+    return zip.toBuffer();
+  }
+
+  /**
+   * Email and WhatsApp campaigns sent to a contact group while the lead was
+   * a member. Sends are not recorded per recipient, so this is the closest
+   * record of what the lead received.
+   */
+  private async findCampaignSends(leadId?: string) {
+    if (!leadId) return [];
+
+    const memberships = await this.prisma.leadContactGroup.findMany({
+      where: { leadId },
+      select: {
+        addedAt: true,
+        contactGroup: {
+          select: {
+            id: true,
+            name: true,
+            campaigns: {
+              where: { sentAt: { not: null } },
+              select: {
+                id: true,
+                name: true,
+                type: true,
+                status: true,
+                subject: true,
+                sentAt: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return memberships
+      .flatMap(({ addedAt, contactGroup }) =>
+        contactGroup.campaigns
+          .filter((campaign) => campaign.sentAt >= addedAt)
+          .map((campaign) => ({
+            ...campaign,
+            contactGroup: { id: contactGroup.id, name: contactGroup.name },
+          })),
+      )
+      .sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+  }
+
+  private renderReport(data: PrivacyExportData): string {
+    const profile = (title: string, record: unknown) =>
+      record
+        ? `<h2>${title}</h2>${this.renderTable([record as Record<string, unknown>])}`
+        : '';
+
+    const sections = Object.entries(SECTION_TITLES)
+      .map(([key, title]) => {
+        const rows = data[key] as Record<string, unknown>[];
+        return `<h2>${title} (${rows.length})</h2>${
+          rows.length ? this.renderTable(rows) : '<p>None</p>'
+        }`;
+      })
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Personal data export</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; color: #1f2937; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; font-size: 0.85rem; }
+  th, td { border: 1px solid #d1d5db; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  td { white-space: pre-wrap; word-break: break-word; }
+</style>
+</head>
+<body>
+<h1>Personal data export</h1>
+<p>Exported ${this.escape(data.exportedAt)} for ${this.escape(
+      data.subject.type.toLowerCase(),
+    )} ${this.escape(data.subject.id)}.</p>
+${profile('Lead profile', data.profile.lead)}
+${profile('Client profile', data.profile.client)}
+${sections}
+</body>
+</html>
+`;
+  }
+
+  private renderTable(rows: Record<string, unknown>[]): string {
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+    const header = columns.map((c) => `<th>${this.escape(c)}</th>`).join('');
+    const body = rows
+      .map(
+        (row) =>
+          `<tr>${columns
+            .map((c) => `<td>${this.escape(this.formatValue(row[c]))}</td>`)
+            .join('')}</tr>`,
+      )
+      .join('\n');
+    return `<table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>`;
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (Prisma.Decimal.isDecimal(value)) return value.toString();
+    if (typeof value === 'object') return JSON.stringify(value, null, 1);
+    return String(value as string | number | boolean);
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
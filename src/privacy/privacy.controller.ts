@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Res,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { PrivacyService } from './privacy.service';
+import { EraseSubjectDto } from './dto/erase-subject.dto';
+import { ExportSubjectDto } from './dto/export-subject.dto';
+import { PrivacyRequestQueryDto } from './dto/privacy-request-query.dto';
+import { PrivacySubjectType } from './enums/privacy.enums';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+const parseSubjectType = new ParseEnumPipe(PrivacySubjectType);
+
+@ApiTags('Privacy')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('privacy')
+export class PrivacyController {
+  constructor(private readonly privacyService: PrivacyService) {}
+
+  @Get('requests')
+  @ApiOperation({ summary: 'Get the log of export and erasure requests' })
+  @ApiResponse({ status: 200, description: 'Requests retrieved' })
+  findRequests(@Query() queryDto: PrivacyRequestQueryDto) {
+    return this.privacyService.findRequests(queryDto);
+  }
+
+  @Get(':subjectType/:id/export')
+  @ApiParam({ name: 'subjectType', enum: PrivacySubjectType })
+  @ApiOperation({
+    summary: 'Download all personal data of a lead or client as a ZIP',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'ZIP with data.json and report.html',
+  })
+  @ApiResponse({ status: 404, description: 'Lead or client not found' })
+  async exportSubject(
+    @Param('subjectType', parseSubjectType) subjectType: PrivacySubjectType,
+    @Param('id') id: string,
+    @Query() exportDto: ExportSubjectDto,
+    @CurrentUser() user: any,
+    @Res() res: Response,
+  ) {
+    const { filename, buffer, requestId } =
+      await this.privacyService.exportSubject(
+        subjectType,
+        id,
+        exportDto,
+        user.id,
+      );
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Privacy-Request-Id', requestId);
+    res.send(buffer);
+  }
+
+  @Post(':subjectType/:id/erase')
+  @ApiParam({ name: 'subjectType', enum: PrivacySubjectType })
+  @ApiOperation({
+    summary: 'Anonymize a lead or client and everything recorded about them',
+  })
+  @ApiResponse({ status: 201, description: 'Subject erased' })
+  @ApiResponse({ status: 404, description: 'Lead or client not found' })
+  eraseSubject(
+    @Param('subjectType', parseSubjectType) subjectType: PrivacySubjectType,
+    @Param('id') id: string,
+    @Body() eraseDto: EraseSubjectDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.privacyService.eraseSubject(subjectType, id, eraseDto, user.id);
+  }
+}
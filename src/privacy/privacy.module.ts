@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PrivacyService } from './privacy.service';
+import { PrivacyExportService } from './privacy-export.service';
+import { PrivacyErasureService } from './privacy-erasure.service';
+import { PrivacyController } from './privacy.controller';
+import { LeadsModule } from '../leads/leads.module';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  imports: [LeadsModule],
+  controllers: [PrivacyController],
+  providers: [
+    PrivacyService,
+    PrivacyExportService,
+    PrivacyErasureService,
+    PrismaService,
+  ],
+  exports: [PrivacyService],
+})
+export class PrivacyModule {}
@@ -0,0 +1,310 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Client, Lead, Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { PrivacyExportService } from './privacy-export.service';
+import { PrivacyErasureService } from './privacy-erasure.service';
+import { EraseSubjectDto } from './dto/erase-subject.dto';
+import { ExportSubjectDto } from './dto/export-subject.dto';
+import { PrivacyRequestQueryDto } from './dto/privacy-request-query.dto';
+import {
+  PrivacyRequestStatus,
+  PrivacyRequestType,
+  PrivacySubjectType,
+} from './enums/privacy.enums';
+
+/**
+ * The person a request is about: the lead and the client converted from it
+ * are the same person, so either ID brings in both records
+ */
+export interface PrivacySubject {
+  type: PrivacySubjectType;
+  id: string;
+  tenantId: string;
+  lead: Lead | null;
+  client: Client | null;
+  // Contact details as stored on rows that are not linked to the lead,
+  // such as WhatsApp campaign messages
+  phoneNumbers: string[];
+  emails: string[];
+}
+
+const REQUEST_SELECT = {
+  id: true,
+  type: true,
+  subjectType: true,
+  subjectId: true,
+  status: true,
+  reason: true,
+  summary: true,
+  error: true,
+  createdAt: true,
+  completedAt: true,
+  requestedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} as const;
+
+/**
+ * PrivacyService - Data subject access and erasure requests
+ *
+ * Key Features:
+ * - Export of everything held about a lead or client as a ZIP with JSON
+ *   and a readable HTML report
+ * - Erasure that anonymizes the person in place, so counts, pipeline
+ *   history and campaign statistics stay correct
+ * - Records in the recycle bin are included
+ * - Every request is logged, including failed ones; the log holds no
+ *   personal data
+ */
+@Injectable()
+export class PrivacyService {
+  private readonly logger = new Logger(PrivacyService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private exportService: PrivacyExportService,
+    private erasureService: PrivacyErasureService,
+    private duplicatesService: LeadDuplicatesService,
+  ) {}
+
+  async findRequests(
+    queryDto: PrivacyRequestQueryDto,
+  ): Promise<PaginationResult<any>> {
+    const { page, limit } = queryDto;
+    const where = this.prisma.addTenantFilter({
+      ...(queryDto.type && { type: queryDto.type }),
+      ...(queryDto.subjectId && { subjectId: queryDto.subjectId }),
+    });
+
+    const [data, total] = await Promise.all([
+      this.prisma.privacyRequest.findMany({
+        where,
+        select: REQUEST_SELECT,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.privacyRequest.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * Build the export archive of a lead or client
+   */
+  async exportSubject(
+    type: PrivacySubjectType,
+    id: string,
+    exportDto: ExportSubjectDto,
+    userId: string,
+  ) {
+    const subject = await this.loadSubject(type, id);
+
+    return this.handle(
+      PrivacyRequestType.EXPORT,
+      subject,
+      exportDto.reason,
+      userId,
+      async () => {
+        const data = await this.exportService.collect(subject);
+        const date = new Date().toISOString().split('T')[0];
+        return {
+          summary: this.exportService.summarize(data),
+          result: {
+            filename: `privacy-export-${type.toLowerCase()}-${id}-${date}.zip`,
+            buffer: this.exportService.buildArchive(data),
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Anonymize a lead or client and everything recorded about them
+   */
+  async eraseSubject(
+    type: PrivacySubjectType,
+    id: string,
+    eraseDto: EraseSubjectDto,
+    userId: string,
+  ) {
+    const subject = await this.loadSubject(type, id);
+
+    return this.handle(
+      PrivacyRequestType.ERASURE,
+      subject,
+      eraseDto.reason,
+      userId,
+      async () => {
+        const summary = await this.erasureService.erase(subject);
+        return {
+          summary,
+          result: {
+            subjectType: type,
+            subjectId: id,
+            leadId: subject.lead?.id ?? null,
+            clientId: subject.client?.id ?? null,
+            erased: summary,
+          },
+        };
+      },
+    );
+  }
+
+  /**
+   * Run a request and log its outcome. Failures are logged and rethrown.
+   */
+  private async handle<T>(
+    type: PrivacyRequestType,
+    subject: PrivacySubject,
+    reason: string | undefined,
+    userId: string,
+    run: () => Promise<{ summary: Record<string, number>; result: T }>,
+  ): Promise<T & { requestId: string }> {
+    const log = {
+      type,
+      subjectType: subject.type,
+      subjectId: subject.id,
+      reason,
+      requestedById: userId,
+      tenantId: subject.tenantId,
+    };
+
+    try {
+      const { summary, result } = await run();
+      const request = await this.prisma.privacyRequest.create({
+        data: {
+          ...log,
+          status: PrivacyRequestStatus.COMPLETED,
+          summary: summary as Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+        select: { id: true },
+      });
+
+      this.logger.log(
+        `${type} of ${subject.type} ${subject.id} completed (request ${request.id})`,
+      );
+      return { ...result, requestId: request.id };
+    } catch (error) {
+      this.logger.error(
+        `${type} of ${subject.type} ${subject.id} failed: ${error.message}`,
+      );
+      await this.prisma.privacyRequest
+        .create({
+          data: {
+            ...log,
+            status: PrivacyRequestStatus.FAILED,
+            error: error.message,
+          },
+        })
+        .catch(() => undefined);
+      throw error;
+    }
+  }
+
+  private async loadSubject(
+    type: PrivacySubjectType,
+    id: string,
+  ): Promise<PrivacySubject> {
+    const tenantId = this.requireTenantId();
+    // deletedAt: undefined includes records in the recycle bin
+    const where = this.prisma.addTenantFilter({ id, deletedAt: undefined });
+
+    let lead: Lead | null = null;
+    let client: Client | null = null;
+    if (type === PrivacySubjectType.LEAD) {
+      const found = await this.prisma.lead.findFirst({
+        where,
+        include: { client: true },
+      });
+      if (found) {
+        const { client: convertedTo, ...rest } = found;
+        lead = rest;
+        client = convertedTo;
+      }
+    } else {
+      const found = await this.prisma.client.findFirst({
+        where,
+        include: { lead: true },
+      });
+      if (found) {
+        const { lead: convertedFrom, ...rest } = found;
+        client = rest;
+        lead = convertedFrom;
+      }
+    }
+
+    if (!lead && !client) {
+      throw new NotFoundException(
+        `${type === PrivacySubjectType.LEAD ? 'Lead' : 'Client'} not found`,
+      );
+    }
+
+    return {
+      type,
+      id,
+      tenantId,
+      lead,
+      client,
+      phoneNumbers: this.phoneVariants(
+        [lead?.phone, lead?.alternatePhone, client?.phone],
+        lead?.country,
+      ),
+      emails: [
+        ...new Set(
+          [lead?.email, client?.email]
+            .map((email) => this.duplicatesService.normalizeEmail(email))
+            .filter((email): email is string => !!email),
+        ),
+      ],
+    };
+  }
+
+  /**
+   * Phone numbers as typed, in E.164 and as the bare digits WhatsApp uses
+   */
+  private phoneVariants(
+    phones: (string | null | undefined)[],
+    country?: string | null,
+  ): string[] {
+    const variants = new Set<string>();
+    for (const phone of phones) {
+      if (!phone?.trim()) continue;
+      variants.add(phone.trim());
+
+      const normalized = this.duplicatesService.normalizePhone(phone, country);
+      if (normalized) {
+        variants.add(normalized);
+        variants.add(normalized.replace(/^\+/, ''));
+      }
+    }
+    return [...variants];
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
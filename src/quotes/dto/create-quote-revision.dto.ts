@@ -0,0 +1,10 @@
+import { OmitType } from '@nestjs/swagger';
+import { CreateQuoteDto } from './create-quote.dto';
+
+/**
+ * The full content of the new revision; nothing is carried over from the
+ * previous one except what is omitted here
+ */
+export class CreateQuoteRevisionDto extends OmitType(CreateQuoteDto, [
+  'leadId',
+] as const) {}
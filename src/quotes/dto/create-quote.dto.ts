@@ -0,0 +1,77 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PremiumFrequency } from '../enums/quote.enums';
+import { QuoteLineItemDto } from './quote-line-item.dto';
+
+export class CreateQuoteDto {
+  @ApiProperty({ example: 'lead-uuid-here' })
+  @IsUUID()
+  leadId: string;
+
+  @ApiPropertyOptional({
+    example: 'Motor and home cover',
+    description: 'Defaults to the names of the quoted products',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  title?: string;
+
+  @ApiPropertyOptional({ example: 'NGN', description: 'ISO 4217 code' })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @Matches(/^[A-Z]{3}$/, { message: 'currency must be a 3-letter ISO code' })
+  currency?: string;
+
+  @ApiPropertyOptional({
+    enum: PremiumFrequency,
+    example: PremiumFrequency.MONTHLY,
+  })
+  @IsOptional()
+  @IsEnum(PremiumFrequency)
+  premiumFrequency?: PremiumFrequency;
+
+  @ApiPropertyOptional({
+    example: '2026-12-31',
+    description:
+      "Last day the quote can be accepted. Set from the tenant's validity period when sent if omitted",
+  })
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @ApiPropertyOptional({ description: 'Shown on the proposal' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  notes?: string;
+
+  @ApiPropertyOptional({ description: 'Terms and conditions of the proposal' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(10000)
+  terms?: string;
+
+  @ApiProperty({ type: [QuoteLineItemDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => QuoteLineItemDto)
+  items: QuoteLineItemDto[];
+}
@@ -0,0 +1,91 @@
+import {
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class QuoteLineItemDto {
+  @ApiPropertyOptional({
+    example: 'product-uuid-here',
+    description:
+      'Product being quoted. Its name and description are used unless given here',
+  })
+  @IsOptional()
+  @IsUUID()
+  productId?: string;
+
+  @ApiPropertyOptional({
+    example: 'Comprehensive Motor Cover',
+    description: 'Line item name, required without a product',
+  })
+  @ValidateIf((dto) => !dto.productId || dto.name !== undefined)
+  @IsString()
+  @MaxLength(191)
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'Covers the 2021 Toyota Corolla' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiProperty({
+    example: 45000,
+    description: "Premium per the quote's premium frequency, before discounts",
+  })
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  premium: number;
+
+  @ApiPropertyOptional({ example: 12000000, description: 'Sum insured' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  coverAmount?: number;
+
+  @ApiPropertyOptional({ example: 100000 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  deductible?: number;
+
+  @ApiPropertyOptional({ example: 12, description: 'Policy term in months' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(600)
+  termMonths?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Percentage off the premium',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  discountPercent?: number;
+
+  @ApiPropertyOptional({
+    example: 2500,
+    description: 'Fixed amount off, applied after the percentage',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  discountAmount?: number;
+}
@@ -0,0 +1,34 @@
+import { IsEnum, IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { QuoteStatus } from '../enums/quote.enums';
+
+export class QuoteQueryDto {
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({ example: 25, description: 'Quotes per page (1-100)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @ApiPropertyOptional({ enum: QuoteStatus })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(QuoteStatus)
+  status?: QuoteStatus;
+
+  @ApiPropertyOptional({ example: 'lead-uuid-here' })
+  @IsOptional()
+  @IsUUID()
+  leadId?: string;
+}
@@ -0,0 +1,18 @@
+import { IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { QuoteChannel } from '../enums/quote.enums';
+
+export class SendQuoteDto {
+  @ApiProperty({ enum: QuoteChannel, example: QuoteChannel.EMAIL })
+  @IsEnum(QuoteChannel)
+  channel: QuoteChannel;
+
+  @ApiPropertyOptional({
+    example: 'Hi Ada, here is the quote we discussed.',
+    description: 'Personal message placed above the proposal link',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  message?: string;
+}
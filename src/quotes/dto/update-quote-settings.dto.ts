@@ -0,0 +1,86 @@
+import {
+  IsEmail,
+  IsHexColor,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ProposalBrandingDto {
+  @ApiPropertyOptional({
+    example: 'Acme Insurance Brokers',
+    description: "Defaults to the tenant's name",
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  companyName?: string;
+
+  @ApiPropertyOptional({
+    example: '#1D4ED8',
+    description: 'Colour of headings and table headers',
+  })
+  @IsOptional()
+  @IsHexColor()
+  primaryColor?: string;
+
+  @ApiPropertyOptional({ example: '12 Marina Road, Lagos' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  address?: string;
+
+  @ApiPropertyOptional({ example: '+2348012345678' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiPropertyOptional({ example: 'quotes@acme.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: 'https://acme.com' })
+  @IsOptional()
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  website?: string;
+
+  @ApiPropertyOptional({
+    example: 'Acme Insurance Brokers is licensed by NAICOM.',
+    description: 'Small print at the bottom of every page',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  footerText?: string;
+}
+
+export class UpdateQuoteSettingsDto {
+  @ApiPropertyOptional({
+    example: 30,
+    description: 'Days a sent quote stays open when it has no date of its own',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  validityDays?: number;
+
+  @ApiPropertyOptional({
+    type: ProposalBrandingDto,
+    description: 'Replaces the current branding',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProposalBrandingDto)
+  branding?: ProposalBrandingDto;
+}
@@ -0,0 +1,18 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { QuoteStatus } from '../enums/quote.enums';
+
+export class UpdateQuoteStatusDto {
+  @ApiProperty({
+    enum: [QuoteStatus.ACCEPTED, QuoteStatus.DECLINED],
+    description: 'Answer the customer gave outside the proposal link',
+  })
+  @IsIn([QuoteStatus.ACCEPTED, QuoteStatus.DECLINED])
+  status: QuoteStatus.ACCEPTED | QuoteStatus.DECLINED;
+
+  @ApiPropertyOptional({ example: 'Went with a cheaper insurer' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+}
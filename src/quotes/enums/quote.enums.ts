@@ -0,0 +1,25 @@
+/**
+ * Quote Enums - Life cycle of a quote, how premiums are charged and how
+ * quotes reach the customer
+ */
+
+export enum QuoteStatus {
+  DRAFT = 'DRAFT', // Being prepared; every edit returns a quote here
+  SENT = 'SENT',
+  VIEWED = 'VIEWED', // The customer opened the proposal link
+  ACCEPTED = 'ACCEPTED',
+  DECLINED = 'DECLINED',
+  EXPIRED = 'EXPIRED', // Passed its valid-until date without an answer
+}
+
+export enum PremiumFrequency {
+  MONTHLY = 'MONTHLY',
+  QUARTERLY = 'QUARTERLY',
+  SEMI_ANNUALLY = 'SEMI_ANNUALLY',
+  ANNUALLY = 'ANNUALLY',
+}
+
+export enum QuoteChannel {
+  EMAIL = 'EMAIL',
+  WHATSAPP = 'WHATSAPP',
+}
@@ -0,0 +1,505 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PremiumFrequency } from './enums/quote.enums';
+import PDFDocument from 'pdfkit';
+
+export interface ProposalBranding {
+  companyName: string;
+  primaryColor?: string;
+  address?: string;
+  phone?: string;
+  email?: string;
+  website?: string;
+  footerText?: string;
+}
+
+export interface ProposalLineItem {
+  name: string;
+  description: string | null;
+  premium: Prisma.Decimal;
+  coverAmount: Prisma.Decimal | null;
+  deductible: Prisma.Decimal | null;
+  termMonths: number | null;
+  discountPercent: Prisma.Decimal;
+  discountAmount: Prisma.Decimal;
+  total: Prisma.Decimal;
+}
+
+/**
+ * Everything printed on a proposal: the current revision of a quote, who it
+ * is for and whose branding it carries
+ */
+export interface ProposalContent {
+  number: string;
+  title: string;
+  currency: string;
+  revision: number;
+  premiumFrequency: string;
+  issuedAt: Date;
+  validUntil: Date | null;
+  customerName: string;
+  items: ProposalLineItem[];
+  subtotal: Prisma.Decimal;
+  discountTotal: Prisma.Decimal;
+  total: Prisma.Decimal;
+  notes: string | null;
+  terms: string | null;
+  branding: ProposalBranding;
+}
+
+export interface ProposalPageLinks {
+  pdfUrl: string;
+  acceptUrl: string;
+  declineUrl: string;
+  // Only open quotes can be answered
+  canRespond: boolean;
+  statusMessage?: string;
+}
+
+const DEFAULT_COLOR = '#1F2937';
+const MUTED_COLOR = '#6B7280';
+const PAGE_MARGIN = 50;
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  [PremiumFrequency.MONTHLY]: 'month',
+  [PremiumFrequency.QUARTERLY]: 'quarter',
+  [PremiumFrequency.SEMI_ANNUALLY]: 'half-year',
+  [PremiumFrequency.ANNUALLY]: 'year',
+};
+
+// Line item table: column titles with their share of the page width
+const TABLE_COLUMNS = [
+  { title: 'Product', width: 0.28 },
+  { title: 'Cover', width: 0.14 },
+  { title: 'Deductible', width: 0.12 },
+  { title: 'Term', width: 0.08 },
+  { title: 'Premium', width: 0.13 },
+  { title: 'Discount', width: 0.12 },
+  { title: 'Total', width: 0.13 },
+];
+
+/**
+ * QuoteProposalService - Renders quotes for customers
+ *
+ * Key Features:
+ * - PDF proposal with the tenant's name, colour, contact details and
+ *   footer, and a page number on every page
+ * - Web page behind the proposal link, with the PDF download and the
+ *   accept and decline buttons, and the email that carries the link
+ * - Amounts are shown with the currency code, which the PDF's standard
+ *   fonts can print for every currency
+ */
+@Injectable()
+export class QuoteProposalService {
+  renderPdf(content: ProposalContent): Promise<Buffer> {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: {
+        Title: `${content.number} - ${content.title}`,
+        Author: content.branding.companyName,
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const color = content.branding.primaryColor ?? DEFAULT_COLOR;
+    const width = doc.page.width - PAGE_MARGIN * 2;
+
+    // Letterhead
+    doc
+      .fillColor(color)
+      .fontSize(20)
+      .font('Helvetica-Bold')
+      .text(content.branding.companyName);
+    const contact = this.contactLine(content.branding);
+    if (contact) {
+      doc.fillColor(MUTED_COLOR).fontSize(9).font('Helvetica').text(contact);
+    }
+    doc.moveDown(1.5);
+
+    // Quote details
+    doc
+      .fillColor(DEFAULT_COLOR)
+      .fontSize(16)
+      .font('Helvetica-Bold')
+      .text('Insurance Proposal');
+    doc.fontSize(12).font('Helvetica').text(content.title);
+    doc.moveDown(0.5);
+    doc.fontSize(10);
+    const details: [string, string][] = [
+      ['Prepared for', content.customerName],
+      ['Quote', `${content.number} (revision ${content.revision})`],
+      ['Date', this.formatDate(content.issuedAt)],
+    ];
+    if (content.validUntil) {
+      details.push(['Valid until', this.formatDate(content.validUntil)]);
+    }
+    for (const [label, value] of details) {
+      doc
+        .font('Helvetica-Bold')
+        .text(`${label}: `, { continued: true })
+        .font('Helvetica')
+        .text(value);
+    }
+    doc.moveDown(1.5);
+
+    this.drawTable(doc, content, color, width);
+
+    // Totals
+    doc.moveDown(1);
+    const frequency = FREQUENCY_LABELS[content.premiumFrequency] ?? 'period';
+    const totals: [string, string][] = [
+      ['Subtotal', this.formatMoney(content.subtotal, content.currency)],
+      [
+        'Discounts',
+        `-${this.formatMoney(content.discountTotal, content.currency)}`,
+      ],
+      [
+        `Total per ${frequency}`,
+        this.formatMoney(content.total, content.currency),
+      ],
+    ];
+    totals.forEach(([label, value], index) => {
+      const isTotal = index === totals.length - 1;
+      doc
+        .fillColor(isTotal ? color : DEFAULT_COLOR)
+        .fontSize(isTotal ? 12 : 10)
+        .font(isTotal ? 'Helvetica-Bold' : 'Helvetica')
+        .text(`${label}:  ${value}`, PAGE_MARGIN, doc.y, {
+          width,
+          align: 'right',
+        });
+    });
+
+    for (const [heading, text] of [
+      ['Notes', content.notes],
+      ['Terms and conditions', content.terms],
+    ] as const) {
+      if (!text) continue;
+      doc.moveDown(1.5);
+      doc
+        .fillColor(color)
+        .fontSize(12)
+        .font('Helvetica-Bold')
+        .text(heading, PAGE_MARGIN, doc.y, { width });
+      doc
+        .fillColor(DEFAULT_COLOR)
+        .fontSize(9)
+        .font('Helvetica')
+        .text(text, { width });
+    }
+
+    this.drawFooters(doc, content.branding, width);
+    doc.end();
+    return done;
+  }
+
+  /**
+   * The page customers land on from the proposal link
+   */
+  renderPage(content: ProposalContent, links: ProposalPageLinks): string {
+    const money = (amount: Prisma.Decimal | null) =>
+      amount === null ? '' : this.formatMoney(amount, content.currency);
+    const frequency = FREQUENCY_LABELS[content.premiumFrequency] ?? 'period';
+
+    const rows = content.items
+      .map(
+        (item) => `<tr>
+  <td><strong>${this.escape(item.name)}</strong>${
+    item.description
+      ? `<div class="muted">${this.escape(item.description)}</div>`
+      : ''
+  }</td>
+  <td>${money(item.coverAmount)}</td>
+  <td>${money(item.deductible)}</td>
+  <td>${item.termMonths ? `${item.termMonths} mo` : ''}</td>
+  <td>${money(item.premium)}</td>
+  <td>${this.formatDiscount(item, content.currency)}</td>
+  <td>${money(item.total)}</td>
+</tr>`,
+      )
+      .join('\n');
+
+    const actions = links.canRespond
+      ? `<form method="post" action="${this.escape(links.acceptUrl)}">
+  <button type="submit">Accept this quote</button>
+</form>
+<form method="post" action="${this.escape(links.declineUrl)}">
+  <label for="reason">Not for you? Let us know why (optional)</label>
+  <textarea id="reason" name="reason" rows="3" maxlength="2000"></textarea>
+  <button type="submit" class="secondary">Decline</button>
+</form>`
+      : '';
+
+    const body = `<p class="muted">Prepared for ${this.escape(
+      content.customerName,
+    )} &middot; ${this.escape(content.number)} &middot; ${this.formatDate(
+      content.issuedAt,
+    )}${
+      content.validUntil
+        ? ` &middot; valid until ${this.formatDate(content.validUntil)}`
+        : ''
+    }</p>
+${links.statusMessage ? `<p class="status">${this.escape(links.statusMessage)}</p>` : ''}
+<table>
+<thead><tr>${TABLE_COLUMNS.map(({ title }) => `<th>${title}</th>`).join('')}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p class="totals">Subtotal: ${money(content.subtotal)}<br>
+Discounts: -${money(content.discountTotal)}<br>
+<strong>Total per ${frequency}: ${money(content.total)}</strong></p>
+${content.notes ? `<h3>Notes</h3><p class="text">${this.escape(content.notes)}</p>` : ''}
+${content.terms ? `<h3>Terms and conditions</h3><p class="text">${this.escape(content.terms)}</p>` : ''}
+<p><a href="${this.escape(links.pdfUrl)}">Download the proposal (PDF)</a></p>
+${actions}`;
+
+    return this.renderLayout(content.branding, content.title, body);
+  }
+
+  /**
+   * Confirmation shown after the customer answers
+   */
+  renderMessage(
+    branding: ProposalBranding,
+    title: string,
+    message: string,
+  ): string {
+    return this.renderLayout(branding, title, `<p>${this.escape(message)}</p>`);
+  }
+
+  /**
+   * Email body of a sent quote; the PDF goes along as an attachment
+   */
+  renderEmail(content: ProposalContent, intro: string, link: string): string {
+    return `<p>${this.escape(intro).replace(/\n/g, '<br>')}</p>
+<p><strong>${this.escape(content.title)}</strong> (${this.escape(
+      content.number,
+    )}): ${this.formatMoney(content.total, content.currency)}</p>
+<p>The proposal is attached. You can also view, accept or decline it online:</p>
+<p><a href="${this.escape(link)}">${this.escape(link)}</a></p>
+<p>${this.escape(content.branding.companyName)}</p>`;
+  }
+
+  formatMoney(amount: Prisma.Decimal | number, currency: string): string {
+    const value = Number(amount);
+    try {
+      return new Intl.NumberFormat('en', {
+        style: 'currency',
+        currency,
+        currencyDisplay: 'code',
+      }).format(value);
+    } catch {
+      // Not a currency Intl knows
+      return `${currency} ${value.toFixed(2)}`;
+    }
+  }
+
+  private drawTable(
+    doc: PDFKit.PDFDocument,
+    content: ProposalContent,
+    color: string,
+    width: number,
+  ) {
+    const columns = TABLE_COLUMNS.map(({ title, width: share }) => ({
+      title,
+      width: share * width,
+    }));
+    const money = (amount: Prisma.Decimal | null) =>
+      amount === null ? '-' : this.formatMoney(amount, content.currency);
+    const bottom = doc.page.height - PAGE_MARGIN - 40;
+
+    const drawHeader = () => {
+      const top = doc.y;
+      doc.rect(PAGE_MARGIN, top, width, 20).fill(color);
+      doc.fillColor('#FFFFFF').fontSize(9).font('Helvetica-Bold');
+      let x = PAGE_MARGIN;
+      for (const column of columns) {
+        doc.text(column.title, x + 4, top + 6, { width: column.width - 8 });
+        x += column.width;
+      }
+      doc.y = top + 24;
+    };
+
+    drawHeader();
+    for (const item of content.items) {
+      const cells = [
+        item.name,
+        money(item.coverAmount),
+        money(item.deductible),
+        item.termMonths ? `${item.termMonths} mo` : '-',
+        money(item.premium),
+        this.formatDiscount(item, content.currency) || '-',
+        money(item.total),
+      ];
+
+      doc.fontSize(9).font('Helvetica');
+      const nameHeight =
+        doc.heightOfString(item.name, { width: columns[0].width - 8 }) +
+        (item.description
+          ? doc.fontSize(8).heightOfString(item.description, {
+              width: columns[0].width - 8,
+            })
+          : 0);
+      const rowHeight = Math.max(
+        nameHeight,
+        ...cells
+          .slice(1)
+          .map((cell, i) =>
+            doc
+              .fontSize(9)
+              .heightOfString(cell, { width: columns[i + 1].width - 8 }),
+          ),
+      );
+
+      if (doc.y + rowHeight > bottom) {
+        doc.addPage();
+        drawHeader();
+      }
+
+      const top = doc.y;
+      let x = PAGE_MARGIN;
+      cells.forEach((cell, i) => {
+        doc
+          .fillColor(DEFAULT_COLOR)
+          .fontSize(9)
+          .font(i === 0 ? 'Helvetica-Bold' : 'Helvetica')
+          .text(cell, x + 4, top, { width: columns[i].width - 8 });
+        if (i === 0 && item.description) {
+          doc
+            .fillColor(MUTED_COLOR)
+            .fontSize(8)
+            .font('Helvetica')
+            .text(item.description, x + 4, doc.y, {
+              width: columns[0].width - 8,
+            });
+        }
+        x += columns[i].width;
+      });
+
+      const rowBottom = top + rowHeight + 6;
+      doc
+        .moveTo(PAGE_MARGIN, rowBottom - 3)
+        .lineTo(PAGE_MARGIN + width, rowBottom - 3)
+        .strokeColor('#E5E7EB')
+        .lineWidth(0.5)
+        .stroke();
+      doc.y = rowBottom;
+    }
+  }
+
+  private drawFooters(
+    doc: PDFKit.PDFDocument,
+    branding: ProposalBranding,
+    width: number,
+  ) {
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      // Writing below the bottom margin would start a new page
+      const marginBottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0;
+      const footer = [branding.footerText, `Page ${i + 1} of ${range.count}`]
+        .filter(Boolean)
+        .join('  |  ');
+      doc
+        .fillColor(MUTED_COLOR)
+        .fontSize(8)
+        .font('Helvetica')
+        .text(footer, PAGE_MARGIN, doc.page.height - PAGE_MARGIN + 10, {
+          width,
+          align: 'center',
+        });
+      doc.page.margins.bottom = marginBottom;
+    }
+  }
+
+  private renderLayout(
+    branding: ProposalBranding,
+    title: string,
+    body: string,
+  ): string {
+    const color = branding.primaryColor ?? DEFAULT_COLOR;
+    const contact = this.contactLine(branding);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${this.escape(title)}</title>
+<style>
+  body { font-family: sans-serif; margin: 0 auto; padding: 2rem 1rem; max-width: 960px; color: ${DEFAULT_COLOR}; }
+  header { border-bottom: 3px solid ${color}; margin-bottom: 1.5rem; }
+  header h1 { color: ${color}; margin: 0; }
+  .muted { color: ${MUTED_COLOR}; font-size: 0.85rem; }
+  .status { padding: 0.75rem; background: #F3F4F6; border-radius: 4px; }
+  .text { white-space: pre-wrap; }
+  table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+  th { background: ${color}; color: #FFFFFF; text-align: left; padding: 0.5rem; }
+  td { border-bottom: 1px solid #E5E7EB; padding: 0.5rem; vertical-align: top; }
+  .totals { text-align: right; line-height: 1.6; }
+  form { margin-top: 1.5rem; }
+  label { display: block; margin-bottom: 0.25rem; }
+  textarea { width: 100%; box-sizing: border-box; margin-bottom: 0.5rem; }
+  button { background: ${color}; color: #FFFFFF; border: 0; border-radius: 4px; padding: 0.6rem 1.2rem; font-size: 1rem; cursor: pointer; }
+  button.secondary { background: #FFFFFF; color: ${DEFAULT_COLOR}; border: 1px solid #D1D5DB; }
+  footer { margin-top: 2rem; }
+</style>
+</head>
+<body>
+<header>
+<h1>${this.escape(branding.companyName)}</h1>
+${contact ? `<p class="muted">${this.escape(contact)}</p>` : ''}
+</header>
+<h2>${this.escape(title)}</h2>
+${body}
+${branding.footerText ? `<footer class="muted">${this.escape(branding.footerText)}</footer>` : ''}
+</body>
+</html>
+`;
+  }
+
+  private formatDiscount(item: ProposalLineItem, currency: string): string {
+    return [
+      Number(item.discountPercent) ? `${Number(item.discountPercent)}%` : '',
+      Number(item.discountAmount)
+        ? this.formatMoney(item.discountAmount, currency)
+        : '',
+    ]
+      .filter(Boolean)
+      .join(' + ');
+  }
+
+  private contactLine(branding: ProposalBranding): string {
+    return [branding.address, branding.phone, branding.email, branding.website]
+      .filter(Boolean)
+      .join('  |  ');
+  }
+
+  private formatDate(date: Date): string {
+    return date.toLocaleDateString('en-GB', {
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+    });
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
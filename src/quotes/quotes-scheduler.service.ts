@@ -0,0 +1,47 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../common/services/prisma.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { QuotesService } from './quotes.service';
+import { QuoteStatus } from './enums/quote.enums';
+
+@Injectable()
+export class QuotesSchedulerService {
+  private readonly logger = new Logger(QuotesSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private quotesService: QuotesService,
+  ) {}
+
+  // Quotes are also expired when the customer opens them, so the hourly
+  // pass only has to keep lists and lead stages current
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireOverdue() {
+    const tenants = await this.prisma.tenant.findMany({
+      where: {
+        quotes: {
+          some: { status: { in: [QuoteStatus.SENT, QuoteStatus.VIEWED] } },
+        },
+      },
+      select: { id: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        const expired = await runWithTenantContext(
+          { tenantId: tenant.id, isSuperAdmin: false },
+          () => this.quotesService.expireOverdue(),
+        );
+        if (expired) {
+          this.logger.log(`Expired ${expired} quotes for tenant ${tenant.id}`);
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to expire quotes for tenant ${tenant.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Delete,
+  Query,
+  Res,
+  UseGuards,
+  ParseIntPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiProduces,
+  ApiQuery,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import { QuotesService } from './quotes.service';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { CreateQuoteRevisionDto } from './dto/create-quote-revision.dto';
+import { QuoteQueryDto } from './dto/quote-query.dto';
+import { SendQuoteDto } from './dto/send-quote.dto';
+import { UpdateQuoteStatusDto } from './dto/update-quote-status.dto';
+import { DeclineQuoteDto } from './dto/decline-quote.dto';
+import { UpdateQuoteSettingsDto } from './dto/update-quote-settings.dto';
+import { QuoteStatus } from './enums/quote.enums';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Quotes')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('quotes')
+export class QuotesController {
+  constructor(private readonly quotesService: QuotesService) {}
+
+  @Public()
+  @Get('public/:token')
+  @ApiOperation({ summary: 'Proposal page the customer opens from the link' })
+  @ApiProduces('text/html')
+  @ApiResponse({ status: 200, description: 'Proposal page' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  async viewPublic(@Param('token') token: string, @Res() res: Response) {
+    res.type('html').send(await this.quotesService.viewPublic(token));
+  }
+
+  @Public()
+  @Get('public/:token/pdf')
+  @ApiOperation({ summary: 'Download the proposal PDF from the link' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'Proposal PDF' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  async getPublicPdf(@Param('token') token: string, @Res() res: Response) {
+    const { filename, buffer } = await this.quotesService.getPublicPdf(token);
+    this.sendPdf(res, filename, buffer, 'inline');
+  }
+
+  @Public()
+  @Post('public/:token/accept')
+  @ApiOperation({ summary: 'Accept a quote from the proposal page' })
+  @ApiProduces('text/html')
+  @ApiResponse({ status: 201, description: 'Confirmation page' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  async acceptPublic(@Param('token') token: string, @Res() res: Response) {
+    res
+      .type('html')
+      .send(
+        await this.quotesService.respondPublic(token, QuoteStatus.ACCEPTED),
+      );
+  }
+
+  @Public()
+  @Post('public/:token/decline')
+  @ApiOperation({ summary: 'Decline a quote from the proposal page' })
+  @ApiProduces('text/html')
+  @ApiResponse({ status: 201, description: 'Confirmation page' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  async declinePublic(
+    @Param('token') token: string,
+    @Body() declineDto: DeclineQuoteDto,
+    @Res() res: Response,
+  ) {
+    res
+      .type('html')
+      .send(
+        await this.quotesService.respondPublic(
+          token,
+          QuoteStatus.DECLINED,
+          declineDto.reason,
+        ),
+      );
+  }
+
+  @Get('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get quote validity and proposal branding' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved' })
+  getSettings() {
+    return this.quotesService.getSettings();
+  }
+
+  @Put('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Update quote validity and proposal branding' })
+  @ApiResponse({ status: 200, description: 'Settings updated' })
+  updateSettings(@Body() settingsDto: UpdateQuoteSettingsDto) {
+    return this.quotesService.updateSettings(settingsDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List quotes' })
+  @ApiResponse({ status: 200, description: 'Quotes retrieved' })
+  findAll(@Query() queryDto: QuoteQueryDto, @CurrentUser() user: any) {
+    return this.quotesService.findAll(queryDto, user);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a quote for a lead' })
+  @ApiResponse({ status: 201, description: 'Quote created as a draft' })
+  @ApiResponse({ status: 400, description: 'Product not found' })
+  @ApiResponse({ status: 404, description: 'Lead not found' })
+  create(@Body() createDto: CreateQuoteDto, @CurrentUser() user: any) {
+    return this.quotesService.create(createDto, user);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a quote with all its revisions' })
+  @ApiResponse({ status: 200, description: 'Quote retrieved' })
+  @ApiResponse({ status: 404, description: 'Quote not found' })
+  findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.quotesService.findOne(id, user);
+  }
+
+  @Post(':id/revisions')
+  @ApiOperation({
+    summary: 'Change a quote by saving a new revision',
+    description: 'The quote goes back to draft and has to be sent again',
+  })
+  @ApiResponse({ status: 201, description: 'Revision created' })
+  @ApiResponse({ status: 409, description: 'Quote already accepted' })
+  createRevision(
+    @Param('id') id: string,
+    @Body() revisionDto: CreateQuoteRevisionDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.quotesService.createRevision(id, revisionDto, user);
+  }
+
+  @Get(':id/pdf')
+  @ApiOperation({ summary: 'Download the proposal PDF' })
+  @ApiQuery({
+    name: 'revision',
+    required: false,
+    description: 'Earlier revision to render; the current one by default',
+  })
+  @ApiProduces('application/pdf')
+  @ApiResponse({ status: 200, description: 'Proposal PDF' })
+  @ApiResponse({ status: 404, description: 'Quote or revision not found' })
+  async getPdf(
+    @Param('id') id: string,
+    @CurrentUser() user: any,
+    @Res() res: Response,
+    @Query('revision', new ParseIntPipe({ optional: true })) revision?: number,
+  ) {
+    const { filename, buffer } = await this.quotesService.getPdf(
+      id,
+      user,
+      revision,
+    );
+    this.sendPdf(res, filename, buffer, 'attachment');
+  }
+
+  @Post(':id/send')
+  @ApiOperation({
+    summary: 'Send the proposal to the lead by email or WhatsApp',
+  })
+  @ApiResponse({ status: 201, description: 'Quote sent' })
+  @ApiResponse({
+    status: 400,
+    description: 'Lead has no address or sending failed',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Quote already answered or expired',
+  })
+  send(
+    @Param('id') id: string,
+    @Body() sendDto: SendQuoteDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.quotesService.send(id, sendDto, user);
+  }
+
+  @Patch(':id/status')
+  @ApiOperation({
+    summary: 'Record that the customer accepted or declined outside the link',
+  })
+  @ApiResponse({ status: 200, description: 'Status updated' })
+  @ApiResponse({ status: 409, description: 'Quote is not open' })
+  updateStatus(
+    @Param('id') id: string,
+    @Body() statusDto: UpdateQuoteStatusDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.quotesService.updateStatus(id, statusDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a quote that was never sent' })
+  @ApiResponse({ status: 200, description: 'Quote deleted' })
+  @ApiResponse({ status: 409, description: 'Quote was sent' })
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.quotesService.remove(id, user);
+  }
+
+  private sendPdf(
+    res: Response,
+    filename: string,
+    buffer: Buffer,
+    disposition: 'inline' | 'attachment',
+  ) {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader(
+      'Content-Disposition',
+      `${disposition}; filename="${filename}"`,
+    );
+    res.send(buffer);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { QuotesService } from './quotes.service';
+import { QuotesController } from './quotes.controller';
+import { QuoteProposalService } from './quote-proposal.service';
+import { QuotesSchedulerService } from './quotes-scheduler.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsModule } from '../leads/leads.module';
+import { EmailModule } from '../email/email.module';
+import { WhatsAppModule } from '../whatsapp/whatsapp.module';
+
+@Module({
+  imports: [ConfigModule, LeadsModule, EmailModule, WhatsAppModule],
+  controllers: [QuotesController],
+  providers: [
+    QuotesService,
+    QuoteProposalService,
+    QuotesSchedulerService,
+    PrismaService,
+  ],
+  exports: [QuotesService],
+})
+export class QuotesModule {}
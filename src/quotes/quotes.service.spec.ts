@@ -0,0 +1,227 @@
+import { ConflictException, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LeadStatus } from '@prisma/client';
+import { QuotesService } from './quotes.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsService } from '../leads/leads.service';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { SmtpEmailService } from '../email/smtp-email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import { QuoteProposalService } from './quote-proposal.service';
+import { QuoteStatus } from './enums/quote.enums';
+
+const currentUser = { id: 'user-1', role: 'ADMIN' };
+
+const quote = (overrides: Record<string, unknown> = {}) => ({
+  id: 'quote-1',
+  number: 'Q-0001',
+  leadId: 'lead-1',
+  status: QuoteStatus.SENT,
+  validUntil: null,
+  publicToken: 'token',
+  ...overrides,
+});
+
+describe('QuotesService', () => {
+  let service: QuotesService;
+  const prisma = {
+    addTenantFilter: jest.fn(),
+    quote: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      count: jest.fn(),
+    },
+    lead: { findFirst: jest.fn() },
+  };
+  const leadsService = { applyStatusChange: jest.fn() };
+
+  const leadStatus = (status: LeadStatus) =>
+    prisma.lead.findFirst.mockResolvedValue({ status });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.addTenantFilter.mockImplementation((where) => where);
+    prisma.quote.findFirst.mockResolvedValue(quote());
+    prisma.quote.updateMany.mockResolvedValue({ count: 1 });
+    prisma.quote.count.mockResolvedValue(0);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuotesService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: LeadsService, useValue: leadsService },
+        { provide: LeadDuplicatesService, useValue: {} },
+        { provide: QuoteProposalService, useValue: {} },
+        { provide: SmtpEmailService, useValue: {} },
+        { provide: WhatsAppService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(QuotesService);
+  });
+
+  it('closes the lead as won when the quote is accepted', async () => {
+    leadStatus(LeadStatus.PROPOSAL_SENT);
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.ACCEPTED },
+      currentUser,
+    );
+
+    expect(prisma.quote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', status: { in: ['SENT', 'VIEWED'] } },
+      data: expect.objectContaining({
+        status: QuoteStatus.ACCEPTED,
+        declineReason: null,
+      }),
+    });
+    expect(leadsService.applyStatusChange).toHaveBeenCalledWith(
+      'lead-1',
+      LeadStatus.CLOSED_WON,
+      { source: 'QUOTE', note: 'Quote Q-0001 accepted', changedById: 'user-1' },
+    );
+  });
+
+  it('reopens a lost lead only on acceptance', async () => {
+    leadStatus(LeadStatus.CLOSED_LOST);
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.DECLINED, reason: 'Too expensive' },
+      currentUser,
+    );
+    expect(leadsService.applyStatusChange).not.toHaveBeenCalled();
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.ACCEPTED },
+      currentUser,
+    );
+    expect(leadsService.applyStatusChange).toHaveBeenCalledWith(
+      'lead-1',
+      LeadStatus.CLOSED_WON,
+      expect.anything(),
+    );
+  });
+
+  it('moves a declined quote to negotiation with the reason', async () => {
+    leadStatus(LeadStatus.PROPOSAL_SENT);
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.DECLINED, reason: 'Too expensive' },
+      currentUser,
+    );
+
+    expect(leadsService.applyStatusChange).toHaveBeenCalledWith(
+      'lead-1',
+      LeadStatus.NEGOTIATION,
+      {
+        source: 'QUOTE',
+        note: 'Quote Q-0001 declined: Too expensive',
+        changedById: 'user-1',
+      },
+    );
+  });
+
+  it('leaves the lead alone while another quote is open or accepted', async () => {
+    leadStatus(LeadStatus.PROPOSAL_SENT);
+    prisma.quote.count.mockResolvedValue(1);
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.DECLINED },
+      currentUser,
+    );
+
+    expect(prisma.quote.count).toHaveBeenCalledWith({
+      where: {
+        leadId: 'lead-1',
+        id: { not: 'quote-1' },
+        status: { in: ['SENT', 'VIEWED', 'ACCEPTED'] },
+      },
+    });
+    expect(leadsService.applyStatusChange).not.toHaveBeenCalled();
+  });
+
+  it('never moves a won lead', async () => {
+    leadStatus(LeadStatus.CLOSED_WON);
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.DECLINED },
+      currentUser,
+    );
+
+    expect(leadsService.applyStatusChange).not.toHaveBeenCalled();
+  });
+
+  it('does not sync the lead when a concurrent answer got there first', async () => {
+    prisma.quote.updateMany.mockResolvedValue({ count: 0 });
+
+    await service.updateStatus(
+      'quote-1',
+      { status: QuoteStatus.ACCEPTED },
+      currentUser,
+    );
+
+    expect(prisma.lead.findFirst).not.toHaveBeenCalled();
+    expect(leadsService.applyStatusChange).not.toHaveBeenCalled();
+  });
+
+  it('rejects answers to quotes that are not open', async () => {
+    prisma.quote.findFirst.mockResolvedValue(
+      quote({ status: QuoteStatus.DRAFT }),
+    );
+
+    await expect(
+      service.updateStatus(
+        'quote-1',
+        { status: QuoteStatus.ACCEPTED },
+        currentUser,
+      ),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('moves the leads of expired quotes to follow-up', async () => {
+    leadStatus(LeadStatus.PROPOSAL_SENT);
+    prisma.quote.findMany.mockResolvedValue([
+      quote({ validUntil: new Date(Date.now() - 1000) }),
+    ]);
+
+    await expect(service.expireOverdue()).resolves.toBe(1);
+
+    expect(prisma.quote.updateMany).toHaveBeenCalledWith({
+      where: { id: 'quote-1', status: { in: ['SENT', 'VIEWED'] } },
+      data: { status: QuoteStatus.EXPIRED },
+    });
+    expect(leadsService.applyStatusChange).toHaveBeenCalledWith(
+      'lead-1',
+      LeadStatus.FOLLOW_UP,
+      { source: 'QUOTE', note: 'Quote Q-0001 expired', changedById: null },
+    );
+  });
+
+  it('records the answer even when the lead cannot be moved', async () => {
+    leadStatus(LeadStatus.PROPOSAL_SENT);
+    leadsService.applyStatusChange.mockRejectedValue(new Error('locked'));
+    const logError = jest
+      .spyOn(Logger.prototype, 'error')
+      .mockImplementation(() => undefined);
+
+    await expect(
+      service.updateStatus(
+        'quote-1',
+        { status: QuoteStatus.ACCEPTED },
+        currentUser,
+      ),
+    ).resolves.toBeDefined();
+    expect(prisma.quote.updateMany).toHaveBeenCalled();
+    expect(logError).toHaveBeenCalled();
+    logError.mockRestore();
+  });
+});
@@ -0,0 +1,933 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LeadStatus, Prisma, Quote, UserRole } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../common/services/prisma.service';
+import {
+  getTenantContext,
+  runWithTenantContext,
+} from '../common/context/tenant-context';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { LeadsService } from '../leads/leads.service';
+import { LeadDuplicatesService } from '../leads/lead-duplicates.service';
+import { SmtpEmailService } from '../email/smtp-email.service';
+import { WhatsAppService } from '../whatsapp/whatsapp.service';
+import {
+  ProposalBranding,
+  ProposalContent,
+  QuoteProposalService,
+} from './quote-proposal.service';
+import { CreateQuoteDto } from './dto/create-quote.dto';
+import { CreateQuoteRevisionDto } from './dto/create-quote-revision.dto';
+import { QuoteLineItemDto } from './dto/quote-line-item.dto';
+import { QuoteQueryDto } from './dto/quote-query.dto';
+import { SendQuoteDto } from './dto/send-quote.dto';
+import { UpdateQuoteStatusDto } from './dto/update-quote-status.dto';
+import { UpdateQuoteSettingsDto } from './dto/update-quote-settings.dto';
+import {
+  PremiumFrequency,
+  QuoteChannel,
+  QuoteStatus,
+} from './enums/quote.enums';
+
+const QUOTE_NUMBER_ATTEMPTS = 5;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Quotes the customer can still accept or decline
+const OPEN_STATUSES: string[] = [QuoteStatus.SENT, QuoteStatus.VIEWED];
+
+// Lead status each quote outcome moves the lead to
+const LEAD_STATUS_FOR_QUOTE: Partial<Record<QuoteStatus, LeadStatus>> = {
+  [QuoteStatus.SENT]: LeadStatus.PROPOSAL_SENT,
+  [QuoteStatus.ACCEPTED]: LeadStatus.CLOSED_WON,
+  [QuoteStatus.DECLINED]: LeadStatus.NEGOTIATION,
+  [QuoteStatus.EXPIRED]: LeadStatus.FOLLOW_UP,
+};
+
+// Statuses a sent proposal should not pull a lead back from
+const PAST_PROPOSAL_STATUSES: LeadStatus[] = [
+  LeadStatus.PROPOSAL_SENT,
+  LeadStatus.NEGOTIATION,
+];
+
+const USER_SELECT = {
+  select: { id: true, firstName: true, lastName: true },
+} as const;
+
+const LEAD_SELECT = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+    phone: true,
+    status: true,
+    assignedUserId: true,
+  },
+} as const;
+
+const REVISION_INCLUDE = {
+  items: { orderBy: { position: 'asc' } },
+  createdBy: USER_SELECT,
+} as const;
+
+type QuoteWithRevision = Prisma.QuoteGetPayload<{
+  include: {
+    lead: { select: { firstName: true; lastName: true } };
+    revisions: { include: { items: true } };
+  };
+}>;
+
+/**
+ * QuotesService - Multi-product quotes for leads and their proposals
+ *
+ * Key Features:
+ * - Line items from the product catalogue with premium, cover amount,
+ *   deductible, term and percentage or fixed discounts
+ * - Every edit is a new revision; accepted quotes are locked
+ * - Branded PDF proposal, sent by email (attached) or WhatsApp (linked)
+ * - Proposal link where the customer views, accepts or declines the quote
+ * - Quote status moves the lead through the pipeline: sent to
+ *   PROPOSAL_SENT, accepted to CLOSED_WON, declined to NEGOTIATION and
+ *   expired to FOLLOW_UP
+ */
+@Injectable()
+export class QuotesService {
+  private readonly logger = new Logger(QuotesService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private leadsService: LeadsService,
+    private duplicatesService: LeadDuplicatesService,
+    private proposalService: QuoteProposalService,
+    private smtpEmailService: SmtpEmailService,
+    private whatsappService: WhatsAppService,
+  ) {}
+
+  async findAll(
+    queryDto: QuoteQueryDto,
+    currentUser: any,
+  ): Promise<PaginationResult<any>> {
+    const { page, limit } = queryDto;
+    const where = this.accessibleWhere(currentUser, {
+      ...(queryDto.status && { status: queryDto.status }),
+      ...(queryDto.leadId && { leadId: queryDto.leadId }),
+    });
+
+    const [data, total] = await Promise.all([
+      this.prisma.quote.findMany({
+        where,
+        include: { lead: LEAD_SELECT, createdBy: USER_SELECT },
+        orderBy: { updatedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.quote.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * A quote with all its revisions, newest first, and its proposal link
+   */
+  async findOne(id: string, currentUser: any) {
+    const quote = await this.prisma.quote.findFirst({
+      where: this.accessibleWhere(currentUser, { id }),
+      include: {
+        lead: LEAD_SELECT,
+        createdBy: USER_SELECT,
+        revisions: { include: REVISION_INCLUDE, orderBy: { revision: 'desc' } },
+      },
+    });
+
+    if (!quote) {
+      throw new NotFoundException('Quote not found');
+    }
+
+    return { ...quote, proposalUrl: this.publicUrl(quote.publicToken) };
+  }
+
+  async create(createDto: CreateQuoteDto, currentUser: any) {
+    const tenantId = this.requireTenantId();
+    // Checks the lead exists and the user may work on it
+    await this.leadsService.findOne(createDto.leadId, currentUser);
+
+    const revision = await this.buildRevision(createDto, currentUser.id);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const quote = await this.prisma.quote.create({
+          data: {
+            number: await this.nextNumber(tenantId, attempt - 1),
+            title: createDto.title ?? this.defaultTitle(revision.items),
+            currency: createDto.currency,
+            validUntil: this.parseValidUntil(createDto.validUntil),
+            total: revision.total,
+            publicToken: crypto.randomBytes(24).toString('hex'),
+            leadId: createDto.leadId,
+            createdById: currentUser.id,
+            tenantId,
+            revisions: {
+              create: {
+                ...revision,
+                revision: 1,
+                items: { create: revision.items },
+              },
+            },
+          },
+          select: { id: true },
+        });
+
+        return this.findOne(quote.id, currentUser);
+      } catch (error) {
+        if (!this.isUniqueViolation(error)) throw error;
+        if (attempt >= QUOTE_NUMBER_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  /**
+   * Replace the content of a quote with a new revision. Earlier revisions
+   * are kept. The quote goes back to DRAFT and has to be sent again.
+   */
+  async createRevision(
+    id: string,
+    revisionDto: CreateQuoteRevisionDto,
+    currentUser: any,
+  ) {
+    const quote = await this.findQuote(id, currentUser);
+    if (quote.status === QuoteStatus.ACCEPTED) {
+      throw new ConflictException('Accepted quotes cannot be changed');
+    }
+
+    const revision = await this.buildRevision(revisionDto, currentUser.id);
+    const number = quote.currentRevision + 1;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.quoteRevision.create({
+        data: {
+          ...revision,
+          revision: number,
+          quoteId: quote.id,
+          items: { create: revision.items },
+        },
+      });
+      await tx.quote.update({
+        where: { id: quote.id },
+        data: {
+          currentRevision: number,
+          total: revision.total,
+          title: revisionDto.title,
+          currency: revisionDto.currency,
+          validUntil: this.parseValidUntil(revisionDto.validUntil),
+          status: QuoteStatus.DRAFT,
+          viewedAt: null,
+          respondedAt: null,
+          declineReason: null,
+        },
+      });
+    });
+
+    return this.findOne(quote.id, currentUser);
+  }
+
+  /**
+   * Quotes that reached the customer are kept as a record of what was
+   * offered; only drafts that were never sent can be deleted
+   */
+  async remove(id: string, currentUser: any) {
+    const quote = await this.findQuote(id, currentUser);
+    if (quote.status !== QuoteStatus.DRAFT || quote.sentAt) {
+      throw new ConflictException(
+        'Only quotes that were never sent can be deleted',
+      );
+    }
+
+    await this.prisma.quote.delete({ where: { id: quote.id } });
+    return { message: 'Quote deleted successfully' };
+  }
+
+  /**
+   * PDF proposal of the current revision, or of an earlier one
+   */
+  async getPdf(id: string, currentUser: any, revision?: number) {
+    const quote = await this.findQuote(id, currentUser);
+    const content = await this.loadProposal(quote.id, revision);
+
+    return {
+      filename: this.pdfFilename(content),
+      buffer: await this.proposalService.renderPdf(content),
+    };
+  }
+
+  /**
+   * Send the current revision to the lead. Email carries the PDF and the
+   * proposal link, WhatsApp the link. Resending an open quote is allowed.
+   */
+  async send(id: string, sendDto: SendQuoteDto, currentUser: any) {
+    const quote = await this.findQuote(id, currentUser);
+    if (![QuoteStatus.DRAFT, ...OPEN_STATUSES].includes(quote.status)) {
+      throw new ConflictException(
+        `A ${quote.status.toLowerCase()} quote cannot be sent; create a new revision first`,
+      );
+    }
+
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({ id: quote.leadId }),
+      select: { email: true, phone: true, country: true },
+    });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+
+    const { quoteValidityDays } = await this.getTenant();
+    const validUntil =
+      quote.validUntil ?? new Date(Date.now() + quoteValidityDays * MS_PER_DAY);
+    if (validUntil.getTime() < Date.now()) {
+      throw new BadRequestException(
+        'The quote is past its valid-until date; create a new revision with a later date',
+      );
+    }
+
+    const content = await this.loadProposal(quote.id);
+    content.validUntil = validUntil;
+    const link = this.publicUrl(quote.publicToken);
+    const intro =
+      sendDto.message ??
+      `Please find your insurance proposal from ${content.branding.companyName} below.`;
+    const subject = `${content.branding.companyName} quote ${quote.number}: ${content.title}`;
+
+    let recipient: string;
+    let body: string;
+    if (sendDto.channel === QuoteChannel.EMAIL) {
+      if (!lead.email) {
+        throw new BadRequestException('The lead has no email address');
+      }
+      recipient = lead.email;
+      body = `${intro}\n\nView, accept or decline the quote: ${link}`;
+
+      const result = await this.smtpEmailService.sendEmail({
+        to: recipient,
+        subject,
+        html: this.proposalService.renderEmail(content, intro, link),
+        attachments: [
+          {
+            filename: this.pdfFilename(content),
+            content: await this.proposalService.renderPdf(content),
+            contentType: 'application/pdf',
+          },
+        ],
+      });
+      if (!result.success) {
+        throw new BadRequestException(`Failed to send quote: ${result.error}`);
+      }
+    } else {
+      const phone = this.duplicatesService.normalizePhone(
+        lead.phone,
+        lead.country,
+      );
+      if (!phone) {
+        throw new BadRequestException('The lead has no valid phone number');
+      }
+      recipient = phone.replace(/^\+/, '');
+      body = `${intro}\n\n${content.title} (${quote.number}): ${this.proposalService.formatMoney(
+        content.total,
+        content.currency,
+      )}\n\nView, accept or decline the quote: ${link}`;
+
+      const sent = await this.whatsappService.sendMessage(
+        recipient,
+        body,
+        quote.tenantId,
+      );
+      if (!sent) {
+        throw new BadRequestException('Failed to send quote over WhatsApp');
+      }
+    }
+
+    await this.prisma.communication.create({
+      data: {
+        channel: sendDto.channel,
+        direction: 'OUTBOUND',
+        subject,
+        content: body,
+        metadata: {
+          quoteId: quote.id,
+          revision: quote.currentRevision,
+          to: recipient,
+        },
+        leadId: quote.leadId,
+        userId: currentUser.id,
+        tenantId: quote.tenantId,
+      },
+    });
+
+    await this.prisma.quote.update({
+      where: { id: quote.id },
+      data: {
+        // A viewed quote that is sent again stays viewed
+        status:
+          quote.status === QuoteStatus.VIEWED
+            ? QuoteStatus.VIEWED
+            : QuoteStatus.SENT,
+        sentAt: new Date(),
+        sentVia: sendDto.channel,
+        validUntil,
+      },
+    });
+    await this.syncLeadStatus(quote, QuoteStatus.SENT, currentUser.id);
+
+    return this.findOne(quote.id, currentUser);
+  }
+
+  /**
+   * Record an answer the customer gave by phone, in person or by email
+   */
+  async updateStatus(
+    id: string,
+    statusDto: UpdateQuoteStatusDto,
+    currentUser: any,
+  ) {
+    const quote = await this.findQuote(id, currentUser);
+    if (!OPEN_STATUSES.includes(quote.status)) {
+      throw new ConflictException(
+        'Only sent quotes can be accepted or declined',
+      );
+    }
+
+    await this.respond(
+      quote,
+      statusDto.status,
+      statusDto.reason,
+      currentUser.id,
+    );
+    return this.findOne(quote.id, currentUser);
+  }
+
+  /**
+   * Proposal page behind the public link. The first visit marks the quote
+   * as viewed.
+   */
+  async viewPublic(token: string) {
+    return this.withPublicQuote(token, async (quote) => {
+      const content = await this.loadProposal(quote.id);
+      if (quote.status === QuoteStatus.DRAFT) {
+        return this.proposalService.renderMessage(
+          content.branding,
+          content.title,
+          'This quote is being updated. You will receive the new version shortly.',
+        );
+      }
+
+      const status = await this.markViewed(quote);
+      const link = this.publicUrl(token);
+      return this.proposalService.renderPage(content, {
+        pdfUrl: `${link}/pdf`,
+        acceptUrl: `${link}/accept`,
+        declineUrl: `${link}/decline`,
+        canRespond: OPEN_STATUSES.includes(status),
+        statusMessage: this.describeStatus(status),
+      });
+    });
+  }
+
+  async getPublicPdf(token: string) {
+    return this.withPublicQuote(token, async (quote) => {
+      if (quote.status === QuoteStatus.DRAFT) {
+        throw new NotFoundException('Quote not found');
+      }
+
+      await this.markViewed(quote);
+      const content = await this.loadProposal(quote.id);
+      return {
+        filename: this.pdfFilename(content),
+        buffer: await this.proposalService.renderPdf(content),
+      };
+    });
+  }
+
+  /**
+   * Accept or decline through the proposal link. Returns the confirmation
+   * page.
+   */
+  async respondPublic(
+    token: string,
+    status: QuoteStatus.ACCEPTED | QuoteStatus.DECLINED,
+    reason?: string,
+  ) {
+    return this.withPublicQuote(token, async (quote) => {
+      const { branding } = await this.getTenant();
+      const current = await this.expireIfOverdue(quote);
+
+      if (!OPEN_STATUSES.includes(current)) {
+        return this.proposalService.renderMessage(
+          branding,
+          quote.title,
+          this.describeStatus(current) ??
+            'This quote cannot be answered at the moment.',
+        );
+      }
+
+      await this.respond(quote, status, reason?.trim() || undefined, null);
+      return this.proposalService.renderMessage(
+        branding,
+        quote.title,
+        status === QuoteStatus.ACCEPTED
+          ? `Thank you for accepting quote ${quote.number}. We will be in touch shortly to complete your cover.`
+          : `Thank you for letting us know. Quote ${quote.number} has been declined.`,
+      );
+    });
+  }
+
+  /**
+   * Expire the current tenant's sent quotes that are past their
+   * valid-until date. Returns how many were expired.
+   */
+  async expireOverdue(): Promise<number> {
+    const overdue = await this.prisma.quote.findMany({
+      where: this.prisma.addTenantFilter({
+        status: { in: OPEN_STATUSES },
+        validUntil: { lt: new Date() },
+      }),
+    });
+
+    let expired = 0;
+    for (const quote of overdue) {
+      if ((await this.expireIfOverdue(quote)) === QuoteStatus.EXPIRED) {
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  async getSettings() {
+    const tenant = await this.getTenant();
+    return {
+      validityDays: tenant.quoteValidityDays,
+      branding: tenant.branding,
+    };
+  }
+
+  async updateSettings(settingsDto: UpdateQuoteSettingsDto) {
+    const branding = settingsDto.branding && {
+      ...settingsDto.branding,
+      // Stored with the # so the PDF and web page can use it as is
+      ...(settingsDto.branding.primaryColor && {
+        primaryColor: `#${settingsDto.branding.primaryColor.replace(/^#/, '')}`,
+      }),
+    };
+
+    await this.prisma.tenant.update({
+      where: { id: this.requireTenantId() },
+      data: {
+        quoteValidityDays: settingsDto.validityDays,
+        proposalBranding: branding as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    return this.getSettings();
+  }
+
+  private async respond(
+    quote: { id: string; leadId: string; number: string },
+    status: QuoteStatus.ACCEPTED | QuoteStatus.DECLINED,
+    reason: string | undefined,
+    changedById: string | null,
+  ) {
+    // Guarded on status so only the first of two concurrent answers counts
+    const { count } = await this.prisma.quote.updateMany({
+      where: { id: quote.id, status: { in: OPEN_STATUSES } },
+      data: {
+        status,
+        respondedAt: new Date(),
+        declineReason: status === QuoteStatus.DECLINED ? reason : null,
+      },
+    });
+
+    if (count) {
+      await this.syncLeadStatus(quote, status, changedById, reason);
+    }
+  }
+
+  private async markViewed(quote: {
+    id: string;
+    leadId: string;
+    number: string;
+    status: string;
+    validUntil: Date | null;
+  }): Promise<string> {
+    const status = await this.expireIfOverdue(quote);
+    if (status !== QuoteStatus.SENT) {
+      return status;
+    }
+
+    await this.prisma.quote.updateMany({
+      where: { id: quote.id, status: QuoteStatus.SENT },
+      data: { status: QuoteStatus.VIEWED, viewedAt: new Date() },
+    });
+    return QuoteStatus.VIEWED;
+  }
+
+  /**
+   * Expire an open quote past its valid-until date. Returns the status the
+   * quote has afterwards.
+   */
+  private async expireIfOverdue(quote: {
+    id: string;
+    leadId: string;
+    number: string;
+    status: string;
+    validUntil: Date | null;
+  }): Promise<string> {
+    if (
+      !OPEN_STATUSES.includes(quote.status) ||
+      !quote.validUntil ||
+      quote.validUntil.getTime() >= Date.now()
+    ) {
+      return quote.status;
+    }
+
+    const { count } = await this.prisma.quote.updateMany({
+      where: { id: quote.id, status: { in: OPEN_STATUSES } },
+      data: { status: QuoteStatus.EXPIRED },
+    });
+    if (count) {
+      await this.syncLeadStatus(quote, QuoteStatus.EXPIRED, null);
+    }
+    return QuoteStatus.EXPIRED;
+  }
+
+  /**
+   * Move the quote's lead to the status matching the quote's new status.
+   * Won leads are left alone, and lost ones are only reopened by an
+   * acceptance. A declined or expired quote does not move a lead that has
+   * another quote open or accepted. Failures are logged: the customer's
+   * answer is recorded either way.
+   */
+  private async syncLeadStatus(
+    quote: { id: string; leadId: string; number: string },
+    quoteStatus: QuoteStatus,
+    changedById: string | null,
+    reason?: string,
+  ) {
+    const target = LEAD_STATUS_FOR_QUOTE[quoteStatus];
+    if (!target) return;
+
+    try {
+      const lead = await this.prisma.lead.findFirst({
+        where: this.prisma.addTenantFilter({ id: quote.leadId }),
+        select: { status: true },
+      });
+      if (!lead || lead.status === LeadStatus.CLOSED_WON) return;
+      if (
+        lead.status === LeadStatus.CLOSED_LOST &&
+        quoteStatus !== QuoteStatus.ACCEPTED
+      ) {
+        return;
+      }
+      if (
+        quoteStatus === QuoteStatus.SENT &&
+        PAST_PROPOSAL_STATUSES.includes(lead.status)
+      ) {
+        return;
+      }
+      if (
+        quoteStatus === QuoteStatus.DECLINED ||
+        quoteStatus === QuoteStatus.EXPIRED
+      ) {
+        const otherQuotes = await this.prisma.quote.count({
+          where: this.prisma.addTenantFilter({
+            leadId: quote.leadId,
+            id: { not: quote.id },
+            status: { in: [...OPEN_STATUSES, QuoteStatus.ACCEPTED] },
+          }),
+        });
+        if (otherQuotes) return;
+      }
+
+      const note = `Quote ${quote.number} ${quoteStatus.toLowerCase()}`;
+      await this.leadsService.applyStatusChange(quote.leadId, target, {
+        source: 'QUOTE',
+        note: reason ? `${note}: ${reason}` : note,
+        changedById,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to update the lead of quote ${quote.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  /**
+   * Run a public request in the tenant context of the quote the token
+   * belongs to
+   */
+  private async withPublicQuote<T>(
+    token: string,
+    run: (quote: Quote) => Promise<T>,
+  ): Promise<T> {
+    const quote = await this.prisma.quote.findUnique({
+      where: { publicToken: token },
+    });
+    if (!quote) {
+      throw new NotFoundException('Quote not found');
+    }
+
+    return runWithTenantContext(
+      { tenantId: quote.tenantId, userId: 'quote-link', isSuperAdmin: false },
+      () => run(quote),
+    );
+  }
+
+  /**
+   * Revision data with line item totals. Products are looked up in the
+   * tenant's catalogue and their name and description copied.
+   */
+  private async buildRevision(dto: CreateQuoteRevisionDto, userId: string) {
+    const productIds = [
+      ...new Set(
+        dto.items
+          .map((item) => item.productId)
+          .filter((productId): productId is string => !!productId),
+      ),
+    ];
+    const products = productIds.length
+      ? await this.prisma.product.findMany({
+          where: this.prisma.addTenantFilter({ id: { in: productIds } }),
+          select: { id: true, name: true, description: true },
+        })
+      : [];
+    const missing = productIds.filter(
+      (productId) => !products.some(({ id }) => id === productId),
+    );
+    if (missing.length) {
+      throw new BadRequestException(`Product not found: ${missing.join(', ')}`);
+    }
+
+    const items = dto.items.map((item, position) => {
+      const product = products.find(({ id }) => id === item.productId);
+      return {
+        position,
+        productId: item.productId,
+        name: item.name ?? product.name,
+        description: item.description ?? product?.description,
+        premium: item.premium,
+        coverAmount: item.coverAmount,
+        deductible: item.deductible,
+        termMonths: item.termMonths,
+        discountPercent: item.discountPercent ?? 0,
+        discountAmount: item.discountAmount ?? 0,
+        total: this.lineTotal(item),
+      };
+    });
+
+    const subtotal = items.reduce(
+      (sum, item) => sum.plus(item.premium),
+      new Prisma.Decimal(0),
+    );
+    const total = items.reduce(
+      (sum, item) => sum.plus(item.total),
+      new Prisma.Decimal(0),
+    );
+
+    return {
+      premiumFrequency: dto.premiumFrequency ?? PremiumFrequency.MONTHLY,
+      notes: dto.notes,
+      terms: dto.terms,
+      subtotal,
+      discountTotal: subtotal.minus(total),
+      total,
+      createdById: userId,
+      items,
+    };
+  }
+
+  /**
+   * Premium less the percentage discount, then the fixed one, never below
+   * zero
+   */
+  private lineTotal(item: QuoteLineItemDto): Prisma.Decimal {
+    const premium = new Prisma.Decimal(item.premium);
+    const afterPercent = premium
+      .minus(premium.mul(item.discountPercent ?? 0).div(100))
+      .toDecimalPlaces(2);
+    return Prisma.Decimal.max(afterPercent.minus(item.discountAmount ?? 0), 0);
+  }
+
+  private async loadProposal(
+    quoteId: string,
+    revision?: number,
+  ): Promise<ProposalContent> {
+    const quote: QuoteWithRevision | null = await this.prisma.quote.findFirst({
+      where: this.prisma.addTenantFilter({ id: quoteId }),
+      include: {
+        lead: { select: { firstName: true, lastName: true } },
+        revisions: {
+          where: revision ? { revision } : undefined,
+          include: { items: { orderBy: { position: 'asc' } } },
+          orderBy: { revision: 'desc' },
+          take: 1,
+        },
+      },
+    });
+    const current = quote?.revisions[0];
+    if (!quote || !current) {
+      throw new NotFoundException('Quote revision not found');
+    }
+
+    const { branding } = await this.getTenant();
+    return {
+      number: quote.number,
+      title: quote.title,
+      currency: quote.currency,
+      revision: current.revision,
+      premiumFrequency: current.premiumFrequency,
+      issuedAt: quote.sentAt ?? current.createdAt,
+      validUntil: quote.validUntil,
+      customerName: `${quote.lead.firstName} ${quote.lead.lastName}`.trim(),
+      items: current.items,
+      subtotal: current.subtotal,
+      discountTotal: current.discountTotal,
+      total: current.total,
+      notes: current.notes,
+      terms: current.terms,
+      branding,
+    };
+  }
+
+  private async findQuote(id: string, currentUser: any) {
+    const quote = await this.prisma.quote.findFirst({
+      where: this.accessibleWhere(currentUser, { id }),
+    });
+
+    if (!quote) {
+      throw new NotFoundException('Quote not found');
+    }
+
+    return quote;
+  }
+
+  /**
+   * Tenant filter limited to quotes of leads the user can see: live leads,
+   * and for agents only the ones assigned to them
+   */
+  private accessibleWhere(
+    currentUser: any,
+    where: Prisma.QuoteWhereInput,
+  ): Prisma.QuoteWhereInput {
+    return this.prisma.addTenantFilter({
+      ...where,
+      lead: {
+        deletedAt: null,
+        ...(currentUser.role === UserRole.AGENT && {
+          assignedUserId: currentUser.id,
+        }),
+      },
+    });
+  }
+
+  private async getTenant() {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: this.requireTenantId() },
+      select: { name: true, quoteValidityDays: true, proposalBranding: true },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    const stored = (tenant.proposalBranding ?? {}) as Partial<ProposalBranding>;
+    return {
+      quoteValidityDays: tenant.quoteValidityDays,
+      branding: {
+        ...stored,
+        companyName: stored.companyName || tenant.name,
+      } as ProposalBranding,
+    };
+  }
+
+  /**
+   * Number after the tenant's highest; skip moves past numbers taken by
+   * concurrent creates
+   */
+  private async nextNumber(tenantId: string, skip: number) {
+    const last = await this.prisma.quote.findFirst({
+      where: { tenantId },
+      orderBy: { number: 'desc' },
+      select: { number: true },
+    });
+    const lastNumber = Number(last?.number.replace(/\D/g, '') || 0);
+    return `Q-${String(lastNumber + 1 + skip).padStart(5, '0')}`;
+  }
+
+  private defaultTitle(items: { name: string }[]) {
+    return items
+      .map(({ name }) => name)
+      .join(', ')
+      .slice(0, 191);
+  }
+
+  private parseValidUntil(value?: string) {
+    if (!value) return undefined;
+    // Date-only values mean the end of that day
+    return new Date(
+      /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value,
+    );
+  }
+
+  private describeStatus(status: string): string | undefined {
+    switch (status) {
+      case QuoteStatus.ACCEPTED:
+        return 'You have accepted this quote.';
+      case QuoteStatus.DECLINED:
+        return 'You have declined this quote.';
+      case QuoteStatus.EXPIRED:
+        return 'This quote has expired. Please contact us for an updated quote.';
+      default:
+        return undefined;
+    }
+  }
+
+  private pdfFilename(content: ProposalContent) {
+    return `${content.number}-rev${content.revision}.pdf`;
+  }
+
+  private publicUrl(token: string) {
+    const apiUrl =
+      this.configService.get<string>('API_URL') || 'http://localhost:3000';
+    return `${apiUrl}/quotes/public/${token}`;
+  }
+
+  private isUniqueViolation(error: unknown) {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    );
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
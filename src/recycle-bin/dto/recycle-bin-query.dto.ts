@@ -0,0 +1,50 @@
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RecycleBinEntity } from '../enums/recycle-bin.enums';
+
+export class RecycleBinQueryDto {
+  @ApiPropertyOptional({ example: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page: number = 1;
+
+  @ApiPropertyOptional({ example: 25, description: 'Items per page (1-100)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit: number = 25;
+
+  @ApiPropertyOptional({
+    enum: RecycleBinEntity,
+    description: 'Only deleted leads or only deleted clients',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string' ? value.toUpperCase() : value,
+  )
+  @IsEnum(RecycleBinEntity)
+  type?: RecycleBinEntity;
+
+  @ApiPropertyOptional({
+    example: 'smith',
+    description: 'Matches name, email or phone',
+  })
+  @IsOptional()
+  @Transform(({ value }) => value?.trim())
+  @IsString()
+  @MaxLength(100)
+  search?: string;
+}
@@ -0,0 +1,14 @@
+import { IsInt, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UpdateRecycleBinSettingsDto {
+  @ApiProperty({
+    example: 30,
+    description:
+      'Days deleted leads and clients are kept before they are purged (1-365)',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  retentionDays: number;
+}
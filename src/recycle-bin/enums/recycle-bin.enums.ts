@@ -0,0 +1,8 @@
+/**
+ * Recycle Bin Enums - Record types that are soft-deleted
+ */
+
+export enum RecycleBinEntity {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+}
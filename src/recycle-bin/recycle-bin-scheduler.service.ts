@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaService } from '../common/services/prisma.service';
+import { runWithTenantContext } from '../common/context/tenant-context';
+import { RecycleBinService } from './recycle-bin.service';
+
+@Injectable()
+export class RecycleBinSchedulerService {
+  private readonly logger = new Logger(RecycleBinSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private recycleBinService: RecycleBinService,
+  ) {}
+
+  // Retention is counted in days, so one nightly pass is enough. Suspended
+  // tenants are included: their deleted records expire all the same.
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpired() {
+    const tenants = await this.prisma.tenant.findMany({
+      select: { id: true },
+    });
+
+    for (const tenant of tenants) {
+      try {
+        await runWithTenantContext(
+          { tenantId: tenant.id, isSuperAdmin: false },
+          () => this.recycleBinService.purgeExpired(),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to purge the recycle bin for tenant ${tenant.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+    }
+  }
+}
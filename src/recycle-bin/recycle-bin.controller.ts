@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiParam,
+} from '@nestjs/swagger';
+import { RecycleBinService } from './recycle-bin.service';
+import { RecycleBinQueryDto } from './dto/recycle-bin-query.dto';
+import { UpdateRecycleBinSettingsDto } from './dto/update-recycle-bin-settings.dto';
+import { RecycleBinEntity } from './enums/recycle-bin.enums';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+const parseType = new ParseEnumPipe(RecycleBinEntity);
+
+@ApiTags('Recycle Bin')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@Controller('recycle-bin')
+export class RecycleBinController {
+  constructor(private readonly recycleBinService: RecycleBinService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get deleted leads and clients, newest first' })
+  @ApiResponse({ status: 200, description: 'Deleted records retrieved' })
+  findAll(@Query() queryDto: RecycleBinQueryDto) {
+    return this.recycleBinService.findAll(queryDto);
+  }
+
+  @Get('settings')
+  @ApiOperation({ summary: 'Get the recycle bin retention period' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved' })
+  getSettings() {
+    return this.recycleBinService.getSettings();
+  }
+
+  @Put('settings')
+  @ApiOperation({ summary: 'Set the recycle bin retention period' })
+  @ApiResponse({ status: 200, description: 'Settings updated' })
+  updateSettings(@Body() settingsDto: UpdateRecycleBinSettingsDto) {
+    return this.recycleBinService.updateSettings(settingsDto);
+  }
+
+  @Post(':type/:id/restore')
+  @ApiParam({ name: 'type', enum: RecycleBinEntity })
+  @ApiOperation({ summary: 'Restore a deleted lead or client' })
+  @ApiResponse({ status: 201, description: 'Record restored' })
+  @ApiResponse({ status: 404, description: 'Not in the recycle bin' })
+  restore(
+    @Param('type', parseType) type: RecycleBinEntity,
+    @Param('id') id: string,
+  ) {
+    return this.recycleBinService.restore(type, id);
+  }
+
+  @Delete(':type/:id')
+  @ApiParam({ name: 'type', enum: RecycleBinEntity })
+  @ApiOperation({
+    summary: 'Permanently delete a lead or client from the recycle bin',
+  })
+  @ApiResponse({ status: 200, description: 'Record permanently deleted' })
+  @ApiResponse({ status: 404, description: 'Not in the recycle bin' })
+  purge(
+    @Param('type', parseType) type: RecycleBinEntity,
+    @Param('id') id: string,
+  ) {
+    return this.recycleBinService.purge(type, id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { RecycleBinService } from './recycle-bin.service';
+import { RecycleBinSchedulerService } from './recycle-bin-scheduler.service';
+import { RecycleBinController } from './recycle-bin.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [RecycleBinController],
+  providers: [RecycleBinService, RecycleBinSchedulerService, PrismaService],
+  exports: [RecycleBinService],
+})
+export class RecycleBinModule {}
@@ -0,0 +1,255 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { RecycleBinQueryDto } from './dto/recycle-bin-query.dto';
+import { UpdateRecycleBinSettingsDto } from './dto/update-recycle-bin-settings.dto';
+import { RecycleBinEntity } from './enums/recycle-bin.enums';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DELETED_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  deletedAt: true,
+  deletedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} as const;
+
+type DeletedRecord = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  deletedAt: Date | null;
+  deletedBy: { id: string; firstName: string; lastName: string } | null;
+};
+
+export interface RecycleBinItem extends DeletedRecord {
+  type: RecycleBinEntity;
+  purgeAt: Date;
+}
+
+/**
+ * RecycleBinService - Deleted leads and clients awaiting permanent removal
+ *
+ * Key Features:
+ * - Leads and clients are soft-deleted; PrismaService hides them from all
+ *   other queries
+ * - Listing, restore and immediate permanent deletion
+ * - Tenant-configurable retention, after which a nightly job purges them
+ *   together with their communications, chats and emails
+ */
+@Injectable()
+export class RecycleBinService {
+  private readonly logger = new Logger(RecycleBinService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findAll(
+    queryDto: RecycleBinQueryDto,
+  ): Promise<PaginationResult<RecycleBinItem>> {
+    const { page, limit } = queryDto;
+    const { retentionDays } = await this.getSettings();
+    const types = queryDto.type
+      ? [queryDto.type]
+      : [RecycleBinEntity.LEAD, RecycleBinEntity.CLIENT];
+
+    // Each type contributes at most page * limit items before merging
+    const where = this.prisma.addTenantFilter({
+      deletedAt: { not: null },
+      ...(queryDto.search && {
+        OR: ['firstName', 'lastName', 'email', 'phone'].map((field) => ({
+          [field]: { contains: queryDto.search },
+        })),
+      }),
+    });
+    const take = page * limit;
+
+    const loaded = await Promise.all(
+      types.map(async (type) => {
+        const [records, count] = await Promise.all([
+          this.findDeleted(type, where, take),
+          this.countDeleted(type, where),
+        ]);
+        return {
+          count,
+          items: records.map((record) =>
+            this.toItem(type, record, retentionDays),
+          ),
+        };
+      }),
+    );
+
+    const total = loaded.reduce((sum, { count }) => sum + count, 0);
+    const data = loaded
+      .flatMap(({ items }) => items)
+      .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+      .slice((page - 1) * limit, take);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data,
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  async restore(type: RecycleBinEntity, id: string) {
+    await this.findDeletedRecord(type, id);
+    const data = { deletedAt: null, deletedById: null };
+    const where = { id, deletedAt: { not: null } };
+
+    const restored =
+      type === RecycleBinEntity.LEAD
+        ? await this.prisma.lead.update({ where, data, select: { id: true } })
+        : await this.prisma.client.update({
+            where,
+            data,
+            select: { id: true },
+          });
+
+    this.logger.log(`${type} ${id} restored from the recycle bin`);
+    return { type, id: restored.id, restored: true };
+  }
+
+  /**
+   * Permanently delete a record now instead of waiting for the purge.
+   * A lead takes its communications, chats and emails with it.
+   */
+  async purge(type: RecycleBinEntity, id: string) {
+    await this.findDeletedRecord(type, id);
+
+    if (type === RecycleBinEntity.LEAD) {
+      await this.prisma.lead.delete({ where: { id } });
+    } else {
+      await this.prisma.client.delete({ where: { id } });
+    }
+
+    this.logger.log(`${type} ${id} permanently deleted`);
+    return { type, id, deleted: true };
+  }
+
+  /**
+   * Permanently delete the current tenant's records whose retention period
+   * has run out
+   */
+  async purgeExpired() {
+    const tenantId = this.requireTenantId();
+    const { retentionDays } = await this.getSettings();
+    const where = {
+      tenantId,
+      deletedAt: { lt: new Date(Date.now() - retentionDays * DAY_MS) },
+    };
+
+    const [leads, clients] = await this.prisma.$transaction([
+      this.prisma.lead.deleteMany({ where }),
+      this.prisma.client.deleteMany({ where }),
+    ]);
+
+    if (leads.count > 0 || clients.count > 0) {
+      this.logger.log(
+        `Purged ${leads.count} leads and ${clients.count} clients for tenant ${tenantId}`,
+      );
+    }
+    return { leads: leads.count, clients: clients.count };
+  }
+
+  async getSettings() {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: this.requireTenantId() },
+      select: { recycleBinRetentionDays: true },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return { retentionDays: tenant.recycleBinRetentionDays };
+  }
+
+  async updateSettings(settingsDto: UpdateRecycleBinSettingsDto) {
+    const tenant = await this.prisma.tenant.update({
+      where: { id: this.requireTenantId() },
+      data: { recycleBinRetentionDays: settingsDto.retentionDays },
+      select: { recycleBinRetentionDays: true },
+    });
+
+    return { retentionDays: tenant.recycleBinRetentionDays };
+  }
+
+  private async findDeletedRecord(type: RecycleBinEntity, id: string) {
+    const where = this.prisma.addTenantFilter({
+      id,
+      deletedAt: { not: null },
+    });
+    const record =
+      type === RecycleBinEntity.LEAD
+        ? await this.prisma.lead.findFirst({ where, select: { id: true } })
+        : await this.prisma.client.findFirst({ where, select: { id: true } });
+
+    if (!record) {
+      throw new NotFoundException(
+        `${type === RecycleBinEntity.LEAD ? 'Lead' : 'Client'} not found in the recycle bin`,
+      );
+    }
+
+    return record;
+  }
+
+  private findDeleted(
+    type: RecycleBinEntity,
+    where: any,
+    take: number,
+  ): Promise<DeletedRecord[]> {
+    const args = {
+      where,
+      select: DELETED_SELECT,
+      orderBy: { deletedAt: 'desc' as const },
+      take,
+    };
+    return type === RecycleBinEntity.LEAD
+      ? this.prisma.lead.findMany(args)
+      : this.prisma.client.findMany(args);
+  }
+
+  private countDeleted(type: RecycleBinEntity, where: any): Promise<number> {
+    return type === RecycleBinEntity.LEAD
+      ? this.prisma.lead.count({ where })
+      : this.prisma.client.count({ where });
+  }
+
+  private toItem(
+    type: RecycleBinEntity,
+    record: DeletedRecord,
+    retentionDays: number,
+  ): RecycleBinItem {
+    return {
+      type,
+      ...record,
+      purgeAt: new Date(record.deletedAt.getTime() + retentionDays * DAY_MS),
+    };
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReferrerType } from '../enums/referral.enums';
+
+export const REFERRAL_CODE_PATTERN = /^[A-Za-z0-9_-]{3,32}$/;
+
+export class CreateReferrerDto {
+  @ApiProperty({ enum: ReferrerType, example: ReferrerType.CLIENT })
+  @IsEnum(ReferrerType)
+  type: ReferrerType;
+
+  @ApiPropertyOptional({
+    example: 'lead-uuid-here',
+    description: 'Referring lead, required for LEAD',
+  })
+  @ValidateIf((dto) => dto.type === ReferrerType.LEAD)
+  @IsUUID()
+  leadId?: string;
+
+  @ApiPropertyOptional({
+    example: 'client-uuid-here',
+    description: 'Referring client, required for CLIENT',
+  })
+  @ValidateIf((dto) => dto.type === ReferrerType.CLIENT)
+  @IsUUID()
+  clientId?: string;
+
+  @ApiPropertyOptional({
+    example: 'Mary Jones',
+    description: 'Partner name, required for PARTNER',
+  })
+  @ValidateIf((dto) => dto.type === ReferrerType.PARTNER)
+  @IsString()
+  @MaxLength(191)
+  name?: string;
+
+  @ApiPropertyOptional({ example: 'mary@jonesaccounting.com' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: '+15551234567' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  phone?: string;
+
+  @ApiPropertyOptional({ example: 'Jones Accounting' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  company?: string;
+
+  @ApiPropertyOptional({
+    example: 'MARY-J',
+    description:
+      'Referral code used in ?ref= links (3-32 letters, digits, - or _). Generated when omitted',
+  })
+  @IsOptional()
+  @Matches(REFERRAL_CODE_PATTERN, {
+    message: 'code must be 3-32 letters, digits, - or _',
+  })
+  code?: string;
+
+  @ApiPropertyOptional({
+    example: 50,
+    description:
+      "Reward per referred lead that becomes a client. The tenant's default applies when omitted",
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  rewardAmount?: number;
+
+  @ApiPropertyOptional({ example: 'Refers small business owners' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
@@ -0,0 +1,20 @@
+import { IsDateString, IsOptional } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class ReferralDashboardQueryDto {
+  @ApiPropertyOptional({
+    example: '2026-01-01',
+    description: 'Only leads referred on or after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-12-31',
+    description: 'Only leads referred on or before this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
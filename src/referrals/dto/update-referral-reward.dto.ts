@@ -0,0 +1,22 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ReferralRewardStatus } from '../enums/referral.enums';
+
+// PENDING is only set when the reward is created
+const SETTABLE_STATUSES = [
+  ReferralRewardStatus.APPROVED,
+  ReferralRewardStatus.PAID,
+  ReferralRewardStatus.CANCELLED,
+];
+
+export class UpdateReferralRewardDto {
+  @ApiProperty({ enum: SETTABLE_STATUSES, example: ReferralRewardStatus.PAID })
+  @IsIn(SETTABLE_STATUSES)
+  status: ReferralRewardStatus;
+
+  @ApiPropertyOptional({ example: 'Paid by bank transfer, ref 10442' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
@@ -0,0 +1,27 @@
+import { IsNumber, IsUrl, Min, ValidateIf } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class UpdateReferralSettingsDto {
+  @ApiPropertyOptional({
+    example: 'https://example.com/get-a-quote',
+    nullable: true,
+    description:
+      'Page with an embedded lead form that referral links point to. null removes it',
+  })
+  @ValidateIf((dto) => dto.landingUrl !== undefined && dto.landingUrl !== null)
+  @IsUrl({ protocols: ['http', 'https'], require_protocol: true })
+  landingUrl?: string | null;
+
+  @ApiPropertyOptional({
+    example: 50,
+    nullable: true,
+    description:
+      'Default reward per referred lead that becomes a client. null turns default rewards off',
+  })
+  @ValidateIf(
+    (dto) => dto.rewardAmount !== undefined && dto.rewardAmount !== null,
+  )
+  @IsNumber()
+  @Min(0)
+  rewardAmount?: number | null;
+}
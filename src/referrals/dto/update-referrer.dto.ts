@@ -0,0 +1,16 @@
+import { OmitType, PartialType, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { CreateReferrerDto } from './create-referrer.dto';
+
+export class UpdateReferrerDto extends PartialType(
+  OmitType(CreateReferrerDto, ['type', 'leadId', 'clientId'] as const),
+) {
+  @ApiPropertyOptional({
+    example: false,
+    description:
+      'Inactive referrers keep their history but their code stops working',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,16 @@
+/**
+ * Referral Enums - Kinds of referrer and the life cycle of a referral reward
+ */
+
+export enum ReferrerType {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+  PARTNER = 'PARTNER', // External introducer, e.g. an accountant or broker
+}
+
+export enum ReferralRewardStatus {
+  PENDING = 'PENDING', // Created when the referred lead became a client
+  APPROVED = 'APPROVED',
+  PAID = 'PAID',
+  CANCELLED = 'CANCELLED',
+}
@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { ReferralsService } from './referrals.service';
+import { CreateReferrerDto } from './dto/create-referrer.dto';
+import { UpdateReferrerDto } from './dto/update-referrer.dto';
+import { ReferrerQueryDto } from './dto/referrer-query.dto';
+import { ReferralRewardQueryDto } from './dto/referral-reward-query.dto';
+import { UpdateReferralRewardDto } from './dto/update-referral-reward.dto';
+import { ReferralDashboardQueryDto } from './dto/referral-dashboard-query.dto';
+import { UpdateReferralSettingsDto } from './dto/update-referral-settings.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Referrals')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('referrals')
+export class ReferralsController {
+  constructor(private readonly referralsService: ReferralsService) {}
+
+  @Get('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get the referral landing page and default reward' })
+  @ApiResponse({ status: 200, description: 'Settings retrieved' })
+  getSettings() {
+    return this.referralsService.getSettings();
+  }
+
+  @Put('settings')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Update the referral landing page and default reward',
+  })
+  @ApiResponse({ status: 200, description: 'Settings updated' })
+  updateSettings(@Body() settingsDto: UpdateReferralSettingsDto) {
+    return this.referralsService.updateSettings(settingsDto);
+  }
+
+  @Get('dashboard')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Get referral totals, rewards and the top referrers',
+  })
+  @ApiResponse({ status: 200, description: 'Dashboard retrieved' })
+  getDashboard(@Query() queryDto: ReferralDashboardQueryDto) {
+    return this.referralsService.getDashboard(queryDto);
+  }
+
+  @Get('referrers')
+  @ApiOperation({ summary: 'Get referrers with their referral statistics' })
+  @ApiResponse({ status: 200, description: 'Referrers retrieved' })
+  findReferrers(@Query() queryDto: ReferrerQueryDto) {
+    return this.referralsService.findReferrers(queryDto);
+  }
+
+  @Post('referrers')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Make a lead, client or external partner a referrer',
+  })
+  @ApiResponse({ status: 201, description: 'Referrer created' })
+  @ApiResponse({ status: 404, description: 'Lead or client not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Already a referrer, or referral code in use',
+  })
+  createReferrer(
+    @Body() referrerDto: CreateReferrerDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.referralsService.createReferrer(referrerDto, user.id);
+  }
+
+  @Get('referrers/:id')
+  @ApiOperation({
+    summary: 'Get a referrer with its referred leads, clients and rewards',
+  })
+  @ApiResponse({ status: 200, description: 'Referrer retrieved' })
+  @ApiResponse({ status: 404, description: 'Referrer not found' })
+  findReferrer(@Param('id') id: string) {
+    return this.referralsService.findReferrer(id);
+  }
+
+  @Patch('referrers/:id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a referrer' })
+  @ApiResponse({ status: 200, description: 'Referrer updated' })
+  @ApiResponse({ status: 404, description: 'Referrer not found' })
+  @ApiResponse({ status: 409, description: 'Referral code in use' })
+  updateReferrer(
+    @Param('id') id: string,
+    @Body() referrerDto: UpdateReferrerDto,
+  ) {
+    return this.referralsService.updateReferrer(id, referrerDto);
+  }
+
+  @Delete('referrers/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Delete a referrer who has not referred anyone' })
+  @ApiResponse({ status: 200, description: 'Referrer deleted' })
+  @ApiResponse({ status: 404, description: 'Referrer not found' })
+  @ApiResponse({ status: 409, description: 'Referrer has referrals' })
+  removeReferrer(@Param('id') id: string) {
+    return this.referralsService.removeReferrer(id);
+  }
+
+  @Get('rewards')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Get referral rewards' })
+  @ApiResponse({ status: 200, description: 'Rewards retrieved' })
+  findRewards(@Query() queryDto: ReferralRewardQueryDto) {
+    return this.referralsService.findRewards(queryDto);
+  }
+
+  @Patch('rewards/:id')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Approve, pay or cancel a referral reward' })
+  @ApiResponse({ status: 200, description: 'Reward updated' })
+  @ApiResponse({ status: 400, description: 'Status change not allowed' })
+  @ApiResponse({ status: 404, description: 'Reward not found' })
+  updateReward(
+    @Param('id') id: string,
+    @Body() rewardDto: UpdateReferralRewardDto,
+  ) {
+    return this.referralsService.updateReward(id, rewardDto);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ReferralsService } from './referrals.service';
+import { ReferralsController } from './referrals.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [ReferralsController],
+  providers: [ReferralsService, PrismaService],
+  exports: [ReferralsService],
+})
+export class ReferralsModule {}
@@ -0,0 +1,779 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { PaginationResult } from '../common/dto/pagination.dto';
+import { CreateReferrerDto } from './dto/create-referrer.dto';
+import { UpdateReferrerDto } from './dto/update-referrer.dto';
+import { ReferrerQueryDto } from './dto/referrer-query.dto';
+import { ReferralRewardQueryDto } from './dto/referral-reward-query.dto';
+import { UpdateReferralRewardDto } from './dto/update-referral-reward.dto';
+import { ReferralDashboardQueryDto } from './dto/referral-dashboard-query.dto';
+import { UpdateReferralSettingsDto } from './dto/update-referral-settings.dto';
+import { ReferralRewardStatus, ReferrerType } from './enums/referral.enums';
+
+// Generated codes avoid characters that are easily misread (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const GENERATED_CODE_LENGTH = 8;
+const GENERATED_CODE_ATTEMPTS = 5;
+
+const TOP_REFERRERS = 10;
+const RECENT_REFERRALS = 50;
+
+// Reward statuses each status may move to; PAID and CANCELLED are final
+const REWARD_TRANSITIONS: Record<string, ReferralRewardStatus[]> = {
+  [ReferralRewardStatus.PENDING]: [
+    ReferralRewardStatus.APPROVED,
+    ReferralRewardStatus.PAID,
+    ReferralRewardStatus.CANCELLED,
+  ],
+  [ReferralRewardStatus.APPROVED]: [
+    ReferralRewardStatus.PAID,
+    ReferralRewardStatus.CANCELLED,
+  ],
+};
+
+const PERSON_SELECT = {
+  select: {
+    id: true,
+    firstName: true,
+    lastName: true,
+    email: true,
+    phone: true,
+  },
+} as const;
+
+const REFERRER_INCLUDE = {
+  lead: PERSON_SELECT,
+  client: PERSON_SELECT,
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.ReferrerInclude;
+
+/**
+ * Referrer shown on the leads and clients it referred
+ */
+export const REFERRER_SUMMARY_SELECT = {
+  select: {
+    id: true,
+    type: true,
+    code: true,
+    name: true,
+    company: true,
+    lead: { select: { id: true, firstName: true, lastName: true } },
+    client: { select: { id: true, firstName: true, lastName: true } },
+  },
+} satisfies Prisma.ReferrerDefaultArgs;
+
+type ReferrerWithPeople = Prisma.ReferrerGetPayload<{
+  include: typeof REFERRER_INCLUDE;
+}>;
+
+export interface ReferrerStats {
+  referredLeads: number;
+  convertedLeads: number;
+  conversionRate: number;
+  rewards: Record<string, { count: number; amount: number }>;
+}
+
+/**
+ * ReferralsService - Who referred whom, and what they earned for it
+ *
+ * Key Features:
+ * - Referrers are one of the tenant's leads or clients, or an external
+ *   partner, each with a referral code
+ * - Leads and clients carry their referrer; web form leads arriving with
+ *   ?ref=<code> are attributed automatically
+ * - Referrer dashboard with referred leads, conversions and rewards
+ * - Optional rewards, created when a referred lead becomes a client and
+ *   tracked until paid
+ */
+@Injectable()
+export class ReferralsService {
+  private readonly logger = new Logger(ReferralsService.name);
+
+  constructor(private prisma: PrismaService) {}
+
+  async findReferrers(
+    queryDto: ReferrerQueryDto,
+  ): Promise<PaginationResult<any>> {
+    const { page, limit, search } = queryDto;
+    const where = this.prisma.addTenantFilter({
+      ...(queryDto.type && { type: queryDto.type }),
+      ...(queryDto.isActive !== undefined && { isActive: queryDto.isActive }),
+      ...(search && {
+        OR: [
+          { code: { contains: search } },
+          { name: { contains: search } },
+          { email: { contains: search } },
+          { company: { contains: search } },
+          ...['lead', 'client'].flatMap((relation) =>
+            ['firstName', 'lastName', 'email'].map((field) => ({
+              [relation]: { [field]: { contains: search } },
+            })),
+          ),
+        ],
+      }),
+    });
+
+    const [referrers, total] = await Promise.all([
+      this.prisma.referrer.findMany({
+        where,
+        include: REFERRER_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.referrer.count({ where }),
+    ]);
+
+    const stats = await this.getStats(referrers.map(({ id }) => id));
+    const landingUrl = await this.getLandingUrl();
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data: referrers.map((referrer) => ({
+        ...this.toResponse(referrer, landingUrl),
+        stats: stats.get(referrer.id),
+      })),
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * A referrer with its statistics, recent referrals and rewards
+   */
+  async findReferrer(id: string) {
+    const referrer = await this.findReferrerRecord(id);
+
+    const [stats, referredLeads, referredClients, rewards, landingUrl] =
+      await Promise.all([
+        this.getStats([id]),
+        this.prisma.lead.findMany({
+          where: { tenantId: referrer.tenantId, referrerId: id },
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            status: true,
+            source: true,
+            createdAt: true,
+            client: { select: { id: true, createdAt: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: RECENT_REFERRALS,
+        }),
+        this.prisma.client.findMany({
+          where: { tenantId: referrer.tenantId, referrerId: id },
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            leadId: true,
+            createdAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+          take: RECENT_REFERRALS,
+        }),
+        this.prisma.referralReward.findMany({
+          where: { tenantId: referrer.tenantId, referrerId: id },
+          orderBy: { createdAt: 'desc' },
+          take: RECENT_REFERRALS,
+        }),
+        this.getLandingUrl(),
+      ]);
+
+    return {
+      ...this.toResponse(referrer, landingUrl),
+      stats: stats.get(id),
+      referredLeads,
+      referredClients,
+      rewards,
+    };
+  }
+
+  async createReferrer(referrerDto: CreateReferrerDto, userId: string) {
+    const tenantId = this.requireTenantId();
+    const { type, leadId, clientId, code, ...details } = referrerDto;
+
+    if (type === ReferrerType.LEAD) {
+      await this.assertPersonAvailable('lead', leadId);
+    } else if (type === ReferrerType.CLIENT) {
+      await this.assertPersonAvailable('client', clientId);
+    }
+
+    const data = {
+      type,
+      leadId: type === ReferrerType.LEAD ? leadId : null,
+      clientId: type === ReferrerType.CLIENT ? clientId : null,
+      // Leads and clients are shown with their own contact details
+      ...(type === ReferrerType.PARTNER
+        ? details
+        : { rewardAmount: details.rewardAmount, notes: details.notes }),
+      createdById: userId,
+      tenantId,
+    };
+
+    const referrer = await this.createWithCode(data, code);
+    this.logger.log(`Referrer ${referrer.id} (${referrer.code}) created`);
+
+    return this.toResponse(referrer, await this.getLandingUrl());
+  }
+
+  async updateReferrer(id: string, referrerDto: UpdateReferrerDto) {
+    const referrer = await this.findReferrerRecord(id);
+    const { code, ...details } = referrerDto;
+
+    const data =
+      referrer.type === ReferrerType.PARTNER
+        ? details
+        : {
+            rewardAmount: details.rewardAmount,
+            notes: details.notes,
+            isActive: details.isActive,
+          };
+
+    try {
+      const updated = await this.prisma.referrer.update({
+        where: { id },
+        data: { ...data, ...(code && { code: code.toUpperCase() }) },
+        include: REFERRER_INCLUDE,
+      });
+      return this.toResponse(updated, await this.getLandingUrl());
+    } catch (error) {
+      if (this.isUniqueViolation(error)) {
+        throw new ConflictException(
+          `Referral code "${code}" is already in use`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Referrers who already referred someone are deactivated instead, so
+   * their referrals and rewards stay attributed
+   */
+  async removeReferrer(id: string) {
+    const referrer = await this.findReferrerRecord(id);
+
+    const [leads, clients] = await Promise.all([
+      this.prisma.lead.count({
+        where: { referrerId: id, deletedAt: undefined },
+      }),
+      this.prisma.client.count({
+        where: { referrerId: id, deletedAt: undefined },
+      }),
+    ]);
+    if (leads > 0 || clients > 0) {
+      throw new ConflictException(
+        'This referrer has referred leads or clients. Deactivate it instead',
+      );
+    }
+
+    await this.prisma.referrer.delete({ where: { id: referrer.id } });
+    return { id, deleted: true };
+  }
+
+  /**
+   * Referral totals, rewards and the referrers who brought in the most
+   * leads
+   */
+  async getDashboard(queryDto: ReferralDashboardQueryDto) {
+    const createdAt = {
+      ...(queryDto.startDate && { gte: new Date(queryDto.startDate) }),
+      ...(queryDto.endDate && { lte: new Date(queryDto.endDate) }),
+    };
+    const dateFilter = Object.keys(createdAt).length ? { createdAt } : {};
+    const referredWhere = this.prisma.addTenantFilter({
+      referrerId: { not: null },
+      ...dateFilter,
+    });
+
+    const [
+      referredLeads,
+      convertedLeads,
+      activeReferrers,
+      rewardGroups,
+      topGroups,
+    ] = await Promise.all([
+      this.prisma.lead.count({ where: referredWhere }),
+      this.prisma.lead.count({
+        where: { ...referredWhere, client: { isNot: null } },
+      }),
+      this.prisma.referrer.count({
+        where: this.prisma.addTenantFilter({ isActive: true }),
+      }),
+      this.prisma.referralReward.groupBy({
+        by: ['status'],
+        where: this.prisma.addTenantFilter(dateFilter),
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+      this.prisma.lead.groupBy({
+        by: ['referrerId'],
+        where: referredWhere,
+        _count: { _all: true },
+        orderBy: { _count: { referrerId: 'desc' } },
+        take: TOP_REFERRERS,
+      }),
+    ]);
+
+    const topIds = topGroups
+      .map(({ referrerId }) => referrerId)
+      .filter((id): id is string => !!id);
+    const [topReferrers, stats] = await Promise.all([
+      this.prisma.referrer.findMany({
+        where: { id: { in: topIds } },
+        include: REFERRER_INCLUDE,
+      }),
+      this.getStats(topIds, dateFilter),
+    ]);
+
+    return {
+      referredLeads,
+      convertedLeads,
+      conversionRate: this.rate(convertedLeads, referredLeads),
+      activeReferrers,
+      rewards: this.toRewardTotals(rewardGroups),
+      topReferrers: topIds
+        .map((id) => topReferrers.find((referrer) => referrer.id === id))
+        .filter((referrer): referrer is ReferrerWithPeople => !!referrer)
+        .map((referrer) => ({
+          id: referrer.id,
+          type: referrer.type,
+          code: referrer.code,
+          displayName: this.displayName(referrer),
+          stats: stats.get(referrer.id),
+        })),
+    };
+  }
+
+  async findRewards(
+    queryDto: ReferralRewardQueryDto,
+  ): Promise<PaginationResult<any>> {
+    const { page, limit } = queryDto;
+    const where = this.prisma.addTenantFilter({
+      ...(queryDto.status && { status: queryDto.status }),
+      ...(queryDto.referrerId && { referrerId: queryDto.referrerId }),
+    });
+
+    const [rewards, total] = await Promise.all([
+      this.prisma.referralReward.findMany({
+        where,
+        include: {
+          referrer: { include: REFERRER_INCLUDE },
+          lead: { select: { id: true, firstName: true, lastName: true } },
+          client: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.referralReward.count({ where }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+    return {
+      data: rewards.map(({ referrer, ...reward }) => ({
+        ...reward,
+        referrer: {
+          id: referrer.id,
+          type: referrer.type,
+          code: referrer.code,
+          displayName: this.displayName(referrer),
+        },
+      })),
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  async updateReward(id: string, rewardDto: UpdateReferralRewardDto) {
+    const reward = await this.prisma.referralReward.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!reward) {
+      throw new NotFoundException('Referral reward not found');
+    }
+
+    if (!REWARD_TRANSITIONS[reward.status]?.includes(rewardDto.status)) {
+      throw new BadRequestException(
+        `A ${reward.status.toLowerCase()} reward cannot be marked ${rewardDto.status.toLowerCase()}`,
+      );
+    }
+
+    return this.prisma.referralReward.update({
+      where: { id },
+      data: {
+        status: rewardDto.status,
+        ...(rewardDto.note !== undefined && { note: rewardDto.note }),
+        ...(rewardDto.status === ReferralRewardStatus.PAID && {
+          paidAt: new Date(),
+        }),
+      },
+    });
+  }
+
+  async getSettings() {
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: this.requireTenantId() },
+      select: { referralLandingUrl: true, referralRewardAmount: true },
+    });
+
+    if (!tenant) {
+      throw new NotFoundException('Tenant not found');
+    }
+
+    return this.toSettings(tenant);
+  }
+
+  async updateSettings(settingsDto: UpdateReferralSettingsDto) {
+    const tenant = await this.prisma.tenant.update({
+      where: { id: this.requireTenantId() },
+      data: {
+        referralLandingUrl: settingsDto.landingUrl,
+        referralRewardAmount: settingsDto.rewardAmount,
+      },
+      select: { referralLandingUrl: true, referralRewardAmount: true },
+    });
+
+    return this.toSettings(tenant);
+  }
+
+  /**
+   * Referrer to store on a lead or client from a referrer ID or referral
+   * code. undefined leaves the current referrer, null clears it.
+   */
+  async resolveReferrerId(
+    input: { referrerId?: string | null; referralCode?: string },
+    self: { leadId?: string; clientId?: string } = {},
+  ): Promise<string | null | undefined> {
+    let referrer: {
+      id: string;
+      leadId: string | null;
+      clientId: string | null;
+    };
+
+    if (input.referralCode) {
+      const found = await this.findActiveByCode(
+        this.requireTenantId(),
+        input.referralCode,
+      );
+      if (!found) {
+        throw new BadRequestException(
+          `Referral code "${input.referralCode}" is unknown or inactive`,
+        );
+      }
+      referrer = found;
+    } else if (input.referrerId) {
+      const found = await this.prisma.referrer.findFirst({
+        where: this.prisma.addTenantFilter({ id: input.referrerId }),
+        select: { id: true, leadId: true, clientId: true },
+      });
+      if (!found) {
+        throw new NotFoundException('Referrer not found');
+      }
+      referrer = found;
+    } else {
+      return input.referrerId === null ? null : undefined;
+    }
+
+    if (
+      (self.leadId && referrer.leadId === self.leadId) ||
+      (self.clientId && referrer.clientId === self.clientId)
+    ) {
+      throw new BadRequestException('A lead or client cannot refer itself');
+    }
+
+    return referrer.id;
+  }
+
+  /**
+   * Active referrer with this code, or null. Codes are case-insensitive.
+   */
+  async findActiveByCode(tenantId: string, code?: string | null) {
+    if (!code?.trim()) return null;
+
+    return this.prisma.referrer.findFirst({
+      where: { tenantId, code: code.trim().toUpperCase(), isActive: true },
+      select: { id: true, code: true, leadId: true, clientId: true },
+    });
+  }
+
+  /**
+   * Create the reward for a referred lead that just became a client. Runs
+   * in the conversion transaction.
+   */
+  async recordConversion(
+    tx: Prisma.TransactionClient,
+    lead: { id: string; tenantId: string; referrerId: string | null },
+    clientId: string,
+  ) {
+    if (!lead.referrerId) return null;
+
+    const referrer = await tx.referrer.findUnique({
+      where: { id: lead.referrerId },
+      select: {
+        id: true,
+        rewardAmount: true,
+        tenant: { select: { referralRewardAmount: true } },
+      },
+    });
+    const amount =
+      referrer?.rewardAmount ?? referrer?.tenant.referralRewardAmount;
+    if (!referrer || !amount || amount.lte(0)) return null;
+
+    const existing = await tx.referralReward.findUnique({
+      where: { leadId: lead.id },
+      select: { id: true },
+    });
+    if (existing) return null;
+
+    const reward = await tx.referralReward.create({
+      data: {
+        amount,
+        status: ReferralRewardStatus.PENDING,
+        referrerId: referrer.id,
+        leadId: lead.id,
+        clientId,
+        tenantId: lead.tenantId,
+      },
+    });
+
+    this.logger.log(
+      `Referral reward ${reward.id} of ${amount.toString()} created for referrer ${referrer.id}`,
+    );
+    return reward;
+  }
+
+  /**
+   * Referred leads, conversions and rewards per referrer
+   */
+  private async getStats(
+    referrerIds: string[],
+    dateFilter: { createdAt?: Prisma.DateTimeFilter } = {},
+  ): Promise<Map<string, ReferrerStats>> {
+    const stats = new Map<string, ReferrerStats>(
+      referrerIds.map((id) => [
+        id,
+        { referredLeads: 0, convertedLeads: 0, conversionRate: 0, rewards: {} },
+      ]),
+    );
+    if (referrerIds.length === 0) return stats;
+
+    const leadWhere = { referrerId: { in: referrerIds }, ...dateFilter };
+    const [referred, converted, rewards] = await Promise.all([
+      this.prisma.lead.groupBy({
+        by: ['referrerId'],
+        where: leadWhere,
+        _count: { _all: true },
+      }),
+      this.prisma.lead.groupBy({
+        by: ['referrerId'],
+        where: { ...leadWhere, client: { isNot: null } },
+        _count: { _all: true },
+      }),
+      this.prisma.referralReward.groupBy({
+        by: ['referrerId', 'status'],
+        where: { referrerId: { in: referrerIds }, ...dateFilter },
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    for (const group of referred) {
+      const entry = stats.get(group.referrerId);
+      if (entry) entry.referredLeads = group._count._all;
+    }
+    for (const group of converted) {
+      const entry = stats.get(group.referrerId);
+      if (entry) entry.convertedLeads = group._count._all;
+    }
+    for (const [id, entry] of stats) {
+      entry.conversionRate = this.rate(
+        entry.convertedLeads,
+        entry.referredLeads,
+      );
+      entry.rewards = this.toRewardTotals(
+        rewards.filter((group) => group.referrerId === id),
+      );
+    }
+
+    return stats;
+  }
+
+  private toRewardTotals(
+    groups: {
+      status: string;
+      _count: { _all: number };
+      _sum: { amount: Prisma.Decimal | null };
+    }[],
+  ) {
+    return Object.fromEntries(
+      Object.values(ReferralRewardStatus).map((status) => {
+        const group = groups.find((g) => g.status === status);
+        return [
+          status,
+          {
+            count: group?._count._all ?? 0,
+            amount: group?._sum.amount?.toNumber() ?? 0,
+          },
+        ];
+      }),
+    );
+  }
+
+  private rate(part: number, whole: number) {
+    return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+  }
+
+  private async createWithCode(
+    data: Omit<Prisma.ReferrerUncheckedCreateInput, 'code'>,
+    code?: string,
+  ): Promise<ReferrerWithPeople> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.prisma.referrer.create({
+          data: { ...data, code: (code ?? this.generateCode()).toUpperCase() },
+          include: REFERRER_INCLUDE,
+        });
+      } catch (error) {
+        if (!this.isUniqueViolation(error)) throw error;
+        if (code) {
+          throw new ConflictException(
+            `Referral code "${code}" is already in use`,
+          );
+        }
+        if (attempt >= GENERATED_CODE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  private generateCode() {
+    return Array.from(
+      crypto.randomBytes(GENERATED_CODE_LENGTH),
+      (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length],
+    ).join('');
+  }
+
+  private async assertPersonAvailable(
+    model: 'lead' | 'client',
+    id: string | undefined,
+  ) {
+    const where = this.prisma.addTenantFilter({ id });
+    const [person, existing] = await Promise.all([
+      model === 'lead'
+        ? this.prisma.lead.findFirst({ where, select: { id: true } })
+        : this.prisma.client.findFirst({ where, select: { id: true } }),
+      this.prisma.referrer.findFirst({
+        where: model === 'lead' ? { leadId: id } : { clientId: id },
+        select: { id: true },
+      }),
+    ]);
+
+    if (!person) {
+      throw new NotFoundException(
+        `${model === 'lead' ? 'Lead' : 'Client'} not found`,
+      );
+    }
+    if (existing) {
+      throw new ConflictException(
+        `This ${model} is already a referrer (${existing.id})`,
+      );
+    }
+  }
+
+  private async findReferrerRecord(id: string) {
+    const referrer = await this.prisma.referrer.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: REFERRER_INCLUDE,
+    });
+
+    if (!referrer) {
+      throw new NotFoundException('Referrer not found');
+    }
+
+    return referrer;
+  }
+
+  private toResponse(referrer: ReferrerWithPeople, landingUrl: string | null) {
+    return {
+      ...referrer,
+      displayName: this.displayName(referrer),
+      referralLink: landingUrl
+        ? this.buildLink(landingUrl, referrer.code)
+        : null,
+    };
+  }
+
+  private displayName(referrer: ReferrerWithPeople) {
+    const person = referrer.lead ?? referrer.client;
+    if (person) return `${person.firstName} ${person.lastName}`;
+    return referrer.company && referrer.name
+      ? `${referrer.name} (${referrer.company})`
+      : (referrer.name ?? referrer.company ?? referrer.code);
+  }
+
+  private buildLink(landingUrl: string, code: string) {
+    try {
+      const url = new URL(landingUrl);
+      url.searchParams.set('ref', code);
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private async getLandingUrl() {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) return null;
+
+    const tenant = await this.prisma.tenant.findUnique({
+      where: { id: tenantId },
+      select: { referralLandingUrl: true },
+    });
+    return tenant?.referralLandingUrl ?? null;
+  }
+
+  private toSettings(tenant: {
+    referralLandingUrl: string | null;
+    referralRewardAmount: Prisma.Decimal | null;
+  }) {
+    return {
+      landingUrl: tenant.referralLandingUrl,
+      rewardAmount: tenant.referralRewardAmount?.toNumber() ?? null,
+    };
+  }
+
+  private isUniqueViolation(error: unknown) {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002'
+    );
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,42 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import { CreateLeadDto } from '../../leads/dto/create-lead.dto';
+import { RelationshipType } from '../enums/relationship.enums';
+
+// Relationships that make sense for someone a client brings in
+export const DEPENDANT_TYPES = [
+  RelationshipType.SPOUSE,
+  RelationshipType.CHILD,
+  RelationshipType.PARENT,
+  RelationshipType.EMPLOYEE,
+  RelationshipType.BUSINESS_PARTNER,
+];
+
+export class CreateDependantDto extends PickType(CreateLeadDto, [
+  'insuranceType',
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'inquiryDetails',
+  'budget',
+  'expectedCloseDate',
+  'assignedUserId',
+] as const) {
+  @ApiProperty({
+    enum: DEPENDANT_TYPES,
+    example: RelationshipType.CHILD,
+    description: 'What the new lead is to the client',
+  })
+  @IsIn(DEPENDANT_TYPES)
+  relationshipType: RelationshipType;
+
+  @ApiPropertyOptional({
+    example: 'Turns 18 in March; needs own policy',
+    description: 'Notes on the relationship',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  notes?: string;
+}
@@ -0,0 +1,46 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RelationshipType } from '../enums/relationship.enums';
+import { RelationshipQueryDto } from './relationship-query.dto';
+
+export class CreateRelationshipDto extends RelationshipQueryDto {
+  @ApiPropertyOptional({
+    example: 'lead-uuid-here',
+    description: 'Related lead; give this or relatedClientId',
+  })
+  @IsOptional()
+  @IsUUID()
+  relatedLeadId?: string;
+
+  @ApiPropertyOptional({
+    example: 'client-uuid-here',
+    description: 'Related client; give this or relatedLeadId',
+  })
+  @IsOptional()
+  @IsUUID()
+  relatedClientId?: string;
+
+  @ApiProperty({
+    enum: RelationshipType,
+    example: RelationshipType.SPOUSE,
+    description:
+      'What the related person is to the lead or client, e.g. CHILD when they are its child',
+  })
+  @IsEnum(RelationshipType)
+  type: RelationshipType;
+
+  @ApiPropertyOptional({
+    example: 'Covered under the family health plan',
+    description: 'Notes on the relationship',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(191)
+  notes?: string;
+}
@@ -0,0 +1,20 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RelationshipQueryDto {
+  @ApiPropertyOptional({
+    example: 'lead-uuid-here',
+    description: 'Lead whose relationships to list; give this or clientId',
+  })
+  @IsOptional()
+  @IsUUID()
+  leadId?: string;
+
+  @ApiPropertyOptional({
+    example: 'client-uuid-here',
+    description: 'Client whose relationships to list; give this or leadId',
+  })
+  @IsOptional()
+  @IsUUID()
+  clientId?: string;
+}
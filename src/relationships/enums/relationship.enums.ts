@@ -0,0 +1,31 @@
+/**
+ * Relationship Enums - How two people on the book are related
+ *
+ * A relationship from A to B of type T reads "B is A's T", so a CHILD
+ * relationship from a client to a lead makes the lead the client's child.
+ */
+
+export enum RelationshipType {
+  SPOUSE = 'SPOUSE',
+  CHILD = 'CHILD',
+  PARENT = 'PARENT',
+  EMPLOYER = 'EMPLOYER',
+  EMPLOYEE = 'EMPLOYEE',
+  BUSINESS_PARTNER = 'BUSINESS_PARTNER',
+}
+
+// The same relationship read from the other person's side
+export const INVERSE_RELATIONSHIP: Record<RelationshipType, RelationshipType> =
+  {
+    [RelationshipType.SPOUSE]: RelationshipType.SPOUSE,
+    [RelationshipType.CHILD]: RelationshipType.PARENT,
+    [RelationshipType.PARENT]: RelationshipType.CHILD,
+    [RelationshipType.EMPLOYER]: RelationshipType.EMPLOYEE,
+    [RelationshipType.EMPLOYEE]: RelationshipType.EMPLOYER,
+    [RelationshipType.BUSINESS_PARTNER]: RelationshipType.BUSINESS_PARTNER,
+  };
+
+export enum PersonKind {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+}
@@ -0,0 +1,70 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Delete,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { RelationshipsService } from './relationships.service';
+import { CreateRelationshipDto } from './dto/create-relationship.dto';
+import { RelationshipQueryDto } from './dto/relationship-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@ApiTags('Relationships')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('relationships')
+export class RelationshipsController {
+  constructor(private readonly relationshipsService: RelationshipsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the relationships of a lead or client' })
+  @ApiResponse({ status: 200, description: 'Relationships retrieved' })
+  @ApiResponse({ status: 404, description: 'Lead or client not found' })
+  findAll(@Query() queryDto: RelationshipQueryDto, @CurrentUser() user: any) {
+    return this.relationshipsService.findAll(queryDto, user);
+  }
+
+  @Get('household')
+  @ApiOperation({
+    summary: 'Household of a lead or client',
+    description:
+      'Everyone linked to the person, with their policies and open opportunities',
+  })
+  @ApiResponse({ status: 200, description: 'Household retrieved' })
+  @ApiResponse({ status: 404, description: 'Lead or client not found' })
+  getHousehold(
+    @Query() queryDto: RelationshipQueryDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.relationshipsService.getHousehold(queryDto, user);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Link two leads or clients' })
+  @ApiResponse({ status: 201, description: 'Relationship created' })
+  @ApiResponse({ status: 400, description: 'Person linked to themselves' })
+  @ApiResponse({ status: 409, description: 'The two are already related' })
+  create(@Body() createDto: CreateRelationshipDto, @CurrentUser() user: any) {
+    return this.relationshipsService.create(createDto, user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Remove a relationship' })
+  @ApiResponse({ status: 200, description: 'Relationship deleted' })
+  @ApiResponse({ status: 404, description: 'Relationship not found' })
+  remove(@Param('id') id: string) {
+    return this.relationshipsService.remove(id);
+  }
+}
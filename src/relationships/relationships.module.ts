@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { RelationshipsService } from './relationships.service';
+import { RelationshipsController } from './relationships.controller';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsModule } from '../leads/leads.module';
+
+@Module({
+  imports: [LeadsModule],
+  controllers: [RelationshipsController],
+  providers: [RelationshipsService, PrismaService],
+  exports: [RelationshipsService],
+})
+export class RelationshipsModule {}
@@ -0,0 +1,233 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RelationshipsService } from './relationships.service';
+import { PrismaService } from '../common/services/prisma.service';
+import { LeadsService } from '../leads/leads.service';
+import { PersonKind, RelationshipType } from './enums/relationship.enums';
+
+const admin = { id: 'admin-1', role: 'ADMIN' };
+const agent = { id: 'agent-1', role: 'AGENT' };
+
+const person = (id: string) => ({
+  id,
+  firstName: id,
+  lastName: 'Doe',
+  email: `${id.toLowerCase()}@example.com`,
+  phone: null,
+  deletedAt: null,
+});
+
+// L1 was converted into C1; L2 is C1's child and L3 is C1's spouse
+const LEADS = [
+  {
+    ...person('L1'),
+    status: 'CLOSED_WON',
+    budget: 500,
+    assignedUserId: 'agent-1',
+    client: { id: 'C1', deletedAt: null },
+  },
+  {
+    ...person('L2'),
+    status: 'NEW',
+    budget: 80,
+    assignedUserId: 'agent-1',
+    client: null,
+  },
+  {
+    ...person('L3'),
+    status: 'QUALIFIED',
+    budget: 40,
+    assignedUserId: 'agent-2',
+    client: null,
+  },
+];
+const CLIENTS = [
+  {
+    ...person('C1'),
+    leadId: 'L1',
+    premium: 1000,
+    commission: 100,
+    isActive: true,
+  },
+];
+const RELATIONSHIPS = [
+  {
+    id: 'R1',
+    type: RelationshipType.CHILD,
+    fromLeadId: null,
+    fromClientId: 'C1',
+    toLeadId: 'L2',
+    toClientId: null,
+    notes: null,
+    createdAt: new Date('2026-10-01'),
+  },
+  {
+    id: 'R2',
+    type: RelationshipType.SPOUSE,
+    fromLeadId: 'L3',
+    fromClientId: null,
+    toLeadId: null,
+    toClientId: 'C1',
+    notes: null,
+    createdAt: new Date('2026-10-02'),
+  },
+];
+
+// Enough of a Prisma where clause for the queries under test
+const matches = (row: any, where: Record<string, any>): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return condition.some((item) => matches(row, item));
+    if (condition && typeof condition === 'object' && 'in' in condition) {
+      return condition.in.includes(row[key]);
+    }
+    return row[key] === condition;
+  });
+
+const findIn =
+  (rows: any[]) =>
+  ({ where }) =>
+    Promise.resolve(rows.filter((row) => matches(row, where)));
+
+const byId = (rows: any[], id: string | null) =>
+  rows.find((row) => row.id === id) ?? null;
+
+describe('RelationshipsService', () => {
+  let service: RelationshipsService;
+  const prisma = {
+    addTenantFilter: jest.fn(),
+    lead: { findFirst: jest.fn(), findMany: jest.fn() },
+    client: { findFirst: jest.fn(), findMany: jest.fn() },
+    relationship: { findMany: jest.fn() },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prisma.addTenantFilter.mockImplementation((where) => where);
+    prisma.lead.findMany.mockImplementation(findIn(LEADS));
+    prisma.lead.findFirst.mockImplementation(async (args) => {
+      const [lead] = await findIn(LEADS)(args);
+      return lead ?? null;
+    });
+    prisma.client.findMany.mockImplementation(findIn(CLIENTS));
+    prisma.client.findFirst.mockImplementation(async (args) => {
+      const [client] = await findIn(CLIENTS)(args);
+      return client ?? null;
+    });
+    prisma.relationship.findMany.mockImplementation(async (args) =>
+      (await findIn(RELATIONSHIPS)(args)).map((relationship) => ({
+        ...relationship,
+        fromLead: byId(LEADS, relationship.fromLeadId),
+        fromClient: byId(CLIENTS, relationship.fromClientId),
+        toLead: byId(LEADS, relationship.toLeadId),
+        toClient: byId(CLIENTS, relationship.toClientId),
+      })),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RelationshipsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LeadsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(RelationshipsService);
+  });
+
+  describe('getHousehold', () => {
+    it('reaches everyone through relationships and conversions', async () => {
+      const household = await service.getHousehold({ leadId: 'L2' }, admin);
+
+      expect(
+        household.members.map(({ kind, id, relationship }) => ({
+          kind,
+          id,
+          relationship,
+        })),
+      ).toEqual([
+        { kind: PersonKind.LEAD, id: 'L2', relationship: null },
+        {
+          kind: PersonKind.CLIENT,
+          id: 'C1',
+          relationship: {
+            type: RelationshipType.PARENT,
+            kind: PersonKind.LEAD,
+            id: 'L2',
+          },
+        },
+        {
+          kind: PersonKind.LEAD,
+          id: 'L1',
+          relationship: {
+            type: 'CONVERSION',
+            kind: PersonKind.CLIENT,
+            id: 'C1',
+          },
+        },
+        {
+          kind: PersonKind.LEAD,
+          id: 'L3',
+          relationship: {
+            type: RelationshipType.SPOUSE,
+            kind: PersonKind.CLIENT,
+            id: 'C1',
+          },
+        },
+      ]);
+      expect(household.totals).toEqual({
+        members: 4,
+        activePolicies: 1,
+        premium: 1000,
+        commission: 100,
+        openOpportunities: 2,
+        openBudget: 120,
+      });
+      expect(household.truncated).toBe(false);
+    });
+
+    it('only shows agents the leads assigned to them', async () => {
+      const household = await service.getHousehold({ leadId: 'L2' }, agent);
+
+      expect(household.members.map(({ id }) => id)).toEqual(['L2', 'C1', 'L1']);
+      expect(household.totals.openBudget).toBe(80);
+
+      await expect(
+        service.getHousehold({ leadId: 'L3' }, agent),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('findAll', () => {
+    it('reads relationships from the requested person side', async () => {
+      const relationships = await service.findAll({ clientId: 'C1' }, admin);
+
+      expect(
+        relationships.map(({ id, type, person }) => ({
+          id,
+          type,
+          person: person.id,
+        })),
+      ).toEqual([
+        { id: 'R1', type: RelationshipType.CHILD, person: 'L2' },
+        { id: 'R2', type: RelationshipType.SPOUSE, person: 'L3' },
+      ]);
+
+      const fromChild = await service.findAll({ leadId: 'L2' }, admin);
+      expect(fromChild).toEqual([
+        expect.objectContaining({
+          type: RelationshipType.PARENT,
+          person: expect.objectContaining({
+            kind: PersonKind.CLIENT,
+            id: 'C1',
+          }),
+        }),
+      ]);
+    });
+
+    it('hides leads the agent is not assigned to', async () => {
+      const relationships = await service.findAll({ clientId: 'C1' }, agent);
+
+      expect(relationships.map(({ person }) => person.id)).toEqual(['L2']);
+    });
+  });
+});
@@ -0,0 +1,553 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { LeadSource, LeadStatus, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { LeadsService } from '../leads/leads.service';
+import { CreateRelationshipDto } from './dto/create-relationship.dto';
+import { RelationshipQueryDto } from './dto/relationship-query.dto';
+import { CreateDependantDto } from './dto/create-dependant.dto';
+import {
+  INVERSE_RELATIONSHIP,
+  PersonKind,
+  RelationshipType,
+} from './enums/relationship.enums';
+
+// Household traversal stops once this many people are found
+const MAX_HOUSEHOLD_MEMBERS = 50;
+
+// Link between a lead and the client it was converted into
+const CONVERSION_LINK = 'CONVERSION';
+
+const CLOSED_STATUSES: LeadStatus[] = [
+  LeadStatus.CLOSED_WON,
+  LeadStatus.CLOSED_LOST,
+];
+
+const PERSON_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  deletedAt: true,
+};
+
+const LEAD_PERSON_SELECT = { ...PERSON_SELECT, assignedUserId: true };
+
+const HOUSEHOLD_LEAD_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  status: true,
+  insuranceType: true,
+  budget: true,
+  expectedCloseDate: true,
+  assignedUser: { select: { id: true, firstName: true, lastName: true } },
+  client: { select: { id: true, deletedAt: true } },
+} satisfies Prisma.LeadSelect;
+
+const HOUSEHOLD_CLIENT_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  phone: true,
+  leadId: true,
+  policyNumber: true,
+  premium: true,
+  commission: true,
+  startDate: true,
+  endDate: true,
+  renewalDate: true,
+  isActive: true,
+  product: { select: { id: true, name: true } },
+} satisfies Prisma.ClientSelect;
+
+export interface PersonRef {
+  kind: PersonKind;
+  id: string;
+}
+
+interface HouseholdLink {
+  // What this person is to the one they were reached from
+  type: RelationshipType | typeof CONVERSION_LINK;
+  kind: PersonKind;
+  id: string;
+}
+
+/**
+ * RelationshipsService - Family and business links between leads and clients
+ *
+ * Key Features:
+ * - Typed relationships (spouse, child, parent, employer, employee,
+ *   business partner) read from either person's side
+ * - Household view of everyone linked to a person, with their policies and
+ *   open opportunities
+ * - Leads for a client's dependants, created already linked to the client
+ */
+@Injectable()
+export class RelationshipsService {
+  constructor(
+    private prisma: PrismaService,
+    private leadsService: LeadsService,
+  ) {}
+
+  async findAll(queryDto: RelationshipQueryDto, currentUser: any) {
+    const person = await this.findPerson(
+      this.toRef(queryDto.leadId, queryDto.clientId),
+      currentUser,
+    );
+    const [fromColumn, toColumn] =
+      person.kind === PersonKind.LEAD
+        ? (['fromLeadId', 'toLeadId'] as const)
+        : (['fromClientId', 'toClientId'] as const);
+
+    const relationships = await this.prisma.relationship.findMany({
+      where: this.prisma.addTenantFilter({
+        OR: [{ [fromColumn]: person.id }, { [toColumn]: person.id }],
+      }),
+      include: {
+        fromLead: { select: LEAD_PERSON_SELECT },
+        fromClient: { select: PERSON_SELECT },
+        toLead: { select: LEAD_PERSON_SELECT },
+        toClient: { select: PERSON_SELECT },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return relationships
+      .map((relationship) => {
+        const isFrom = relationship[fromColumn] === person.id;
+        const other = isFrom
+          ? this.personOf(
+              relationship.toLead,
+              relationship.toClient,
+              currentUser,
+            )
+          : this.personOf(
+              relationship.fromLead,
+              relationship.fromClient,
+              currentUser,
+            );
+
+        return {
+          id: relationship.id,
+          type: isFrom
+            ? relationship.type
+            : INVERSE_RELATIONSHIP[relationship.type as RelationshipType],
+          notes: relationship.notes,
+          person: other,
+          createdAt: relationship.createdAt,
+        };
+      })
+      .filter((relationship) => relationship.person);
+  }
+
+  async create(createDto: CreateRelationshipDto, currentUser: any) {
+    const tenantId = this.requireTenantId();
+    const person = await this.findPerson(
+      this.toRef(createDto.leadId, createDto.clientId),
+      currentUser,
+    );
+    const related = await this.findPerson(
+      this.toRef(
+        createDto.relatedLeadId,
+        createDto.relatedClientId,
+        'relatedLeadId or relatedClientId',
+      ),
+      currentUser,
+    );
+
+    if (person.kind === related.kind && person.id === related.id) {
+      throw new BadRequestException('A person cannot be related to themselves');
+    }
+    if (
+      (person.kind === PersonKind.LEAD && person.clientId === related.id) ||
+      (related.kind === PersonKind.LEAD && related.clientId === person.id)
+    ) {
+      throw new BadRequestException(
+        'The lead and the client it was converted into are the same person',
+      );
+    }
+
+    const from = this.refColumns('from', person);
+    const to = this.refColumns('to', related);
+    const existing = await this.prisma.relationship.findFirst({
+      where: this.prisma.addTenantFilter({
+        OR: [
+          { ...from, ...to },
+          {
+            ...this.refColumns('from', related),
+            ...this.refColumns('to', person),
+          },
+        ],
+      }),
+    });
+    if (existing) {
+      throw new ConflictException('These two people are already related');
+    }
+
+    return this.prisma.relationship.create({
+      data: {
+        ...from,
+        ...to,
+        type: createDto.type,
+        notes: createDto.notes,
+        createdById: currentUser.id,
+        tenantId,
+      },
+    });
+  }
+
+  async remove(id: string) {
+    const relationship = await this.prisma.relationship.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+    });
+
+    if (!relationship) {
+      throw new NotFoundException('Relationship not found');
+    }
+
+    await this.prisma.relationship.delete({ where: { id } });
+    return { message: 'Relationship deleted successfully' };
+  }
+
+  /**
+   * Everyone linked to a person through relationships or lead conversion,
+   * directly or through others, with the policies they hold and the
+   * opportunities still open for them. Agents only see, and only reach
+   * others through, the leads assigned to them.
+   */
+  async getHousehold(queryDto: RelationshipQueryDto, currentUser: any) {
+    const root = this.toRef(queryDto.leadId, queryDto.clientId);
+    await this.findPerson(root, currentUser);
+
+    const members = new Map<string, any>();
+    const leads: any[] = [];
+    const clients: any[] = [];
+    let frontier: Array<{ ref: PersonRef; via: HouseholdLink | null }> = [
+      { ref: root, via: null },
+    ];
+    let truncated = false;
+
+    while (frontier.length > 0) {
+      if (members.size + frontier.length > MAX_HOUSEHOLD_MEMBERS) {
+        frontier = frontier.slice(0, MAX_HOUSEHOLD_MEMBERS - members.size);
+        truncated = true;
+      }
+
+      const [levelLeads, levelClients] = await Promise.all([
+        this.prisma.lead.findMany({
+          where: this.prisma.addTenantFilter({
+            id: { in: this.idsOf(frontier, PersonKind.LEAD) },
+            ...this.leadScope(currentUser),
+          }),
+          select: HOUSEHOLD_LEAD_SELECT,
+        }),
+        this.prisma.client.findMany({
+          where: this.prisma.addTenantFilter({
+            id: { in: this.idsOf(frontier, PersonKind.CLIENT) },
+          }),
+          select: HOUSEHOLD_CLIENT_SELECT,
+        }),
+      ]);
+      const found = new Map<string, any>();
+      levelLeads.forEach((lead) =>
+        found.set(this.keyOf(PersonKind.LEAD, lead.id), lead),
+      );
+      levelClients.forEach((client) =>
+        found.set(this.keyOf(PersonKind.CLIENT, client.id), client),
+      );
+
+      const added: PersonRef[] = [];
+      for (const { ref, via } of frontier) {
+        const record = found.get(this.keyOf(ref.kind, ref.id));
+        if (!record) continue;
+
+        members.set(this.keyOf(ref.kind, ref.id), {
+          kind: ref.kind,
+          id: record.id,
+          firstName: record.firstName,
+          lastName: record.lastName,
+          email: record.email,
+          phone: record.phone,
+          relationship: via,
+        });
+        (ref.kind === PersonKind.LEAD ? leads : clients).push(record);
+        added.push(ref);
+      }
+
+      if (truncated || added.length === 0) break;
+      frontier = await this.nextHouseholdLevel(added, found, members);
+    }
+
+    const openOpportunities = leads
+      .filter((lead) => !CLOSED_STATUSES.includes(lead.status))
+      .map((lead) => ({ ...lead, client: undefined }));
+    const activePolicies = clients.filter((client) => client.isActive);
+
+    return {
+      root,
+      members: [...members.values()],
+      policies: clients,
+      openOpportunities,
+      totals: {
+        members: members.size,
+        activePolicies: activePolicies.length,
+        premium: this.sum(activePolicies, 'premium'),
+        commission: this.sum(activePolicies, 'commission'),
+        openOpportunities: openOpportunities.length,
+        openBudget: this.sum(openOpportunities, 'budget'),
+      },
+      truncated,
+    };
+  }
+
+  /**
+   * Creates a lead for someone a client brings in, such as a spouse or a
+   * child, linked to the client. The lead takes over the client's address
+   * and agent unless another agent is given.
+   */
+  async createDependant(
+    clientId: string,
+    dependantDto: CreateDependantDto,
+    currentUser: any,
+  ) {
+    const tenantId = this.requireTenantId();
+    const client = await this.prisma.client.findFirst({
+      where: this.prisma.addTenantFilter({ id: clientId }),
+      include: {
+        lead: {
+          select: {
+            address: true,
+            city: true,
+            state: true,
+            zipCode: true,
+            country: true,
+            assignedUser: { select: { id: true, isActive: true } },
+          },
+        },
+      },
+    });
+
+    if (!client) {
+      throw new NotFoundException('Client not found');
+    }
+
+    const { relationshipType, notes, ...leadDto } = dependantDto;
+    const origin = client.lead;
+    const clientAgent = origin?.assignedUser?.isActive
+      ? origin.assignedUser.id
+      : undefined;
+
+    const lead = await this.leadsService.create(
+      {
+        ...leadDto,
+        source: LeadSource.MANUAL,
+        address: origin?.address,
+        city: origin?.city,
+        state: origin?.state,
+        zipCode: origin?.zipCode,
+        country: origin?.country ?? undefined,
+        assignedUserId: leadDto.assignedUserId ?? clientAgent,
+      },
+      currentUser.id,
+      {
+        source: 'MANUAL',
+        note: `Added as ${relationshipType.toLowerCase().replace(/_/g, ' ')} of client ${client.firstName} ${client.lastName}`,
+      },
+    );
+
+    const relationship = await this.prisma.relationship.create({
+      data: {
+        fromClientId: client.id,
+        toLeadId: lead.id,
+        type: relationshipType,
+        notes,
+        createdById: currentUser.id,
+        tenantId,
+      },
+    });
+
+    return { lead, relationship };
+  }
+
+  // People linked to the ones just added who are not in the household yet
+  private async nextHouseholdLevel(
+    added: PersonRef[],
+    found: Map<string, any>,
+    members: Map<string, any>,
+  ) {
+    const leadIds = this.idsOf(
+      added.map((ref) => ({ ref })),
+      PersonKind.LEAD,
+    );
+    const clientIds = this.idsOf(
+      added.map((ref) => ({ ref })),
+      PersonKind.CLIENT,
+    );
+    const relationships = await this.prisma.relationship.findMany({
+      where: this.prisma.addTenantFilter({
+        OR: [
+          { fromLeadId: { in: leadIds } },
+          { toLeadId: { in: leadIds } },
+          { fromClientId: { in: clientIds } },
+          { toClientId: { in: clientIds } },
+        ],
+      }),
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const next = new Map<string, { ref: PersonRef; via: HouseholdLink }>();
+    const reach = (ref: PersonRef, via: HouseholdLink) => {
+      const key = this.keyOf(ref.kind, ref.id);
+      if (!members.has(key) && !next.has(key)) next.set(key, { ref, via });
+    };
+    const isAdded = (ref: PersonRef) =>
+      added.some((item) => item.kind === ref.kind && item.id === ref.id);
+
+    for (const ref of added) {
+      const record = found.get(this.keyOf(ref.kind, ref.id));
+      if (
+        ref.kind === PersonKind.LEAD &&
+        record.client &&
+        !record.client.deletedAt
+      ) {
+        reach(
+          { kind: PersonKind.CLIENT, id: record.client.id },
+          { type: CONVERSION_LINK, ...ref },
+        );
+      }
+      if (ref.kind === PersonKind.CLIENT && record.leadId) {
+        reach(
+          { kind: PersonKind.LEAD, id: record.leadId },
+          { type: CONVERSION_LINK, ...ref },
+        );
+      }
+    }
+
+    for (const relationship of relationships) {
+      const from = this.refOf(
+        relationship.fromLeadId,
+        relationship.fromClientId,
+      );
+      const to = this.refOf(relationship.toLeadId, relationship.toClientId);
+      const type = relationship.type as RelationshipType;
+
+      if (isAdded(from)) reach(to, { type, ...from });
+      if (isAdded(to)) reach(from, { type: INVERSE_RELATIONSHIP[type], ...to });
+    }
+
+    return [...next.values()];
+  }
+
+  private async findPerson(ref: PersonRef, currentUser: any) {
+    if (ref.kind === PersonKind.CLIENT) {
+      const client = await this.prisma.client.findFirst({
+        where: this.prisma.addTenantFilter({ id: ref.id }),
+        select: { id: true },
+      });
+      if (!client) {
+        throw new NotFoundException('Client not found');
+      }
+      return { ...ref, clientId: null };
+    }
+
+    const lead = await this.prisma.lead.findFirst({
+      where: this.prisma.addTenantFilter({
+        id: ref.id,
+        ...this.leadScope(currentUser),
+      }),
+      select: { id: true, client: { select: { id: true } } },
+    });
+    if (!lead) {
+      throw new NotFoundException('Lead not found');
+    }
+    return { ...ref, clientId: lead.client?.id ?? null };
+  }
+
+  private toRef(
+    leadId?: string,
+    clientId?: string,
+    fields = 'leadId or clientId',
+  ): PersonRef {
+    if (Boolean(leadId) === Boolean(clientId)) {
+      throw new BadRequestException(`Give either ${fields}`);
+    }
+
+    return leadId
+      ? { kind: PersonKind.LEAD, id: leadId }
+      : { kind: PersonKind.CLIENT, id: clientId };
+  }
+
+  private refOf(leadId: string | null, clientId: string | null): PersonRef {
+    return leadId
+      ? { kind: PersonKind.LEAD, id: leadId }
+      : { kind: PersonKind.CLIENT, id: clientId };
+  }
+
+  private refColumns(side: 'from' | 'to', ref: PersonRef) {
+    return ref.kind === PersonKind.LEAD
+      ? { [`${side}LeadId`]: ref.id }
+      : { [`${side}ClientId`]: ref.id };
+  }
+
+  // Agents only see the leads assigned to them, as in LeadsService.findOne
+  private leadScope(currentUser: any) {
+    return currentUser.role === UserRole.AGENT
+      ? { assignedUserId: currentUser.id }
+      : {};
+  }
+
+  // The other side of a relationship, unless that person has been deleted
+  // or is a lead the user cannot see
+  private personOf(lead: any, client: any, currentUser: any) {
+    const person = lead ?? client;
+    if (!person || person.deletedAt) return null;
+    if (
+      lead &&
+      currentUser.role === UserRole.AGENT &&
+      lead.assignedUserId !== currentUser.id
+    ) {
+      return null;
+    }
+
+    return {
+      kind: lead ? PersonKind.LEAD : PersonKind.CLIENT,
+      id: person.id,
+      firstName: person.firstName,
+      lastName: person.lastName,
+      email: person.email,
+      phone: person.phone,
+    };
+  }
+
+  private idsOf(items: Array<{ ref: PersonRef }>, kind: PersonKind) {
+    return items
+      .filter(({ ref }) => ref.kind === kind)
+      .map(({ ref }) => ref.id);
+  }
+
+  private keyOf(kind: PersonKind, id: string) {
+    return `${kind}:${id}`;
+  }
+
+  private sum(items: any[], field: string) {
+    return items.reduce((total, item) => total + Number(item[field] ?? 0), 0);
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
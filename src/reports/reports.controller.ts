@@ -71,6 +71,20 @@ export class ReportsController {
     );
   }
 
+  @Get('lost-leads')
+  @ApiOperation({ summary: 'Get lost leads by reason, source, type, agent and stage' })
+  @ApiQuery({ name: 'startDate', required: false, type: Date })
+  @ApiQuery({ name: 'endDate', required: false, type: Date })
+  getLostLeadsReport(
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.reportsService.getLostLeadsReport(
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined,
+    );
+  }
+
   @Get('dashboard')
   @ApiOperation({ summary: 'Get dashboard summary with all key metrics' })
   @ApiQuery({ name: 'startDate', required: false, type: Date })
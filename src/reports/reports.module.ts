@@ -2,10 +2,13 @@ import { Module } from '@nestjs/common';
 import { ReportsService } from './reports.service';
 import { ReportsController } from './reports.controller';
 import { PrismaService } from '../common/services/prisma.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { PipelinesModule } from '../pipelines/pipelines.module';
 
 @Module({
+  imports: [PipelinesModule],
   controllers: [ReportsController],
-  providers: [ReportsService, PrismaService],
+  providers: [ReportsService, LeadStageHistoryService, PrismaService],
   exports: [ReportsService],
 })
 export class ReportsModule {}
\ No newline at end of file
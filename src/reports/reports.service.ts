@@ -1,10 +1,16 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../common/services/prisma.service';
 import { UserRole, LeadStatus } from '@prisma/client';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { PipelinesService } from '../pipelines/pipelines.service';
 
 @Injectable()
 export class ReportsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private stageHistoryService: LeadStageHistoryService,
+    private pipelinesService: PipelinesService,
+  ) {}
 
   async getLeadConversionReport(startDate?: Date, endDate?: Date) {
     const dateFilter = this.getDateFilter(startDate, endDate);
@@ -167,7 +173,7 @@ export class ReportsService {
     if (dateFilter) whereWon.createdAt = dateFilter;
     whereWon = this.prisma.addTenantFilter(whereWon);
 
-    const [statusFlow, avgTimeInStages, sourcePerformance] = await Promise.all([
+    const [statusFlow, avgTimeInStages, sourcePerformance, pipelines] = await Promise.all([
       this.prisma.lead.groupBy({
         by: ['status', 'source'],
         where,
@@ -179,10 +185,12 @@ export class ReportsService {
         where: whereWon,
         _count: { id: true },
       }),
+      this.getPipelineStageBreakdown(where, dateFilter),
     ]);
 
     return {
       period: { startDate, endDate },
+      pipelines,
       statusFlow: statusFlow.reduce((acc, item) => {
         if (!acc[item.status]) acc[item.status] = {};
         acc[item.status][item.source] = item._count.id;
@@ -196,6 +204,85 @@ export class ReportsService {
     };
   }
 
+  /**
+   * Leads closed as lost in the period, by when they were lost, broken down
+   * by reason, source, insurance type, agent and the stage they were lost
+   * from, with the competitors most often named
+   */
+  async getLostLeadsReport(startDate?: Date, endDate?: Date) {
+    const dateFilter = this.getDateFilter(startDate, endDate);
+
+    let where: any = { status: LeadStatus.CLOSED_LOST };
+    if (dateFilter) where.lostAt = dateFilter;
+    where = this.prisma.addTenantFilter(where);
+
+    const leads = await this.prisma.lead.findMany({
+      where,
+      select: {
+        id: true,
+        source: true,
+        insuranceType: true,
+        lostCompetitor: true,
+        lostReason: { select: { id: true, name: true } },
+        assignedUser: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+
+    // The latest move into CLOSED_LOST tells where each lead was lost from
+    const transitions = await this.prisma.leadStageTransition.findMany({
+      where: this.prisma.addTenantFilter({
+        leadId: { in: leads.map((lead) => lead.id) },
+        toStatus: LeadStatus.CLOSED_LOST,
+      }),
+      orderBy: { createdAt: 'desc' },
+      select: {
+        leadId: true,
+        fromStatus: true,
+        fromStage: { select: { id: true, name: true } },
+      },
+    });
+    const lostFrom = new Map<string, (typeof transitions)[number]>();
+    for (const transition of transitions) {
+      if (!lostFrom.has(transition.leadId)) {
+        lostFrom.set(transition.leadId, transition);
+      }
+    }
+
+    const total = leads.length;
+    return {
+      period: { startDate, endDate },
+      totalLost: total,
+      byReason: this.breakdown(leads, (lead) => ({
+        id: lead.lostReason?.id ?? null,
+        name: lead.lostReason?.name ?? 'No reason recorded',
+      })),
+      bySource: this.breakdown(leads, (lead) => ({ name: lead.source })),
+      byInsuranceType: this.breakdown(leads, (lead) => ({
+        name: lead.insuranceType,
+      })),
+      byAgent: this.breakdown(leads, (lead) => ({
+        id: lead.assignedUser?.id ?? null,
+        name: lead.assignedUser
+          ? `${lead.assignedUser.firstName} ${lead.assignedUser.lastName}`
+          : 'Unassigned',
+      })),
+      byStage: this.breakdown(leads, (lead) => {
+        const transition = lostFrom.get(lead.id);
+        return {
+          id: transition?.fromStage?.id ?? null,
+          name:
+            transition?.fromStage?.name ?? transition?.fromStatus ?? 'Unknown',
+        };
+      }),
+      topCompetitors: this.breakdown(
+        leads.filter((lead) => lead.lostCompetitor),
+        (lead) => ({ name: lead.lostCompetitor.trim() }),
+      ).slice(0, 10),
+    };
+  }
+
   async getDashboard(startDate?: Date, endDate?: Date) {
     let baseWhere: any = {};
     baseWhere = this.prisma.addTenantFilter(baseWhere);
@@ -283,6 +370,9 @@ export class ReportsService {
       case 'communications':
         data = await this.getCommunicationEffectivenessReport(startDate, endDate);
         break;
+      case 'lost-leads':
+        data = await this.getLostLeadsReport(startDate, endDate);
+        break;
       default:
         throw new Error('Invalid report type');
     }
@@ -309,15 +399,74 @@ export class ReportsService {
     return undefined;
   }
 
+  /**
+   * Count and share of items per group, largest first. Groups without an
+   * ID are matched on their name, ignoring case.
+   */
+  private breakdown<T>(
+    items: T[],
+    groupOf: (item: T) => { id?: string | null; name: string },
+  ) {
+    const groups = new Map<
+      string,
+      { id?: string | null; name: string; count: number }
+    >();
+
+    for (const item of items) {
+      const group = groupOf(item);
+      const key = group.id ?? `name:${group.name.trim().toLowerCase()}`;
+      const entry = groups.get(key) ?? { ...group, count: 0 };
+      entry.count++;
+      groups.set(key, entry);
+    }
+
+    return [...groups.values()]
+      .map((group) => ({
+        ...group,
+        percentage: parseFloat(((group.count / items.length) * 100).toFixed(2)),
+      }))
+      .sort((a, b) => b.count - a.count);
+  }
+
+  /**
+   * Lead counts and time in stage for every active pipeline, by stage
+   */
+  private async getPipelineStageBreakdown(where: any, dateFilter?: any) {
+    const pipelines = await this.pipelinesService.findAll();
+
+    return Promise.all(
+      pipelines
+        .filter((pipeline) => pipeline.isActive)
+        .map(async (pipeline) => {
+          const pipelineWhere = {
+            ...where,
+            AND: [await this.pipelinesService.getLeadFilter(pipeline)],
+          };
+          const [stageCounts, avgDaysByStage] = await Promise.all([
+            this.pipelinesService.countLeadsByStage(pipeline, where),
+            this.stageHistoryService.getAverageDaysInPipelineStages(pipelineWhere, pipeline.stages, dateFilter),
+          ]);
+
+          return {
+            id: pipeline.id,
+            name: pipeline.name,
+            insuranceType: pipeline.insuranceType,
+            stages: stageCounts.map((stage) => ({
+              ...stage,
+              averageTimeInStage: this.stageHistoryService.formatDays(avgDaysByStage[stage.stageId]),
+            })),
+          };
+        }),
+    );
+  }
+
   private async calculateAverageTimeInStages(dateFilter: any) {
-    // Mock implementation - would calculate actual stage transition times
-    return {
-      'NEW_TO_CONTACTED': '1.2 days',
-      'CONTACTED_TO_ENGAGED': '2.5 days',
-      'ENGAGED_TO_QUALIFIED': '3.1 days',
-      'QUALIFIED_TO_PROPOSAL': '1.8 days',
-      'PROPOSAL_TO_CLOSED': '5.2 days',
-    };
+    const transitionDays = await this.stageHistoryService.getAverageTransitionDays(dateFilter);
+
+    return Object.entries(transitionDays).reduce((acc, [transition, days]) => {
+      acc[transition] = this.stageHistoryService.formatDays(days);
+      return acc;
+    }, {});
   }
 
   async getLeadMetrics(startDate?: Date, endDate?: Date) {
@@ -0,0 +1,53 @@
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SearchResultType } from '../enums/search.enums';
+
+export class SearchQueryDto {
+  @ApiProperty({
+    example: 'jane smith',
+    description: 'Names, emails, phone or policy numbers, or message text',
+  })
+  @Transform(({ value }) => (typeof value === 'string' ? value.trim() : value))
+  @IsString()
+  @MinLength(2)
+  @MaxLength(100)
+  q: string;
+
+  @ApiPropertyOptional({
+    enum: SearchResultType,
+    isArray: true,
+    example: 'LEAD,CLIENT',
+    description: 'Comma-separated record types to search. Defaults to all',
+  })
+  @IsOptional()
+  @Transform(({ value }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((type) => type.trim().toUpperCase())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray()
+  @IsEnum(SearchResultType, { each: true })
+  types?: SearchResultType[];
+
+  @ApiPropertyOptional({ example: 20, description: 'Maximum results (1-50)' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit: number = 20;
+}
@@ -0,0 +1,13 @@
+/**
+ * Search Enums - Record types covered by global search
+ */
+
+export enum SearchResultType {
+  LEAD = 'LEAD',
+  CLIENT = 'CLIENT',
+  CHAT_MESSAGE = 'CHAT_MESSAGE', // WhatsApp / SMS conversation messages
+  EMAIL = 'EMAIL',
+  COMMUNICATION = 'COMMUNICATION', // Logged calls, notes and other touchpoints
+  TASK = 'TASK',
+  TICKET = 'TICKET',
+}
@@ -0,0 +1,31 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@ApiTags('Search')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({
+    summary:
+      'Search leads, clients, conversations, emails, communications, tasks and tickets',
+  })
+  @ApiResponse({ status: 200, description: 'Ranked search results' })
+  @ApiResponse({ status: 400, description: 'Query is invalid' })
+  search(@Query() searchQueryDto: SearchQueryDto, @CurrentUser() user: any) {
+    return this.searchService.search(searchQueryDto, user);
+  }
+}
@@ -0,0 +1,456 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { SearchResultType } from './enums/search.enums';
+
+// InnoDB skips words shorter than innodb_ft_min_token_size (3 by default)
+const MIN_TERM_LENGTH = 3;
+const MAX_TERMS = 10;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD_IN = 50;
+// Exact identifier hits (email, phone, policy number) outrank any text match
+const IDENTIFIER_SCORE = 1000;
+const LEAD_NAME = "NULLIF(CONCAT_WS(' ', l.firstName, l.lastName), '')";
+
+type ParsedQuery = {
+  text: string;
+  words: string[];
+  booleanQuery: string | null;
+  digits: string | null;
+};
+
+/**
+ * One searchable table. Column and table names are constants and are
+ * inlined into the SQL; everything the caller supplies is a bound parameter.
+ */
+type SearchSource = {
+  type: SearchResultType;
+  table: string;
+  alias: string;
+  // Must list exactly the columns of the table's full-text index
+  indexColumns: string[];
+  weight: number;
+  title: string;
+  subtitle: string;
+  body: string;
+  leadId: string;
+  joinLead: boolean;
+  // Soft delete column of the table itself, other than leads
+  deletedAt?: string;
+  identifierMatch?: (query: ParsedQuery) => Prisma.Sql | null;
+  agentFilter: (userId: string) => Prisma.Sql;
+};
+
+type SearchRow = {
+  id: string;
+  title: string | null;
+  subtitle: string | null;
+  body: string | null;
+  leadId: string | null;
+  createdAt: Date;
+  // BIGINT when only an identifier condition contributes
+  score: number | bigint;
+};
+
+export type SearchResult = {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  subtitle: string | null;
+  snippet: string;
+  highlights: [number, number][];
+  score: number;
+  leadId: string | null;
+  createdAt: Date;
+};
+
+const leadAssignedTo = (userId: string) =>
+  Prisma.sql`l.assignedUserId = ${userId}`;
+
+const phoneMatch = (column: string, query: ParsedQuery) =>
+  query.digits
+    ? Prisma.sql`${Prisma.raw(column)} LIKE ${`%${query.digits}%`}`
+    : null;
+
+const anyOf = (conditions: (Prisma.Sql | null)[]) => {
+  const present = conditions.filter(
+    (condition): condition is Prisma.Sql => condition !== null,
+  );
+  return present.length > 0
+    ? Prisma.sql`(${Prisma.join(present, ' OR ')})`
+    : null;
+};
+
+const SEARCH_SOURCES: SearchSource[] = [
+  {
+    type: SearchResultType.LEAD,
+    table: 'leads',
+    alias: 'l',
+    indexColumns: ['firstName', 'lastName', 'email', 'phone', 'inquiryDetails'],
+    weight: 1.5,
+    title: LEAD_NAME,
+    subtitle: 'COALESCE(l.email, l.phone)',
+    body: 'l.inquiryDetails',
+    leadId: 'l.id',
+    joinLead: false,
+    identifierMatch: (query) =>
+      anyOf([
+        Prisma.sql`l.email = ${query.text}`,
+        phoneMatch('l.phone', query),
+      ]),
+    agentFilter: leadAssignedTo,
+  },
+  {
+    type: SearchResultType.CLIENT,
+    table: 'clients',
+    alias: 'c',
+    indexColumns: ['firstName', 'lastName', 'email', 'phone', 'policyNumber'],
+    weight: 1.5,
+    title: "CONCAT_WS(' ', c.firstName, c.lastName)",
+    subtitle: 'c.policyNumber',
+    body: "CONCAT_WS(' · ', c.policyNumber, c.email, c.phone)",
+    leadId: 'c.leadId',
+    joinLead: true,
+    deletedAt: 'c.deletedAt',
+    identifierMatch: (query) =>
+      anyOf([
+        Prisma.sql`c.policyNumber = ${query.text}`,
+        Prisma.sql`c.email = ${query.text}`,
+        phoneMatch('c.phone', query),
+      ]),
+    agentFilter: leadAssignedTo,
+  },
+  {
+    type: SearchResultType.CHAT_MESSAGE,
+    table: 'chat_messages',
+    alias: 'm',
+    indexColumns: ['content'],
+    weight: 1,
+    title: `COALESCE(${LEAD_NAME}, m.platform)`,
+    subtitle: "CONCAT_WS(' · ', m.platform, m.sender)",
+    body: 'm.content',
+    leadId: 'm.leadId',
+    joinLead: true,
+    agentFilter: leadAssignedTo,
+  },
+  {
+    type: SearchResultType.EMAIL,
+    table: 'email_messages',
+    alias: 'e',
+    indexColumns: ['subject', 'content'],
+    weight: 1,
+    title: 'e.subject',
+    subtitle: "IF(e.direction = 'INBOUND', e.fromEmail, e.toEmail)",
+    body: 'e.content',
+    leadId: 'e.leadId',
+    joinLead: true,
+    agentFilter: leadAssignedTo,
+  },
+  {
+    type: SearchResultType.COMMUNICATION,
+    table: 'communications',
+    alias: 'cm',
+    indexColumns: ['subject', 'content'],
+    weight: 1,
+    title: 'COALESCE(cm.subject, cm.channel)',
+    subtitle: LEAD_NAME,
+    body: 'cm.content',
+    leadId: 'cm.leadId',
+    joinLead: true,
+    agentFilter: leadAssignedTo,
+  },
+  {
+    type: SearchResultType.TASK,
+    table: 'tasks',
+    alias: 't',
+    indexColumns: ['title', 'description'],
+    weight: 1.2,
+    title: 't.title',
+    subtitle: LEAD_NAME,
+    body: 't.description',
+    leadId: 't.leadId',
+    joinLead: true,
+    agentFilter: (userId) => Prisma.sql`t.assignedUserId = ${userId}`,
+  },
+  {
+    type: SearchResultType.TICKET,
+    table: 'tickets',
+    alias: 'tk',
+    indexColumns: ['title', 'description'],
+    weight: 1.2,
+    title: 'tk.title',
+    subtitle: LEAD_NAME,
+    body: 'tk.description',
+    leadId: 'tk.leadId',
+    joinLead: true,
+    agentFilter: (userId) =>
+      Prisma.sql`(tk.assignedUserId = ${userId} OR tk.createdById = ${userId} OR l.assignedUserId = ${userId})`,
+  },
+];
+
+/**
+ * SearchService - Tenant-wide search across CRM records
+ *
+ * Key Features:
+ * - One query over leads, clients, chat messages, emails, communications,
+ *   tasks and tickets, backed by MySQL full-text indexes
+ * - Exact email, phone and policy number matches ranked first
+ * - Agents only see records tied to their own leads, tasks and tickets
+ * - Snippets around the first match with highlight offsets
+ */
+@Injectable()
+export class SearchService {
+  constructor(private prisma: PrismaService) {}
+
+  async search(searchQueryDto: SearchQueryDto, currentUser: any) {
+    const tenantId = this.requireTenantId();
+    const query = this.parseQuery(searchQueryDto.q);
+    const limit = searchQueryDto.limit ?? 20;
+    const agentId =
+      currentUser.role === UserRole.AGENT ? (currentUser.id as string) : null;
+
+    const sources = searchQueryDto.types?.length
+      ? SEARCH_SOURCES.filter((source) =>
+          searchQueryDto.types.includes(source.type),
+        )
+      : SEARCH_SOURCES;
+
+    const counts: Partial<Record<SearchResultType, number>> = {};
+    const results: SearchResult[] = [];
+
+    const hitsBySource = await Promise.all(
+      sources.map((source) =>
+        this.searchSource(source, query, tenantId, agentId, limit),
+      ),
+    );
+
+    sources.forEach((source, index) => {
+      const { rows, total } = hitsBySource[index];
+      counts[source.type] = total;
+      for (const row of rows) {
+        results.push(this.toResult(source, row, query.words));
+      }
+    });
+
+    results.sort(
+      (a, b) =>
+        b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime(),
+    );
+
+    return {
+      query: searchQueryDto.q,
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      counts,
+      results: results.slice(0, limit),
+    };
+  }
+
+  private async searchSource(
+    source: SearchSource,
+    query: ParsedQuery,
+    tenantId: string,
+    agentId: string | null,
+    limit: number,
+  ): Promise<{ rows: SearchRow[]; total: number }> {
+    const columns = source.indexColumns
+      .map((column) => `${source.alias}.${column}`)
+      .join(', ');
+    const textMatch = query.booleanQuery
+      ? Prisma.sql`MATCH(${Prisma.raw(columns)}) AGAINST (${query.booleanQuery} IN BOOLEAN MODE)`
+      : null;
+    const identifierMatch = source.identifierMatch?.(query) ?? null;
+
+    const matchCondition = anyOf([textMatch, identifierMatch]);
+    if (!matchCondition) return { rows: [], total: 0 };
+
+    const relevance = textMatch ?? Prisma.sql`0`;
+    const score = identifierMatch
+      ? Prisma.sql`(CASE WHEN ${identifierMatch} THEN ${IDENTIFIER_SCORE} ELSE 0 END) + ${relevance}`
+      : relevance;
+
+    const alias = source.alias;
+    const join = source.joinLead
+      ? Prisma.raw(`LEFT JOIN \`leads\` l ON l.id = ${alias}.leadId`)
+      : Prisma.empty;
+    const visibility = agentId
+      ? Prisma.sql`AND ${source.agentFilter(agentId)}`
+      : Prisma.empty;
+    // l is the lead itself or the joined lead, so records of leads in the
+    // recycle bin are hidden as well
+    const notDeleted = source.deletedAt
+      ? Prisma.raw(`AND ${source.deletedAt} IS NULL`)
+      : Prisma.empty;
+
+    const matches = Prisma.sql`
+      FROM ${Prisma.raw(`\`${source.table}\` ${alias}`)}
+      ${join}
+      WHERE ${Prisma.raw(`${alias}.tenantId`)} = ${tenantId}
+        AND ${matchCondition}
+        AND l.deletedAt IS NULL
+        ${notDeleted}
+        ${visibility}
+    `;
+
+    // Only the top hits are returned, but all matches are counted
+    const [rows, [{ total }]] = await Promise.all([
+      this.prisma.$queryRaw<SearchRow[]>`
+        SELECT ${Prisma.raw(`${alias}.id`)} AS id,
+          ${Prisma.raw(source.title)} AS title,
+          ${Prisma.raw(source.subtitle)} AS subtitle,
+          ${Prisma.raw(source.body)} AS body,
+          ${Prisma.raw(source.leadId)} AS leadId,
+          ${Prisma.raw(`${alias}.createdAt`)} AS createdAt,
+          ${score} AS score
+        ${matches}
+        ORDER BY score DESC, createdAt DESC
+        LIMIT ${limit}
+      `,
+      this.prisma.$queryRaw<{ total: bigint }[]>`
+        SELECT COUNT(*) AS total ${matches}
+      `,
+    ]);
+
+    return { rows, total: Number(total) };
+  }
+
+  private toResult(
+    source: SearchSource,
+    row: SearchRow,
+    words: string[],
+  ): SearchResult {
+    const candidates = [row.body, row.title, row.subtitle]
+      .filter((text): text is string => !!text)
+      .map((text) => this.toPlainText(text));
+    const snippetSource =
+      candidates.find((text) => this.findFirstMatch(text, words) >= 0) ??
+      candidates[0] ??
+      '';
+    const snippet = this.buildSnippet(snippetSource, words);
+
+    return {
+      type: source.type,
+      id: row.id,
+      title: row.title?.trim() || source.type,
+      subtitle: row.subtitle,
+      snippet,
+      highlights: this.findHighlights(snippet, words),
+      score: Math.round(Number(row.score) * source.weight * 1000) / 1000,
+      leadId: row.leadId,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private parseQuery(q: string): ParsedQuery {
+    const text = q.trim();
+    const words = [
+      ...new Set(
+        text
+          .toLowerCase()
+          .split(/[^\p{L}\p{N}]+/u)
+          .filter((word) => word.length >= 2),
+      ),
+    ].slice(0, MAX_TERMS);
+
+    // Every indexed word is required; the last one may be partially typed
+    const terms = words.filter((word) => word.length >= MIN_TERM_LENGTH);
+    const booleanQuery =
+      terms.length > 0 ? terms.map((term) => `+${term}*`).join(' ') : null;
+
+    // Queries that are mostly digits are treated as (partial) phone numbers
+    const digits = text.replace(/\D/g, '');
+    const isPhoneLike =
+      digits.length >= 6 &&
+      digits.length >= text.replace(/\s/g, '').length * 0.7;
+
+    return {
+      text,
+      words,
+      booleanQuery,
+      digits: isPhoneLike ? digits : null,
+    };
+  }
+
+  private toPlainText(text: string): string {
+    return text
+      .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private findFirstMatch(text: string, words: string[]): number {
+    const positions = words
+      .map((word) => this.wordPattern(word).exec(text)?.index ?? -1)
+      .filter((position) => position >= 0);
+    return positions.length > 0 ? Math.min(...positions) : -1;
+  }
+
+  /**
+   * Window of text around the first matching word, trimmed to whole words
+   */
+  private buildSnippet(text: string, words: string[]): string {
+    if (text.length <= SNIPPET_LENGTH) return text;
+
+    const firstMatch = Math.max(this.findFirstMatch(text, words), 0);
+    let start = Math.max(firstMatch - SNIPPET_LEAD_IN, 0);
+    if (start > 0) {
+      const nextSpace = text.indexOf(' ', start);
+      start = nextSpace >= 0 && nextSpace < firstMatch ? nextSpace + 1 : start;
+    }
+
+    let end = Math.min(start + SNIPPET_LENGTH, text.length);
+    if (end < text.length) {
+      const lastSpace = text.lastIndexOf(' ', end);
+      end = lastSpace > start ? lastSpace : end;
+    }
+
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+
+  /**
+   * [start, end) offsets of matched words in the snippet, for the client
+   * to highlight without rendering HTML from stored content
+   */
+  private findHighlights(snippet: string, words: string[]): [number, number][] {
+    const ranges: [number, number][] = [];
+    for (const word of words) {
+      const pattern = new RegExp(this.wordPattern(word).source, 'giu');
+      for (const match of snippet.matchAll(pattern)) {
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+    }
+    return merged;
+  }
+
+  // Word prefix match, mirroring the trailing * of the full-text terms
+  private wordPattern(word: string): RegExp {
+    return new RegExp(`(?<![\\p{L}\\p{N}])${word}[\\p{L}\\p{N}]*`, 'iu');
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -0,0 +1,14 @@
+import { IsArray, IsString, ArrayMinSize, ArrayMaxSize } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignTagsDto {
+  @ApiProperty({
+    example: ['a1b2c3d4-e5f6-7890-abcd-ef1234567890'],
+    description: 'IDs of the tags to add',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  tagIds: string[];
+}
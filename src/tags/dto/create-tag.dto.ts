@@ -0,0 +1,29 @@
+import {
+  IsString,
+  IsOptional,
+  IsHexColor,
+  MinLength,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CreateTagDto {
+  @ApiProperty({ example: 'VIP', description: 'Tag name, unique per tenant' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#F59E0B', description: 'Hex color code' })
+  @IsHexColor()
+  color: string;
+
+  @ApiPropertyOptional({
+    example: 'High value prospects handled by senior agents',
+    description: 'Tag description',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '@prisma/client';
+
+@ApiTags('Tags')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('tags')
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all tags with lead and client counts' })
+  @ApiResponse({ status: 200, description: 'Tags retrieved' })
+  findAll() {
+    return this.tagsService.findAll();
+  }
+
+  @Post()
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Create a tag' })
+  @ApiResponse({ status: 201, description: 'Tag created' })
+  @ApiResponse({ status: 409, description: 'Tag name already in use' })
+  create(@Body() createTagDto: CreateTagDto) {
+    return this.tagsService.create(createTagDto);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get tag by ID' })
+  @ApiResponse({ status: 200, description: 'Tag found' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  findOne(@Param('id') id: string) {
+    return this.tagsService.findOne(id);
+  }
+
+  @Patch(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({ summary: 'Update a tag' })
+  @ApiResponse({ status: 200, description: 'Tag updated' })
+  @ApiResponse({ status: 409, description: 'Tag name already in use' })
+  update(@Param('id') id: string, @Body() updateTagDto: UpdateTagDto) {
+    return this.tagsService.update(id, updateTagDto);
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.ADMIN, UserRole.MANAGER)
+  @ApiOperation({
+    summary: 'Delete a tag and remove it from leads and clients',
+  })
+  @ApiResponse({ status: 200, description: 'Tag deleted' })
+  remove(@Param('id') id: string) {
+    return this.tagsService.remove(id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TagsService } from './tags.service';
+import { TagsController } from './tags.controller';
+import { PrismaService } from '../common/services/prisma.service';
+
+@Module({
+  controllers: [TagsController],
+  providers: [TagsService, PrismaService],
+  exports: [TagsService],
+})
+export class TagsModule {}
@@ -0,0 +1,273 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { getTenantContext } from '../common/context/tenant-context';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+
+/**
+ * Tag conditions on a lead: at least one of `any`, every one of `all` and
+ * none of `none`. Each list holds tag IDs.
+ */
+export type TagFilter = {
+  any?: string[];
+  all?: string[];
+  none?: string[];
+};
+
+const TAG_FILTER_KEYS = ['any', 'all', 'none'] as const;
+
+export const TAG_SELECT = {
+  select: { id: true, name: true, color: true },
+} satisfies Prisma.TagDefaultArgs;
+
+/**
+ * TagsService - Tenant-defined tags on leads and clients
+ *
+ * Key Features:
+ * - Tag CRUD with colours, unique names per tenant
+ * - Tagging and untagging of single leads and clients
+ * - Tag filters (any/all/none) for the lead list, automation rules and
+ *   campaign audiences
+ */
+@Injectable()
+export class TagsService {
+  constructor(private prisma: PrismaService) {}
+
+  async findAll() {
+    return this.prisma.tag.findMany({
+      where: this.prisma.addTenantFilter({}),
+      include: { _count: { select: { leads: true, clients: true } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOne(id: string) {
+    const tag = await this.prisma.tag.findFirst({
+      where: this.prisma.addTenantFilter({ id }),
+      include: { _count: { select: { leads: true, clients: true } } },
+    });
+
+    if (!tag) {
+      throw new NotFoundException('Tag not found');
+    }
+
+    return tag;
+  }
+
+  async create(createTagDto: CreateTagDto) {
+    const tenantId = this.requireTenantId();
+    await this.assertNameAvailable(createTagDto.name);
+
+    return this.prisma.tag.create({
+      data: { ...createTagDto, tenantId },
+    });
+  }
+
+  async update(id: string, updateTagDto: UpdateTagDto) {
+    const tag = await this.findOne(id);
+    if (updateTagDto.name && updateTagDto.name !== tag.name) {
+      await this.assertNameAvailable(updateTagDto.name);
+    }
+
+    return this.prisma.tag.update({
+      where: { id },
+      data: updateTagDto,
+    });
+  }
+
+  async remove(id: string) {
+    await this.findOne(id);
+
+    // Lead and client taggings are removed with the tag
+    return this.prisma.tag.delete({ where: { id } });
+  }
+
+  /**
+   * Add tags to a lead the caller has already been authorised to see
+   */
+  async tagLead(leadId: string, tagIds: string[], userId: string) {
+    const tenantId = this.requireTenantId();
+    await this.assertTagsExist(tagIds);
+
+    await this.prisma.leadTag.createMany({
+      data: [...new Set(tagIds)].map((tagId) => ({
+        leadId,
+        tagId,
+        assignedById: userId,
+        tenantId,
+      })),
+      skipDuplicates: true,
+    });
+
+    return this.getLeadTags(leadId);
+  }
+
+  async untagLead(leadId: string, tagId: string) {
+    await this.prisma.leadTag.deleteMany({
+      where: this.prisma.addTenantFilter({ leadId, tagId }),
+    });
+
+    return this.getLeadTags(leadId);
+  }
+
+  async getLeadTags(leadId: string) {
+    const leadTags = await this.prisma.leadTag.findMany({
+      where: this.prisma.addTenantFilter({ leadId }),
+      select: { tag: TAG_SELECT },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return leadTags.map((leadTag) => leadTag.tag);
+  }
+
+  /**
+   * Add tags to a client the caller has already been authorised to see
+   */
+  async tagClient(clientId: string, tagIds: string[], userId: string) {
+    const tenantId = this.requireTenantId();
+    await this.assertTagsExist(tagIds);
+
+    await this.prisma.clientTag.createMany({
+      data: [...new Set(tagIds)].map((tagId) => ({
+        clientId,
+        tagId,
+        assignedById: userId,
+        tenantId,
+      })),
+      skipDuplicates: true,
+    });
+
+    return this.getClientTags(clientId);
+  }
+
+  async untagClient(clientId: string, tagId: string) {
+    await this.prisma.clientTag.deleteMany({
+      where: this.prisma.addTenantFilter({ clientId, tagId }),
+    });
+
+    return this.getClientTags(clientId);
+  }
+
+  async getClientTags(clientId: string) {
+    const clientTags = await this.prisma.clientTag.findMany({
+      where: this.prisma.addTenantFilter({ clientId }),
+      select: { tag: TAG_SELECT },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return clientTags.map((clientTag) => clientTag.tag);
+  }
+
+  /**
+   * Lead conditions for a tag filter, to be combined with AND
+   */
+  buildLeadFilter(filter: TagFilter): Prisma.LeadWhereInput[] {
+    const conditions: Prisma.LeadWhereInput[] = [];
+
+    if (filter.any?.length) {
+      conditions.push({ tags: { some: { tagId: { in: filter.any } } } });
+    }
+    for (const tagId of new Set(filter.all ?? [])) {
+      conditions.push({ tags: { some: { tagId } } });
+    }
+    if (filter.none?.length) {
+      conditions.push({ tags: { none: { tagId: { in: filter.none } } } });
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Whether a lead satisfies a tag filter
+   */
+  async matchesLead(leadId: string, filter: TagFilter): Promise<boolean> {
+    const conditions = this.buildLeadFilter(filter);
+    if (conditions.length === 0) return true;
+
+    const count = await this.prisma.lead.count({
+      where: { id: leadId, AND: conditions },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Check a tag filter supplied by a client before it is stored, e.g. as
+   * an automation condition or campaign audience
+   */
+  async validateFilter(filter: unknown, path = 'tags'): Promise<TagFilter> {
+    if (
+      typeof filter !== 'object' ||
+      filter === null ||
+      Array.isArray(filter)
+    ) {
+      throw new BadRequestException(
+        `${path} must be an object with any, all and/or none tag ID lists`,
+      );
+    }
+
+    const errors: string[] = [];
+    const tagIds: string[] = [];
+    for (const [key, value] of Object.entries(filter)) {
+      if (!(TAG_FILTER_KEYS as readonly string[]).includes(key)) {
+        errors.push(`${path}.${key} is not supported; use any, all or none`);
+      } else if (
+        !Array.isArray(value) ||
+        !value.every((tagId) => typeof tagId === 'string')
+      ) {
+        errors.push(`${path}.${key} must be a list of tag IDs`);
+      } else {
+        tagIds.push(...value);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException(errors);
+    }
+
+    await this.assertTagsExist(tagIds);
+    return filter as TagFilter;
+  }
+
+  /**
+   * Throws unless every tag belongs to the current tenant
+   */
+  async assertTagsExist(tagIds: string[]) {
+    const uniqueIds = [...new Set(tagIds)];
+    if (uniqueIds.length === 0) return;
+
+    const tags = await this.prisma.tag.findMany({
+      where: this.prisma.addTenantFilter({ id: { in: uniqueIds } }),
+      select: { id: true },
+    });
+    const found = new Set(tags.map((tag) => tag.id));
+    const missing = uniqueIds.filter((id) => !found.has(id));
+
+    if (missing.length > 0) {
+      throw new NotFoundException(`Tags not found: ${missing.join(', ')}`);
+    }
+  }
+
+  private async assertNameAvailable(name: string) {
+    const existing = await this.prisma.tag.findFirst({
+      where: this.prisma.addTenantFilter({ name }),
+    });
+
+    if (existing) {
+      throw new ConflictException('A tag with this name already exists');
+    }
+  }
+
+  private requireTenantId(): string {
+    const tenantId = getTenantContext()?.tenantId;
+    if (!tenantId) {
+      throw new BadRequestException('Tenant context required');
+    }
+    return tenantId;
+  }
+}
@@ -1,5 +1,8 @@
 import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
-import { PrismaService } from '../common/services/prisma.service';
+import {
+  PrismaService,
+  LEAD_NOT_RECYCLED,
+} from '../common/services/prisma.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { PaginationDto, PaginationResult } from '../common/dto/pagination.dto';
 import { UserRole, TaskStatus } from '@prisma/client';
@@ -42,7 +45,7 @@ export class TasksService {
     const { page, limit, search, sortBy, sortOrder } = paginationDto;
     const skip = (page - 1) * limit;
 
-    let where: any = {};
+    let where: any = { ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter first
     where = this.prisma.addTenantFilter(where);
@@ -98,7 +101,7 @@ export class TasksService {
   }
 
   async findOne(id: string, currentUser: any) {
-    let where: any = { id };
+    let where: any = { id, ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter first
     where = this.prisma.addTenantFilter(where);
@@ -162,8 +165,8 @@ export class TasksService {
 
   async getTaskStats(currentUser: any) {
     let where: any = currentUser.role === UserRole.AGENT
-      ? { assignedUserId: currentUser.id }
-      : {};
+      ? { assignedUserId: currentUser.id, ...LEAD_NOT_RECYCLED }
+      : { ...LEAD_NOT_RECYCLED };
 
     // Add tenant filter
     where = this.prisma.addTenantFilter(where);
@@ -225,6 +228,7 @@ export class TasksService {
         lte: futureDate,
       },
       status: { not: TaskStatus.COMPLETED },
+      ...LEAD_NOT_RECYCLED,
     };
 
     // Add tenant filter first
@@ -0,0 +1,53 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateIf,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { HandoverStrategy, OwnedItemType } from '../enums/offboarding.enums';
+
+export class ReleaseOwnershipDto {
+  @ApiPropertyOptional({
+    enum: OwnedItemType,
+    isArray: true,
+    example: [OwnedItemType.LEADS, OwnedItemType.TASKS],
+    description: 'Kinds of items to act on. All of them when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsEnum(OwnedItemType, { each: true })
+  items?: OwnedItemType[];
+}
+
+export class TransferOwnershipDto extends ReleaseOwnershipDto {
+  @ApiProperty({
+    enum: HandoverStrategy,
+    example: HandoverStrategy.USER,
+    description: 'Hand everything to one user or spread it over a pool',
+  })
+  @IsEnum(HandoverStrategy)
+  strategy: HandoverStrategy;
+
+  @ApiPropertyOptional({
+    example: 'user-uuid-here',
+    description: 'New owner, required for USER',
+  })
+  @ValidateIf((dto) => dto.strategy === HandoverStrategy.USER)
+  @IsUUID()
+  toUserId?: string;
+
+  @ApiPropertyOptional({
+    example: ['user-id-1', 'user-id-2'],
+    description: 'Pool for ROUND_ROBIN. Every other active agent when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  userIds?: string[];
+}
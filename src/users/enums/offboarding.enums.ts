@@ -0,0 +1,16 @@
+/**
+ * Offboarding Enums - What a departing user can own and how it is handed
+ * over
+ */
+
+export enum OwnedItemType {
+  LEADS = 'LEADS', // Assigned leads
+  TASKS = 'TASKS', // Pending and in-progress tasks
+  TICKETS = 'TICKETS', // Tickets that are not closed
+  CONVERSATIONS = 'CONVERSATIONS', // Escalated WhatsApp conversations
+}
+
+export enum HandoverStrategy {
+  USER = 'USER', // Everything to one user
+  ROUND_ROBIN = 'ROUND_ROBIN', // Spread in turn over a pool of users
+}
@@ -0,0 +1,618 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, TaskStatus, TicketStatus, UserRole } from '@prisma/client';
+import { PrismaService } from '../common/services/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { LeadActivityService } from '../leads/lead-activity.service';
+import {
+  ReleaseOwnershipDto,
+  TransferOwnershipDto,
+} from './dto/user-handover.dto';
+import { HandoverStrategy, OwnedItemType } from './enums/offboarding.enums';
+
+const OPEN_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS];
+
+// Handovers update every conversation one by one, so allow well past the
+// default interactive transaction timeout
+const HANDOVER_TIMEOUT_MS = 60 * 1000;
+
+const USER_SUMMARY_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  role: true,
+  isActive: true,
+} satisfies Prisma.UserSelect;
+
+type OwnedCounts = Record<OwnedItemType, number>;
+
+interface OwnedItem {
+  id: string;
+  leadId: string | null;
+}
+
+/**
+ * UserOffboardingService - Hands over what a departing user owns
+ *
+ * Key Features:
+ * - Preview of the user's assigned leads (including those in the recycle
+ *   bin), open tasks, open tickets and escalated WhatsApp conversations
+ * - Transfer to one user or round-robin over a pool, in one transaction;
+ *   a lead's tasks, tickets and conversations follow the lead
+ * - Explicit release: leads, tickets and conversations are unassigned and
+ *   open tasks cancelled
+ * - New owners are notified; users cannot be deactivated while they still
+ *   own anything
+ */
+@Injectable()
+export class UserOffboardingService {
+  private readonly logger = new Logger(UserOffboardingService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private leadActivityService: LeadActivityService,
+    private notificationsService: NotificationsService,
+  ) {}
+
+  async preview(userId: string) {
+    const user = await this.findUser(userId);
+
+    const [leads, tasks, tickets, conversations] = await Promise.all([
+      this.prisma.lead.findMany({
+        where: this.ownedWhere(userId, OwnedItemType.LEADS),
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          status: true,
+          insuranceType: true,
+          deletedAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.task.findMany({
+        where: this.ownedWhere(userId, OwnedItemType.TASKS),
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          dueDate: true,
+          leadId: true,
+        },
+        orderBy: { dueDate: 'asc' },
+      }),
+      this.prisma.ticket.findMany({
+        where: this.ownedWhere(userId, OwnedItemType.TICKETS),
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          priority: true,
+          leadId: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.findConversations(userId),
+    ]);
+
+    const counts: OwnedCounts = {
+      LEADS: leads.length,
+      TASKS: tasks.length,
+      TICKETS: tickets.length,
+      CONVERSATIONS: conversations.length,
+    };
+
+    return {
+      user,
+      counts,
+      canDeactivate: this.total(counts) === 0,
+      leads,
+      tasks,
+      tickets,
+      conversations: conversations.map((conversation) => ({
+        id: conversation.id,
+        leadId: conversation.leadId,
+        customerName: this.metadataOf(conversation).customerName ?? null,
+        phoneNumber: this.metadataOf(conversation).phoneNumber ?? null,
+        escalatedAt: conversation.escalatedAt,
+      })),
+    };
+  }
+
+  /**
+   * Move the user's items to new owners in one transaction. Items changed
+   * by someone else in the meantime are left alone.
+   */
+  async transfer(
+    userId: string,
+    transferDto: TransferOwnershipDto,
+    currentUser: any,
+  ) {
+    const user = await this.findUser(userId);
+    const recipients = await this.resolveRecipients(userId, transferDto);
+    const owned = await this.loadOwned(userId, transferDto.items);
+
+    // Round-robin continues across kinds of items; anything tied to a lead
+    // being handed over goes to that lead's new owner
+    let turn = 0;
+    const nextRecipient = () => recipients[turn++ % recipients.length].id;
+    const leadOwners = new Map<string, string>();
+    for (const lead of owned.LEADS) {
+      leadOwners.set(lead.id, nextRecipient());
+    }
+    const ownerFor = (item: OwnedItem) =>
+      (item.leadId && leadOwners.get(item.leadId)) || nextRecipient();
+
+    const plan: Record<OwnedItemType, Map<string, string[]>> = {
+      LEADS: this.groupBy(owned.LEADS, (lead) => leadOwners.get(lead.id)),
+      TASKS: this.groupBy(owned.TASKS, ownerFor),
+      TICKETS: this.groupBy(owned.TICKETS, ownerFor),
+      CONVERSATIONS: this.groupBy(owned.CONVERSATIONS, ownerFor),
+    };
+
+    const tenantId = user.tenantId;
+    await this.prisma.$transaction(
+      async (tx) => {
+        for (const [toUserId, leadIds] of plan.LEADS) {
+          const moved = await tx.lead.findMany({
+            where: {
+              id: { in: leadIds },
+              assignedUserId: userId,
+              deletedAt: undefined,
+            },
+            select: { id: true },
+          });
+          await tx.lead.updateMany({
+            where: {
+              id: { in: moved.map((lead) => lead.id) },
+              deletedAt: undefined,
+            },
+            data: { assignedUserId: toUserId },
+          });
+          await this.leadActivityService.recordAssignments(
+            moved.map((lead) => ({
+              leadId: lead.id,
+              tenantId,
+              fromUserId: userId,
+              toUserId,
+              changedById: currentUser.id,
+              note: 'Handed over when offboarding a user',
+              source: 'OFFBOARDING',
+            })),
+            tx,
+          );
+        }
+
+        for (const [toUserId, taskIds] of plan.TASKS) {
+          await tx.task.updateMany({
+            where: { id: { in: taskIds }, assignedUserId: userId },
+            data: { assignedUserId: toUserId },
+          });
+        }
+
+        for (const [toUserId, ticketIds] of plan.TICKETS) {
+          await tx.ticket.updateMany({
+            where: { id: { in: ticketIds }, assignedUserId: userId },
+            data: { assignedUserId: toUserId },
+          });
+        }
+
+        for (const [toUserId, conversationIds] of plan.CONVERSATIONS) {
+          await this.reassignConversations(
+            tx,
+            userId,
+            conversationIds,
+            toUserId,
+          );
+        }
+      },
+      { timeout: HANDOVER_TIMEOUT_MS },
+    );
+
+    await this.notifyRecipients(user, recipients, plan, currentUser);
+
+    this.logger.log(
+      `Handed over ${this.describe(this.countPlan(plan))} from user ${userId} by ${currentUser.id}`,
+    );
+
+    return {
+      transferred: this.countPlan(plan),
+      recipients: recipients
+        .map((recipient) => ({
+          ...recipient,
+          received: this.countPlan(plan, recipient.id),
+        }))
+        .filter((recipient) => this.total(recipient.received) > 0),
+      remaining: await this.countOwned(userId),
+    };
+  }
+
+  /**
+   * Give up ownership without a new owner: leads, tickets and conversations
+   * are unassigned, open tasks (which always need an assignee) cancelled
+   */
+  async release(
+    userId: string,
+    releaseDto: ReleaseOwnershipDto,
+    currentUser: any,
+  ) {
+    const user = await this.findUser(userId);
+    const owned = await this.loadOwned(userId, releaseDto.items);
+    const ids = (items: Array<{ id: string }>) => items.map((item) => item.id);
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        const released = await tx.lead.findMany({
+          where: {
+            id: { in: ids(owned.LEADS) },
+            assignedUserId: userId,
+            deletedAt: undefined,
+          },
+          select: { id: true },
+        });
+        await tx.lead.updateMany({
+          where: { id: { in: ids(released) }, deletedAt: undefined },
+          data: { assignedUserId: null },
+        });
+        await this.leadActivityService.recordAssignments(
+          released.map((lead) => ({
+            leadId: lead.id,
+            tenantId: user.tenantId,
+            fromUserId: userId,
+            toUserId: null,
+            changedById: currentUser.id,
+            note: 'Released when offboarding a user',
+            source: 'OFFBOARDING',
+          })),
+          tx,
+        );
+
+        await tx.task.updateMany({
+          where: {
+            id: { in: ids(owned.TASKS) },
+            assignedUserId: userId,
+            status: { in: OPEN_TASK_STATUSES },
+          },
+          data: { status: TaskStatus.CANCELLED },
+        });
+
+        await tx.ticket.updateMany({
+          where: { id: { in: ids(owned.TICKETS) }, assignedUserId: userId },
+          data: { assignedUserId: null },
+        });
+
+        await this.reassignConversations(
+          tx,
+          userId,
+          ids(owned.CONVERSATIONS),
+          null,
+        );
+      },
+      { timeout: HANDOVER_TIMEOUT_MS },
+    );
+
+    const counts: OwnedCounts = {
+      LEADS: owned.LEADS.length,
+      TASKS: owned.TASKS.length,
+      TICKETS: owned.TICKETS.length,
+      CONVERSATIONS: owned.CONVERSATIONS.length,
+    };
+    this.logger.log(
+      `Released ${this.describe(counts)} of user ${userId} by ${currentUser.id}`,
+    );
+
+    return {
+      released: counts,
+      remaining: await this.countOwned(userId),
+    };
+  }
+
+  /**
+   * Refuse to deactivate a user who still owns work
+   */
+  async assertNothingOwned(userId: string) {
+    const counts = await this.countOwned(userId);
+    if (this.total(counts) > 0) {
+      throw new ConflictException(
+        `User still owns ${this.describe(counts)}. Transfer or release them before deactivating the user`,
+      );
+    }
+  }
+
+  async countOwned(userId: string): Promise<OwnedCounts> {
+    const [leads, tasks, tickets, conversations] = await Promise.all([
+      this.prisma.lead.count({
+        where: this.ownedWhere(userId, OwnedItemType.LEADS),
+      }),
+      this.prisma.task.count({
+        where: this.ownedWhere(userId, OwnedItemType.TASKS),
+      }),
+      this.prisma.ticket.count({
+        where: this.ownedWhere(userId, OwnedItemType.TICKETS),
+      }),
+      this.findConversations(userId),
+    ]);
+
+    return {
+      LEADS: leads,
+      TASKS: tasks,
+      TICKETS: tickets,
+      CONVERSATIONS: conversations.length,
+    };
+  }
+
+  private async loadOwned(
+    userId: string,
+    items: OwnedItemType[] = Object.values(OwnedItemType),
+  ): Promise<Record<OwnedItemType, OwnedItem[]>> {
+    const wanted = new Set(items);
+    const load = async <T>(type: OwnedItemType, query: () => Promise<T[]>) =>
+      wanted.has(type) ? query() : [];
+
+    const [leads, tasks, tickets, conversations] = await Promise.all([
+      load(OwnedItemType.LEADS, () =>
+        this.prisma.lead.findMany({
+          where: this.ownedWhere(userId, OwnedItemType.LEADS),
+          select: { id: true },
+        }),
+      ),
+      load(OwnedItemType.TASKS, () =>
+        this.prisma.task.findMany({
+          where: this.ownedWhere(userId, OwnedItemType.TASKS),
+          select: { id: true, leadId: true },
+        }),
+      ),
+      load(OwnedItemType.TICKETS, () =>
+        this.prisma.ticket.findMany({
+          where: this.ownedWhere(userId, OwnedItemType.TICKETS),
+          select: { id: true, leadId: true },
+        }),
+      ),
+      load(OwnedItemType.CONVERSATIONS, () => this.findConversations(userId)),
+    ]);
+
+    return {
+      LEADS: leads.map((lead) => ({ id: lead.id, leadId: lead.id })),
+      TASKS: tasks,
+      TICKETS: tickets,
+      CONVERSATIONS: conversations.map((conversation) => ({
+        id: conversation.id,
+        leadId:
+          conversation.leadId ?? this.metadataOf(conversation).leadId ?? null,
+      })),
+    };
+  }
+
+  private ownedWhere(
+    userId: string,
+    type: Exclude<OwnedItemType, OwnedItemType.CONVERSATIONS>,
+  ) {
+    switch (type) {
+      case OwnedItemType.LEADS:
+        // Leads in the recycle bin too, or they come back to a departed user
+        return this.prisma.addTenantFilter({
+          assignedUserId: userId,
+          deletedAt: undefined,
+        });
+      case OwnedItemType.TASKS:
+        return this.prisma.addTenantFilter({
+          assignedUserId: userId,
+          status: { in: OPEN_TASK_STATUSES },
+        });
+      case OwnedItemType.TICKETS:
+        return this.prisma.addTenantFilter({
+          assignedUserId: userId,
+          status: { not: TicketStatus.CLOSED },
+        });
+    }
+  }
+
+  /**
+   * WhatsApp conversations the user took over from the AI and that are not
+   * closed. Status lives in the conversation metadata.
+   */
+  private async findConversations(userId: string) {
+    const conversations = await this.prisma.aIConversation.findMany({
+      where: this.prisma.addTenantFilter({
+        type: 'WHATSAPP_CHAT',
+        userId,
+        OR: [
+          { isEscalated: true },
+          { metadata: { path: '$.status', equals: 'escalated' } },
+        ],
+      }),
+      select: {
+        id: true,
+        leadId: true,
+        metadata: true,
+        escalatedAt: true,
+      },
+    });
+
+    return conversations.filter(
+      (conversation) => this.metadataOf(conversation).status !== 'closed',
+    );
+  }
+
+  private async reassignConversations(
+    tx: Prisma.TransactionClient,
+    fromUserId: string,
+    conversationIds: string[],
+    toUserId: string | null,
+  ) {
+    const conversations = await tx.aIConversation.findMany({
+      where: { id: { in: conversationIds }, userId: fromUserId },
+      select: { id: true, metadata: true },
+    });
+
+    for (const conversation of conversations) {
+      const metadata = { ...this.metadataOf(conversation) };
+      if (toUserId) {
+        metadata.assignedAgentId = toUserId;
+      } else {
+        delete metadata.assignedAgentId;
+      }
+
+      await tx.aIConversation.update({
+        where: { id: conversation.id },
+        data: { userId: toUserId, metadata: metadata as Prisma.InputJsonValue },
+      });
+    }
+  }
+
+  /**
+   * Active users of the tenant the items go to, never the departing user
+   */
+  private async resolveRecipients(
+    userId: string,
+    transferDto: TransferOwnershipDto,
+  ) {
+    const ids =
+      transferDto.strategy === HandoverStrategy.USER
+        ? [transferDto.toUserId]
+        : transferDto.userIds;
+
+    if (ids?.includes(userId)) {
+      throw new BadRequestException(
+        'Items cannot be handed over to the user being offboarded',
+      );
+    }
+
+    const recipients = await this.prisma.user.findMany({
+      where: this.prisma.addTenantFilter({
+        isActive: true,
+        ...(ids
+          ? { id: { in: ids } }
+          : { role: UserRole.AGENT, id: { not: userId } }),
+      }),
+      select: { id: true, firstName: true, lastName: true, email: true },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+
+    if (ids && recipients.length !== new Set(ids).size) {
+      throw new BadRequestException(
+        'Every new owner must be an active user of this organization',
+      );
+    }
+    if (recipients.length === 0) {
+      throw new BadRequestException(
+        'There are no other active agents to hand over to',
+      );
+    }
+
+    return recipients;
+  }
+
+  private async notifyRecipients(
+    user: { id: string; firstName: string; lastName: string },
+    recipients: Array<{ id: string }>,
+    plan: Record<OwnedItemType, Map<string, string[]>>,
+    currentUser: any,
+  ) {
+    for (const recipient of recipients) {
+      const received = this.countPlan(plan, recipient.id);
+      if (this.total(received) === 0) continue;
+
+      try {
+        await this.notificationsService.create({
+          userId: recipient.id,
+          type: 'OWNERSHIP_TRANSFERRED',
+          title: 'Work Handed Over To You',
+          message: `You have taken over ${this.describe(received)} from ${user.firstName} ${user.lastName}`,
+          metadata: {
+            fromUserId: user.id,
+            leadIds: plan.LEADS.get(recipient.id) ?? [],
+            taskIds: plan.TASKS.get(recipient.id) ?? [],
+            ticketIds: plan.TICKETS.get(recipient.id) ?? [],
+            conversationIds: plan.CONVERSATIONS.get(recipient.id) ?? [],
+            transferredById: currentUser.id,
+          },
+        });
+      } catch (error) {
+        this.logger.error(
+          `Failed to notify ${recipient.id} of a handover: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findFirst({
+      where: this.prisma.addTenantFilter({ id: userId }),
+      select: { ...USER_SUMMARY_SELECT, tenantId: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private groupBy(
+    items: OwnedItem[],
+    ownerOf: (item: OwnedItem) => string,
+  ): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const item of items) {
+      const owner = ownerOf(item);
+      const ids = groups.get(owner);
+      if (ids) {
+        ids.push(item.id);
+      } else {
+        groups.set(owner, [item.id]);
+      }
+    }
+    return groups;
+  }
+
+  private countPlan(
+    plan: Record<OwnedItemType, Map<string, string[]>>,
+    recipientId?: string,
+  ): OwnedCounts {
+    const count = (groups: Map<string, string[]>) =>
+      recipientId
+        ? (groups.get(recipientId)?.length ?? 0)
+        : [...groups.values()].reduce((sum, ids) => sum + ids.length, 0);
+
+    return {
+      LEADS: count(plan.LEADS),
+      TASKS: count(plan.TASKS),
+      TICKETS: count(plan.TICKETS),
+      CONVERSATIONS: count(plan.CONVERSATIONS),
+    };
+  }
+
+  private total(counts: OwnedCounts): number {
+    return Object.values(counts).reduce((sum, count) => sum + count, 0);
+  }
+
+  private describe(counts: OwnedCounts): string {
+    const labels: Record<OwnedItemType, [string, string]> = {
+      LEADS: ['lead', 'leads'],
+      TASKS: ['open task', 'open tasks'],
+      TICKETS: ['open ticket', 'open tickets'],
+      CONVERSATIONS: ['escalated conversation', 'escalated conversations'],
+    };
+
+    const parts = Object.values(OwnedItemType)
+      .filter((type) => counts[type] > 0)
+      .map(
+        (type) => `${counts[type]} ${labels[type][counts[type] === 1 ? 0 : 1]}`,
+      );
+
+    return parts.length > 0 ? parts.join(', ') : 'nothing';
+  }
+
+  private metadataOf(conversation: {
+    metadata: Prisma.JsonValue;
+  }): Record<string, any> {
+    return (conversation.metadata ?? {}) as Record<string, any>;
+  }
+}
@@ -21,9 +21,15 @@ import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UserQueryDto } from './dto/user-query.dto';
+import {
+  ReleaseOwnershipDto,
+  TransferOwnershipDto,
+} from './dto/user-handover.dto';
+import { UserOffboardingService } from './user-offboarding.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { UserRole } from '@prisma/client';
 import { TenantContextInterceptor } from '../common/interceptors/tenant-context.interceptor';
 
@@ -33,7 +39,10 @@ import { TenantContextInterceptor } from '../common/interceptors/tenant-context.
 @UseInterceptors(TenantContextInterceptor)
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly offboardingService: UserOffboardingService,
+  ) {}
 
   @Post()
   @Roles(UserRole.ADMIN, UserRole.MANAGER)
@@ -83,10 +92,60 @@ export class UsersController {
     return this.usersService.update(id, updateUserDto);
   }
 
+  @Get(':id/offboarding')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Preview the leads, tasks, tickets and conversations a user owns',
+  })
+  @ApiResponse({ status: 200, description: 'Owned items retrieved' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  previewOffboarding(@Param('id') id: string) {
+    return this.offboardingService.preview(id);
+  }
+
+  @Post(':id/offboarding/transfer')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Hand over what a user owns to one user or round-robin',
+    description:
+      "A lead's tasks, tickets and conversations go to the lead's new owner",
+  })
+  @ApiResponse({ status: 201, description: 'Ownership transferred' })
+  @ApiResponse({ status: 400, description: 'Invalid new owners' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  transferOwnership(
+    @Param('id') id: string,
+    @Body() transferDto: TransferOwnershipDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.offboardingService.transfer(id, transferDto, user);
+  }
+
+  @Post(':id/offboarding/release')
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({
+    summary: 'Release what a user owns without a new owner',
+    description:
+      'Leads, tickets and conversations are unassigned; open tasks are cancelled',
+  })
+  @ApiResponse({ status: 201, description: 'Ownership released' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  releaseOwnership(
+    @Param('id') id: string,
+    @Body() releaseDto: ReleaseOwnershipDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.offboardingService.release(id, releaseDto, user);
+  }
+
   @Delete(':id')
   @Roles(UserRole.ADMIN)
   @ApiOperation({ summary: 'Deactivate user' })
   @ApiResponse({ status: 200, description: 'User deactivated successfully' })
+  @ApiResponse({
+    status: 409,
+    description: 'User still owns leads, tasks, tickets or conversations',
+  })
   @ApiResponse({ status: 404, description: 'User not found' })
   remove(@Param('id') id: string) {
     return this.usersService.remove(id);
@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { UserOffboardingService } from './user-offboarding.service';
 import { PrismaService } from '../common/services/prisma.service';
+import { LeadsModule } from '../leads/leads.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
+  imports: [LeadsModule, NotificationsModule],
   controllers: [UsersController],
-  providers: [UsersService, PrismaService],
+  providers: [UsersService, UserOffboardingService, PrismaService],
   exports: [UsersService],
 })
 export class UsersModule {}
\ No newline at end of file
@@ -11,10 +11,14 @@ import { UpdateUserDto } from './dto/update-user.dto';
 import { UserQueryDto } from './dto/user-query.dto';
 import { PaginationResult } from '../common/dto/pagination.dto';
 import { getTenantContext } from '../common/context/tenant-context';
+import { UserOffboardingService } from './user-offboarding.service';
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private offboardingService: UserOffboardingService,
+  ) {}
 
   async create(createUserDto: CreateUserDto) {
     const context = getTenantContext();
@@ -180,6 +184,10 @@ export class UsersService {
       }
     }
 
+    if (updateUserDto.isActive === false && existingUser.isActive) {
+      await this.offboardingService.assertNothingOwned(id);
+    }
+
     const updateData: any = { ...updateUserDto };
 
     if (updateUserDto.password) {
@@ -212,6 +220,9 @@ export class UsersService {
       throw new NotFoundException('User not found');
     }
 
+    // Leads, tasks, tickets and conversations must have been handed over
+    await this.offboardingService.assertNothingOwned(id);
+
     return this.prisma.user.update({
       where: { id },
       data: { isActive: false },
@@ -10,12 +10,16 @@ import {
   CreateAutomationRuleDto,
   UpdateAutomationRuleDto,
 } from './dto/automation-rule.dto';
+import { TagsService } from '../tags/tags.service';
 
 @Injectable()
 export class AutomationRuleService {
   private readonly logger = new Logger(AutomationRuleService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private tagsService: TagsService,
+  ) {}
 
   /**
    * Create a new automation rule
@@ -59,6 +63,14 @@ export class AutomationRuleService {
       }
     }
 
+    // Lead tag conditions must reference this tenant's tags
+    if (createRuleDto.triggerConditions?.leadTags !== undefined) {
+      await this.tagsService.validateFilter(
+        createRuleDto.triggerConditions.leadTags,
+        'triggerConditions.leadTags',
+      );
+    }
+
     const rule = await this.prisma.whatsAppAutomationRule.create({
       data: {
         tenantId,
@@ -247,6 +259,13 @@ export class AutomationRuleService {
       }
     }
 
+    if (updateRuleDto.triggerConditions?.leadTags !== undefined) {
+      await this.tagsService.validateFilter(
+        updateRuleDto.triggerConditions.leadTags,
+        'triggerConditions.leadTags',
+      );
+    }
+
     const updatedRule = await this.prisma.whatsAppAutomationRule.update({
       where: { id: ruleId },
       data: {
@@ -3,6 +3,9 @@ import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../common/services/prisma.service';
 import { WhatsAppService } from './whatsapp.service';
 import { AutomationTriggerType, SendingFrequency } from './enums/automation.enums';
+import { TagsService } from '../tags/tags.service';
+import { MarketingConsentService } from '../marketing-consent/marketing-consent.service';
+import { MarketingChannel } from '../marketing-consent/enums/marketing-consent.enums';
 
 /**
  * AutomationScheduler - Handles automated template sending based on triggers
@@ -13,6 +16,8 @@ import { AutomationTriggerType, SendingFrequency } from './enums/automation.enum
  * 3. Respects sending frequency limits (ONCE, EVERY_WINDOW, etc.)
  * 4. Honors working hours and active days
  * 5. Logs all automation executions for audit trail
+ * 6. Only targets leads matching the rule's tag conditions, if any
+ * 7. Skips numbers without marketing consent or on the suppression list
  */
 @Injectable()
 export class AutomationSchedulerService {
@@ -21,6 +26,8 @@ export class AutomationSchedulerService {
   constructor(
     private prisma: PrismaService,
     private whatsappService: WhatsAppService,
+    private tagsService: TagsService,
+    private marketingConsentService: MarketingConsentService,
   ) {}
 
   /**
@@ -108,6 +115,8 @@ export class AutomationSchedulerService {
       where: {
         tenantId: rule.tenantId,
         platform: 'WHATSAPP',
+        // Leads in the recycle bin get no automated messages
+        lead: { deletedAt: null },
         updatedAt: {
           gte: new Date(windowExpiryTime.getTime() - 30 * 60 * 1000), // 30 min before
           lte: new Date(windowExpiryTime.getTime() + 30 * 60 * 1000), // 30 min after
@@ -139,6 +148,10 @@ export class AutomationSchedulerService {
       }
 
       try {
+        if (!(await this.matchesLeadConditions(rule, message.leadId))) {
+          continue;
+        }
+
         // Use conversationId or leadId as the conversation identifier
         const conversationId = message.conversationId || message.leadId;
 
@@ -226,6 +239,7 @@ export class AutomationSchedulerService {
         const conversation = await this.prisma.aIConversation.findFirst({
           where: {
             id: assignment.conversationId,
+            lead: { deletedAt: null },
           },
           include: {
             lead: {
@@ -244,6 +258,10 @@ export class AutomationSchedulerService {
           continue;
         }
 
+        if (!(await this.matchesLeadConditions(rule, conversation.lead.id))) {
+          continue;
+        }
+
         // Send the template
         await this.sendAutomatedTemplate(
           rule,
@@ -275,6 +293,7 @@ export class AutomationSchedulerService {
     const conversations = await this.prisma.aIConversation.findMany({
       where: {
         tenantId: rule.tenantId,
+        lead: { deletedAt: null },
         createdAt: {
           gte: new Date(targetTime.getTime() - 15 * 60 * 1000), // 15 min buffer
           lte: new Date(targetTime.getTime() + 15 * 60 * 1000),
@@ -300,6 +319,10 @@ export class AutomationSchedulerService {
       }
 
       try {
+        if (!(await this.matchesLeadConditions(rule, conversation.lead.id))) {
+          continue;
+        }
+
         // Check if we already processed this conversation
         const shouldSend = await this.checkSendingFrequency(
           rule,
@@ -321,6 +344,27 @@ export class AutomationSchedulerService {
     }
   }
 
+  /**
+   * Check the rule's lead tag conditions (triggerConditions.leadTags)
+   */
+  private async matchesLeadConditions(
+    rule: any,
+    leadId: string | null,
+  ): Promise<boolean> {
+    const triggerConditions = rule.triggerConditions
+      ? JSON.parse(rule.triggerConditions)
+      : {};
+
+    if (!triggerConditions.leadTags) {
+      return true; // No restriction
+    }
+    if (!leadId) {
+      return false;
+    }
+
+    return this.tagsService.matchesLead(leadId, triggerConditions.leadTags);
+  }
+
   /**
    * Send automated template message
    */
@@ -332,6 +376,16 @@ export class AutomationSchedulerService {
       return;
     }
 
+    const skipReason = await this.marketingConsentService.getAddressSkipReason(
+      rule.tenantId,
+      MarketingChannel.WHATSAPP,
+      phone,
+    );
+    if (skipReason) {
+      await this.logSkippedTemplate(rule, conversationId, phone, skipReason);
+      return;
+    }
+
     try {
       // Parse template parameters
       const templateParams = rule.templateParams
@@ -387,6 +441,45 @@ export class AutomationSchedulerService {
     }
   }
 
+  /**
+   * Log a send left out by the consent checks, once a day per conversation
+   * since triggers match the same conversation on several runs
+   */
+  private async logSkippedTemplate(
+    rule: any,
+    conversationId: string,
+    phone: string,
+    skipReason: string,
+  ) {
+    const alreadyLogged = await this.prisma.whatsAppAutomationLog.findFirst({
+      where: {
+        ruleId: rule.id,
+        conversationId,
+        status: 'SKIPPED',
+        executedAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+      },
+    });
+    if (alreadyLogged) {
+      return;
+    }
+
+    await this.prisma.whatsAppAutomationLog.create({
+      data: {
+        tenantId: rule.tenantId,
+        ruleId: rule.id,
+        conversationId,
+        phoneNumber: phone,
+        success: false,
+        status: 'SKIPPED',
+        errorMessage: skipReason,
+      },
+    });
+
+    this.logger.log(
+      `⏭️ Skipped automated template to ${phone} (Rule: ${rule.name}): ${skipReason}`,
+    );
+  }
+
   /**
    * Check if we should send based on sending frequency
    */
@@ -2,7 +2,14 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { PrismaService } from '../common/services/prisma.service';
 import { WhatsAppService } from './whatsapp.service';
-import { CampaignStatus, SendingSpeed, MessageStatus } from './enums/automation.enums';
+import {
+  CampaignStatus,
+  CampaignTargetType,
+  MessageStatus,
+} from './enums/automation.enums';
+import { TagsService } from '../tags/tags.service';
+import { MarketingConsentService } from '../marketing-consent/marketing-consent.service';
+import { MarketingChannel } from '../marketing-consent/enums/marketing-consent.enums';
 
 /**
  * CampaignScheduler - Handles automated campaign message sending
@@ -13,6 +20,9 @@ import { CampaignStatus, SendingSpeed, MessageStatus } from './enums/automation.
  * 3. Honors working hours if configured
  * 4. Updates campaign statistics in real-time
  * 5. Handles failures gracefully
+ * 6. Resolves lead audiences, narrowed by tag filters, when a campaign starts
+ * 7. Skips numbers without marketing consent or on the suppression list,
+ *    checked at send time so a STOP mid-campaign is honored
  */
 @Injectable()
 export class CampaignSchedulerService {
@@ -29,6 +39,8 @@ export class CampaignSchedulerService {
   constructor(
     private prisma: PrismaService,
     private whatsappService: WhatsAppService,
+    private tagsService: TagsService,
+    private marketingConsentService: MarketingConsentService,
   ) {}
 
   /**
@@ -100,7 +112,7 @@ export class CampaignSchedulerService {
 
       if (pendingMessages.length === 0) {
         // No more messages, mark campaign as completed
-        if (campaign.sentCount >= campaign.totalContacts) {
+        if (campaign.sentCount + campaign.skippedCount >= campaign.totalContacts) {
           await this.prisma.whatsAppCampaign.update({
             where: { id: campaign.id },
             data: {
@@ -119,9 +131,9 @@ export class CampaignSchedulerService {
       // Send messages one by one with delay
       for (const message of pendingMessages) {
         try {
-          await this.sendCampaignMessage(campaign, message);
+          const sent = await this.sendCampaignMessage(campaign, message);
           // Wait for the specified delay before next message
-          await this.sleep(delay);
+          if (sent) await this.sleep(delay);
         } catch (error) {
           this.logger.error(
             `Failed to send message ${message.id}:`,
@@ -135,9 +147,30 @@ export class CampaignSchedulerService {
   }
 
   /**
-   * Send a single campaign message
+   * Send a single campaign message. Returns false when it was skipped.
    */
-  private async sendCampaignMessage(campaign: any, message: any) {
+  private async sendCampaignMessage(campaign: any, message: any): Promise<boolean> {
+    const skipReason = await this.marketingConsentService.getAddressSkipReason(
+      campaign.tenantId,
+      MarketingChannel.WHATSAPP,
+      message.phoneNumber,
+    );
+    if (skipReason) {
+      await this.prisma.whatsAppCampaignMessage.update({
+        where: { id: message.id },
+        data: { status: MessageStatus.SKIPPED, errorMessage: skipReason },
+      });
+      await this.prisma.whatsAppCampaign.update({
+        where: { id: campaign.id },
+        data: { skippedCount: { increment: 1 } },
+      });
+
+      this.logger.log(
+        `⏭️ Skipped campaign message to ${message.phoneNumber}: ${skipReason}`,
+      );
+      return false;
+    }
+
     try {
       // Parse template parameters
       const templateParams = campaign.templateParams
@@ -174,6 +207,7 @@ export class CampaignSchedulerService {
         this.logger.log(
           `✅ Sent campaign message to ${message.phoneNumber} (Campaign: ${campaign.name})`,
         );
+        return true;
       } else {
         throw new Error('Failed to send message');
       }
@@ -270,10 +304,7 @@ export class CampaignSchedulerService {
         throw new Error('Campaign not found');
       }
 
-      // Parse contacts list
-      const contactsList = campaign.contactsList
-        ? JSON.parse(campaign.contactsList)
-        : [];
+      const contactsList = await this.resolveContacts(campaign);
 
       if (contactsList.length === 0) {
         this.logger.warn(`Campaign ${campaignId} has no contacts`);
@@ -281,10 +312,11 @@ export class CampaignSchedulerService {
       }
 
       // Create campaign messages for all contacts
-      const messages = contactsList.map((phone: string) => ({
+      const messages = contactsList.map((contact) => ({
         campaignId: campaign.id,
         tenantId: campaign.tenantId,
-        phoneNumber: phone,
+        phoneNumber: contact.phone,
+        contactName: contact.name,
         status: MessageStatus.PENDING,
       }));
 
@@ -298,6 +330,7 @@ export class CampaignSchedulerService {
         data: {
           status: CampaignStatus.RUNNING,
           startedAt: new Date(),
+          totalContacts: contactsList.length,
         },
       });
 
@@ -310,6 +343,55 @@ export class CampaignSchedulerService {
     }
   }
 
+  /**
+   * Contacts a campaign is sent to. Uploaded lists are used as given; lead
+   * audiences are narrowed by targetFilters.tags
+   */
+  private async resolveContacts(
+    campaign: any,
+  ): Promise<{ phone: string; name?: string }[]> {
+    if (
+      campaign.targetType === CampaignTargetType.SPECIFIC_CONTACTS ||
+      campaign.targetType === CampaignTargetType.CSV_UPLOAD
+    ) {
+      const contactsList: string[] = campaign.contactsList
+        ? JSON.parse(campaign.contactsList)
+        : [];
+      return contactsList.map((phone) => ({ phone }));
+    }
+
+    const targetFilters = campaign.targetFilters
+      ? JSON.parse(campaign.targetFilters)
+      : {};
+
+    const leads = await this.prisma.lead.findMany({
+      where: {
+        tenantId: campaign.tenantId,
+        phone: { not: null },
+        ...(campaign.targetType === CampaignTargetType.CONTACT_GROUP && {
+          contactGroups: { some: { contactGroupId: campaign.targetGroupId } },
+        }),
+        AND: targetFilters.tags
+          ? this.tagsService.buildLeadFilter(targetFilters.tags)
+          : [],
+      },
+      select: { phone: true, firstName: true, lastName: true },
+    });
+
+    // One message per phone number, even when leads share one
+    const contacts = new Map<string, { phone: string; name?: string }>();
+    for (const lead of leads) {
+      if (!contacts.has(lead.phone)) {
+        contacts.set(lead.phone, {
+          phone: lead.phone,
+          name: `${lead.firstName} ${lead.lastName}`,
+        });
+      }
+    }
+
+    return [...contacts.values()];
+  }
+
   /**
    * Update campaign statistics based on message statuses
    * Called periodically or via webhook
@@ -9,6 +9,7 @@ import { getTenantContext } from '../common/context/tenant-context';
 import { CreateCampaignDto, UpdateCampaignDto } from './dto/campaign.dto';
 import { CampaignStatus } from './enums/automation.enums';
 import { CampaignSchedulerService } from './campaign-scheduler.service';
+import { TagsService } from '../tags/tags.service';
 import { forwardRef, Inject } from '@nestjs/common';
 
 @Injectable()
@@ -19,6 +20,7 @@ export class CampaignService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => CampaignSchedulerService))
     private campaignScheduler: CampaignSchedulerService,
+    private tagsService: TagsService,
   ) {}
 
   /**
@@ -70,6 +72,23 @@ export class CampaignService {
       );
     }
 
+    if (
+      createCampaignDto.targetType === 'CUSTOM_FILTER' &&
+      !createCampaignDto.targetFilters?.tags
+    ) {
+      throw new BadRequestException(
+        'targetFilters.tags is required when targetType is CUSTOM_FILTER',
+      );
+    }
+
+    // Lead tag filters must reference this tenant's tags
+    if (createCampaignDto.targetFilters?.tags !== undefined) {
+      await this.tagsService.validateFilter(
+        createCampaignDto.targetFilters.tags,
+        'targetFilters.tags',
+      );
+    }
+
     // Validate working hours
     if (
       createCampaignDto.respectWorkingHours &&
@@ -109,6 +128,16 @@ export class CampaignService {
 
       // TODO: Calculate actual contact count when contact relations are defined
       totalContacts = 0;
+    } else if (createCampaignDto.targetType === 'CUSTOM_FILTER') {
+      totalContacts = await this.prisma.lead.count({
+        where: {
+          tenantId,
+          phone: { not: null },
+          AND: this.tagsService.buildLeadFilter(
+            createCampaignDto.targetFilters.tags,
+          ),
+        },
+      });
     }
 
     const campaign = await this.prisma.whatsAppCampaign.create({
@@ -283,6 +312,13 @@ export class CampaignService {
       }
     }
 
+    if (updateCampaignDto.targetFilters?.tags !== undefined) {
+      await this.tagsService.validateFilter(
+        updateCampaignDto.targetFilters.tags,
+        'targetFilters.tags',
+      );
+    }
+
     const updatedCampaign = await this.prisma.whatsAppCampaign.update({
       where: { id: campaignId },
       data: {
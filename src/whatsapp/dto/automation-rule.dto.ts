@@ -29,7 +29,7 @@ export class CreateAutomationRuleDto {
 
   @IsOptional()
   @IsObject()
-  triggerConditions?: Record<string, any>;
+  triggerConditions?: Record<string, any>; // e.g. { labelId }, { delayMinutes }, { leadTags: { any, all, none } }
 
   @IsString()
   templateId: string;
@@ -86,7 +86,7 @@ export class UpdateAutomationRuleDto {
 
   @IsOptional()
   @IsObject()
-  triggerConditions?: Record<string, any>;
+  triggerConditions?: Record<string, any>; // e.g. { labelId }, { delayMinutes }, { leadTags: { any, all, none } }
 
   @IsOptional()
   @IsString()
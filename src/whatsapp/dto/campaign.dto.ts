@@ -36,7 +36,7 @@ export class CreateCampaignDto {
 
   @IsOptional()
   @IsObject()
-  targetFilters?: Record<string, any>;
+  targetFilters?: Record<string, any>; // e.g. { tags: { any, all, none } }
 
   @IsOptional()
   @IsArray()
@@ -95,7 +95,7 @@ export class UpdateCampaignDto {
 
   @IsOptional()
   @IsObject()
-  targetFilters?: Record<string, any>;
+  targetFilters?: Record<string, any>; // e.g. { tags: { any, all, none } }
 
   @IsOptional()
   @IsArray()
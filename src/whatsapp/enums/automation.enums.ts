@@ -46,4 +46,5 @@ export enum MessageStatus {
   DELIVERED = 'DELIVERED',
   READ = 'READ',
   FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED', // No marketing consent or suppressed
 }
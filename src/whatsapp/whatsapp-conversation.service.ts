@@ -4,6 +4,10 @@ import { getTenantContext } from '../common/context/tenant-context';
 import { WhatsAppService, WhatsAppMessage, WhatsAppContact } from './whatsapp.service';
 import { OpenAIService } from '../ai/openai.service';
 import { AIService } from '../ai/ai.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { LeadsService } from '../leads/leads.service';
+import { MarketingConsentService } from '../marketing-consent/marketing-consent.service';
 import { LeadSource, LeadStatus, InsuranceType } from '@prisma/client';
 
 export interface WhatsAppConversation {
@@ -39,6 +43,10 @@ export class WhatsAppConversationService {
     private whatsappService: WhatsAppService,
     private openaiService: OpenAIService,
     private aiService: AIService,
+    private stageHistoryService: LeadStageHistoryService,
+    private leadScoringService: LeadScoringService,
+    private leadsService: LeadsService,
+    private marketingConsentService: MarketingConsentService,
   ) {}
 
   async processIncomingMessage(
@@ -65,15 +73,40 @@ export class WhatsAppConversationService {
       (conversation as any).tenantId = tenantId || getTenantContext()?.tenantId;
 
       // Save incoming message
-      await this.saveMessage({
-        conversationId: conversation.id,
-        messageId: message.id,
-        content: message.text?.body || '',
-        direction: 'inbound',
-        messageType: message.type,
-        isFromAI: false,
-        timestamp: new Date(parseInt(message.timestamp) * 1000),
-      });
+      await this.saveMessage(
+        {
+          conversationId: conversation.id,
+          messageId: message.id,
+          content: message.text?.body || '',
+          direction: 'inbound',
+          messageType: message.type,
+          isFromAI: false,
+          timestamp: new Date(parseInt(message.timestamp) * 1000),
+        },
+        conversation.leadId,
+      );
+      await this.leadScoringService.rescoreLead(conversation.leadId, 'WhatsApp reply');
+
+      // STOP/START change marketing consent and are answered with a
+      // confirmation instead of an AI reply
+      if (messageTenantId) {
+        const keyword = await this.marketingConsentService.captureWhatsAppKeyword(
+          messageTenantId,
+          message.from,
+          message.text?.body,
+          conversation.leadId,
+        );
+        if (keyword) {
+          await this.whatsappService.sendMessage(
+            message.from,
+            keyword === 'STOP'
+              ? 'You have been unsubscribed from marketing messages. Reply START to subscribe again.'
+              : 'You are subscribed to marketing messages again. Reply STOP to unsubscribe.',
+            messageTenantId,
+          );
+          return;
+        }
+      }
 
       // Check if conversation is escalated
       this.logger.log(`📊 Conversation ${conversation.id} status: ${conversation.status}`);
@@ -351,6 +384,7 @@ export class WhatsAppConversationService {
         phoneNumber,
         customerName,
         status: 'active',
+        leadId: lead.id,
         createdAt: conversation.createdAt,
         updatedAt: conversation.createdAt,
         messages: [],
@@ -361,7 +395,10 @@ export class WhatsAppConversationService {
     }
   }
 
-  private async saveMessage(messageData: Omit<WhatsAppConversationMessage, 'id'>): Promise<void> {
+  private async saveMessage(
+    messageData: Omit<WhatsAppConversationMessage, 'id'>,
+    leadId?: string,
+  ): Promise<void> {
     try {
       // CRITICAL: Get tenant context for security
       const context = getTenantContext();
@@ -383,6 +420,7 @@ export class WhatsAppConversationService {
           platform: 'WHATSAPP',
           platformMessageId: messageData.messageId,
           conversationId: messageData.conversationId,
+          leadId,
           tenantId, // CRITICAL: Add tenant isolation
           metadata: {
             direction: messageData.direction,
@@ -512,6 +550,16 @@ export class WhatsAppConversationService {
         },
       });
 
+      await this.stageHistoryService.recordTransition({
+        leadId: newLead.id,
+        tenantId,
+        toStatus: newLead.status,
+        note: 'Auto-created from WhatsApp conversation',
+        source: 'WHATSAPP',
+      });
+
+      await this.leadsService.routeInboundLead(newLead.id);
+
       this.logger.log(`Created new lead ${newLead.id} for WhatsApp phone: ${phoneNumber}`);
       return newLead;
 
@@ -20,12 +20,25 @@ import { CampaignSchedulerService } from './campaign-scheduler.service';
 import { OpenAIService } from '../ai/openai.service';
 import { AIService } from '../ai/ai.service';
 import { WidgetAuthService } from '../ai/widget-auth.service';
+import { LeadStageHistoryService } from '../leads/lead-stage-history.service';
 import { PrismaService } from '../common/services/prisma.service';
 import { EncryptionService } from '../common/services/encryption.service';
 import { SettingsModule } from '../settings/settings.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { LeadsModule } from '../leads/leads.module';
+import { TagsModule } from '../tags/tags.module';
+import { MarketingConsentModule } from '../marketing-consent/marketing-consent.module';
 
 @Module({
-  imports: [ConfigModule, ScheduleModule, SettingsModule],
+  imports: [
+    ConfigModule,
+    ScheduleModule,
+    SettingsModule,
+    LeadScoringModule,
+    LeadsModule,
+    TagsModule,
+    MarketingConsentModule,
+  ],
   controllers: [
     WhatsAppController,
     WhatsAppTemplateController,
@@ -48,6 +61,7 @@ import { SettingsModule } from '../settings/settings.module';
     OpenAIService,
     AIService,
     WidgetAuthService,
+    LeadStageHistoryService,
     PrismaService,
     EncryptionService,
   ],